@@ -116,7 +116,7 @@ async function main() {
       closeSide,
       sizeAbs,
       limitPrice,
-      { reduceOnly: true, postOnly: false }
+      { reduceOnly: true }
     );
     
     console.log(`   ✅ Nado close order placed: ${result.orderId}`);
@@ -6,6 +6,8 @@
  * - True limit orders (type=0) are rejected by Lighter's "accidental price" protection
  * - For "limit-like" behavior, use market orders with a specific max price
  * - This is a limitation of Lighter's API validation for type=0 orders
+ * - Used by the standalone scripts. The bot signs through src/exchanges/lighter-client.ts,
+ *   which caches nonces and serializes transactions - this module fetches a nonce per order
  */
 
 const ffi = require('ffi-napi');
@@ -22,6 +24,63 @@ const SignedTxResponse = Struct({
   'err': ref.types.CString,
 });
 
+const StrOrErr = Struct({
+  'str': ref.types.CString,
+  'err': ref.types.CString,
+});
+
+// BTC-PERP increments, for callers that don't pass the market's own
+const BTC_INCREMENTS = { tickSize: 0.1, lotSize: 0.00001 };
+
+// Auth tokens are valid for up to 8 hours; refresh well before that
+const AUTH_TOKEN_TTL_SECONDS = 3600;
+
+// Signer time_in_force values
+const TIF_IOC = 0;
+const TIF_GTT = 1;
+const TIF_POST_ONLY = 2;
+
+// Signer expiry values: IOC orders take 0, -1 is the venue's default lifetime (28 days)
+const IOC_EXPIRY = 0;
+const DEFAULT_EXPIRY = -1;
+
+// Client order indexes are 48-bit
+const MAX_CLIENT_ORDER_INDEX = 2 ** 48 - 1;
+
+/**
+ * Signer time_in_force and expiry for an order's time-in-force
+ * ('gtc', 'ioc', 'post_only' or 'gtt' - gtt needs expiresAt, ms)
+ */
+function orderTiming(timeInForce, expiresAt) {
+  switch (timeInForce) {
+    case 'ioc':
+      return { tif: TIF_IOC, expiry: IOC_EXPIRY };
+    case 'post_only':
+      return { tif: TIF_POST_ONLY, expiry: expiresAt ?? DEFAULT_EXPIRY };
+    case 'gtt':
+      if (!expiresAt) {
+        throw new Error('gtt orders need expiresAt');
+      }
+      return { tif: TIF_GTT, expiry: expiresAt };
+    case 'gtc':
+    case undefined:
+      return { tif: TIF_GTT, expiry: expiresAt ?? DEFAULT_EXPIRY };
+    default:
+      throw new Error(`Unsupported time in force: ${timeInForce}`);
+  }
+}
+
+function clientOrderIndexFor(clientOrderId) {
+  if (clientOrderId === undefined) {
+    return Math.floor(Math.random() * 1000000);
+  }
+  const index = Number(clientOrderId);
+  if (!Number.isInteger(index) || index < 0 || index > MAX_CLIENT_ORDER_INDEX) {
+    throw new Error(`Invalid client order index: ${clientOrderId}`);
+  }
+  return index;
+}
+
 class LighterOrderClient {
   constructor(config) {
     this.apiPrivateKey = config.apiPrivateKey;
@@ -52,7 +111,22 @@ class LighterOrderClient {
         'int',    // api_key_index
         'int64',  // account_index
       ]],
+      'SignCancelOrder': [SignedTxResponse, [
+        'int',    // market_index
+        'int64',  // order_index
+        'int64',  // nonce
+        'int',    // api_key_index
+        'int64',  // account_index
+      ]],
+      'CreateAuthToken': [StrOrErr, [
+        'int64',  // deadline (unix seconds)
+        'int',    // api_key_index
+        'int64',  // account_index
+      ]],
     });
+    
+    this.authToken = null;
+    this.authTokenExpiry = 0;
   }
 
   async initialize() {
@@ -76,18 +150,15 @@ class LighterOrderClient {
     return true;
   }
 
-  async placeMarketOrder(marketId, side, sizeInBtc) {
+  /**
+   * Place a market order as an aggressive limit crossing the book
+   * 
+   * @param {{timeInForce?: string, reduceOnly?: boolean, clientOrderId?: string}} options -
+   *   timeInForce defaults to 'ioc': whatever doesn't fill right away is cancelled
+   */
+  async placeMarketOrder(marketId, side, sizeInBtc, increments = BTC_INCREMENTS, options = {}) {
     // CHANGED: Use aggressive LIMIT order instead of MARKET
     // Lighter's market orders don't work reliably, but limits with 0% fee work great!
-    // Get nonce
-    const nonceResponse = await axios.get(`${this.baseUrl}/api/v1/nextNonce`, {
-      params: {
-        account_index: this.accountIndex,
-        api_key_index: this.apiKeyIndex
-      }
-    });
-    const nonce = nonceResponse.data.nonce;
-    
     // Get market price
     const orderbookResponse = await axios.get(`${this.baseUrl}/api/v1/orderBookOrders`, {
       params: {
@@ -105,71 +176,10 @@ class LighterOrderClient {
     const aggressiveFactor = side === 'buy' ? 1.001 : 0.999; // 0.1% aggressive for guaranteed fills
     const targetPriceUSD = side === 'buy' ? askPrice * aggressiveFactor : bidPrice * aggressiveFactor;
     
-    // Sign order - CORRECTED UNITS (from Lighter admin):
-    // BTC-PERP has base_decimals=4 and price_decimals=1
-    // baseAmount: 1 unit = 0.0001 BTC (10^-4)
-    // price: 1 unit = $0.1 (10^-1) ← CORRECTED!
-    const clientOrderIndex = Math.floor(Math.random() * 1000000);
-    
-    // Unit conversions for BTC-PERP (from API /orderBookDetails):
-    // size_decimals: 5 → baseAmount = BTC / 0.00001
-    // For 0.1 BTC: 0.1 / 0.00001 = 10,000
-    const baseAmount = Math.floor(sizeInBtc / 0.00001); // CORRECTED: size_decimals is 5, not 4!
-    
-    // price_decimals: 1 → price = USD / 0.1
-    // For $92,358: 92358 / 0.1 = 923,580
-    const price = Math.floor(targetPriceUSD / 0.1);
-    
-    const signedTx = this.signer.SignCreateOrder(
-      marketId,
-      clientOrderIndex,
-      baseAmount, // NUMBER for int64
-      price,
-      side === 'sell' ? 1 : 0,
-      0, // LIMIT order type (type 0 = true limit)
-      1, // GTT (Good Till Time) - stays on book to ensure fill
-      0, // not reduce-only
-      0, // no trigger
-      -1, // expiry: -1 for GTT (no specific expiry, relies on TIF)
-      nonce,
-      this.apiKeyIndex,
-      this.accountIndex // NUMBER for int64
-    );
-    
-    if (signedTx.err) {
-      throw new Error(`Signing failed: ${signedTx.err}`);
-    }
-    
-    // DEBUG: Log the txInfo to see what we're actually sending
-    const txInfo = JSON.parse(signedTx.txInfo);
-    console.log('📝 DEBUG txInfo:');
-    console.log(`   BaseAmount: ${txInfo.BaseAmount}`);
-    console.log(`   Price: ${txInfo.Price}`);
-    console.log(`   Type: ${txInfo.Type}`);
-    console.log(`   TimeInForce: ${txInfo.TimeInForce}`);
-    
-    // Send transaction
-    const params = new URLSearchParams();
-    params.append('tx_type', signedTx.txType.toString());
-    params.append('tx_info', signedTx.txInfo);
-    params.append('account_index', this.accountIndex.toString());
-    params.append('api_key_index', this.apiKeyIndex.toString());
-    
-    const response = await axios.post(`${this.baseUrl}/api/v1/sendTx`, params.toString(), {
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded'
-      }
+    return this.placeOrder(marketId, side, sizeInBtc, targetPriceUSD, increments, {
+      ...options,
+      timeInForce: options.timeInForce || 'ioc'
     });
-    
-    if (response.data.code !== 200) {
-      throw new Error(`Order failed: ${JSON.stringify(response.data)}`);
-    }
-    
-    return {
-      txHash: response.data.tx_hash,
-      orderId: response.data.tx_hash,
-      success: true
-    };
   }
 
   /**
@@ -185,8 +195,24 @@ class LighterOrderClient {
    * @param {string} side - 'buy' or 'sell'
    * @param {number} sizeInBtc - Order size in BTC
    * @param {number} limitPriceUSD - Limit price in USD
+   * @param {{tickSize: number, lotSize: number}} increments - Market price/size increments
+   * @param {{timeInForce?: string, expiresAt?: number, reduceOnly?: boolean, clientOrderId?: string}} options -
+   *   timeInForce defaults to 'gtc' (rests for the venue's default lifetime)
    */
-  async placeLimitOrder(marketId, side, sizeInBtc, limitPriceUSD) {
+  async placeLimitOrder(marketId, side, sizeInBtc, limitPriceUSD, increments = BTC_INCREMENTS, options = {}) {
+    return this.placeOrder(marketId, side, sizeInBtc, limitPriceUSD, increments, options);
+  }
+
+  /**
+   * Sign and send a LIMIT order
+   * 
+   * @param {{timeInForce?: string, expiresAt?: number, reduceOnly?: boolean, clientOrderId?: string}} options -
+   *   timeInForce is 'gtc' (default), 'ioc', 'post_only' or 'gtt' (with expiresAt, ms);
+   *   clientOrderId becomes the order's client_order_index
+   */
+  async placeOrder(marketId, side, sizeInBtc, limitPriceUSD, increments = BTC_INCREMENTS, options = {}) {
+    const { tif, expiry } = orderTiming(options.timeInForce, options.expiresAt);
+    
     // Get nonce
     const nonceResponse = await axios.get(`${this.baseUrl}/api/v1/nextNonce`, {
       params: {
@@ -196,15 +222,15 @@ class LighterOrderClient {
     });
     const nonce = nonceResponse.data.nonce;
     
-    const clientOrderIndex = Math.floor(Math.random() * 1000000);
+    const clientOrderIndex = clientOrderIndexFor(options.clientOrderId);
     
-    // Unit conversions for BTC-PERP (from API /orderBookDetails):
+    // Unit conversions (from API /orderBookDetails), e.g. BTC-PERP:
     // size_decimals: 5 → 1 unit = 0.00001 BTC (10^-5)
     // price_decimals: 1 → 1 unit = $0.1 (10^-1)
-    const baseAmount = Math.floor(sizeInBtc / 0.00001); // CORRECTED: size_decimals is 5, not 4!
-    const priceUnits = Math.floor(limitPriceUSD / 0.1);
+    const baseAmount = Math.floor(sizeInBtc / increments.lotSize + 1e-9);
+    const priceUnits = Math.floor(limitPriceUSD / increments.tickSize + 1e-9);
     
-    console.log(`📝 Placing TRUE LIMIT ${side} order (following Lighter SDK):`);
+    console.log(`📝 Placing TRUE LIMIT ${side} order, ${options.timeInForce || 'gtc'} (following Lighter SDK):`);
     console.log(`   Size: ${sizeInBtc} BTC (baseAmount=${baseAmount})`);
     console.log(`   Price: $${limitPriceUSD} (priceUnits=${priceUnits})`);
     
@@ -217,10 +243,10 @@ class LighterOrderClient {
       priceUnits,
       side === 'sell' ? 1 : 0,
       0, // type=0 (LIMIT) - TRUE limit order following SDK
-      1, // tif=1 (GTT - Good Till Time) - stays on book to ensure fill
-      0, // not reduce-only
+      tif, // IOC, GTT (rests until expiry) or POST_ONLY
+      options.reduceOnly ? 1 : 0,
       0, // no trigger
-      -1, // expiry: -1 for GTT (no specific expiry, relies on TIF)
+      expiry, // 0 for IOC, -1 for the default lifetime, else ms timestamp
       nonce,
       this.apiKeyIndex,
       this.accountIndex // NUMBER for int64
@@ -260,12 +286,93 @@ class LighterOrderClient {
     
     return {
       txHash: response.data.tx_hash,
-      orderId: response.data.tx_hash,
+      orderId: String(clientOrderIndex), // Orders are looked up by client_order_index
       success: true,
       price: limitPriceUSD,
       size: sizeInBtc
     };
   }
+
+  /**
+   * Cancel a resting order
+   * 
+   * @param {number} marketId - Market ID (1 for BTC-PERP)
+   * @param {number} orderIndex - Exchange-assigned order_index of the order
+   */
+  async cancelOrder(marketId, orderIndex) {
+    const nonce = await this.getNextNonce();
+    
+    const signedTx = this.signer.SignCancelOrder(
+      marketId,
+      orderIndex,
+      nonce,
+      this.apiKeyIndex,
+      this.accountIndex
+    );
+    
+    if (signedTx.err) {
+      throw new Error(`Signing failed: ${signedTx.err}`);
+    }
+    
+    const response = await this.sendTx(signedTx);
+    
+    if (response.code !== 200) {
+      throw new Error(`Cancel failed: ${JSON.stringify(response)}`);
+    }
+    
+    return {
+      txHash: response.tx_hash,
+      success: true
+    };
+  }
+
+  /**
+   * Auth token for the account-scoped read endpoints (active/inactive orders).
+   * Cached until shortly before it expires.
+   */
+  getAuthToken() {
+    const now = Math.floor(Date.now() / 1000);
+    
+    if (this.authToken && now < this.authTokenExpiry - 60) {
+      return this.authToken;
+    }
+    
+    const deadline = now + AUTH_TOKEN_TTL_SECONDS;
+    const result = this.signer.CreateAuthToken(deadline, this.apiKeyIndex, this.accountIndex);
+    
+    if (result.err) {
+      throw new Error(`Failed to create auth token: ${result.err}`);
+    }
+    
+    this.authToken = result.str;
+    this.authTokenExpiry = deadline;
+    return this.authToken;
+  }
+
+  async getNextNonce() {
+    const nonceResponse = await axios.get(`${this.baseUrl}/api/v1/nextNonce`, {
+      params: {
+        account_index: this.accountIndex,
+        api_key_index: this.apiKeyIndex
+      }
+    });
+    return nonceResponse.data.nonce;
+  }
+
+  async sendTx(signedTx) {
+    const params = new URLSearchParams();
+    params.append('tx_type', signedTx.txType.toString());
+    params.append('tx_info', signedTx.txInfo);
+    params.append('account_index', this.accountIndex.toString());
+    params.append('api_key_index', this.apiKeyIndex.toString());
+    
+    const response = await axios.post(`${this.baseUrl}/api/v1/sendTx`, params.toString(), {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      }
+    });
+    return response.data;
+  }
 }
 
 module.exports = LighterOrderClient;
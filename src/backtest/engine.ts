@@ -0,0 +1,173 @@
+/**
+ * Backtest engine.
+ * Replays the recorded order books of the configured pair of venues through the unmodified
+ * BasisTradingStrategy, using replay exchanges for fills and a simulated clock for all waiting
+ * and timing. Samples from other venues in the recording are skipped.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BotConfig } from '../config/types';
+import { Logger } from '../utils/logger';
+import { BasisTradingStrategy } from '../core/strategy';
+import { TradeLogger } from '../core/trade-logger';
+import { resolveMarket, resolveMarkets } from '../core/markets';
+import { SimulatedClock } from './simulated-clock';
+import { ReplayExchange, DEFAULT_BACKTEST_CONFIG } from './replay-exchange';
+import { getVenue, resolvePair } from '../exchanges/venues';
+import { MarketSample } from './samples';
+import { BacktestReport, buildReport } from './report';
+
+// How long to keep simulating after the data ends so an in-flight trade can finish
+const DRAIN_LIMIT_MS = 10 * 60 * 1000;
+
+export class BacktestEngine {
+  private config: BotConfig;
+  private logger: Logger;
+  private outputDir: string;
+
+  constructor(config: BotConfig, logger: Logger, outputDir: string) {
+    this.config = config;
+    this.logger = logger;
+    this.outputDir = outputDir;
+  }
+
+  async run(samples: AsyncIterable<MarketSample>, symbol: string = 'BTC-PERP'): Promise<BacktestReport> {
+    if (fs.existsSync(path.join(this.outputDir, 'trades.json'))) {
+      throw new Error(`Output directory ${this.outputDir} already contains a backtest run`);
+    }
+    fs.mkdirSync(this.outputDir, { recursive: true });
+
+    const iterator = samples[Symbol.asyncIterator]();
+    const first = await iterator.next();
+    if (first.done) {
+      throw new Error('No market samples to replay');
+    }
+
+    // The configured market for this symbol, or the top-level settings if it isn't listed
+    const market = resolveMarkets(this.config).find(candidate => candidate.symbol === symbol)
+      || resolveMarket(this.config, { symbol, positionSize: this.config.positionSizeBtc });
+
+    const backtestConfig = this.config.backtest || DEFAULT_BACKTEST_CONFIG;
+    const [venueA, venueB] = resolvePair(this.config).map(id => {
+      const venue = getVenue(this.config, id);
+      return new ReplayExchange(
+        venue.config.name || id,
+        venue.fees,
+        this.config.risk.maxLeverage,
+        this.logger,
+        backtestConfig,
+        market,
+        id
+      );
+    });
+    const exchanges = new Map([venueA, venueB].map(exchange => [exchange.id, exchange]));
+
+    // Keep backtest output away from the live bot's logs, state and Supabase tables
+    const strategyConfig: BotConfig = {
+      ...this.config,
+      state: { enabled: false, directory: path.join(this.outputDir, 'state'), snapshotEveryEvents: 50 },
+      logging: { directory: this.outputDir, supabaseEnabled: false }
+    };
+
+    const startTime = first.value.timestamp;
+    const clock = new SimulatedClock(startTime);
+    clock.install();
+
+    let sampleCount = 0;
+    let endTime = startTime;
+    let peakEquity = 0;
+    let maxDrawdownUsd = 0;
+    let tickRunning = false;
+
+    try {
+      const strategy = new BasisTradingStrategy(strategyConfig, venueA, venueB, this.logger, market);
+      await Promise.all([venueA.initialize(), venueB.initialize()]);
+      await strategy.initialize();
+
+      let next: IteratorResult<MarketSample> = first;
+      while (!next.done) {
+        const sample = next.value;
+
+        // Run any waits (fill polling, cooldowns) that fall before this sample
+        await clock.advanceTo(sample.timestamp);
+
+        const exchange = exchanges.get(sample.exchange);
+        if (!exchange) {
+          next = await iterator.next();
+          continue;
+        }
+        exchange.applySample(sample);
+        sampleCount++;
+        endTime = sample.timestamp;
+
+        // Same as a WebSocket update in the live bot: evaluate unless a trade is in flight
+        if (!tickRunning && venueA.hasBook() && venueB.hasBook()) {
+          tickRunning = true;
+          strategy.onMarketUpdate()
+            .catch(error => this.logger.error(`Backtest strategy tick failed: ${error}`))
+            .finally(() => { tickRunning = false; });
+        }
+        await clock.advanceTo(sample.timestamp);
+
+        if (venueA.hasBook() && venueB.hasBook()) {
+          const equity = venueA.getEquityUsd() + venueB.getEquityUsd();
+          peakEquity = Math.max(peakEquity, equity);
+          maxDrawdownUsd = Math.max(maxDrawdownUsd, peakEquity - equity);
+        }
+
+        if (sampleCount % 10000 === 0) {
+          this.logger.info(`Backtest: ${sampleCount} samples replayed (${new Date(sample.timestamp).toISOString()})`);
+        }
+
+        next = await iterator.next();
+      }
+
+      // Let an in-flight entry/exit finish against the last known books
+      while (tickRunning && clock.now() - endTime < DRAIN_LIMIT_MS) {
+        if (!(await clock.advanceToNextSleeper())) {
+          break;
+        }
+      }
+      if (tickRunning) {
+        this.logger.warn('Backtest: a trade was still executing when the data ended');
+      }
+    } finally {
+      clock.clear();
+      clock.uninstall();
+    }
+
+    const trades = new TradeLogger(this.logger, this.outputDir).loadTrades();
+    const executionConfig = this.config.execution;
+
+    const report = buildReport(
+      startTime,
+      endTime,
+      sampleCount,
+      {
+        entryGapUsd: market.entryGapUsd,
+        exitGapUsd: market.exitGapUsd,
+        thresholdMode: this.config.adaptiveThresholds?.enabled ? 'adaptive' : 'static',
+        minHoldDurationSeconds: this.config.minHoldDurationSeconds,
+        maxHoldDurationSeconds: this.config.maxHoldDurationSeconds ?? null,
+        positionSizeBtc: market.positionSize,
+        entryMode: executionConfig?.entryMode || 'sequential_maker',
+        exitMode: executionConfig?.exitMode || 'sequential_maker',
+        makerFillModel: backtestConfig.makerFillModel,
+        orderLatencyMs: backtestConfig.orderLatencyMs
+      },
+      trades,
+      [venueA, venueB],
+      maxDrawdownUsd
+    );
+
+    fs.writeFileSync(path.join(this.outputDir, 'report.json'), JSON.stringify(report, null, 2), 'utf8');
+    fs.writeFileSync(
+      path.join(this.outputDir, 'fills.json'),
+      JSON.stringify([...venueA.getFillLog(), ...venueB.getFillLog()].sort((a, b) => a.timestamp - b.timestamp), null, 2),
+      'utf8'
+    );
+
+    return report;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * IExchange implementation backed by recorded order books.
+ * A SimulatedExchange whose book is replaced by each recorded sample, so orders are
+ * matched with the simulator's fill model:
+ * - Crossing orders take liquidity level by level (taker fee)
+ * - Resting orders fill when the replayed book reaches them (maker fee)
+ * Positions, realized PnL and fees are tracked per venue so the backtest can report
+ * what actually happened, independent of what the strategy believed.
+ */
+
+import { BacktestConfig, MarketConfig, VenueId } from '../config/types';
+import { Logger } from '../utils/logger';
+import { SimulatedExchange, SimulatedFill, SimulatorFees, DEFAULT_SIMULATOR_CONFIG } from '../simulator/simulated-exchange';
+import { MarketSample } from './samples';
+
+// Default replay settings
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  makerFillModel: 'through',
+  orderLatencyMs: 100,
+  initialBalanceUsd: 10000
+};
+
+export type ReplayFill = SimulatedFill;
+export type ReplayFees = SimulatorFees;
+
+export class ReplayExchange extends SimulatedExchange {
+  constructor(
+    name: string,
+    fees: ReplayFees,
+    maxLeverage: number,
+    logger: Logger,
+    config?: BacktestConfig,
+    market?: MarketConfig, // Market being replayed (default: BTC-PERP with the simulator's increments)
+    id?: VenueId // Venue the recording was taken on (default: the name in lower case)
+  ) {
+    const backtestConfig = config || DEFAULT_BACKTEST_CONFIG;
+    super(name, logger, {
+      symbol: market?.symbol ?? DEFAULT_SIMULATOR_CONFIG.symbol,
+      tickSize: market?.tickSize ?? DEFAULT_SIMULATOR_CONFIG.tickSize,
+      lotSize: market?.lotSize ?? DEFAULT_SIMULATOR_CONFIG.lotSize,
+      fees,
+      maxLeverage,
+      initialBalanceUsd: backtestConfig.initialBalanceUsd,
+      latencyMs: backtestConfig.orderLatencyMs,
+      makerFillModel: backtestConfig.makerFillModel
+    }, id);
+  }
+
+  /**
+   * Feed the next recorded book into the exchange and match resting orders against it.
+   */
+  applySample(sample: MarketSample): void {
+    if (sample.fundingRate !== undefined) {
+      this.setFundingRate(sample.fundingRate);
+    }
+
+    this.setOrderBook(sample.bids, sample.asks, sample.timestamp);
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Backtest report: trade list, PnL, fee and funding breakdown.
+ * Venue figures come from the replay exchanges' fill ledgers (what actually happened);
+ * trade figures come from the strategy's own trade log (what the bot would have recorded live).
+ */
+
+import { CompletedTrade } from '../core/trade-logger';
+import { ReplayExchange } from './replay-exchange';
+
+export interface BacktestParameters {
+  entryGapUsd: number;
+  exitGapUsd: number;
+  thresholdMode: 'static' | 'adaptive'; // adaptive: the gaps above are the warm-up values
+  minHoldDurationSeconds: number;
+  maxHoldDurationSeconds: number | null;
+  positionSizeBtc: number;
+  entryMode: string;
+  exitMode: string;
+  makerFillModel: string;
+  orderLatencyMs: number;
+}
+
+export interface VenueSummary {
+  fills: number;
+  makerVolumeBtc: number;
+  takerVolumeBtc: number;
+  feesUsd: number;
+  fundingUsd: number; // Received (+) or paid (-)
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  finalPositionBtc: number;
+}
+
+export interface BacktestReport {
+  period: {
+    start: string;
+    end: string;
+    durationHours: number;
+    samples: number;
+  };
+  parameters: BacktestParameters;
+  trades: CompletedTrade[];
+  summary: {
+    totalTrades: number;
+    winningTrades: number;
+    winRate: number;
+    averageHoldSeconds: number;
+    grossPnlUsd: number; // Venue ledger: realized + unrealized, before fees
+    feesUsd: number;
+    fundingUsd: number;
+    netPnlUsd: number;
+    maxDrawdownUsd: number;
+    strategyReportedNetPnlUsd: number; // Sum of the strategy's own trade log
+  };
+  venues: Record<string, VenueSummary>;
+  openPositionAtEnd: boolean;
+}
+
+export function summarizeVenue(exchange: ReplayExchange): VenueSummary {
+  const fills = exchange.getFillLog();
+
+  return {
+    fills: fills.length,
+    makerVolumeBtc: fills.filter(f => f.liquidity === 'maker').reduce((sum, f) => sum + f.size, 0),
+    takerVolumeBtc: fills.filter(f => f.liquidity === 'taker').reduce((sum, f) => sum + f.size, 0),
+    feesUsd: exchange.getFeesPaidUsd(),
+    fundingUsd: exchange.getFundingUsd(),
+    realizedPnlUsd: exchange.getRealizedPnlUsd(),
+    unrealizedPnlUsd: exchange.getUnrealizedPnlUsd(),
+    finalPositionBtc: exchange.getSignedPositionSize()
+  };
+}
+
+export function buildReport(
+  startTime: number,
+  endTime: number,
+  samples: number,
+  parameters: BacktestParameters,
+  trades: CompletedTrade[],
+  exchanges: ReplayExchange[],
+  maxDrawdownUsd: number
+): BacktestReport {
+  const venues: Record<string, VenueSummary> = {};
+  for (const exchange of exchanges) {
+    venues[exchange.name] = summarizeVenue(exchange);
+  }
+
+  const venueList = Object.values(venues);
+  const grossPnlUsd = venueList.reduce((sum, v) => sum + v.realizedPnlUsd + v.unrealizedPnlUsd, 0);
+  const feesUsd = venueList.reduce((sum, v) => sum + v.feesUsd, 0);
+  const fundingUsd = venueList.reduce((sum, v) => sum + v.fundingUsd, 0);
+  const winningTrades = trades.filter(t => tradeNetPnlUsd(t) > 0).length;
+
+  return {
+    period: {
+      start: new Date(startTime).toISOString(),
+      end: new Date(endTime).toISOString(),
+      durationHours: (endTime - startTime) / 3600000,
+      samples
+    },
+    parameters,
+    trades,
+    summary: {
+      totalTrades: trades.length,
+      winningTrades,
+      winRate: trades.length > 0 ? winningTrades / trades.length : 0,
+      averageHoldSeconds: trades.length > 0
+        ? trades.reduce((sum, t) => sum + t.holdDurationSeconds, 0) / trades.length
+        : 0,
+      grossPnlUsd,
+      feesUsd,
+      fundingUsd,
+      netPnlUsd: grossPnlUsd - feesUsd + fundingUsd,
+      maxDrawdownUsd,
+      strategyReportedNetPnlUsd: trades.reduce((sum, t) => sum + tradeNetPnlUsd(t), 0)
+    },
+    venues,
+    openPositionAtEnd: venueList.some(v => Math.abs(v.finalPositionBtc) > 1e-9)
+  };
+}
+
+function tradeNetPnlUsd(trade: CompletedTrade): number {
+  return trade.realizedPnlUsd - trade.fees.total + (trade.fundingUsd || 0);
+}
+
+/**
+ * Human-readable summary for the console.
+ */
+export function formatReport(report: BacktestReport): string {
+  const p = report.parameters;
+  const s = report.summary;
+  const lines: string[] = [];
+
+  lines.push('═══════════════════════════════════════════════════════════');
+  lines.push('📊 BACKTEST REPORT');
+  lines.push('───────────────────────────────────────────────────────────');
+  lines.push(`  Period: ${report.period.start} → ${report.period.end} (${report.period.durationHours.toFixed(1)}h, ${report.period.samples} samples)`);
+  lines.push(
+    `  Params: entry $${p.entryGapUsd}, exit $${p.exitGapUsd} (${p.thresholdMode}), min hold ${p.minHoldDurationSeconds}s, ` +
+    `max hold ${p.maxHoldDurationSeconds ?? 'none'}, size ${p.positionSizeBtc} BTC`
+  );
+  lines.push(`  Execution: ${p.entryMode}/${p.exitMode}, maker fills on ${p.makerFillModel}, latency ${p.orderLatencyMs}ms`);
+  lines.push('───────────────────────────────────────────────────────────');
+
+  if (report.trades.length === 0) {
+    lines.push('  No completed trades');
+  } else {
+    for (const trade of report.trades) {
+      const net = tradeNetPnlUsd(trade);
+      lines.push(
+        `  ${new Date(trade.entryTimestamp).toISOString()} LONG ${trade.cheapExchange}/SHORT ${trade.expensiveExchange} ` +
+        `gap ${trade.entryGapUsd.toFixed(2)} → ${trade.exitGapUsd.toFixed(2)}, hold ${trade.holdDurationSeconds}s, ` +
+        `net $${net.toFixed(2)} ${net >= 0 ? '✅' : '❌'}`
+      );
+    }
+  }
+
+  lines.push('───────────────────────────────────────────────────────────');
+  for (const [name, venue] of Object.entries(report.venues)) {
+    lines.push(
+      `  ${name}: ${venue.fills} fills (maker ${venue.makerVolumeBtc.toFixed(4)} / taker ${venue.takerVolumeBtc.toFixed(4)} BTC), ` +
+      `fees $${venue.feesUsd.toFixed(2)}, funding $${venue.fundingUsd.toFixed(2)}, realized $${venue.realizedPnlUsd.toFixed(2)}, ` +
+      `position ${venue.finalPositionBtc.toFixed(4)} BTC`
+    );
+  }
+  lines.push('───────────────────────────────────────────────────────────');
+  lines.push(`  Trades: ${s.totalTrades} (win rate ${(s.winRate * 100).toFixed(1)}%, avg hold ${s.averageHoldSeconds.toFixed(0)}s)`);
+  lines.push(`  Gross P&L: $${s.grossPnlUsd.toFixed(2)}`);
+  lines.push(`  Fees: -$${s.feesUsd.toFixed(2)}`);
+  lines.push(`  Funding: $${s.fundingUsd.toFixed(2)}`);
+  lines.push(`  Net P&L: $${s.netPnlUsd.toFixed(2)} ${s.netPnlUsd >= 0 ? '✅' : '❌'}`);
+  lines.push(`  Max drawdown: $${s.maxDrawdownUsd.toFixed(2)}`);
+  lines.push(`  Strategy-reported net P&L: $${s.strategyReportedNetPnlUsd.toFixed(2)}`);
+  if (report.openPositionAtEnd) {
+    lines.push('  ⚠️  Position still open at end of data (included as unrealized P&L)');
+  }
+  lines.push('═══════════════════════════════════════════════════════════');
+
+  return lines.join('\n');
+}
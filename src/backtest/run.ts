@@ -0,0 +1,121 @@
+/**
+ * Backtest CLI.
+ *
+ * Usage:
+ *   npm run backtest -- --data recordings [--data recordings/btc-perp-20260105T130000Z.ndjson.gz]
+ *     [--config config.json] [--out backtests/my-run]
+ *     [--entry-gap 90] [--exit-gap 10] [--min-hold 180] [--adaptive] [--log-level warn]
+ *
+ * Writes report.json, fills.json, trades.json and the trades CSV to the output directory
+ * and prints a summary.
+ */
+
+import * as path from 'path';
+import { loadConfig } from '../config/config';
+import { BotConfig } from '../config/types';
+import { createLogger } from '../utils/logger';
+import { BacktestEngine } from './engine';
+import { readSamples } from './samples';
+import { formatReport } from './report';
+import { DEFAULT_ADAPTIVE_THRESHOLD_CONFIG } from '../core/adaptive-thresholds';
+
+interface CliOptions {
+  configPath?: string;
+  dataFiles: string[];
+  outputDir: string;
+  logLevel: string;
+  entryGapUsd?: number;
+  exitGapUsd?: number;
+  minHoldDurationSeconds?: number;
+  adaptiveThresholds?: boolean;
+}
+
+function parseNumber(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || !isFinite(parsed)) {
+    throw new Error(`${flag} expects a number`);
+  }
+  return parsed;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    dataFiles: [],
+    outputDir: path.join('backtests', `run-${new Date().toISOString().replace(/[:.]/g, '-')}`),
+    logLevel: 'warn'
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+
+    switch (flag) {
+      case '--config':
+        options.configPath = value;
+        i++;
+        break;
+      case '--data':
+        options.dataFiles.push(value);
+        i++;
+        break;
+      case '--out':
+        options.outputDir = value;
+        i++;
+        break;
+      case '--log-level':
+        options.logLevel = value;
+        i++;
+        break;
+      case '--entry-gap':
+        options.entryGapUsd = parseNumber(flag, value);
+        i++;
+        break;
+      case '--exit-gap':
+        options.exitGapUsd = parseNumber(flag, value);
+        i++;
+        break;
+      case '--min-hold':
+        options.minHoldDurationSeconds = parseNumber(flag, value);
+        i++;
+        break;
+      case '--adaptive':
+        options.adaptiveThresholds = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${flag}`);
+    }
+  }
+
+  if (options.dataFiles.length === 0 || options.dataFiles.some(file => !file)) {
+    throw new Error('At least one --data <file or directory> is required');
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const config: BotConfig = loadConfig(options.configPath);
+
+  // Parameter overrides for quick what-if runs
+  if (options.entryGapUsd !== undefined) config.entryGapUsd = options.entryGapUsd;
+  if (options.exitGapUsd !== undefined) config.exitGapUsd = options.exitGapUsd;
+  if (options.minHoldDurationSeconds !== undefined) config.minHoldDurationSeconds = options.minHoldDurationSeconds;
+  if (options.adaptiveThresholds) {
+    config.adaptiveThresholds = { ...DEFAULT_ADAPTIVE_THRESHOLD_CONFIG, ...config.adaptiveThresholds, enabled: true };
+  }
+
+  const logger = createLogger(options.logLevel, options.outputDir);
+  const engine = new BacktestEngine(config, logger, options.outputDir);
+  const report = await engine.run(readSamples(options.dataFiles, logger));
+
+  console.log(formatReport(report));
+  console.log(`\nResults written to ${options.outputDir}`);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Backtest failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * Market samples for backtests, read from recorder output (see MARKET_DATA_RECORDING.md).
+ * Book records become samples; funding records are carried onto the venue's following samples.
+ */
+
+import { Logger } from '../utils/logger';
+import { readRecordings } from '../recorder/reader';
+import { RecordedVenue } from '../recorder/schema';
+
+export type VenueName = RecordedVenue;
+
+export interface MarketSample {
+  timestamp: number;
+  exchange: VenueName;
+  bids: [number, number][]; // [price, size][], best first
+  asks: [number, number][];
+  fundingRate?: number; // per hour, if recorded
+}
+
+function normalizeLevels(levels: [number, number][], descending: boolean): [number, number][] {
+  return levels
+    .map(([price, size]) => [Number(price), Number(size)] as [number, number])
+    .filter(([price, size]) => price > 0 && size > 0)
+    .sort((a, b) => descending ? b[0] - a[0] : a[0] - b[0]);
+}
+
+/**
+ * Stream samples from recording files or directories.
+ * Out-of-order and crossed books are skipped with a warning.
+ */
+export async function* readSamples(paths: string[], logger: Logger): AsyncGenerator<MarketSample> {
+  const funding: Partial<Record<VenueName, number>> = {};
+  let lastTimestamp = 0;
+  let outOfOrder = 0;
+  let crossed = 0;
+
+  for await (const record of readRecordings(paths, { types: ['book', 'funding'] }, logger)) {
+    if (record.type === 'funding') {
+      funding[record.exchange] = record.rate;
+      continue;
+    }
+
+    if (record.type !== 'book') {
+      continue;
+    }
+
+    if (record.ts < lastTimestamp) {
+      outOfOrder++;
+      continue;
+    }
+
+    const bids = normalizeLevels(record.bids, true);
+    const asks = normalizeLevels(record.asks, false);
+
+    if (bids.length > 0 && asks.length > 0 && bids[0][0] >= asks[0][0]) {
+      crossed++;
+      continue;
+    }
+
+    lastTimestamp = record.ts;
+    yield {
+      timestamp: record.ts,
+      exchange: record.exchange,
+      bids,
+      asks,
+      fundingRate: funding[record.exchange]
+    };
+  }
+
+  if (outOfOrder > 0 || crossed > 0) {
+    logger.warn(`Backtest data: skipped ${outOfOrder} out-of-order and ${crossed} crossed book snapshots`);
+  }
+}
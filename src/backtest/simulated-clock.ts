@@ -0,0 +1,121 @@
+/**
+ * Virtual clock for backtests.
+ * While installed, Date.now() and sleep() follow simulated time, so the strategy's
+ * hold timers, cooldowns and fill polling run at replay speed instead of wall-clock speed.
+ */
+
+import { Clock, getClock, setClock } from '../utils/clock';
+
+interface Sleeper {
+  wakeAt: number;
+  seq: number;
+  resolve: () => void;
+}
+
+// Let every pending promise continuation run before time moves again
+function flushMicrotasks(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+export class SimulatedClock implements Clock {
+  private current: number;
+  private sleepers: Sleeper[] = [];
+  private nextSeq: number = 0;
+  private previousClock: Clock | null = null;
+  private originalDateNow: (() => number) | null = null;
+
+  constructor(startTime: number) {
+    this.current = startTime;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const sleeper: Sleeper = {
+        wakeAt: this.current + Math.max(0, ms),
+        seq: this.nextSeq++,
+        resolve
+      };
+
+      // Keep sleepers ordered by wake time, FIFO for equal times
+      let index = this.sleepers.length;
+      while (index > 0 && this.sleepers[index - 1].wakeAt > sleeper.wakeAt) {
+        index--;
+      }
+      this.sleepers.splice(index, 0, sleeper);
+    });
+  }
+
+  /**
+   * Make this clock the process-wide time source (Date.now and sleep).
+   */
+  install(): void {
+    if (this.originalDateNow) {
+      return;
+    }
+
+    this.previousClock = getClock();
+    this.originalDateNow = Date.now;
+    Date.now = () => this.current;
+    setClock(this);
+  }
+
+  /**
+   * Restore the real time source.
+   */
+  uninstall(): void {
+    if (!this.originalDateNow) {
+      return;
+    }
+
+    Date.now = this.originalDateNow;
+    setClock(this.previousClock || getClock());
+    this.originalDateNow = null;
+    this.previousClock = null;
+  }
+
+  /**
+   * Move time forward to `time`, waking every sleeper due on the way in order.
+   */
+  async advanceTo(time: number): Promise<void> {
+    await flushMicrotasks();
+
+    while (this.sleepers.length > 0 && this.sleepers[0].wakeAt <= time) {
+      const sleeper = this.sleepers.shift()!;
+      this.current = Math.max(this.current, sleeper.wakeAt);
+      sleeper.resolve();
+      await flushMicrotasks();
+    }
+
+    this.current = Math.max(this.current, time);
+  }
+
+  /**
+   * Wake the earliest sleeper (if any), jumping time to its wake time.
+   * Returns false when nothing is waiting.
+   */
+  async advanceToNextSleeper(): Promise<boolean> {
+    await flushMicrotasks();
+
+    if (this.sleepers.length === 0) {
+      return false;
+    }
+
+    await this.advanceTo(this.sleepers[0].wakeAt);
+    return true;
+  }
+
+  /**
+   * Drop all pending sleepers (used at the end of a run).
+   */
+  clear(): void {
+    this.sleepers = [];
+  }
+
+  getPendingSleepers(): number {
+    return this.sleepers.length;
+  }
+}
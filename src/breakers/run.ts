@@ -0,0 +1,74 @@
+/**
+ * Circuit breaker status and operator reset.
+ * A tripped breaker halts new entries until it is reset here (or via POST /api/breakers/reset).
+ * The running bot picks up the reset within a few seconds.
+ *
+ * Usage:
+ *   npm run breakers -- [status] [--config config.json]
+ *   npm run breakers -- reset --by <operator> [--note "why it's safe"] [--config config.json]
+ */
+
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+import { loadConfig } from '../config/config';
+import { BreakerHistoryEntry, getCircuitBreakerPath, readCircuitBreakerState, resetCircuitBreaker } from '../core/circuit-breaker';
+
+function describe(entry: BreakerHistoryEntry): string {
+  return `${new Date(entry.timestamp).toISOString()} ${entry.event.toUpperCase()} ${entry.breaker}` +
+    (entry.symbol ? ` [${entry.symbol}]` : '') + `: ${entry.reason}` +
+    (entry.operator ? ` (by ${entry.operator}${entry.note ? `: ${entry.note}` : ''})` : '');
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const argValue = (flag: string): string | undefined => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const command = args[0] && !args[0].startsWith('--') ? args[0] : 'status';
+
+  const config = loadConfig(argValue('--config'));
+  const filePath = getCircuitBreakerPath(config);
+  if (!filePath) {
+    throw new Error('State persistence is disabled - breaker trips only last until the bot restarts');
+  }
+
+  if (command === 'reset') {
+    const operator = argValue('--by');
+    if (!operator) {
+      throw new Error('reset needs --by <operator>');
+    }
+    const cleared = resetCircuitBreaker(filePath, operator, argValue('--note'));
+    console.log(cleared
+      ? `Circuit breaker reset (was ${cleared.breaker}: ${cleared.reason})`
+      : 'No circuit breaker was tripped');
+    return;
+  }
+
+  if (command !== 'status') {
+    throw new Error(`Unknown command "${command}" - use status or reset`);
+  }
+
+  const state = readCircuitBreakerState(filePath);
+  console.log(state.trip
+    ? `TRIPPED since ${new Date(state.trip.timestamp).toISOString()} - ${state.trip.breaker}` +
+      (state.trip.symbol ? ` [${state.trip.symbol}]` : '') + `: ${state.trip.reason}`
+    : 'OK - no breaker tripped');
+  if (state.dailyPnl.date) {
+    console.log(`Realized PnL ${state.dailyPnl.date}: ${state.dailyPnl.realizedUsd.toFixed(2)} USD`);
+  }
+  for (const entry of state.history.slice(-10)) {
+    console.log(`  ${describe(entry)}`);
+  }
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error(`Circuit breakers: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
@@ -4,7 +4,8 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { BotConfig } from './types';
+import { BotConfig, LadderConfig, MarketConfig } from './types';
+import { DEFAULT_STATE_CONFIG } from '../core/state-store';
 
 export function loadConfig(configPath?: string): BotConfig {
   const defaultPath = path.join(process.cwd(), 'config.json');
@@ -16,6 +17,8 @@ export function loadConfig(configPath?: string): BotConfig {
 
   const configData = fs.readFileSync(finalPath, 'utf-8');
   const config: BotConfig = JSON.parse(configData);
+  // A partial state section keeps the defaults for the fields it leaves out
+  config.state = { ...DEFAULT_STATE_CONFIG, ...config.state };
 
   validateConfig(config);
   return config;
@@ -50,21 +53,65 @@ function validateConfig(config: BotConfig): void {
     throw new Error('exitTimeoutMs must be positive');
   }
 
-  // Exchange config validation
-  if (!config.nado || !config.lighter) {
-    throw new Error('Both nado and lighter exchange configs are required');
+  // Per-market validation
+  if (config.markets) {
+    const symbols = new Set<string>();
+    for (const market of config.markets) {
+      validateMarketConfig(market, config);
+      if (symbols.has(market.symbol)) {
+        throw new Error(`markets: ${market.symbol} is listed more than once`);
+      }
+      symbols.add(market.symbol);
+    }
   }
 
-  validateExchangeConfig(config.nado, 'nado');
-  validateExchangeConfig(config.lighter, 'lighter');
+  // Venue config validation: the venues section, else the nado and lighter sections with their fees
+  if (config.venues) {
+    const ids = Object.keys(config.venues);
+    if (ids.length < 2) {
+      throw new Error('venues: at least two venues are required');
+    }
+    for (const [id, venue] of Object.entries(config.venues)) {
+      if (!venue.adapter) {
+        throw new Error(`venues.${id}: adapter is required`);
+      }
+      validateExchangeConfig(venue, `venues.${id}`);
+      if (!(venue.makerFeeBps >= 0) || !(venue.takerFeeBps >= 0)) {
+        throw new Error(`venues.${id}: makerFeeBps and takerFeeBps must be non-negative`);
+      }
+    }
+    if (!config.pair && ids.length > 2) {
+      throw new Error('pair is required when more than two venues are configured');
+    }
+  } else {
+    if (!config.nado || !config.lighter) {
+      throw new Error('Both nado and lighter exchange configs are required (or a venues section)');
+    }
 
-  // Fee config validation
-  if (!config.fees) {
-    throw new Error('Fee configuration is required');
+    validateExchangeConfig(config.nado, 'nado');
+    validateExchangeConfig(config.lighter, 'lighter');
+
+    // Fee config validation
+    if (!config.fees) {
+      throw new Error('Fee configuration is required');
+    }
+    if (config.fees.nadoMakerFeeBps < 0 || config.fees.nadoTakerFeeBps < 0 ||
+        config.fees.lighterMakerFeeBps < 0 || config.fees.lighterTakerFeeBps < 0) {
+      throw new Error('Fee basis points must be non-negative');
+    }
   }
-  if (config.fees.nadoMakerFeeBps < 0 || config.fees.nadoTakerFeeBps < 0 ||
-      config.fees.lighterMakerFeeBps < 0 || config.fees.lighterTakerFeeBps < 0) {
-    throw new Error('Fee basis points must be non-negative');
+
+  // Pair validation (optional - defaults to the two configured venues)
+  if (config.pair) {
+    const venueIds = config.venues ? Object.keys(config.venues) : ['nado', 'lighter'];
+    if (!Array.isArray(config.pair) || config.pair.length !== 2 || config.pair[0] === config.pair[1]) {
+      throw new Error('pair must list two different venues');
+    }
+    for (const id of config.pair) {
+      if (!venueIds.includes(id)) {
+        throw new Error(`pair: venue ${id} is not configured (configured: ${venueIds.join(', ')})`);
+      }
+    }
   }
 
   // Risk config validation
@@ -77,6 +124,209 @@ function validateConfig(config: BotConfig): void {
   if (config.risk.minMarginBufferPercent < 0) {
     throw new Error('minMarginBufferPercent must be non-negative');
   }
+  if (config.risk.maxSlippageBps !== undefined && config.risk.maxSlippageBps < 0) {
+    throw new Error('maxSlippageBps must be non-negative');
+  }
+
+  // Funding config validation (optional section)
+  if (config.funding && !(config.funding.expectedHoldHours >= 0)) {
+    throw new Error('funding.expectedHoldHours must be non-negative');
+  }
+
+  // Adaptive threshold validation (optional section - unset fields take their defaults)
+  const adaptive = config.adaptiveThresholds;
+  if (adaptive) {
+    if (adaptive.method !== undefined && adaptive.method !== 'rolling' && adaptive.method !== 'ewma') {
+      throw new Error('adaptiveThresholds.method must be "rolling" or "ewma"');
+    }
+    if ((adaptive.windowMs !== undefined && adaptive.windowMs <= 0) ||
+        (adaptive.halfLifeMs !== undefined && adaptive.halfLifeMs <= 0)) {
+      throw new Error('adaptiveThresholds.windowMs and halfLifeMs must be positive');
+    }
+    if (adaptive.entryZ !== undefined && adaptive.exitZ !== undefined && adaptive.entryZ <= adaptive.exitZ) {
+      throw new Error('adaptiveThresholds.entryZ must be greater than exitZ');
+    }
+    if (adaptive.minSamples !== undefined && adaptive.minSamples < 1) {
+      throw new Error('adaptiveThresholds.minSamples must be at least 1');
+    }
+    if (adaptive.minEdgeUsd !== undefined && adaptive.minEdgeUsd < 0) {
+      throw new Error('adaptiveThresholds.minEdgeUsd must be non-negative');
+    }
+  }
+
+  // Circuit breaker validation (optional section - unset fields take their defaults)
+  const breakers = config.circuitBreakers;
+  if (breakers) {
+    for (const field of ['maxDailyLossUsd', 'maxUnhedgedSeconds', 'maxStaleDataSeconds', 'maxGapUsd'] as const) {
+      if (breakers[field] !== undefined && !(breakers[field] >= 0)) {
+        throw new Error(`circuitBreakers.${field} must be non-negative`);
+      }
+    }
+    if (breakers.unhedgedCheckIntervalMs !== undefined && !(breakers.unhedgedCheckIntervalMs > 0)) {
+      throw new Error('circuitBreakers.unhedgedCheckIntervalMs must be positive');
+    }
+  }
+
+  // Loss limit validation (optional section - unset fields take their defaults)
+  const lossLimits = config.lossLimits;
+  if (lossLimits) {
+    for (const field of ['maxDailyLossUsd', 'maxWeeklyLossUsd', 'maxDrawdownPercent', 'sizeReductionStartPercent'] as const) {
+      if (lossLimits[field] !== undefined && !(lossLimits[field] >= 0)) {
+        throw new Error(`lossLimits.${field} must be non-negative`);
+      }
+    }
+    if (lossLimits.maxDrawdownPercent !== undefined && lossLimits.maxDrawdownPercent >= 100) {
+      throw new Error('lossLimits.maxDrawdownPercent must be below 100');
+    }
+    if (lossLimits.minSizeMultiplier !== undefined && !(lossLimits.minSizeMultiplier > 0 && lossLimits.minSizeMultiplier <= 1)) {
+      throw new Error('lossLimits.minSizeMultiplier must be in (0, 1]');
+    }
+    if (lossLimits.resetHourUtc !== undefined &&
+        !(Number.isInteger(lossLimits.resetHourUtc) && lossLimits.resetHourUtc >= 0 && lossLimits.resetHourUtc <= 23)) {
+      throw new Error('lossLimits.resetHourUtc must be an hour from 0 to 23');
+    }
+    if (lossLimits.weeklyResetDay !== undefined &&
+        !(Number.isInteger(lossLimits.weeklyResetDay) && lossLimits.weeklyResetDay >= 0 && lossLimits.weeklyResetDay <= 6)) {
+      throw new Error('lossLimits.weeklyResetDay must be a day from 0 (Sunday) to 6');
+    }
+    if (lossLimits.drawdownReset !== undefined && !['daily', 'weekly', 'never'].includes(lossLimits.drawdownReset)) {
+      throw new Error('lossLimits.drawdownReset must be "daily", "weekly" or "never"');
+    }
+    if (lossLimits.refreshIntervalMs !== undefined && !(lossLimits.refreshIntervalMs > 0)) {
+      throw new Error('lossLimits.refreshIntervalMs must be positive');
+    }
+  }
+
+  // Liquidation monitoring validation (optional section - unset fields take their defaults)
+  const liquidation = config.liquidation;
+  if (liquidation) {
+    if (liquidation.checkIntervalMs !== undefined && !(liquidation.checkIntervalMs > 0)) {
+      throw new Error('liquidation.checkIntervalMs must be positive');
+    }
+    for (const field of ['alertDistancePercent', 'reduceDistancePercent'] as const) {
+      if (liquidation[field] !== undefined && !(liquidation[field] >= 0)) {
+        throw new Error(`liquidation.${field} must be non-negative`);
+      }
+    }
+    if (liquidation.reduceFraction !== undefined && !(liquidation.reduceFraction > 0 && liquidation.reduceFraction <= 1)) {
+      throw new Error('liquidation.reduceFraction must be in (0, 1]');
+    }
+  }
+
+  if (config.execution?.makerOrderExpiryMs !== undefined &&
+      !(config.execution.makerOrderExpiryMs > config.execution.nadoMakerTimeoutMs)) {
+    throw new Error('execution.makerOrderExpiryMs must be longer than nadoMakerTimeoutMs');
+  }
+  if (config.execution?.orderSubmitAttempts !== undefined &&
+      !(Number.isInteger(config.execution.orderSubmitAttempts) && config.execution.orderSubmitAttempts >= 1)) {
+    throw new Error('execution.orderSubmitAttempts must be a positive integer');
+  }
+  if (config.execution?.orderLookupTimeoutMs !== undefined && !(config.execution.orderLookupTimeoutMs >= 0)) {
+    throw new Error('execution.orderLookupTimeoutMs must be non-negative');
+  }
+
+  // Rebalance validation (optional section - unset fields take their defaults)
+  const rebalance = config.rebalance;
+  if (rebalance) {
+    if (rebalance.minFreeCollateralShare !== undefined &&
+        !(rebalance.minFreeCollateralShare > 0 && rebalance.minFreeCollateralShare < 0.5)) {
+      throw new Error('rebalance.minFreeCollateralShare must be between 0 and 0.5');
+    }
+    for (const field of ['minTransferUsd', 'maxTransferUsd', 'reserveUsd'] as const) {
+      if (rebalance[field] !== undefined && !(rebalance[field] >= 0)) {
+        throw new Error(`rebalance.${field} must be non-negative`);
+      }
+    }
+    if (rebalance.minTransferUsd !== undefined && rebalance.maxTransferUsd !== undefined &&
+        rebalance.minTransferUsd > rebalance.maxTransferUsd) {
+      throw new Error('rebalance.minTransferUsd must not exceed maxTransferUsd');
+    }
+    for (const field of ['checkIntervalMs', 'transferTimeoutMs'] as const) {
+      if (rebalance[field] !== undefined && !(rebalance[field] > 0)) {
+        throw new Error(`rebalance.${field} must be positive`);
+      }
+    }
+    if (rebalance.adapter !== undefined && rebalance.adapter !== 'stub') {
+      throw new Error(`rebalance.adapter: unknown transfer adapter "${rebalance.adapter}" (available: stub)`);
+    }
+  }
+
+  // Reconciliation validation (optional section - unset fields take their defaults)
+  const reconciliation = config.reconciliation;
+  if (reconciliation) {
+    for (const field of ['maxPnlDriftUsd', 'maxPriceDriftBps'] as const) {
+      if (reconciliation[field] !== undefined && !(reconciliation[field] >= 0)) {
+        throw new Error(`reconciliation.${field} must be non-negative`);
+      }
+    }
+    if (reconciliation.giveUpAfterMs !== undefined && !(reconciliation.giveUpAfterMs > 0)) {
+      throw new Error('reconciliation.giveUpAfterMs must be positive');
+    }
+  }
+
+  // Ladder config validation (optional section)
+  if (config.ladder) {
+    validateLadderConfig(config.ladder, 'ladder');
+  }
+}
+
+function validateMarketConfig(market: MarketConfig, config: BotConfig): void {
+  if (!market.symbol) {
+    throw new Error('markets: every market needs a symbol');
+  }
+  if (!(market.positionSize > 0)) {
+    throw new Error(`${market.symbol}: positionSize must be positive`);
+  }
+  // Gaps not set on the market fall back to the top-level ones
+  const entryGapUsd = market.entryGapUsd ?? config.entryGapUsd;
+  const exitGapUsd = market.exitGapUsd ?? config.exitGapUsd;
+  if (entryGapUsd <= 0) {
+    throw new Error(`${market.symbol}: entryGapUsd must be positive`);
+  }
+  if (exitGapUsd < 0) {
+    throw new Error(`${market.symbol}: exitGapUsd must be non-negative`);
+  }
+  if (exitGapUsd >= entryGapUsd) {
+    throw new Error(`${market.symbol}: exitGapUsd must be less than entryGapUsd`);
+  }
+  if (market.maxEntryGapUsd !== undefined && market.maxEntryGapUsd <= entryGapUsd) {
+    throw new Error(`${market.symbol}: maxEntryGapUsd must be greater than entryGapUsd`);
+  }
+  if (market.tickSize !== undefined && market.tickSize <= 0) {
+    throw new Error(`${market.symbol}: tickSize must be positive`);
+  }
+  if (market.lotSize !== undefined && market.lotSize <= 0) {
+    throw new Error(`${market.symbol}: lotSize must be positive`);
+  }
+  if (market.ladder) {
+    validateLadderConfig(market.ladder, `${market.symbol}: ladder`);
+  }
+}
+
+function validateLadderConfig(ladder: LadderConfig, label: string): void {
+  if (!ladder.enabled) {
+    return;
+  }
+  if (!ladder.tiers || ladder.tiers.length === 0) {
+    throw new Error(`${label}: at least one tier is required`);
+  }
+  if (!(ladder.maxInventory > 0)) {
+    throw new Error(`${label}: maxInventory must be positive`);
+  }
+  for (const [index, tier] of ladder.tiers.entries()) {
+    if (!(tier.size > 0)) {
+      throw new Error(`${label}: tier ${index} size must be positive`);
+    }
+    if (tier.exitGapUsd < 0) {
+      throw new Error(`${label}: tier ${index} exitGapUsd must be non-negative`);
+    }
+    if (tier.exitGapUsd >= tier.entryGapUsd) {
+      throw new Error(`${label}: tier ${index} exitGapUsd must be less than its entryGapUsd`);
+    }
+    if (tier.size > ladder.maxInventory) {
+      throw new Error(`${label}: tier ${index} size is above maxInventory`);
+    }
+  }
 }
 
 function validateExchangeConfig(exchangeConfig: any, name: string): void {
@@ -5,6 +5,7 @@
 export interface BotConfig {
   // Trading parameters
   entryGapUsd: number;
+  maxEntryGapUsd?: number; // Skip gaps above this (extreme volatility)
   exitGapUsd: number;
   positionSizeBtc: number;
   minHoldDurationSeconds: number;
@@ -13,12 +14,22 @@ export interface BotConfig {
   entryTimeoutMs: number;
   exitTimeoutMs: number;
 
-  // Exchange configurations
-  nado: ExchangeConfig;
-  lighter: ExchangeConfig;
+  // Markets to trade, one strategy each (optional - defaults to BTC-PERP with the values above)
+  markets?: MarketConfig[];
 
-  // Fee assumptions
-  fees: FeeConfig;
+  // Venues by venue ID, each built by its adapter (optional - defaults to the nado and lighter sections)
+  venues?: Record<VenueId, VenueConfig>;
+
+  // The two venues the strategy trades against each other (optional - defaults to nado and lighter).
+  // In sequential_maker mode the first one posts the maker order and the second hedges
+  pair?: [VenueId, VenueId];
+
+  // Exchange configurations (used when venues isn't set)
+  nado?: ExchangeConfig;
+  lighter?: ExchangeConfig;
+
+  // Fee assumptions for nado and lighter (used when venues isn't set)
+  fees?: FeeConfig;
 
   // Risk parameters
   risk: RiskConfig;
@@ -26,6 +37,51 @@ export interface BotConfig {
   // Execution mode settings (optional - defaults provided)
   execution?: ExecutionConfig;
 
+  // State persistence settings (optional - defaults provided)
+  state?: StateConfig;
+
+  // Trade log output settings (optional - defaults provided)
+  logging?: LoggingConfig;
+
+  // Backtest replay settings (optional - only used by the backtester)
+  backtest?: BacktestConfig;
+
+  // Market data recorder settings (optional - disabled by default)
+  recorder?: RecorderConfig;
+
+  // WebSocket market data settings (optional - defaults provided)
+  marketData?: MarketDataConfig;
+
+  // Automatic repair of unhedged exposure (optional - defaults provided)
+  hedgeRepair?: HedgeRepairConfig;
+
+  // Funding-aware entry, hold and exit decisions (optional - defaults provided)
+  funding?: FundingConfig;
+
+  // Scale in and out through gap tiers instead of one all-or-nothing position (optional - off by default)
+  ladder?: LadderConfig;
+
+  // Entry/exit gaps from rolling gap statistics instead of the static values (optional - off by default)
+  adaptiveThresholds?: AdaptiveThresholdConfig;
+
+  // Close and reopen the reverse spread in one execution when the gap inverts (optional - off by default)
+  flip?: FlipConfig;
+
+  // Breakers that halt new entries until an operator resets them (optional - defaults provided)
+  circuitBreakers?: CircuitBreakerConfig;
+
+  // Equity-based daily/weekly loss limits and drawdown position sizing (optional - off by default)
+  lossLimits?: LossLimitConfig;
+
+  // Liquidation distance monitoring for open positions (optional - defaults provided)
+  liquidation?: LiquidationConfig;
+
+  // Free collateral rebalancing between the venues (optional - off by default)
+  rebalance?: RebalanceConfig;
+
+  // Exchange-reported fills replacing estimated prices and fees in trades.json (optional - defaults provided)
+  reconciliation?: ReconciliationConfig;
+
   // Operational settings
   dryRun: boolean;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
@@ -33,7 +89,12 @@ export interface BotConfig {
   fundingRateUpdateIntervalMs: number;
 }
 
+/** Registry key of a venue, e.g. "nado". Kept in state files and recordings */
+export type VenueId = string;
+
 export interface ExchangeConfig {
+  id?: VenueId; // Set from the venue's key when the registry builds the adapter
+  fees?: VenueFees; // Set from the venue's fees when the registry builds the adapter
   name: string;
   restApiUrl: string;
   wsUrl?: string;
@@ -43,9 +104,77 @@ export interface ExchangeConfig {
   testnet: boolean;
   accountIndex?: number; // For Lighter
   apiKeyIndex?: number; // For Lighter
+  signerLibrary?: string; // For Lighter: signer shared library (default: the build for this platform in the repo root)
   walletAddress?: string; // For Nado
 }
 
+export interface MarketConfig {
+  // Symbol as the bot names it, e.g. "ETH-PERP"
+  symbol: string;
+  
+  // Size per trade in the market's base asset (ETH for ETH-PERP)
+  positionSize: number;
+  
+  // Gap thresholds in USD per unit of base asset (default: the top-level values)
+  entryGapUsd?: number;
+  maxEntryGapUsd?: number;
+  exitGapUsd?: number;
+  
+  // Price and size increments to trade on both venues. By default each venue's own
+  // increments are used (from its market listing); set these to trade a coarser grid
+  tickSize?: number;
+  lotSize?: number;
+  
+  // Scale-in/out tiers for this market (default: the top-level ladder)
+  ladder?: LadderConfig;
+}
+
+/** Market metadata as listed by an exchange */
+export interface MarketInfo {
+  symbol: string; // Bot symbol, e.g. "ETH-PERP"
+  marketId: number; // Venue id (Nado product_id, Lighter market_id)
+  tickSize: number; // Price increment
+  lotSize: number; // Size increment
+  minSize: number; // Smallest order size
+  minNotional?: number; // Smallest order value in USD - unset if the venue doesn't say
+  initialMarginFraction?: number; // Margin to open, fraction of notional (0.05 = 20x) - unset if the venue doesn't say
+  maintenanceMarginFraction?: number; // Margin below which the venue liquidates, fraction of notional
+}
+
+/**
+ * Time-in-force values an order can be placed with:
+ * gtc rests until cancelled, ioc fills what it can and cancels the rest, fok fills completely
+ * or not at all, post_only rests without taking liquidity (rejected if it would cross), gtt
+ * rests until its expiresAt.
+ */
+export type TimeInForce = 'gtc' | 'ioc' | 'fok' | 'post_only' | 'gtt';
+
+/** What a venue's order API actually honors */
+export interface ExchangeCapabilities {
+  timeInForce: TimeInForce[]; // Supported values - others are rejected before submission
+  reduceOnly: boolean; // Reduce-only flag is enforced by the venue
+  reliableCancel: boolean; // A cancel right after placement takes effect (no race with order indexing)
+  reliableOrderLookup: boolean; // getOrder finds every order, including filled and cancelled ones
+  websocketMarketData: boolean; // Books stream over WebSocket (else REST polling)
+}
+
+/** Everything an order on one market has to satisfy, with the fees it pays */
+export interface MarketSpec extends MarketInfo {
+  minNotional: number;
+  fees: VenueFees;
+  capabilities: ExchangeCapabilities;
+}
+
+/** A venue in the venues section: its adapter, connection settings and fees */
+export interface VenueConfig extends ExchangeConfig, VenueFees {
+  adapter: string; // Registered adapter type, e.g. "nado"
+}
+
+export interface VenueFees {
+  makerFeeBps: number; // basis points (e.g., 1 = 0.01%)
+  takerFeeBps: number;
+}
+
 export interface FeeConfig {
   nadoMakerFeeBps: number; // basis points (e.g., 1 = 0.01%)
   nadoTakerFeeBps: number; // basis points (e.g., 3.5 = 0.035%)
@@ -58,28 +187,142 @@ export interface RiskConfig {
   minMarginBufferPercent: number;
   maxPartialFillWaitMs: number;
   maxConsecutiveErrors: number;
+  maxSlippageBps?: number; // Max VWAP slippage per leg vs mid (default 10)
+  minExecutableGapUsd?: number; // Min gap after slippage and round-trip fees (default exitGapUsd)
 }
 
 export interface ExecutionConfig {
   // Execution mode for entries and exits (can be different!)
-  // "sequential_maker" = Nado maker first, then Lighter on fill (lower fees, slower)
+  // "sequential_maker" = maker order on the pair's first venue, then hedge on the second on fill (lower fees, slower)
   // "simultaneous" = Both exchanges aggressive limit at same time (faster, slightly higher fees)
   entryMode: 'sequential_maker' | 'simultaneous';
   exitMode: 'sequential_maker' | 'simultaneous';
   
-  // For sequential_maker: how conservative to price the Nado maker order
-  // Per Nado docs: post-only orders must NOT cross the spread to get maker fees
+  // For sequential_maker: how conservative to price the maker order (the names predate other venues)
+  // Post-only orders must NOT cross the spread to get maker fees
   // 0 = at best bid/ask (best fill chance while staying maker)
   // positive = ticks DEEPER in book (more conservative, slower fill)
   //   BUY: offset=1 means $1 BELOW best bid
   //   SELL: offset=1 means $1 ABOVE best ask
   nadoMakerOffsetTicks: number;
   
-  // Max time to wait for Nado maker to fill before cancelling
+  // Max time to wait for the maker order to fill before cancelling
   nadoMakerTimeoutMs: number;
   
-  // Poll interval for checking Nado fill status
+  // Poll interval for checking the maker order's fill status
   nadoFillPollIntervalMs: number;
+  
+  // Maker orders expire on the venue this long after placement, in case the bot dies or a
+  // cancel is lost before the maker timeout cancels them (optional - unset = no expiry)
+  makerOrderExpiryMs?: number;
+  
+  // Sends of one order, counting the first, when the venue doesn't answer (timeout, dropped
+  // connection, 5xx). Before each resend the order is looked up by its client order ID; on venues
+  // without reliableOrderLookup it is never resent
+  orderSubmitAttempts?: number;
+  
+  // How long to keep looking an unanswered order up on venues whose lookups can miss fresh orders
+  orderLookupTimeoutMs?: number;
+}
+
+export interface StateConfig {
+  // Persist position state to disk so it survives restarts
+  enabled: boolean;
+  
+  // Directory for the state journal and snapshots
+  directory: string;
+  
+  // Compact the journal into a snapshot after this many events
+  snapshotEveryEvents: number;
+}
+
+export interface LoggingConfig {
+  // Directory for trades.json and the daily trades CSV
+  directory: string;
+  
+  // Also send trades to Supabase (needs SUPABASE_URL / SUPABASE_SERVICE_KEY)
+  supabaseEnabled: boolean;
+}
+
+export interface BacktestConfig {
+  // When a resting maker order is considered filled by the replay:
+  // "touch" = opposite best price reaches the order price
+  // "through" = opposite best price must move beyond it (assumes we are last in the queue)
+  makerFillModel: 'touch' | 'through';
+  
+  // Simulated delay between sending an order and it reaching the book
+  orderLatencyMs: number;
+  
+  // Starting collateral on each exchange (USD)
+  initialBalanceUsd: number;
+}
+
+export interface RecorderConfig {
+  // Record books, funding and our order events while the bot runs
+  enabled: boolean;
+  
+  // Directory for the rotating .ndjson.gz recording files
+  directory: string;
+  
+  // Order book levels captured per side
+  bookDepth: number;
+  
+  // How often to snapshot each venue's order book
+  bookIntervalMs: number;
+  
+  // How often to snapshot funding rates
+  fundingIntervalMs: number;
+  
+  // Start a new file every N minutes (aligned to the clock, e.g. 60 = hourly files)
+  rotateIntervalMinutes: number;
+  
+  // Max data lost on a crash - the gzip stream is flushed this often
+  flushIntervalMs: number;
+}
+
+export interface MarketDataConfig {
+  // Maintain live order books over WebSocket (false = REST polling only)
+  websocketEnabled: boolean;
+  
+  // Book is flagged stale (and REST is used instead) after this long without a message
+  staleAfterMs: number;
+  
+  // Ping interval - a connection that misses a pong for one interval is reconnected
+  heartbeatIntervalMs: number;
+  
+  // Reconnect backoff: starts here and doubles on each failed attempt up to the max
+  reconnectInitialDelayMs: number;
+  reconnectMaxDelayMs: number;
+}
+
+export interface HedgeRepairConfig {
+  // How to remove a net delta between the venues:
+  // "unwind" = reduce the leg that is too big (falls back to topping up if its book moved too far)
+  // "top_up" = add to the leg that is too small (falls back to unwinding)
+  // "best_price" = whichever venue has the better price for the repair order
+  policy: 'unwind' | 'top_up' | 'best_price';
+  
+  // Repair orders are limit orders no further than this from the mid when the delta was found.
+  // If neither venue can trade within the limit, the kill switch is triggered
+  maxPriceDeviationBps: number;
+  
+  // Give up and trigger the kill switch if the delta is still open after this long
+  deadlineMs: number;
+  
+  // Wait between repair attempts
+  retryIntervalMs: number;
+  
+  // Net deltas up to this size are treated as hedged
+  toleranceBtc: number;
+}
+
+export interface FundingConfig {
+  // Fold funding into decisions. Off = price gap only
+  enabled: boolean;
+  
+  // Projected hold used to price funding into an entry. An open position counts funding
+  // over what's left of it when deciding whether to keep holding
+  expectedHoldHours: number;
 }
 
 export type OrderSide = 'buy' | 'sell';
@@ -90,19 +333,26 @@ export interface OrderRequest {
   side: OrderSide;
   type: OrderType;
   size: number;
-  price?: number;
+  price?: number; // Limit orders only
+  timeInForce?: TimeInForce; // Default: gtc for limit orders, ioc for market orders
+  expiresAt?: number; // When the venue cancels a resting order, ms - required for gtt
+  clientOrderId?: string; // Our own ID for the order (an integer string - both venues take numeric IDs)
   reduceOnly?: boolean;
-  postOnly?: boolean;
 }
 
+/** Everything in an order request besides what is being traded */
+export type OrderOptions = Pick<OrderRequest, 'timeInForce' | 'expiresAt' | 'clientOrderId' | 'reduceOnly'>;
+
 export interface Order {
   orderId: string;
+  clientOrderId?: string; // When the order was placed with one
   symbol: string;
   side: OrderSide;
   type: OrderType;
   size: number;
   price?: number;
   filledSize: number;
+  averageFillPrice?: number; // VWAP of the fills so far, when the exchange reports it
   status: 'open' | 'filled' | 'partially_filled' | 'cancelled' | 'failed';
   timestamp: number;
 }
@@ -130,11 +380,187 @@ export interface FundingRate {
   timestamp: number;
 }
 
+export interface FundingPayment {
+  timestamp: number;
+  amountUsd: number; // Positive = received, negative = paid
+  rate?: number; // Rate applied, per hour
+}
+
+/** One execution of one of our orders, as the venue reports it */
+export interface Fill {
+  orderId: string; // Same ID the venue's placeLimitOrder/placeMarketOrder returned
+  symbol: string;
+  side: OrderSide;
+  size: number;
+  price: number;
+  fee: number; // Charged in feeAsset - negative is a rebate
+  feeAsset: string; // e.g. "USDC"
+  liquidity: 'maker' | 'taker';
+  timestamp: number;
+}
+
 export interface MarketData {
   symbol: string;
   bidPrice: number;
   askPrice: number;
   midPrice: number;
   timestamp: number;
+  source?: 'websocket' | 'rest'; // Where the prices came from (undefined = REST)
+  stale?: boolean; // Local book out of sync or feed silent for longer than staleAfterMs
 }
 
+
+export interface LadderTier {
+  // Add this clip once the gap (plus expected funding) reaches this, USD per unit
+  entryGapUsd: number;
+  
+  // Peel it off once the gap (plus funding still expected) compresses to this
+  exitGapUsd: number;
+  
+  // Clip size in the market's base asset
+  size: number;
+}
+
+export interface LadderConfig {
+  // Laddered mode. Off = one position of positionSize between entryGapUsd and exitGapUsd
+  enabled: boolean;
+  
+  // One clip per tier, added in order of entry gap
+  tiers: LadderTier[];
+  
+  // Cap on the total position across clips, in the market's base asset
+  maxInventory: number;
+}
+
+export interface AdaptiveThresholdConfig {
+  // Derive entryGapUsd/exitGapUsd from recent gaps. Off = the static values
+  enabled: boolean;
+  
+  // rolling: mean and std dev over the last windowMs. ewma: exponentially weighted, halving every halfLifeMs
+  method: 'rolling' | 'ewma';
+  windowMs: number;
+  halfLifeMs: number;
+  
+  // Entry at mean + entryZ std devs, exit at mean + exitZ std devs
+  entryZ: number;
+  exitZ: number;
+  
+  // Gap samples needed before the model replaces the static thresholds
+  minSamples: number;
+  
+  // Entry must clear the exit threshold by the round-trip fees plus this, USD per unit
+  minEdgeUsd: number;
+}
+
+export interface FlipConfig {
+  // Reverse the spread in one execution when the gap inverts past the entry threshold.
+  // Off = exit, wait out the cooldown, then enter the other way
+  enabled: boolean;
+}
+
+export interface CircuitBreakerConfig {
+  // A tripped breaker blocks new entries and flips (exits still run) until an operator resets it.
+  // Trips persist in the state directory when state persistence is enabled.
+  // The consecutive-error breaker trips at risk.maxConsecutiveErrors
+  
+  // Realized net loss since midnight UTC, across markets. 0 = off
+  maxDailyLossUsd: number;
+  
+  // Net delta between the venues held longer than this (hedge repair's tolerance applies)
+  maxUnhedgedSeconds: number;
+  
+  // How often each market checks its net delta
+  unhedgedCheckIntervalMs: number;
+  
+  // Market data stale for longer than this
+  maxStaleDataSeconds: number;
+  
+  // Gap between the venues' mids that can only be bad data, USD per unit. 0 = off
+  maxGapUsd: number;
+}
+
+export interface LossLimitConfig {
+  // Track equity (both venues' account balances) and halt entries and flips when a limit is hit.
+  // Exits still run. A halt lifts when the period it was hit in resets
+  enabled: boolean;
+  
+  // Equity lost since the daily / weekly reset, USD. 0 = off
+  maxDailyLossUsd: number;
+  maxWeeklyLossUsd: number;
+  
+  // Equity below its peak, percent. 0 = off
+  maxDrawdownPercent: number;
+  
+  // Entry size scales down linearly from full size at this drawdown to minSizeMultiplier at
+  // maxDrawdownPercent
+  sizeReductionStartPercent: number;
+  minSizeMultiplier: number;
+  
+  // UTC schedule: days start at resetHourUtc, weeks on weeklyResetDay (0 = Sunday) at that hour
+  resetHourUtc: number;
+  weeklyResetDay: number;
+  
+  // When the equity peak starts over from current equity. never = only when the state file is removed
+  drawdownReset: 'daily' | 'weekly' | 'never';
+  
+  // How often equity is read from the venues
+  refreshIntervalMs: number;
+}
+
+export interface LiquidationConfig {
+  // While a position is open, each leg's liquidation price is estimated from its venue's
+  // maintenance margin and account equity, and compared with the mark price
+  
+  // How often each market checks its legs
+  checkIntervalMs: number;
+  
+  // Alert when either leg's mark is closer than this to its liquidation price, percent. 0 = off
+  alertDistancePercent: number;
+  
+  // Reduce the spread when either leg is closer than this, percent. 0 = off
+  reduceDistancePercent: number;
+  
+  // Share of the position closed per reduction. The whole position closes when what's left
+  // would be below the minimum order size
+  reduceFraction: number;
+}
+
+export interface RebalanceConfig {
+  // Watch free collateral (available margin) on both venues and recommend USDC transfers
+  // when one venue runs low. New entries and flips wait while a rebalance is pending
+  enabled: boolean;
+  
+  // How often free collateral is read (and a running transfer polled)
+  checkIntervalMs: number;
+  
+  // Rebalance when a venue holds less than this share of the total free collateral (0.35 = 35%)
+  minFreeCollateralShare: number;
+  
+  // Transfers move the low venue toward half the total, within these bounds, USD
+  minTransferUsd: number;
+  maxTransferUsd: number;
+  
+  // Free collateral always left on the venue transferred from, USD
+  reserveUsd: number;
+  
+  // Execute transfers through the adapter. Off = recommend only, and entries wait until the
+  // operator has moved the funds
+  execute: boolean;
+  
+  // Transfer adapter used when executing (stub: logs the transfers and completes them at once)
+  adapter: 'stub';
+  
+  // A withdrawal or deposit still pending after this long is treated as failed
+  transferTimeoutMs: number;
+}
+
+export interface ReconciliationConfig {
+  // Flag a reconciled trade whose net PnL moved by more than this, USD
+  maxPnlDriftUsd: number;
+  
+  // Flag a reconciled trade where any leg's fill price moved by more than this, basis points
+  maxPriceDriftBps: number;
+  
+  // Trades that still can't be matched to fills after this long are marked unmatched and left alone
+  giveUpAfterMs: number;
+}
@@ -0,0 +1,163 @@
+/**
+ * Adaptive entry/exit thresholds.
+ * The Nado-Lighter basis shifts between regimes, so fixed gaps either never trigger or never
+ * exit. This model tracks the gaps seen while looking for entries and places the entry
+ * threshold entryZ standard deviations above their mean and the exit threshold exitZ above it.
+ * The entry always clears the exit by the round-trip fees plus minEdgeUsd, and until enough
+ * samples are in the static thresholds apply.
+ */
+
+import { AdaptiveThresholdConfig } from '../config/types';
+import { Logger } from '../utils/logger';
+
+// Default adaptive threshold settings
+export const DEFAULT_ADAPTIVE_THRESHOLD_CONFIG: AdaptiveThresholdConfig = {
+  enabled: false,
+  method: 'ewma',
+  windowMs: 3600000,
+  halfLifeMs: 900000,
+  entryZ: 2,
+  exitZ: 0,
+  minSamples: 300,
+  minEdgeUsd: 0
+};
+
+export interface GapThresholds {
+  entryGapUsd: number;
+  exitGapUsd: number;
+  source: 'adaptive' | 'static'; // static while the model warms up (or when disabled)
+  meanGapUsd: number;
+  stdGapUsd: number;
+  samples: number;
+  feeFloorUsd: number; // Round-trip fees per unit at the last sample's price
+}
+
+interface GapSample {
+  timestamp: number;
+  gapUsd: number;
+}
+
+export class AdaptiveThresholdModel {
+  private config: AdaptiveThresholdConfig;
+  private logger: Logger;
+  private staticEntryGapUsd: number;
+  private staticExitGapUsd: number;
+  private roundTripFeeBps: number;
+
+  // Rolling window with running sums
+  private window: GapSample[] = [];
+  private sum: number = 0;
+  private sumSquares: number = 0;
+
+  // EWMA state
+  private ewmaMean: number = 0;
+  private ewmaVariance: number = 0;
+  private lastSampleTime: number = 0;
+
+  private samples: number = 0;
+  private lastPrice: number = 0;
+  private lastSource: 'adaptive' | 'static' = 'static';
+
+  constructor(
+    config: AdaptiveThresholdConfig,
+    staticEntryGapUsd: number,
+    staticExitGapUsd: number,
+    roundTripFeeBps: number,
+    logger: Logger
+  ) {
+    this.config = config;
+    this.staticEntryGapUsd = staticEntryGapUsd;
+    this.staticExitGapUsd = staticExitGapUsd;
+    this.roundTripFeeBps = roundTripFeeBps;
+    this.logger = logger;
+  }
+
+  /**
+   * Add a gap sample (USD per unit, same sign convention as the thresholds) at a reference price.
+   */
+  addSample(gapUsd: number, price: number, timestamp: number = Date.now()): void {
+    this.lastPrice = price;
+
+    if (this.config.method === 'rolling') {
+      this.window.push({ timestamp, gapUsd });
+      this.sum += gapUsd;
+      this.sumSquares += gapUsd * gapUsd;
+
+      while (this.window.length > 0 && timestamp - this.window[0].timestamp > this.config.windowMs) {
+        const expired = this.window.shift()!;
+        this.sum -= expired.gapUsd;
+        this.sumSquares -= expired.gapUsd * expired.gapUsd;
+      }
+      this.samples = this.window.length;
+    } else {
+      if (this.samples === 0) {
+        this.ewmaMean = gapUsd;
+        this.ewmaVariance = 0;
+      } else {
+        // Weight of the new sample grows with the time since the last one
+        const elapsed = Math.max(0, timestamp - this.lastSampleTime);
+        const alpha = 1 - Math.pow(0.5, elapsed / this.config.halfLifeMs);
+        const deviation = gapUsd - this.ewmaMean;
+        this.ewmaMean += alpha * deviation;
+        this.ewmaVariance = (1 - alpha) * (this.ewmaVariance + alpha * deviation * deviation);
+      }
+      this.lastSampleTime = timestamp;
+      this.samples++;
+    }
+
+    const source = this.getThresholds().source;
+    if (source !== this.lastSource) {
+      this.lastSource = source;
+      this.logger.info(
+        source === 'adaptive'
+          ? `📐 Adaptive thresholds active after ${this.samples} gap samples: ${this.describe()}`
+          : `📐 Only ${this.samples} gap samples in the window - back to static thresholds`
+      );
+    }
+  }
+
+  /**
+   * Current thresholds. Static until minSamples gaps have been seen.
+   */
+  getThresholds(): GapThresholds {
+    const { mean, std } = this.getStatistics();
+    const feeFloorUsd = this.roundTripFeeBps / 10000 * this.lastPrice;
+    const base = { meanGapUsd: mean, stdGapUsd: std, samples: this.samples, feeFloorUsd };
+
+    if (!this.config.enabled || this.samples < this.config.minSamples) {
+      return { ...base, entryGapUsd: this.staticEntryGapUsd, exitGapUsd: this.staticExitGapUsd, source: 'static' };
+    }
+
+    const exitGapUsd = Math.max(0, mean + this.config.exitZ * std);
+    const entryGapUsd = Math.max(
+      mean + this.config.entryZ * std,
+      exitGapUsd + feeFloorUsd + this.config.minEdgeUsd
+    );
+    return { ...base, entryGapUsd, exitGapUsd, source: 'adaptive' };
+  }
+
+  /**
+   * One-line summary for logs and status.
+   */
+  describe(): string {
+    const t = this.getThresholds();
+    return `entry ${t.entryGapUsd.toFixed(2)} / exit ${t.exitGapUsd.toFixed(2)} USD (${t.source}, ` +
+      `mean ${t.meanGapUsd.toFixed(2)} ± ${t.stdGapUsd.toFixed(2)} over ${t.samples} samples, ` +
+      `fee floor ${t.feeFloorUsd.toFixed(2)})`;
+  }
+
+  private getStatistics(): { mean: number; std: number } {
+    if (this.samples === 0) {
+      return { mean: 0, std: 0 };
+    }
+
+    if (this.config.method === 'rolling') {
+      const mean = this.sum / this.samples;
+      // Running sums can dip just below zero variance through float error
+      const variance = Math.max(0, this.sumSquares / this.samples - mean * mean);
+      return { mean, std: Math.sqrt(variance) };
+    }
+
+    return { mean: this.ewmaMean, std: Math.sqrt(this.ewmaVariance) };
+  }
+}
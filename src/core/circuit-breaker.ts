@@ -0,0 +1,279 @@
+/**
+ * Circuit breakers.
+ * Trip on conditions where the bot should stop opening anything new: consecutive errors, the
+ * daily realized-loss limit, a net delta left open too long, market data stale too long and
+ * gaps no market could produce. A trip blocks entries and flips on every market (exits still
+ * run) until an operator resets it with `npm run breakers -- reset` or POST /api/breakers/reset.
+ * Trips, resets and the day's realized PnL are kept in the state directory, so a restart
+ * doesn't clear them. The running bot picks up a reset from that file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BotConfig, CircuitBreakerConfig } from '../config/types';
+import { Logger } from '../utils/logger';
+import { DEFAULT_STATE_CONFIG } from './state-store';
+
+// Default breaker settings
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  maxDailyLossUsd: 0,
+  maxUnhedgedSeconds: 60,
+  unhedgedCheckIntervalMs: 5000,
+  maxStaleDataSeconds: 120,
+  maxGapUsd: 1000
+};
+
+const RELOAD_INTERVAL_MS = 5000; // How often a tripped bot looks for an operator reset
+const MAX_HISTORY = 100;
+
+export type BreakerType = 'consecutive_errors' | 'daily_loss' | 'unhedged' | 'stale_data' | 'gap_sanity';
+
+export interface BreakerTrip {
+  breaker: BreakerType;
+  reason: string;
+  symbol?: string; // Market that tripped it, if any
+  timestamp: number;
+}
+
+export interface BreakerHistoryEntry extends BreakerTrip {
+  event: 'trip' | 'reset'; // Resets repeat the trip they cleared
+  operator?: string;
+  note?: string;
+}
+
+export interface CircuitBreakerState {
+  version: 1;
+  trip: BreakerTrip | null;
+  history: BreakerHistoryEntry[]; // Most recent last
+  dailyPnl: { date: string; realizedUsd: number }; // date is YYYY-MM-DD (UTC)
+}
+
+export function emptyCircuitBreakerState(): CircuitBreakerState {
+  return { version: 1, trip: null, history: [], dailyPnl: { date: '', realizedUsd: 0 } };
+}
+
+/**
+ * Where the trip state lives, or null when state persistence is off (trips then last until restart).
+ */
+export function getCircuitBreakerPath(config: BotConfig): string | null {
+  const stateConfig = config.state || DEFAULT_STATE_CONFIG;
+  return stateConfig.enabled ? path.join(stateConfig.directory, 'circuit-breakers.json') : null;
+}
+
+export function readCircuitBreakerState(filePath: string): CircuitBreakerState {
+  if (!fs.existsSync(filePath)) {
+    return emptyCircuitBreakerState();
+  }
+  return { ...emptyCircuitBreakerState(), ...JSON.parse(fs.readFileSync(filePath, 'utf8')) };
+}
+
+/**
+ * Read, change and write back the trip state, so the bot and an operator reset don't
+ * overwrite each other's changes.
+ */
+export function updateCircuitBreakerState(
+  filePath: string,
+  update: (state: CircuitBreakerState) => void
+): CircuitBreakerState {
+  const state = readCircuitBreakerState(filePath);
+  update(state);
+  state.history = state.history.slice(-MAX_HISTORY);
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2), 'utf8');
+  fs.renameSync(tmpPath, filePath);
+  return state;
+}
+
+/**
+ * Operator reset. Returns the trip that was cleared, or null if nothing was tripped.
+ */
+export function resetCircuitBreaker(filePath: string, operator: string, note?: string): BreakerTrip | null {
+  let cleared: BreakerTrip | null = null;
+  updateCircuitBreakerState(filePath, state => {
+    cleared = state.trip;
+    if (state.trip) {
+      state.history.push({ ...state.trip, event: 'reset', operator, note, timestamp: Date.now() });
+      state.trip = null;
+    }
+  });
+  return cleared;
+}
+
+function utcDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+export class CircuitBreakerManager {
+  private config: CircuitBreakerConfig;
+  private maxConsecutiveErrors: number;
+  private logger: Logger;
+  private filePath: string | null;
+  private state: CircuitBreakerState;
+  private lastReload: number = 0;
+  private consecutiveErrors: number = 0;
+  private staleSince: Map<string, number> = new Map(); // symbol -> first stale read
+  private unhedgedSince: Map<string, number> = new Map(); // symbol -> first delta beyond tolerance
+
+  constructor(config: BotConfig, logger: Logger) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config.circuitBreakers };
+    this.maxConsecutiveErrors = config.risk.maxConsecutiveErrors;
+    this.logger = logger;
+    this.filePath = getCircuitBreakerPath(config);
+    this.state = this.filePath ? readCircuitBreakerState(this.filePath) : emptyCircuitBreakerState();
+
+    if (this.state.trip) {
+      this.logger.error(
+        `🚨 Circuit breaker still tripped since ${new Date(this.state.trip.timestamp).toISOString()} ` +
+        `(${this.state.trip.breaker}: ${this.state.trip.reason}) - no new entries until reset with: npm run breakers -- reset`
+      );
+    }
+  }
+
+  /**
+   * True while a breaker is tripped. Checks the state file for an operator reset now and then.
+   */
+  isTripped(): boolean {
+    if (this.state.trip && this.filePath && Date.now() - this.lastReload >= RELOAD_INTERVAL_MS) {
+      this.lastReload = Date.now();
+      this.reload();
+    }
+    return this.state.trip !== null;
+  }
+
+  getTrip(): BreakerTrip | null {
+    return this.state.trip;
+  }
+
+  getStatus(): { trip: BreakerTrip | null; consecutiveErrors: number; dailyRealizedPnlUsd: number; history: BreakerHistoryEntry[] } {
+    return {
+      trip: this.state.trip,
+      consecutiveErrors: this.consecutiveErrors,
+      dailyRealizedPnlUsd: this.state.dailyPnl.date === utcDate(Date.now()) ? this.state.dailyPnl.realizedUsd : 0,
+      history: [...this.state.history]
+    };
+  }
+
+  recordError(symbol: string, error: string): void {
+    this.consecutiveErrors++;
+    if (this.consecutiveErrors >= this.maxConsecutiveErrors) {
+      this.trip('consecutive_errors', `${this.consecutiveErrors} consecutive errors, last: ${error}`, symbol);
+    }
+  }
+
+  /** A trade went through - the error streak is over */
+  recordSuccess(): void {
+    this.consecutiveErrors = 0;
+  }
+
+  /**
+   * Add a closed trade's net PnL (USD) to today's total.
+   */
+  recordRealizedPnl(netPnlUsd: number): void {
+    const today = utcDate(Date.now());
+    this.persistChange(state => {
+      if (state.dailyPnl.date !== today) {
+        state.dailyPnl = { date: today, realizedUsd: 0 };
+      }
+      state.dailyPnl.realizedUsd += netPnlUsd;
+    });
+
+    const realizedUsd = this.state.dailyPnl.realizedUsd;
+    if (this.config.maxDailyLossUsd > 0 && realizedUsd <= -this.config.maxDailyLossUsd) {
+      this.trip(
+        'daily_loss',
+        `realized ${realizedUsd.toFixed(2)} USD today, limit -${this.config.maxDailyLossUsd} USD`
+      );
+    }
+  }
+
+  recordMarketData(symbol: string, stale: boolean): void {
+    const seconds = this.trackDuration(this.staleSince, symbol, stale);
+    if (seconds > this.config.maxStaleDataSeconds) {
+      this.trip('stale_data', `market data stale for ${seconds.toFixed(0)}s (limit ${this.config.maxStaleDataSeconds}s)`, symbol);
+    }
+  }
+
+  recordGap(symbol: string, gapUsd: number): void {
+    if (this.config.maxGapUsd > 0 && Math.abs(gapUsd) > this.config.maxGapUsd) {
+      this.trip('gap_sanity', `gap ${gapUsd.toFixed(2)} USD beyond the ${this.config.maxGapUsd} USD sanity bound`, symbol);
+    }
+  }
+
+  recordNetDelta(symbol: string, deltaBtc: number, toleranceBtc: number): void {
+    const seconds = this.trackDuration(this.unhedgedSince, symbol, Math.abs(deltaBtc) > toleranceBtc);
+    if (seconds > this.config.maxUnhedgedSeconds) {
+      this.trip(
+        'unhedged',
+        `net delta ${deltaBtc.toFixed(4)} open for ${seconds.toFixed(0)}s (limit ${this.config.maxUnhedgedSeconds}s)`,
+        symbol
+      );
+    }
+  }
+
+  /**
+   * Seconds a condition has held for a market (0 when it doesn't hold now).
+   */
+  private trackDuration(since: Map<string, number>, symbol: string, holds: boolean): number {
+    const now = Date.now();
+    if (!holds) {
+      since.delete(symbol);
+      return 0;
+    }
+    if (!since.has(symbol)) {
+      since.set(symbol, now);
+    }
+    return (now - since.get(symbol)!) / 1000;
+  }
+
+  private trip(breaker: BreakerType, reason: string, symbol?: string): void {
+    if (this.state.trip) {
+      return; // The first trip stands until reset
+    }
+
+    const trip: BreakerTrip = { breaker, reason, symbol, timestamp: Date.now() };
+    this.logger.error(
+      `🚨 CIRCUIT BREAKER TRIPPED (${breaker})${symbol ? ` on ${symbol}` : ''}: ${reason} - ` +
+      `no new entries until an operator resets it (npm run breakers -- reset)`
+    );
+    this.persistChange(state => {
+      state.trip = trip;
+      state.history.push({ ...trip, event: 'trip' });
+    });
+  }
+
+  private persistChange(update: (state: CircuitBreakerState) => void): void {
+    if (!this.filePath) {
+      update(this.state);
+      return;
+    }
+
+    try {
+      this.state = updateCircuitBreakerState(this.filePath, update);
+    } catch (error) {
+      // Keep the change in memory - but make it loud
+      update(this.state);
+      this.logger.error(`Failed to persist circuit breaker state: ${error}`);
+    }
+  }
+
+  private reload(): void {
+    try {
+      const state = readCircuitBreakerState(this.filePath!);
+      if (this.state.trip && !state.trip) {
+        const reset = state.history.filter(entry => entry.event === 'reset').pop();
+        this.logger.info(
+          `✅ Circuit breaker reset${reset?.operator ? ` by ${reset.operator}` : ''}` +
+          `${reset?.note ? ` (${reset.note})` : ''} - entries resume`
+        );
+        this.consecutiveErrors = 0;
+        this.staleSince.clear();
+        this.unhedgedSince.clear();
+      }
+      this.state = state;
+    } catch (error) {
+      this.logger.warn(`Failed to read circuit breaker state: ${error}`);
+    }
+  }
+}
@@ -4,13 +4,15 @@
  * 
  * Supports two execution modes:
  * - "simultaneous": Aggressive limits on both exchanges at once (current)
- * - "sequential_maker": Nado maker first, Lighter market on fill (lower fees)
+ * - "sequential_maker": Maker order on the maker venue first, hedge on the other venue on fill (lower fees)
  */
 
 import { IExchange } from '../exchanges/interface';
-import { Order, OrderSide, ExecutionConfig } from '../config/types';
+import { Order, OrderOptions, OrderRequest, OrderSide, ExecutionConfig, MarketConfig, MarketSpec, Position, VenueId } from '../config/types';
 import { Logger } from '../utils/logger';
-import { sleep } from '../utils/retry';
+import { isAmbiguousError, sleep } from '../utils/retry';
+import { prepareOrder, roundToIncrement } from './markets';
+import { OrderJournal, deriveClientOrderId } from './order-journal';
 
 // Default execution config
 const DEFAULT_EXECUTION_CONFIG: ExecutionConfig = {
@@ -21,6 +23,13 @@ const DEFAULT_EXECUTION_CONFIG: ExecutionConfig = {
   nadoFillPollIntervalMs: 100
 };
 
+const ORDER_POLL_INTERVAL_MS = 500; // Fill polling for crossing/taker orders
+const TAKER_FILL_TIMEOUT_MS = 5000; // How long a crossing order gets before the rest is cancelled
+const SIMULTANEOUS_FILL_TIMEOUT_MS = 20000; // Both legs at once - APIs can be slow to update
+const FILL_EPSILON = 1e-9;
+const DEFAULT_ORDER_SUBMIT_ATTEMPTS = 3;
+const DEFAULT_ORDER_LOOKUP_TIMEOUT_MS = 5000;
+
 export interface ExecutionResult {
   success: boolean;
   order?: Order;
@@ -29,7 +38,9 @@ export interface ExecutionResult {
 
 export interface LegExecutionResult {
   exchange: string;
+  venue: VenueId;
   orderId: string;
+  orderIds: string[]; // Every order that filled part of the leg (limit order, taker fallback, remainder close)
   filledSize: number;
   averagePrice: number;
   usedMaker: boolean;
@@ -38,49 +49,283 @@ export interface LegExecutionResult {
 
 export class ExecutionManager {
   private logger: Logger;
-  private nadoMakerFeeBps: number;
-  private nadoTakerFeeBps: number;
-  private lighterMakerFeeBps: number;
-  private lighterTakerFeeBps: number;
   private executionConfig: ExecutionConfig;
+  private market: MarketConfig | undefined;
+  private makerVenue: VenueId | undefined;
+  private orderJournal: OrderJournal;
+  private tradeId: string | null = null; // Trade the orders being sent belong to
+  private sessionId: string = `orders-${Date.now()}`; // Stands in for the trade outside spread operations
+  private legCounts: Map<string, number> = new Map(); // "tradeId:venue:side" -> orders sent
   
   constructor(
     logger: Logger,
-    nadoMakerFeeBps: number = 1,
-    nadoTakerFeeBps: number = 3.5,
-    lighterMakerFeeBps: number = 0.2,
-    lighterTakerFeeBps: number = 0.2,
-    executionConfig?: ExecutionConfig
+    executionConfig?: ExecutionConfig,
+    market?: MarketConfig, // Tick and lot size overrides for the market this manager trades
+    makerVenue?: VenueId, // Venue that posts the maker order in sequential_maker mode
+    orderJournal?: OrderJournal // Default: in memory only
   ) {
     this.logger = logger;
-    this.nadoMakerFeeBps = nadoMakerFeeBps;
-    this.nadoTakerFeeBps = nadoTakerFeeBps;
-    this.lighterMakerFeeBps = lighterMakerFeeBps;
-    this.lighterTakerFeeBps = lighterTakerFeeBps;
     this.executionConfig = executionConfig || DEFAULT_EXECUTION_CONFIG;
+    this.market = market;
+    this.makerVenue = makerVenue;
+    this.orderJournal = orderJournal || new OrderJournal(null, market?.symbol || 'orders', logger);
+  }
+  
+  /**
+   * Whether `first` takes the maker leg against `second`: it's the maker venue, or neither is.
+   */
+  private isMakerVenue(first: IExchange, second: IExchange): boolean {
+    return first.id === this.makerVenue || second.id !== this.makerVenue;
+  }
+  
+  /**
+   * The venue's spec for a market, with the market's configured tick and lot sizes applied.
+   */
+  private getMarketSpec(exchange: IExchange, symbol: string): MarketSpec {
+    const spec = exchange.getMarketSpec(symbol);
+    if (this.market?.symbol !== symbol) {
+      return spec;
+    }
+    return {
+      ...spec,
+      tickSize: this.market.tickSize || spec.tickSize,
+      lotSize: this.market.lotSize || spec.lotSize
+    };
   }
   
   /**
-   * Calculate fee in USD for a trade
+   * Price increment for orders on an exchange: the market's configured tick, else the venue's own.
+   */
+  private getTickSize(exchange: IExchange, symbol: string): number {
+    return this.getMarketSpec(exchange, symbol).tickSize;
+  }
+  
+  /**
+   * Calculate fee in USD for a trade, at the venue's maker or taker rate
    */
   private calculateFeeUsd(
-    exchangeName: string,
+    exchange: IExchange,
+    symbol: string,
     size: number,
     price: number,
     usedMaker: boolean
   ): number {
     const notionalValue = size * price;
-    let feeBps: number;
+    const fees = exchange.getMarketSpec(symbol).fees;
+    const feeBps = usedMaker ? fees.makerFeeBps : fees.takerFeeBps;
     
-    if (exchangeName === 'Nado') {
-      feeBps = usedMaker ? this.nadoMakerFeeBps : this.nadoTakerFeeBps;
-    } else if (exchangeName === 'Lighter') {
-      feeBps = usedMaker ? this.lighterMakerFeeBps : this.lighterTakerFeeBps;
-    } else {
-      feeBps = 0;
+    return (notionalValue * feeBps) / 10000;
+  }
+  
+  /**
+   * Place a limit order fitted to the venue's spec (see prepareOrder). A post-only order on a
+   * venue without post-only goes out as a plain limit - it can take liquidity if the book moves.
+   */
+  private async submitLimitOrder(
+    exchange: IExchange,
+    symbol: string,
+    side: OrderSide,
+    size: number,
+    price: number,
+    options?: Omit<OrderOptions, 'clientOrderId'>
+  ): Promise<Order> {
+    const spec = this.getMarketSpec(exchange, symbol);
+    let timeInForce = options?.timeInForce;
+    if (timeInForce === 'post_only' && !spec.capabilities.timeInForce.includes('post_only')) {
+      this.logger.debug(`${exchange.name}: Post-only not supported - placing a plain limit order`);
+      timeInForce = 'gtc';
     }
     
-    return (notionalValue * feeBps) / 10000;
+    const order = prepareOrder(spec, exchange.name, { ...options, symbol, side, type: 'limit', size, price, timeInForce });
+    return this.submitOrder(exchange, order);
+  }
+  
+  /**
+   * Place a market order fitted to the venue's spec (see prepareOrder).
+   */
+  private async submitMarketOrder(
+    exchange: IExchange,
+    symbol: string,
+    side: OrderSide,
+    size: number,
+    referencePrice?: number,
+    options?: Pick<OrderOptions, 'reduceOnly'>
+  ): Promise<Order> {
+    const order = prepareOrder(
+      this.getMarketSpec(exchange, symbol),
+      exchange.name,
+      { ...options, symbol, side, type: 'market', size },
+      referencePrice
+    );
+    return this.submitOrder(exchange, order);
+  }
+  
+  /**
+   * Send an order under a client order ID derived from its trade and leg, journaled before it
+   * goes out. When the venue doesn't answer, the order is looked up by that ID and only sent
+   * again - with the same ID - once the venue says it doesn't have it, so a resend can't double
+   * the position. Venues whose lookups can miss a fresh order can't say that: there the order
+   * is left unknown and the send fails.
+   */
+  private async submitOrder(exchange: IExchange, request: OrderRequest): Promise<Order> {
+    const { tradeId, leg } = this.nextLeg(exchange, request.side);
+    const clientOrderId = deriveClientOrderId(tradeId, leg);
+    const order: OrderRequest = { ...request, clientOrderId };
+    const { symbol, side, type, size, price } = order;
+    this.orderJournal.record({ clientOrderId, tradeId, leg, venue: exchange.id, symbol, side, type, size, price });
+    
+    const maxAttempts = this.executionConfig.orderSubmitAttempts ?? DEFAULT_ORDER_SUBMIT_ATTEMPTS;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const placed = await exchange.placeOrder(order);
+        this.orderJournal.update(clientOrderId, { status: 'placed', attempts: attempt, orderId: placed.orderId });
+        return placed;
+      } catch (error) {
+        if (!isAmbiguousError(error)) {
+          this.orderJournal.update(clientOrderId, { status: 'failed', attempts: attempt, error: String(error) });
+          throw error;
+        }
+        
+        this.logger.warn(
+          `⚠️  ${exchange.name}: No answer placing order ${clientOrderId} (${error}) - looking it up before sending again`
+        );
+        let found: Order | null;
+        try {
+          found = await this.findSubmittedOrder(exchange, symbol, clientOrderId);
+        } catch (lookupError) {
+          this.orderJournal.update(clientOrderId, { status: 'unknown', attempts: attempt, error: String(lookupError) });
+          throw new Error(
+            `${exchange.name}: Order ${clientOrderId} may have been placed - lookup gave no answer (${lookupError}), not sending it again`
+          );
+        }
+        
+        if (found) {
+          this.logger.info(`✓ ${exchange.name}: Order ${clientOrderId} reached the venue (${found.orderId}, ${found.status})`);
+          this.orderJournal.update(clientOrderId, { status: 'placed', attempts: attempt, orderId: found.orderId });
+          return found;
+        }
+        if (attempt >= maxAttempts) {
+          this.orderJournal.update(clientOrderId, { status: 'failed', attempts: attempt, error: String(error) });
+          throw new Error(`${exchange.name}: Order ${clientOrderId} not placed after ${attempt} attempt(s): ${error}`);
+        }
+        this.logger.warn(`${exchange.name}: Order ${clientOrderId} is not on the venue - sending again (attempt ${attempt + 1}/${maxAttempts})`);
+      }
+    }
+  }
+  
+  /**
+   * An order after a send that got no answer, by client order ID - null only when the venue's
+   * lookups are reliable and it doesn't have the order. Where lookups can miss a fresh order,
+   * keep looking for orderLookupTimeoutMs; not finding it there is no answer either. Throws when
+   * the venue gave none.
+   */
+  private async findSubmittedOrder(exchange: IExchange, symbol: string, clientOrderId: string): Promise<Order | null> {
+    const reliable = exchange.getMarketSpec(symbol).capabilities.reliableOrderLookup;
+    const timeoutMs = this.executionConfig.orderLookupTimeoutMs ?? DEFAULT_ORDER_LOOKUP_TIMEOUT_MS;
+    const deadline = Date.now() + timeoutMs;
+    let answered = false;
+    let lastError: unknown;
+    
+    for (;;) {
+      try {
+        const found = await exchange.getOrderByClientId(symbol, clientOrderId);
+        if (found || reliable) {
+          return found;
+        }
+        answered = true;
+      } catch (error) {
+        lastError = error;
+        this.logger.debug(`${exchange.name}: Lookup of order ${clientOrderId} failed: ${error}`);
+      }
+      
+      if (Date.now() >= deadline) {
+        if (!answered) {
+          throw lastError;
+        }
+        throw new Error(`not found within ${timeoutMs}ms, and ${exchange.name} lookups can miss fresh orders`);
+      }
+      await sleep(ORDER_POLL_INTERVAL_MS);
+    }
+  }
+  
+  /**
+   * The trade and leg of the next order on a venue and side: legs are numbered per venue and
+   * side within the trade, so the same trade sends the same sequence of client order IDs.
+   */
+  private nextLeg(exchange: IExchange, side: OrderSide): { tradeId: string; leg: string } {
+    const tradeId = this.tradeId || this.sessionId;
+    const key = `${tradeId}:${exchange.id}:${side}`;
+    const count = (this.legCounts.get(key) || 0) + 1;
+    this.legCounts.set(key, count);
+    return { tradeId, leg: `${exchange.id}:${side}:${count}` };
+  }
+  
+  /**
+   * The client order ID the next order on a venue and side will be sent under.
+   */
+  private peekClientOrderId(exchange: IExchange, side: OrderSide): string {
+    const tradeId = this.tradeId || this.sessionId;
+    const count = (this.legCounts.get(`${tradeId}:${exchange.id}:${side}`) || 0) + 1;
+    return deriveClientOrderId(tradeId, `${exchange.id}:${side}:${count}`);
+  }
+  
+  /**
+   * Orders from here on belong to `tradeId` - including hedge repairs after the operation, until
+   * the next one starts. It must be new for every attempt, or a retried operation's orders
+   * would be taken for the last attempt's.
+   */
+  private beginTrade(tradeId: string | undefined): void {
+    // The last trade's legs are numbered for good - drop its counts
+    const previous = this.tradeId;
+    if (previous && previous !== tradeId) {
+      for (const key of this.legCounts.keys()) {
+        if (key.startsWith(`${previous}:`)) {
+          this.legCounts.delete(key);
+        }
+      }
+    }
+    this.tradeId = tradeId || null;
+  }
+  
+  /**
+   * Look up orders a previous run sent without learning whether they were placed. Anything they
+   * filled is already in the venues' positions; this settles the journal and reports them.
+   */
+  async resolveUnresolvedOrders(exchanges: IExchange[]): Promise<void> {
+    for (const submission of this.orderJournal.getUnresolved()) {
+      const exchange = exchanges.find(candidate => candidate.id === submission.venue);
+      if (!exchange) {
+        continue;
+      }
+      
+      const description = `${submission.venue} ${submission.side} ${submission.size} ${submission.symbol} ` +
+        `(client order ID ${submission.clientOrderId}, sent ${new Date(submission.createdAt).toISOString()})`;
+      try {
+        const order = await exchange.getOrderByClientId(submission.symbol, submission.clientOrderId);
+        if (order) {
+          this.logger.warn(`⚠️  Order from the last run was placed: ${description} - ${order.status}, ${order.filledSize} filled`);
+          this.orderJournal.update(submission.clientOrderId, { status: 'placed', orderId: order.orderId });
+        } else {
+          // Venues with unreliable lookups may have aged it out - worth a look either way
+          this.logger.warn(`⚠️  Order from the last run not found on ${exchange.name}: ${description}`);
+          this.orderJournal.update(submission.clientOrderId, { status: 'failed', error: 'Not found after restart' });
+        }
+      } catch (error) {
+        this.logger.warn(`⚠️  Could not look up order from the last run: ${description} (${error}) - check it on the venue`);
+      }
+    }
+  }
+  
+  /**
+   * Options for a maker order: post-only, expiring after makerOrderExpiryMs when it's set.
+   */
+  private makerOrderOptions(reduceOnly?: boolean): OrderOptions {
+    const expiryMs = this.executionConfig.makerOrderExpiryMs;
+    return {
+      timeInForce: 'post_only',
+      expiresAt: expiryMs ? Date.now() + expiryMs : undefined,
+      reduceOnly
+    };
   }
   
   /**
@@ -102,64 +347,50 @@ export class ExecutionManager {
       `Executing ${isExit ? 'EXIT' : 'ENTRY'} ${side} ${size} ${symbol} on ${exchange.name} near ${targetPrice.toFixed(2)}`
     );
     
-    // Step 1: Place maker order and TRUST it will fill
+    const positionBefore = await this.getSignedPositionSize(exchange, symbol);
+    
+    // Step 1: Place a crossing limit order and wait for it to fill
     const makerResult = await this.tryMakerOrder(
       exchange,
       symbol,
       side,
       size,
       targetPrice,
-      timeoutMs,
       isExit // Pass exit flag for more aggressive pricing
     );
     
-    // ASSUME SUCCESS: Trust that the limit order placed and will fill
-    // No timeout checking, no verification - just trust it
-    if (makerResult.success && makerResult.order) {
-      const fillPrice = makerResult.order.price || targetPrice;
-      const feeUsd = this.calculateFeeUsd(exchange.name, size, fillPrice, true);
-      
-      this.logger.info(
-        `${exchange.name}: Limit order placed, assuming fill at ${fillPrice.toFixed(2)} (fee: $${feeUsd.toFixed(2)})`
-      );
-      return {
-        exchange: exchange.name,
-        orderId: makerResult.order.orderId,
-        filledSize: size, // Assume full fill
-        averagePrice: fillPrice,
-        usedMaker: true,
-        feeUsd
-      };
-    }
-    
-    // Step 2: Partial fill or timeout - cancel and assess
     let filledSize = 0;
-    let averagePrice = targetPrice;
+    let notional = 0;
+    let makerFilledSize = 0;
+    const orderIds: string[] = [];
     
     if (makerResult.order) {
-      filledSize = makerResult.order.filledSize;
-      if (makerResult.order.price) {
-        averagePrice = makerResult.order.price;
-      }
+      // Anything still open at the timeout is cancelled
+      const order = await this.trackOrder(
+        exchange,
+        symbol,
+        makerResult.order,
+        positionBefore,
+        timeoutMs,
+        ORDER_POLL_INTERVAL_MS
+      );
       
-      // Cancel the remaining part
-      if (filledSize < size) {
-        try {
-          await exchange.cancelOrder(symbol, makerResult.order.orderId);
-          this.logger.info(
-            `${exchange.name}: Cancelled maker order ${makerResult.order.orderId} ` +
-            `(filled ${filledSize}/${size})`
-          );
-        } catch (error) {
-          this.logger.warn(`Failed to cancel order: ${error}`);
-        }
+      makerFilledSize = order.filledSize;
+      filledSize = order.filledSize;
+      if (order.filledSize > 0) {
+        orderIds.push(order.orderId);
       }
+      notional = order.filledSize * this.getFillPrice(order, targetPrice);
+      
+      this.logger.info(
+        `${exchange.name}: Limit order ${order.orderId} ${order.status} (filled ${filledSize}/${size})`
+      );
     }
     
-    // Step 3: Fall back to taker if allowed and needed
+    // Step 2: Fall back to taker if allowed and needed
     const remainingSize = size - filledSize;
     
-    if (remainingSize > 0 && allowTakerFallback) {
+    if (remainingSize > FILL_EPSILON && allowTakerFallback) {
       this.logger.info(
         `${exchange.name}: Falling back to taker order for remaining ${remainingSize.toFixed(4)} ${symbol}`
       );
@@ -168,30 +399,23 @@ export class ExecutionManager {
         exchange,
         symbol,
         side,
-        remainingSize
+        remainingSize,
+        targetPrice
       );
       
       if (takerResult.success && takerResult.order) {
-        // Calculate weighted average price
-        const totalFilled = filledSize + takerResult.order.filledSize;
-        if (filledSize > 0) {
-          averagePrice = (
-            (averagePrice * filledSize + (takerResult.order.price || targetPrice) * takerResult.order.filledSize) /
-            totalFilled
-          );
-        } else {
-          averagePrice = takerResult.order.price || targetPrice;
-        }
-        
-        filledSize = totalFilled;
+        filledSize += takerResult.order.filledSize;
+        orderIds.push(takerResult.order.orderId);
+        notional += takerResult.order.filledSize * this.getFillPrice(takerResult.order, targetPrice);
         
         this.logger.info(
-          `${exchange.name}: Taker order filled ${takerResult.order.filledSize} at avg ${averagePrice.toFixed(2)}`
+          `${exchange.name}: Taker order filled ${takerResult.order.filledSize} ` +
+          `at ${this.getFillPrice(takerResult.order, targetPrice).toFixed(2)}`
         );
       }
     }
     
-    if (filledSize < size) {
+    if (filledSize < size - FILL_EPSILON) {
       throw new Error(
         `${exchange.name}: Failed to fully fill order. ` +
         `Filled ${filledSize}/${size}. ` +
@@ -199,12 +423,15 @@ export class ExecutionManager {
       );
     }
     
-    const usedMaker = filledSize === (makerResult.order?.filledSize || 0);
-    const feeUsd = this.calculateFeeUsd(exchange.name, filledSize, averagePrice, usedMaker);
+    const averagePrice = notional / filledSize;
+    const usedMaker = filledSize === makerFilledSize;
+    const feeUsd = this.calculateFeeUsd(exchange, symbol, filledSize, averagePrice, usedMaker);
     
     return {
       exchange: exchange.name,
+      venue: exchange.id,
       orderId: makerResult.order?.orderId || 'taker',
+      orderIds,
       filledSize,
       averagePrice,
       usedMaker,
@@ -221,7 +448,6 @@ export class ExecutionManager {
     side: OrderSide,
     size: number,
     targetPrice: number,
-    _timeoutMs: number, // Not used anymore - we trust order placement
     isExit: boolean = false // Flag for exit trades (more aggressive pricing)
   ): Promise<ExecutionResult> {
     try {
@@ -229,23 +455,24 @@ export class ExecutionManager {
       // For buy: place slightly above mid but below best ask
       // For sell: place slightly below mid but above best bid
       const marketData = await exchange.getMarketData(symbol);
+      const tickSize = this.getTickSize(exchange, symbol);
       
       let limitPrice: number;
       if (side === 'buy') {
         if (isExit) {
           // EXIT: TINY cross 0.01% (~$9) for fast fill with small size
-          limitPrice = Math.ceil(marketData.askPrice * 1.0001);
+          limitPrice = roundToIncrement(marketData.askPrice * 1.0001, tickSize, 'up');
         } else {
           // ENTRY: TINY cross 0.005% (~$4.5) - with 0.1 BTC we should get instant fills
-          limitPrice = Math.ceil(marketData.askPrice * 1.00005);
+          limitPrice = roundToIncrement(marketData.askPrice * 1.00005, tickSize, 'up');
         }
       } else {
         if (isExit) {
           // EXIT: TINY cross 0.01% (~$9) for fast fill with small size
-          limitPrice = Math.floor(marketData.bidPrice * 0.9999);
+          limitPrice = roundToIncrement(marketData.bidPrice * 0.9999, tickSize, 'down');
         } else {
           // ENTRY: TINY cross 0.005% (~$4.5) - with 0.1 BTC we should get instant fills
-          limitPrice = Math.floor(marketData.bidPrice * 0.99995);
+          limitPrice = roundToIncrement(marketData.bidPrice * 0.99995, tickSize, 'down');
         }
       }
       
@@ -255,29 +482,15 @@ export class ExecutionManager {
         `ask: ${marketData.askPrice.toFixed(2)})`
       );
       
-      const order = await exchange.placeLimitOrder(
-        symbol,
-        side,
-        size,
-        limitPrice,
-        { postOnly: false } // Allow crossing for immediate fill
-      );
+      // Plain limit - allowed to cross for an immediate fill
+      const order = await this.submitLimitOrder(exchange, symbol, side, size, limitPrice);
       
-      // TRUST THE ORDER: Assume it will fill, no verification needed
       this.logger.info(
-        `${exchange.name}: ${isExit ? 'EXIT' : 'ENTRY'} limit order placed (orderId: ${order.orderId}), ` +
-        `assuming fill at ${limitPrice.toFixed(2)}`
+        `${exchange.name}: ${isExit ? 'EXIT' : 'ENTRY'} limit order placed (orderId: ${order.orderId}) ` +
+        `@ ${limitPrice.toFixed(2)}`
       );
       
-      return { 
-        success: true, 
-        order: {
-          ...order,
-          filledSize: size, // Assume full fill
-          status: 'filled',
-          price: limitPrice
-        }
-      };
+      return { success: true, order };
       
     } catch (error) {
       this.logger.error(`${exchange.name}: Maker order failed: ${error}`);
@@ -286,68 +499,227 @@ export class ExecutionManager {
   }
   
   /**
-   * Execute with a market (taker) order.
+   * Execute with a market (taker) order and wait for the exchange to report the fill.
    */
-  private async executeTakerOrder(
+  async executeTakerOrder(
     exchange: IExchange,
     symbol: string,
     side: OrderSide,
-    size: number
+    size: number,
+    referencePrice: number,
+    options?: { reduceOnly?: boolean }
   ): Promise<ExecutionResult> {
     try {
-      const order = await exchange.placeMarketOrder(symbol, side, size);
+      const positionBefore = await this.getSignedPositionSize(exchange, symbol);
+      const placed = await this.submitMarketOrder(exchange, symbol, side, size, referencePrice, options);
       
-      // For IOC market orders, trust the placement response
-      // Some exchanges (like Nado) have broken getOrder() APIs that return "not found" even for successful orders
-      if (order.status === 'filled') {
-        return { success: true, order };
-      }
+      const order = await this.trackOrder(
+        exchange,
+        symbol,
+        placed,
+        positionBefore,
+        TAKER_FILL_TIMEOUT_MS,
+        ORDER_POLL_INTERVAL_MS
+      );
       
-      // If order was placed successfully but not marked as filled, wait and check
-      // Skip getOrder() verification for Nado to avoid "order not found" errors
-      if (exchange.name === 'Nado') {
-        // Trust that Nado IOC orders execute immediately
-        this.logger.info(`${exchange.name}: Assuming IOC market order filled immediately`);
-        return {
-          success: true,
-          order: {
-            ...order,
-            status: 'filled',
-            filledSize: size
-          }
-        };
+      if (order.filledSize <= FILL_EPSILON) {
+        return { success: false, order, error: `Market order ${order.orderId} not filled (${order.status})` };
       }
       
-      // For other exchanges, verify fill status
-      let currentOrder = order;
-      for (let i = 0; i < 5; i++) {
-        await sleep(200);
-        currentOrder = await exchange.getOrder(symbol, order.orderId);
+      // Keep the reference price for exchanges that report neither a fill price nor a limit
+      return { success: true, order: { ...order, price: order.price ?? referencePrice } };
+      
+    } catch (error) {
+      this.logger.error(`${exchange.name}: Taker order failed: ${error}`);
+      return { success: false, error: String(error) };
+    }
+  }
+  
+  /**
+   * Place a marketable limit order and wait for it to fill. Whatever has not filled
+   * after `timeoutMs` is cancelled; returns the final order state.
+   */
+  async executeLimitOrder(
+    exchange: IExchange,
+    symbol: string,
+    side: OrderSide,
+    size: number,
+    limitPrice: number,
+    options?: { reduceOnly?: boolean },
+    timeoutMs: number = TAKER_FILL_TIMEOUT_MS
+  ): Promise<Order> {
+    const positionBefore = await this.getSignedPositionSize(exchange, symbol);
+    const placed = await this.submitLimitOrder(exchange, symbol, side, size, limitPrice, options);
+    
+    return this.trackOrder(exchange, symbol, placed, positionBefore, timeoutMs, ORDER_POLL_INTERVAL_MS);
+  }
+  
+  /**
+   * Wait for an order to fill by polling the exchange.
+   * Whatever is still open at the timeout is cancelled and the final state is read
+   * back, so fills that land during the cancel are still counted.
+   */
+  private async trackOrder(
+    exchange: IExchange,
+    symbol: string,
+    order: Order,
+    positionBefore: number,
+    timeoutMs: number,
+    pollIntervalMs: number
+  ): Promise<Order> {
+    const startTime = Date.now();
+    let current = order;
+    
+    while (!this.isOrderDone(current)) {
+      if (Date.now() - startTime >= timeoutMs) {
+        this.logger.warn(
+          `${exchange.name}: Order ${order.orderId} not filled after ${timeoutMs}ms ` +
+          `(${current.filledSize}/${order.size}) - cancelling the rest`
+        );
         
-        if (currentOrder.status === 'filled') {
-          return { success: true, order: currentOrder };
+        // Where a cancel can miss an order the venue hasn't indexed yet, cancel once more if it's still open
+        const cancelAttempts = exchange.getMarketSpec(symbol).capabilities.reliableCancel ? 1 : 2;
+        for (let attempt = 1; attempt <= cancelAttempts && !this.isOrderDone(current); attempt++) {
+          if (attempt > 1) {
+            await sleep(pollIntervalMs);
+            this.logger.warn(`${exchange.name}: Order ${order.orderId} still open after cancel - cancelling again`);
+          }
+          
+          try {
+            await exchange.cancelOrder(symbol, order.orderId);
+          } catch (error) {
+            this.logger.warn(`${exchange.name}: Failed to cancel order ${order.orderId}: ${error}`);
+          }
+          
+          try {
+            current = await this.readOrderState(exchange, symbol, order, positionBefore);
+          } catch (error) {
+            this.logger.error(`${exchange.name}: Could not read final state of order ${order.orderId}: ${error}`);
+          }
         }
+        break;
       }
       
-      if (currentOrder.filledSize > 0) {
-        return { success: true, order: currentOrder };
+      await sleep(pollIntervalMs);
+      
+      try {
+        current = await this.readOrderState(exchange, symbol, order, positionBefore);
+      } catch (error) {
+        this.logger.warn(`${exchange.name}: Could not read order ${order.orderId}: ${error}`);
       }
+    }
+    
+    if (current.status === 'filled') {
+      this.logger.info(
+        `${exchange.name}: Order ${order.orderId} filled ${current.filledSize} in ${Date.now() - startTime}ms`
+      );
+    }
+    
+    return current;
+  }
+  
+  /**
+   * Current fill state of an order as reported by the exchange.
+   * When the exchange cannot report order status, the fill is measured from the
+   * position change since `positionBefore` instead.
+   */
+  private async readOrderState(
+    exchange: IExchange,
+    symbol: string,
+    order: Order,
+    positionBefore: number
+  ): Promise<Order> {
+    try {
+      const reported = await exchange.getOrder(symbol, order.orderId);
+      return {
+        ...order,
+        filledSize: reported.filledSize,
+        averageFillPrice: reported.averageFillPrice,
+        status: reported.status
+      };
+    } catch (error) {
+      const position = await exchange.getPosition(symbol);
+      const direction = order.side === 'buy' ? 1 : -1;
+      const moved = (this.toSignedSize(position) - positionBefore) * direction;
+      const filledSize = Math.min(Math.max(moved, 0), order.size);
       
-      return { success: false, order: currentOrder };
+      // Venues with an unreliable order lookup miss fresh or finished orders routinely
+      const message = `${exchange.name}: Order status unavailable (${error}), position moved ${filledSize}`;
+      if (exchange.getMarketSpec(symbol).capabilities.reliableOrderLookup) {
+        this.logger.warn(message);
+      } else {
+        this.logger.debug(message);
+      }
       
-    } catch (error) {
-      this.logger.error(`${exchange.name}: Taker order failed: ${error}`);
-      return { success: false, error: String(error) };
+      return {
+        ...order,
+        filledSize,
+        // Opening from flat, the entry price is the fill VWAP
+        averageFillPrice: Math.abs(positionBefore) < FILL_EPSILON && filledSize > 0 && position
+          ? position.entryPrice
+          : undefined,
+        status: filledSize >= order.size - FILL_EPSILON ? 'filled' : filledSize > 0 ? 'partially_filled' : 'open'
+      };
+    }
+  }
+  
+  private isOrderDone(order: Order): boolean {
+    return order.status === 'filled' || order.status === 'cancelled' || order.status === 'failed';
+  }
+  
+  /**
+   * Best known fill price: exchange-reported VWAP, else the order's limit price.
+   */
+  private getFillPrice(order: Order, fallbackPrice: number): number {
+    return order.averageFillPrice ?? order.price ?? fallbackPrice;
+  }
+  
+  private async getSignedPositionSize(exchange: IExchange, symbol: string): Promise<number> {
+    return this.toSignedSize(await exchange.getPosition(symbol));
+  }
+  
+  private toSignedSize(position: Position | null): number {
+    if (!position) {
+      return 0;
     }
+    return position.side === 'long' ? position.size : -position.size;
   }
   
   /**
-   * Execute both legs of a spread trade:
-   * - Nado: Limit order (maker fee if on book)
-   * - Lighter: Market order (0% taker fee = FREE!)
+   * Market-close whatever part of an exit leg the limit order left open.
+   * The market fill is added to `fill`.
+   */
+  private async closeRemainder(
+    exchange: IExchange,
+    symbol: string,
+    side: OrderSide,
+    targetSize: number,
+    fill: { size: number; notional: number; orderIds: string[] },
+    referencePrice: number
+  ): Promise<void> {
+    const remaining = targetSize - fill.size;
+    if (remaining <= targetSize * 0.01) {
+      return;
+    }
+    
+    this.logger.warn(`🚨 Force closing remaining ${remaining.toFixed(4)} on ${exchange.name} with MARKET order...`);
+    const result = await this.executeTakerOrder(exchange, symbol, side, remaining, referencePrice, { reduceOnly: true });
+    
+    if (result.success && result.order) {
+      fill.size += result.order.filledSize;
+      fill.orderIds.push(result.order.orderId);
+      fill.notional += result.order.filledSize * this.getFillPrice(result.order, referencePrice);
+      this.logger.info(`✅ ${exchange.name} market close filled ${result.order.filledSize}`);
+    } else {
+      this.logger.error(`❌ FAILED to market close ${exchange.name}: ${result.error}`);
+    }
+  }
+  
+  /**
+   * Execute both legs of a spread trade: LONG on the cheap venue, SHORT on the expensive one.
    * 
    * Supports two modes:
-   * - "sequential_maker": Nado posts maker order first, Lighter executes on fill (lower fees)
+   * - "sequential_maker": The maker venue posts a maker order first, the other venue hedges on fill (lower fees)
    * - "simultaneous": Both exchanges aggressive limit at same time (faster, higher fees)
    */
   async executeSpreadEntry(
@@ -358,11 +730,13 @@ export class ExecutionManager {
     _cheapPrice: number,
     _expensivePrice: number,
     _timeoutMs: number,
-    _allowTakerFallback: boolean = true
+    _allowTakerFallback: boolean = true,
+    tradeId?: string // Client order IDs are derived from it - new for every attempt
   ): Promise<{
     cheapLeg: LegExecutionResult;
     expensiveLeg: LegExecutionResult;
   }> {
+    this.beginTrade(tradeId);
     this.logger.info(
       `Executing spread entry: LONG ${size} on ${cheapExchange.name}, ` +
       `SHORT ${size} on ${expensiveExchange.name}`
@@ -387,152 +761,84 @@ export class ExecutionManager {
       expensiveExchange.getMarketData(symbol)
     ]);
     
-    // Determine which is Nado and which is Lighter
-    const isNadoCheap = cheapExchange.name === 'Nado';
-    const nadoExchange = isNadoCheap ? cheapExchange : expensiveExchange;
-    const lighterExchange = isNadoCheap ? expensiveExchange : cheapExchange;
-    const nadoSide = isNadoCheap ? 'buy' : 'sell';
-    const lighterSide = isNadoCheap ? 'sell' : 'buy';
-    const nadoMarket = isNadoCheap ? cheapMarket : expensiveMarket;
-    const lighterMarket = isNadoCheap ? expensiveMarket : cheapMarket;
-    
     // Calculate aggressive limit prices (0.04% = 4 bps aggressive, tight fills)
-    const nadoLimitPrice = nadoSide === 'buy' 
-      ? nadoMarket.askPrice * 1.0004  // Buy: 0.04% above ask (crosses spread)
-      : nadoMarket.bidPrice * 0.9996; // Sell: 0.04% below bid (crosses spread)
-    
-    const lighterLimitPrice = lighterSide === 'buy'
-      ? lighterMarket.askPrice * 1.0004  // Buy: 0.04% above ask (crosses spread)
-      : lighterMarket.bidPrice * 0.9996; // Sell: 0.04% below bid (crosses spread)
+    const cheapLimitPrice = roundToIncrement(
+      cheapMarket.askPrice * 1.0004, // Buy: 0.04% above ask (crosses spread)
+      this.getTickSize(cheapExchange, symbol),
+      'nearest'
+    );
+    const expensiveLimitPrice = roundToIncrement(
+      expensiveMarket.bidPrice * 0.9996, // Sell: 0.04% below bid (crosses spread)
+      this.getTickSize(expensiveExchange, symbol),
+      'nearest'
+    );
     
-    // Round Lighter price to $0.10 increments (Lighter's price_decimals = 1)
-    const lighterLimitPriceRounded = Math.round(lighterLimitPrice * 10) / 10;
+    // Positions before the orders - fallback for measuring fills
+    const [cheapPositionBefore, expensivePositionBefore] = await Promise.all([
+      this.getSignedPositionSize(cheapExchange, symbol),
+      this.getSignedPositionSize(expensiveExchange, symbol)
+    ]);
     
     // Place BOTH aggressive limit orders SIMULTANEOUSLY
-    this.logger.info(`Placing aggressive limits: Nado ${nadoSide.toUpperCase()} @ ${nadoLimitPrice.toFixed(2)}, Lighter ${lighterSide.toUpperCase()} @ ${lighterLimitPriceRounded.toFixed(1)}`);
+    this.logger.info(
+      `Placing aggressive limits: ${cheapExchange.name} BUY @ ${cheapLimitPrice.toFixed(2)}, ` +
+      `${expensiveExchange.name} SELL @ ${expensiveLimitPrice.toFixed(2)}`
+    );
     
-    const [nadoOrder, lighterOrder] = await Promise.all([
-      nadoExchange.placeLimitOrder(symbol, nadoSide, size, nadoLimitPrice, { postOnly: false }),
-      lighterExchange.placeLimitOrder(symbol, lighterSide, size, lighterLimitPriceRounded, { postOnly: false })
+    const [cheapOrder, expensiveOrder] = await Promise.all([
+      this.submitLimitOrder(cheapExchange, symbol, 'buy', size, cheapLimitPrice),
+      this.submitLimitOrder(expensiveExchange, symbol, 'sell', size, expensiveLimitPrice)
     ]);
     
-    this.logger.info(`✓ Both orders placed! Nado: ${nadoOrder.orderId}, Lighter: ${lighterOrder.orderId}`);
+    this.logger.info(`✓ Both orders placed! ${cheapExchange.name}: ${cheapOrder.orderId}, ${expensiveExchange.name}: ${expensiveOrder.orderId}`);
     
-    // Wait and verify fills with retries (APIs can be slow to update)
-    this.logger.info(`⏳ Waiting for fills to settle and APIs to update...`);
+    // Wait for the exchanges to report the fills; unfilled remainders are cancelled
+    this.logger.info(`⏳ Waiting for fills (timeout: ${SIMULTANEOUS_FILL_TIMEOUT_MS}ms)...`);
     
-    let nadoFilledSize = 0;
-    let lighterFilledSize = 0;
-    let nadoFillPrice = nadoLimitPrice;
-    let lighterFillPrice = lighterLimitPrice;
+    const [cheapFinal, expensiveFinal] = await Promise.all([
+      this.trackOrder(cheapExchange, symbol, cheapOrder, cheapPositionBefore, SIMULTANEOUS_FILL_TIMEOUT_MS, ORDER_POLL_INTERVAL_MS),
+      this.trackOrder(expensiveExchange, symbol, expensiveOrder, expensivePositionBefore, SIMULTANEOUS_FILL_TIMEOUT_MS, ORDER_POLL_INTERVAL_MS)
+    ]);
     
-    // Try up to 3 times with increasing wait times (10s, 15s total)
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      const waitTime = attempt === 1 ? 10000 : 5000; // 10s first, then 5s more
-      this.logger.info(`  Attempt ${attempt}/3: Waiting ${waitTime/1000}s...`);
-      await sleep(waitTime);
-      
-      // Check positions
-      const [nadoPos, lighterPos] = await Promise.all([
-        nadoExchange.getPosition(symbol),
-        lighterExchange.getPosition(symbol)
-      ]);
-      
-      nadoFilledSize = Math.abs(nadoPos?.size || 0);
-      lighterFilledSize = Math.abs(lighterPos?.size || 0);
-      nadoFillPrice = nadoPos?.entryPrice || nadoLimitPrice;
-      lighterFillPrice = lighterPos?.entryPrice || lighterLimitPrice;
-      
-      this.logger.info(`  Nado: ${nadoFilledSize} BTC, Lighter: ${lighterFilledSize} BTC`);
-      
-      // Check if both filled
-      if (nadoFilledSize >= size * 0.99 && lighterFilledSize >= size * 0.99) {
-        this.logger.info(`✅ Both filled successfully after ${attempt} attempt(s)`);
-        break;
-      }
-      
-      if (attempt < 3) {
-        this.logger.warn(`⚠️  Not both filled yet, retrying...`);
-      }
-    }
+    const cheapFilledSize = cheapFinal.filledSize;
+    const expensiveFilledSize = expensiveFinal.filledSize;
+    const cheapFillPrice = this.getFillPrice(cheapFinal, cheapLimitPrice);
+    const expensiveFillPrice = this.getFillPrice(expensiveFinal, expensiveLimitPrice);
     
-    // Verify both filled - if not, AUTOMATICALLY close any open position
-    if (nadoFilledSize < size * 0.99 || lighterFilledSize < size * 0.99) {
-      this.logger.error(`❌ UNHEDGED: Nado ${nadoFilledSize} BTC, Lighter ${lighterFilledSize} BTC`);
-      
-      // Automatically close any open position to avoid unhedged exposure
-      if (nadoFilledSize >= size * 0.99 && lighterFilledSize < size * 0.99) {
-        // Nado filled, Lighter didn't - cancel Lighter order and close Nado position
-        this.logger.warn(`🚨 CANCELING UNFILLED LIGHTER ORDER: ${lighterOrder.orderId}`);
-        try {
-          await lighterExchange.cancelOrder(symbol, lighterOrder.orderId);
-          this.logger.info(`✓ Lighter order canceled`);
-        } catch (cancelError: any) {
-          this.logger.error(`⚠️ Failed to cancel Lighter order: ${cancelError.message}`);
-        }
-        
-        this.logger.warn(`🚨 CLOSING NADO POSITION: ${nadoFilledSize} BTC ${nadoSide} (unhedged)`);
-        const closeNadoSide = nadoSide === 'buy' ? 'sell' : 'buy';
-        await nadoExchange.placeMarketOrder(symbol, closeNadoSide, nadoFilledSize);
-        this.logger.info(`✓ Nado position closed with market order`);
-        throw new Error(`Entry aborted: Lighter did not fill, Nado position auto-closed`);
-      } else if (lighterFilledSize >= size * 0.99 && nadoFilledSize < size * 0.99) {
-        // Lighter filled, Nado didn't - cancel Nado order and close Lighter position
-        this.logger.warn(`🚨 CANCELING UNFILLED NADO ORDER: ${nadoOrder.orderId}`);
-        try {
-          await nadoExchange.cancelOrder(symbol, nadoOrder.orderId);
-          this.logger.info(`✓ Nado order canceled`);
-        } catch (cancelError: any) {
-          this.logger.error(`⚠️ Failed to cancel Nado order: ${cancelError.message}`);
-        }
-        
-        this.logger.warn(`🚨 CLOSING LIGHTER POSITION: ${lighterFilledSize} BTC ${lighterSide} (unhedged)`);
-        const closeLighterSide = lighterSide === 'buy' ? 'sell' : 'buy';
-        await lighterExchange.placeMarketOrder(symbol, closeLighterSide, lighterFilledSize);
-        this.logger.info(`✓ Lighter position closed with market order`);
-        throw new Error(`Entry aborted: Nado did not fill, Lighter position auto-closed`);
-      } else {
-        // Neither filled or both partially filled - cancel both orders
-        this.logger.error(`❌ Neither side filled properly - canceling both orders`);
-        try {
-          await Promise.all([
-            nadoExchange.cancelOrder(symbol, nadoOrder.orderId).catch((e: any) => 
-              this.logger.error(`Failed to cancel Nado: ${e.message}`)
-            ),
-            lighterExchange.cancelOrder(symbol, lighterOrder.orderId).catch((e: any) => 
-              this.logger.error(`Failed to cancel Lighter: ${e.message}`)
-            )
-          ]);
-          this.logger.info(`✓ Both orders canceled`);
-        } catch (cancelError: any) {
-          this.logger.error(`⚠️ Error canceling orders: ${cancelError.message}`);
-        }
-        throw new Error(`Entry failed: Nado ${nadoFilledSize}, Lighter ${lighterFilledSize}`);
-      }
-    }
+    this.logger.info(`  ${cheapExchange.name}: ${cheapFilledSize} BTC, ${expensiveExchange.name}: ${expensiveFilledSize} BTC`);
     
-    this.logger.info(`✓ Both filled! Nado: ${nadoFillPrice.toFixed(2)}, Lighter: ${lighterFillPrice.toFixed(2)}`);
+    // Both legs must fill - otherwise report what did; the caller's hedge repair settles the delta
+    if (cheapFilledSize < size * 0.99 || expensiveFilledSize < size * 0.99) {
+      this.logger.error(`❌ UNHEDGED: ${cheapExchange.name} ${cheapFilledSize} BTC, ${expensiveExchange.name} ${expensiveFilledSize} BTC`);
+      throw new Error(
+        `Entry aborted: ${cheapExchange.name} filled ${cheapFilledSize}, ${expensiveExchange.name} filled ${expensiveFilledSize} of ${size}`
+      );
+    }
     
     // Build results
-    const nadoResult: LegExecutionResult = {
-      exchange: nadoExchange.name,
-      orderId: nadoOrder.orderId,
-      filledSize: nadoFilledSize,
-      averagePrice: nadoFillPrice,
-      usedMaker: true, // Limit order at mid = maker = 0.01% fee
-      feeUsd: this.calculateFeeUsd(nadoExchange.name, nadoFilledSize, nadoFillPrice, true)
-        };
-    
-    const lighterResult: LegExecutionResult = {
-      exchange: lighterExchange.name,
-      orderId: lighterOrder.orderId,
-      filledSize: lighterFilledSize,
-      averagePrice: lighterFillPrice,
-      usedMaker: true, // Aggressive limit = taker (crosses spread)
-      feeUsd: this.calculateFeeUsd(lighterExchange.name, lighterFilledSize, lighterFillPrice, true)
+    const cheapResult: LegExecutionResult = {
+      exchange: cheapExchange.name,
+      venue: cheapExchange.id,
+      orderId: cheapOrder.orderId,
+      orderIds: [cheapOrder.orderId],
+      filledSize: cheapFilledSize,
+      averagePrice: cheapFillPrice,
+      usedMaker: true, // Aggressive limit, counted at the maker rate
+      feeUsd: this.calculateFeeUsd(cheapExchange, symbol, cheapFilledSize, cheapFillPrice, true)
+    };
+    
+    const expensiveLeg: LegExecutionResult = {
+      exchange: expensiveExchange.name,
+      venue: expensiveExchange.id,
+      orderId: expensiveOrder.orderId,
+      orderIds: [expensiveOrder.orderId],
+      filledSize: expensiveFilledSize,
+      averagePrice: expensiveFillPrice,
+      usedMaker: true,
+      feeUsd: this.calculateFeeUsd(expensiveExchange, symbol, expensiveFilledSize, expensiveFillPrice, true)
     };
     
-    this.logger.info(`✓ Lighter: ${lighterResult.averagePrice.toFixed(2)}, Nado: ${nadoResult.averagePrice.toFixed(2)}`);
+    this.logger.info(`✓ Both filled! ${cheapExchange.name}: ${cheapFillPrice.toFixed(2)}, ${expensiveExchange.name}: ${expensiveFillPrice.toFixed(2)}`);
     
     // CRITICAL: Verify actual fills match expected (wait 5s for final settlement)
     this.logger.info('🔍 Verifying actual fills on exchanges...');
@@ -543,8 +849,8 @@ export class ExecutionManager {
       expensiveExchange,
       symbol,
       size,
-      lighterResult.filledSize,
-      nadoResult.filledSize
+      cheapResult.filledSize,
+      expensiveLeg.filledSize
     );
     
     if (!fillVerification.success) {
@@ -555,8 +861,6 @@ export class ExecutionManager {
     
     this.logger.info('✅ Fill verification passed - positions match expected');
     
-    const cheapResult = isNadoCheap ? nadoResult : lighterResult;
-    const expensiveLeg = isNadoCheap ? lighterResult : nadoResult;
     
     // Calculate P&L
     const buyNotional = cheapResult.filledSize * cheapResult.averagePrice;
@@ -588,8 +892,8 @@ export class ExecutionManager {
   }
   
   /**
-   * SEQUENTIAL MAKER EXECUTION: Nado maker first, Lighter market on fill
-   * This ensures Nado order sits on orderbook (even briefly) for maker fee tier
+   * SEQUENTIAL MAKER EXECUTION: maker venue first, hedge on the other venue on fill
+   * This ensures the maker order sits on orderbook (even briefly) for maker fee tier
    */
   private async executeSpreadEntrySequential(
     cheapExchange: IExchange,
@@ -600,177 +904,168 @@ export class ExecutionManager {
     cheapLeg: LegExecutionResult;
     expensiveLeg: LegExecutionResult;
   }> {
-    this.logger.info(`🎯 SEQUENTIAL MAKER: Nado maker first → Lighter market on fill`);
+    // Determine which venue posts the maker order and which hedges
+    const isMakerCheap = this.isMakerVenue(cheapExchange, expensiveExchange);
+    const makerExchange = isMakerCheap ? cheapExchange : expensiveExchange;
+    const hedgeExchange = isMakerCheap ? expensiveExchange : cheapExchange;
+    const makerSide: OrderSide = isMakerCheap ? 'buy' : 'sell';
+    const hedgeSide: OrderSide = isMakerCheap ? 'sell' : 'buy';
     
-    // Determine which is Nado and which is Lighter
-    const isNadoCheap = cheapExchange.name === 'Nado';
-    const nadoExchange = isNadoCheap ? cheapExchange : expensiveExchange;
-    const lighterExchange = isNadoCheap ? expensiveExchange : cheapExchange;
-    const nadoSide: OrderSide = isNadoCheap ? 'buy' : 'sell';
-    const lighterSide: OrderSide = isNadoCheap ? 'sell' : 'buy';
+    this.logger.info(`🎯 SEQUENTIAL MAKER: ${makerExchange.name} maker first → ${hedgeExchange.name} market on fill`);
     
-    // Get fresh market data from Nado
-    const nadoMarket = await nadoExchange.getMarketData(symbol);
+    // Get fresh market data from the maker venue
+    const makerMarket = await makerExchange.getMarketData(symbol);
     
     // Calculate maker price: AT best bid/ask (NOT inside spread!)
-    // Per Nado docs: post-only orders must rest on the book to get maker fees
+    // Post-only orders must rest on the book to get maker fees
     // To guarantee maker: BUY at best bid or LOWER, SELL at best ask or HIGHER
-    const tickSize = 1; // Nado uses $1 tick size for BTC
+    const tickSize = this.getTickSize(makerExchange, symbol);
     const offsetTicks = this.executionConfig.nadoMakerOffsetTicks;
     
-    let nadoMakerPrice: number;
-    if (nadoSide === 'buy') {
+    let makerPrice: number;
+    if (makerSide === 'buy') {
       // BUY: post AT best bid (offset goes DEEPER = lower price, more conservative)
-      // offset=0 means at best bid, offset=1 means $1 below best bid
-      nadoMakerPrice = nadoMarket.bidPrice - (offsetTicks * tickSize);
+      // offset=0 means at best bid, offset=1 means one tick below best bid
+      makerPrice = makerMarket.bidPrice - (offsetTicks * tickSize);
     } else {
       // SELL: post AT best ask (offset goes DEEPER = higher price, more conservative)  
-      // offset=0 means at best ask, offset=1 means $1 above best ask
-      nadoMakerPrice = nadoMarket.askPrice + (offsetTicks * tickSize);
+      // offset=0 means at best ask, offset=1 means one tick above best ask
+      makerPrice = makerMarket.askPrice + (offsetTicks * tickSize);
     }
     
     this.logger.info(
-      `📊 Nado market: bid=${nadoMarket.bidPrice}, ask=${nadoMarket.askPrice}, ` +
-      `spread=$${(nadoMarket.askPrice - nadoMarket.bidPrice).toFixed(2)}`
+      `📊 ${makerExchange.name} market: bid=${makerMarket.bidPrice}, ask=${makerMarket.askPrice}, ` +
+      `spread=$${(makerMarket.askPrice - makerMarket.bidPrice).toFixed(2)}`
     );
     this.logger.info(
-      `📝 Placing Nado MAKER ${nadoSide.toUpperCase()} @ $${nadoMakerPrice.toFixed(2)} ` +
-      `(at best ${nadoSide === 'buy' ? 'bid' : 'ask'}${offsetTicks > 0 ? `, ${offsetTicks} tick${offsetTicks !== 1 ? 's' : ''} deeper` : ''})`
+      `📝 Placing ${makerExchange.name} MAKER ${makerSide.toUpperCase()} @ $${makerPrice.toFixed(2)} ` +
+      `(at best ${makerSide === 'buy' ? 'bid' : 'ask'}${offsetTicks > 0 ? `, ${offsetTicks} tick${offsetTicks !== 1 ? 's' : ''} deeper` : ''})`
     );
     
-    // Step 1: Place Nado maker order (POST_ONLY to guarantee maker)
-    const nadoOrder = await nadoExchange.placeLimitOrder(
+    const [makerPositionBefore, hedgePositionBefore] = await Promise.all([
+      this.getSignedPositionSize(makerExchange, symbol),
+      this.getSignedPositionSize(hedgeExchange, symbol)
+    ]);
+    
+    // Step 1: Place the maker order (post-only where the venue supports it: rests on the book or rejects)
+    const makerOrder = await this.submitLimitOrder(
+      makerExchange,
       symbol,
-      nadoSide,
+      makerSide,
       size,
-      nadoMakerPrice,
-      { postOnly: true } // POST_ONLY ensures it goes on book or rejects
+      makerPrice,
+      this.makerOrderOptions()
     );
     
-    this.logger.info(`✓ Nado maker order placed: ${nadoOrder.orderId}`);
+    this.logger.info(`✓ ${makerExchange.name} maker order placed: ${makerOrder.orderId}`);
     
-    // Step 2: Poll for Nado fill
-    const startTime = Date.now();
+    // Step 2: Poll for the maker fill - cancelled if it times out
     const timeoutMs = this.executionConfig.nadoMakerTimeoutMs;
     const pollIntervalMs = this.executionConfig.nadoFillPollIntervalMs;
     
-    let nadoFilled = false;
-    let nadoFilledSize = 0;
-    let nadoFillPrice = nadoMakerPrice;
+    this.logger.info(`⏳ Waiting for ${makerExchange.name} fill (timeout: ${timeoutMs}ms, poll: ${pollIntervalMs}ms)...`);
     
-    this.logger.info(`⏳ Waiting for Nado fill (timeout: ${timeoutMs}ms, poll: ${pollIntervalMs}ms)...`);
+    const makerFinal = await this.trackOrder(
+      makerExchange,
+      symbol,
+      makerOrder,
+      makerPositionBefore,
+      timeoutMs,
+      pollIntervalMs
+    );
+    const makerFilledSize = makerFinal.filledSize;
+    const makerFillPrice = this.getFillPrice(makerFinal, makerPrice);
     
-    while (Date.now() - startTime < timeoutMs) {
-      // Check position to see if filled
-      const nadoPos = await nadoExchange.getPosition(symbol);
-      nadoFilledSize = Math.abs(nadoPos?.size || 0);
-      
-      if (nadoFilledSize >= size * 0.99) {
-        nadoFilled = true;
-        nadoFillPrice = nadoPos?.entryPrice || nadoMakerPrice;
-        const fillTimeMs = Date.now() - startTime;
-        this.logger.info(`✅ Nado FILLED in ${fillTimeMs}ms! Size: ${nadoFilledSize} @ $${nadoFillPrice.toFixed(2)}`);
-        break;
+    // Step 3: Not filled in time - abort. A partial fill is left for the caller's hedge repair
+    if (makerFilledSize < size * 0.99) {
+      if (makerFilledSize > FILL_EPSILON) {
+        this.logger.warn(`🚨 Partial fill detected: ${makerFilledSize} BTC - leaving it to hedge repair`);
       }
       
-      // Log progress every second
-      if ((Date.now() - startTime) % 1000 < pollIntervalMs) {
-        this.logger.debug(`  Waiting... ${Math.round((Date.now() - startTime) / 1000)}s elapsed`);
-      }
-      
-      await sleep(pollIntervalMs);
+      throw new Error(`${makerExchange.name} maker order timed out after ${timeoutMs}ms - filled ${makerFilledSize}/${size}`);
     }
     
-    // Step 3: Handle timeout - cancel Nado order if not filled
-    if (!nadoFilled) {
-      this.logger.warn(`⚠️ Nado maker order timed out after ${timeoutMs}ms - cancelling...`);
-      try {
-        await nadoExchange.cancelOrder(symbol, nadoOrder.orderId);
-        this.logger.info(`✓ Nado order cancelled`);
-      } catch (cancelError: any) {
-        this.logger.error(`Failed to cancel Nado order: ${cancelError.message}`);
-      }
-      
-      // Check if partially filled
-      const nadoPos = await nadoExchange.getPosition(symbol);
-      nadoFilledSize = Math.abs(nadoPos?.size || 0);
-      
-      if (nadoFilledSize > 0) {
-        // Partial fill - close the position and abort
-        this.logger.warn(`🚨 Partial fill detected: ${nadoFilledSize} BTC - closing position...`);
-        const closeNadoSide = nadoSide === 'buy' ? 'sell' : 'buy';
-        await nadoExchange.placeMarketOrder(symbol, closeNadoSide, nadoFilledSize);
-        this.logger.info(`✓ Partial position closed`);
-      }
-      
-      throw new Error(`Nado maker order timed out after ${timeoutMs}ms - no fill`);
-    }
+    this.logger.info(`✅ ${makerExchange.name} FILLED: ${makerFilledSize} @ $${makerFillPrice.toFixed(2)}`);
     
-    // Step 4: Nado filled! Now execute Lighter IMMEDIATELY with aggressive limit (0.4% across spread)
-    this.logger.info(`🚀 Nado filled → Executing Lighter ${lighterSide.toUpperCase()} aggressive limit (0.4%)...`);
+    // Step 4: Maker filled! Now hedge the filled size with an aggressive limit (0.4% across spread)
+    this.logger.info(`🚀 ${makerExchange.name} filled → Executing ${hedgeExchange.name} ${hedgeSide.toUpperCase()} aggressive limit (0.4%)...`);
     
-    const lighterMarket = await lighterExchange.getMarketData(symbol);
+    const hedgeMarket = await hedgeExchange.getMarketData(symbol);
     
     // Calculate aggressive limit price: 0.4% across the spread (crosses but better than pure market)
-    let lighterLimitPrice: number;
-    if (lighterSide === 'buy') {
-      lighterLimitPrice = lighterMarket.askPrice * 1.004; // 0.4% above ask
+    let hedgeLimitPrice: number;
+    if (hedgeSide === 'buy') {
+      hedgeLimitPrice = hedgeMarket.askPrice * 1.004; // 0.4% above ask
     } else {
-      lighterLimitPrice = lighterMarket.bidPrice * 0.996; // 0.4% below bid
+      hedgeLimitPrice = hedgeMarket.bidPrice * 0.996; // 0.4% below bid
     }
     
-    // Round to Lighter's $0.10 tick size
-    const lighterLimitPriceRounded = Math.round(lighterLimitPrice * 10) / 10;
+    // Round to the hedge market's tick
+    const hedgeLimitPriceRounded = roundToIncrement(hedgeLimitPrice, this.getTickSize(hedgeExchange, symbol), 'nearest');
     
-    this.logger.info(`  Lighter ${lighterSide.toUpperCase()} @ $${lighterLimitPriceRounded.toFixed(1)} (ask: ${lighterMarket.askPrice}, bid: ${lighterMarket.bidPrice})`);
+    this.logger.info(`  ${hedgeExchange.name} ${hedgeSide.toUpperCase()} @ $${hedgeLimitPriceRounded} (ask: ${hedgeMarket.askPrice}, bid: ${hedgeMarket.bidPrice})`);
     
-    const lighterOrder = await lighterExchange.placeLimitOrder(
-      symbol, 
-      lighterSide, 
-      size,
-      lighterLimitPriceRounded,
-      { postOnly: false } // Allow crossing for immediate fill
-    );
-    
-    this.logger.info(`✓ Lighter aggressive limit placed: ${lighterOrder.orderId}`);
+    let hedgeOrder: Order;
+    try {
+      // Plain limit - allowed to cross for an immediate fill
+      hedgeOrder = await this.submitLimitOrder(
+        hedgeExchange,
+        symbol,
+        hedgeSide,
+        makerFilledSize,
+        hedgeLimitPriceRounded
+      );
+    } catch (error) {
+      this.logger.error(`❌ ${hedgeExchange.name} order rejected: ${error}`);
+      throw new Error(`${hedgeExchange.name} order failed - ${makerExchange.name} filled ${makerFilledSize} unhedged: ${error}`);
+    }
     
-    // Step 5: Wait and verify Lighter fill
-    await sleep(5000);
+    this.logger.info(`✓ ${hedgeExchange.name} aggressive limit placed: ${hedgeOrder.orderId}`);
     
-    const lighterPos = await lighterExchange.getPosition(symbol);
-    const lighterFilledSize = Math.abs(lighterPos?.size || 0);
-    const lighterFillPrice = lighterPos?.entryPrice || lighterMarket.midPrice;
+    // Step 5: Wait for the hedge fill
+    const hedgeFinal = await this.trackOrder(
+      hedgeExchange,
+      symbol,
+      hedgeOrder,
+      hedgePositionBefore,
+      TAKER_FILL_TIMEOUT_MS,
+      ORDER_POLL_INTERVAL_MS
+    );
+    const hedgeFilledSize = hedgeFinal.filledSize;
+    const hedgeFillPrice = this.getFillPrice(hedgeFinal, hedgeLimitPriceRounded);
     
-    if (lighterFilledSize < size * 0.99) {
-      this.logger.error(`❌ Lighter did not fill! Closing Nado position to avoid unhedged exposure...`);
-      const closeNadoSide = nadoSide === 'buy' ? 'sell' : 'buy';
-      await nadoExchange.placeMarketOrder(symbol, closeNadoSide, nadoFilledSize);
-      throw new Error(`Lighter market order failed - Nado position closed`);
+    if (hedgeFilledSize < makerFilledSize * 0.99) {
+      this.logger.error(`❌ ${hedgeExchange.name} did not fill (${hedgeFilledSize}/${makerFilledSize})!`);
+      throw new Error(`${hedgeExchange.name} order filled ${hedgeFilledSize}/${makerFilledSize} - ${makerExchange.name} partly unhedged`);
     }
     
-    this.logger.info(`✅ Both sides filled! Nado: $${nadoFillPrice.toFixed(2)}, Lighter: $${lighterFillPrice.toFixed(2)}`);
+    this.logger.info(`✅ Both sides filled! ${makerExchange.name}: $${makerFillPrice.toFixed(2)}, ${hedgeExchange.name}: $${hedgeFillPrice.toFixed(2)}`);
     
     // Build results
-    const nadoResult: LegExecutionResult = {
-      exchange: nadoExchange.name,
-      orderId: nadoOrder.orderId,
-      filledSize: nadoFilledSize,
-      averagePrice: nadoFillPrice,
+    const makerResult: LegExecutionResult = {
+      exchange: makerExchange.name,
+      venue: makerExchange.id,
+      orderId: makerOrder.orderId,
+      orderIds: [makerOrder.orderId],
+      filledSize: makerFilledSize,
+      averagePrice: makerFillPrice,
       usedMaker: true, // Guaranteed maker with POST_ONLY
-      feeUsd: this.calculateFeeUsd(nadoExchange.name, nadoFilledSize, nadoFillPrice, true)
+      feeUsd: this.calculateFeeUsd(makerExchange, symbol, makerFilledSize, makerFillPrice, true)
     };
     
-    const lighterResult: LegExecutionResult = {
-      exchange: lighterExchange.name,
-      orderId: lighterOrder.orderId,
-      filledSize: lighterFilledSize,
-      averagePrice: lighterFillPrice,
-      usedMaker: false, // Market order = taker (but 0% fee on Lighter!)
-      feeUsd: this.calculateFeeUsd(lighterExchange.name, lighterFilledSize, lighterFillPrice, false)
+    const hedgeResult: LegExecutionResult = {
+      exchange: hedgeExchange.name,
+      venue: hedgeExchange.id,
+      orderId: hedgeOrder.orderId,
+      orderIds: [hedgeOrder.orderId],
+      filledSize: hedgeFilledSize,
+      averagePrice: hedgeFillPrice,
+      usedMaker: false, // Crossing limit = taker
+      feeUsd: this.calculateFeeUsd(hedgeExchange, symbol, hedgeFilledSize, hedgeFillPrice, false)
     };
     
-    const cheapResult = isNadoCheap ? nadoResult : lighterResult;
-    const expensiveLeg = isNadoCheap ? lighterResult : nadoResult;
+    const cheapResult = isMakerCheap ? makerResult : hedgeResult;
+    const expensiveLeg = isMakerCheap ? hedgeResult : makerResult;
     
     // Calculate P&L
     const buyNotional = cheapResult.filledSize * cheapResult.averagePrice;
@@ -784,11 +1079,11 @@ export class ExecutionManager {
       `═══════════════════════════════════════════════════════════\n` +
       `📊 SEQUENTIAL MAKER ENTRY COMPLETE\n` +
       `───────────────────────────────────────────────────────────\n` +
-      `  Nado (MAKER): ${nadoSide.toUpperCase()} ${nadoResult.filledSize} BTC @ $${nadoResult.averagePrice.toFixed(2)}\n` +
-      `    Fee: $${(nadoResult.feeUsd || 0).toFixed(2)} (maker ✓)\n` +
+      `  ${makerExchange.name} (MAKER): ${makerSide.toUpperCase()} ${makerResult.filledSize} BTC @ $${makerResult.averagePrice.toFixed(2)}\n` +
+      `    Fee: $${(makerResult.feeUsd || 0).toFixed(2)} (maker ✓)\n` +
       `\n` +
-      `  Lighter (MARKET): ${lighterSide.toUpperCase()} ${lighterResult.filledSize} BTC @ $${lighterResult.averagePrice.toFixed(2)}\n` +
-      `    Fee: $${(lighterResult.feeUsd || 0).toFixed(2)} (taker @ 0%)\n` +
+      `  ${hedgeExchange.name} (MARKET): ${hedgeSide.toUpperCase()} ${hedgeResult.filledSize} BTC @ $${hedgeResult.averagePrice.toFixed(2)}\n` +
+      `    Fee: $${(hedgeResult.feeUsd || 0).toFixed(2)} (taker)\n` +
       `───────────────────────────────────────────────────────────\n` +
       `  Gross P&L: $${grossPnl.toFixed(2)}\n` +
       `  Total Fees: -$${totalFees.toFixed(2)}\n` +
@@ -799,9 +1094,140 @@ export class ExecutionManager {
     return { cheapLeg: cheapResult, expensiveLeg };
   }
   
+  /**
+   * Flip an open spread: close it and open the reverse in one coordinated execution.
+   * `cheapExchange` is the new long (currently short) and `expensiveExchange` the new short,
+   * so each venue trades closeSize + openSize with an aggressive limit, both at once.
+   * A partial flip is not unwound here - it throws and the caller repairs the hedge.
+   */
+  async executeSpreadFlip(
+    cheapExchange: IExchange,
+    expensiveExchange: IExchange,
+    symbol: string,
+    closeSize: number,
+    openSize: number,
+    tradeId?: string // Client order IDs are derived from it - new for every attempt
+  ): Promise<{
+    cheapLeg: LegExecutionResult;
+    expensiveLeg: LegExecutionResult;
+  }> {
+    this.beginTrade(tradeId);
+    const flipSize = parseFloat((closeSize + openSize).toFixed(8));
+    this.logger.info(
+      `🔄 Executing spread flip: BUY ${flipSize} on ${cheapExchange.name}, SELL ${flipSize} on ${expensiveExchange.name} ` +
+      `(close ${closeSize} + open ${openSize})`
+    );
+    
+    const [cheapMarket, expensiveMarket] = await Promise.all([
+      cheapExchange.getMarketData(symbol),
+      expensiveExchange.getMarketData(symbol)
+    ]);
+    
+    // Aggressive limits 0.04% across the book, like simultaneous entries
+    const cheapLimitPrice = roundToIncrement(cheapMarket.askPrice * 1.0004, this.getTickSize(cheapExchange, symbol), 'nearest');
+    const expensiveLimitPrice = roundToIncrement(expensiveMarket.bidPrice * 0.9996, this.getTickSize(expensiveExchange, symbol), 'nearest');
+    
+    const [cheapPositionBefore, expensivePositionBefore] = await Promise.all([
+      this.getSignedPositionSize(cheapExchange, symbol),
+      this.getSignedPositionSize(expensiveExchange, symbol)
+    ]);
+    
+    this.logger.info(
+      `Placing flip limits: ${cheapExchange.name} BUY @ ${cheapLimitPrice.toFixed(2)}, ` +
+      `${expensiveExchange.name} SELL @ ${expensiveLimitPrice.toFixed(2)}`
+    );
+    
+    const [cheapOrder, expensiveOrder] = await Promise.all([
+      this.submitLimitOrder(cheapExchange, symbol, 'buy', flipSize, cheapLimitPrice),
+      this.submitLimitOrder(expensiveExchange, symbol, 'sell', flipSize, expensiveLimitPrice)
+    ]);
+    
+    this.logger.info(`✓ Both flip orders placed! ${cheapExchange.name}: ${cheapOrder.orderId}, ${expensiveExchange.name}: ${expensiveOrder.orderId}`);
+    this.logger.info(`⏳ Waiting for fills (timeout: ${SIMULTANEOUS_FILL_TIMEOUT_MS}ms)...`);
+    
+    const [cheapFinal, expensiveFinal] = await Promise.all([
+      this.trackOrder(cheapExchange, symbol, cheapOrder, cheapPositionBefore, SIMULTANEOUS_FILL_TIMEOUT_MS, ORDER_POLL_INTERVAL_MS),
+      this.trackOrder(expensiveExchange, symbol, expensiveOrder, expensivePositionBefore, SIMULTANEOUS_FILL_TIMEOUT_MS, ORDER_POLL_INTERVAL_MS)
+    ]);
+    
+    const cheapFilledSize = cheapFinal.filledSize;
+    const expensiveFilledSize = expensiveFinal.filledSize;
+    
+    // Unwinding a leg that crossed through zero isn't reduce-only - leave the delta to hedge repair
+    if (cheapFilledSize < flipSize * 0.99 || expensiveFilledSize < flipSize * 0.99) {
+      this.logger.error(
+        `❌ PARTIAL FLIP: ${cheapExchange.name} ${cheapFilledSize}, ${expensiveExchange.name} ${expensiveFilledSize} of ${flipSize}`
+      );
+      throw new Error(
+        `Flip incomplete: ${cheapExchange.name} filled ${cheapFilledSize}, ${expensiveExchange.name} filled ${expensiveFilledSize} of ${flipSize}`
+      );
+    }
+    
+    const cheapFillPrice = this.getFillPrice(cheapFinal, cheapLimitPrice);
+    const expensiveFillPrice = this.getFillPrice(expensiveFinal, expensiveLimitPrice);
+    
+    const cheapResult: LegExecutionResult = {
+      exchange: cheapExchange.name,
+      venue: cheapExchange.id,
+      orderId: cheapOrder.orderId,
+      orderIds: [cheapOrder.orderId],
+      filledSize: cheapFilledSize,
+      averagePrice: cheapFillPrice,
+      usedMaker: false, // Aggressive limit crosses the book
+      feeUsd: this.calculateFeeUsd(cheapExchange, symbol, cheapFilledSize, cheapFillPrice, false)
+    };
+    
+    const expensiveLeg: LegExecutionResult = {
+      exchange: expensiveExchange.name,
+      venue: expensiveExchange.id,
+      orderId: expensiveOrder.orderId,
+      orderIds: [expensiveOrder.orderId],
+      filledSize: expensiveFilledSize,
+      averagePrice: expensiveFillPrice,
+      usedMaker: false,
+      feeUsd: this.calculateFeeUsd(expensiveExchange, symbol, expensiveFilledSize, expensiveFillPrice, false)
+    };
+    
+    // CRITICAL: Both venues must now hold the reversed position (wait 5s for final settlement)
+    this.logger.info('🔍 Verifying positions after flip...');
+    await sleep(5000);
+    
+    const fillVerification = await this.verifyFills(
+      cheapExchange,
+      expensiveExchange,
+      symbol,
+      openSize,
+      cheapFilledSize,
+      expensiveFilledSize
+    );
+    
+    if (!fillVerification.success) {
+      this.logger.error(`❌ FLIP VERIFICATION FAILED: ${fillVerification.error}`);
+      this.logger.error(`⚠️  EMERGENCY: ${fillVerification.action}`);
+      throw new Error(fillVerification.error);
+    }
+    
+    this.logger.info(
+      `\n` +
+      `═══════════════════════════════════════════════════════════\n` +
+      `🔄 SPREAD FLIP COMPLETE\n` +
+      `───────────────────────────────────────────────────────────\n` +
+      `  ${cheapExchange.name}: BUY ${cheapResult.filledSize} BTC @ $${cheapResult.averagePrice.toFixed(2)}\n` +
+      `    Fee: $${(cheapResult.feeUsd || 0).toFixed(2)} (taker)\n` +
+      `\n` +
+      `  ${expensiveExchange.name}: SELL ${expensiveLeg.filledSize} BTC @ $${expensiveLeg.averagePrice.toFixed(2)}\n` +
+      `    Fee: $${(expensiveLeg.feeUsd || 0).toFixed(2)} (taker)\n` +
+      `───────────────────────────────────────────────────────────\n` +
+      `  Now LONG ${openSize} on ${cheapExchange.name}, SHORT ${openSize} on ${expensiveExchange.name}\n` +
+      `═══════════════════════════════════════════════════════════`
+    );
+    
+    return { cheapLeg: cheapResult, expensiveLeg };
+  }
+  
   /**
    * Execute both legs of a spread exit:
-   * SEQUENTIAL: Nado limit first (maker), then Lighter market (0% fee)
+   * SEQUENTIAL: maker venue limit first (maker), then the other venue crosses
    */
   async executeSpreadExit(
     longExchange: IExchange,
@@ -811,11 +1237,13 @@ export class ExecutionManager {
     _longExitPrice: number,
     _shortExitPrice: number,
     _timeoutMs: number,
-    _allowTakerFallback: boolean = true
+    _allowTakerFallback: boolean = true,
+    tradeId?: string // Client order IDs are derived from it - new for every attempt
   ): Promise<{
     longLeg: LegExecutionResult;
     shortLeg: LegExecutionResult;
   }> {
+    this.beginTrade(tradeId);
     this.logger.info(
       `Executing spread exit: CLOSE LONG ${size} on ${longExchange.name}, ` +
       `CLOSE SHORT ${size} on ${shortExchange.name}`
@@ -840,161 +1268,108 @@ export class ExecutionManager {
       shortExchange.getMarketData(symbol)
     ]);
     
-    // Determine which is Nado and which is Lighter
-    const isNadoLong = longExchange.name === 'Nado';
-    const nadoExchange = isNadoLong ? longExchange : shortExchange;
-    const lighterExchange = isNadoLong ? shortExchange : longExchange;
-    const nadoSide = isNadoLong ? 'sell' : 'buy'; // Close LONG = sell, Close SHORT = buy
-    const lighterSide = isNadoLong ? 'buy' : 'sell';
-    const nadoMarket = isNadoLong ? longMarket : shortMarket;
-    const lighterMarket = isNadoLong ? shortMarket : longMarket;
-    
-    // Calculate aggressive limit prices for exit (0.04% = tight exit fills)
-    const nadoLimitPrice = nadoSide === 'buy' 
-      ? nadoMarket.askPrice * 1.0004  // Buy: 0.04% above ask (crosses spread)
-      : nadoMarket.bidPrice * 0.9996; // Sell: 0.04% below bid (crosses spread)
-    
-    const lighterLimitPrice = lighterSide === 'buy'
-      ? lighterMarket.askPrice * 1.0004  // Buy: 0.04% above ask (crosses spread)
-      : lighterMarket.bidPrice * 0.9996; // Sell: 0.04% below bid (crosses spread)
-    
-    // Round Lighter price to $0.10 increments (Lighter's price_decimals = 1)
-    const lighterLimitPriceRounded = Math.round(lighterLimitPrice * 10) / 10;
-    
-    // Place BOTH orders simultaneously WITH TIMEOUT PROTECTION
-    this.logger.info(`Placing Nado ${nadoSide.toUpperCase()} @ ${nadoLimitPrice.toFixed(2)}, Lighter ${lighterSide.toUpperCase()} @ ${lighterLimitPriceRounded.toFixed(1)}...`);
-    
-    // Wrap each order placement with a 5-second timeout
-    const nadoOrderPromise = Promise.race([
-      nadoExchange.placeLimitOrder(symbol, nadoSide, size, nadoLimitPrice, { postOnly: false, reduceOnly: true }),
-      sleep(5000).then(() => { throw new Error('Nado order timeout after 5s'); })
-    ]);
+    // Calculate aggressive limit prices for exit (0.04% = tight exit fills). Close LONG = sell, close SHORT = buy
+    const longLimitPrice = roundToIncrement(
+      longMarket.bidPrice * 0.9996, // Sell: 0.04% below bid (crosses spread)
+      this.getTickSize(longExchange, symbol),
+      'nearest'
+    );
+    const shortLimitPrice = roundToIncrement(
+      shortMarket.askPrice * 1.0004, // Buy: 0.04% above ask (crosses spread)
+      this.getTickSize(shortExchange, symbol),
+      'nearest'
+    );
     
-    const lighterOrderPromise = Promise.race([
-      lighterExchange.placeLimitOrder(symbol, lighterSide, size, lighterLimitPriceRounded, { postOnly: false, reduceOnly: true }),
-      sleep(5000).then(() => { throw new Error('Lighter order timeout after 5s'); })
+    const [longPositionBefore, shortPositionBefore] = await Promise.all([
+      this.getSignedPositionSize(longExchange, symbol),
+      this.getSignedPositionSize(shortExchange, symbol)
     ]);
     
-    // Try to place both orders
-    let nadoOrder: any;
-    let lighterOrder: any;
+    // Place BOTH orders simultaneously
+    this.logger.info(
+      `Placing ${longExchange.name} SELL @ ${longLimitPrice.toFixed(2)}, ` +
+      `${shortExchange.name} BUY @ ${shortLimitPrice.toFixed(2)}...`
+    );
     
-    try {
-      [nadoOrder, lighterOrder] = await Promise.all([nadoOrderPromise, lighterOrderPromise]);
-      this.logger.info(`✓ Both exit orders placed! Nado: ${nadoOrder.orderId}, Lighter: ${lighterOrder.orderId}`);
-    } catch (error: any) {
-      // If one exchange times out, fall back to market orders on BOTH
-      this.logger.error(`❌ Order placement failed or timed out: ${error.message}`);
-      this.logger.warn(`🚨 FALLING BACK TO MARKET ORDERS on both exchanges for immediate closure!`);
-      
-      // Cancel any pending orders and use market orders instead
-      try {
-        const [nadoMarketOrder, lighterMarketOrder] = await Promise.all([
-          nadoExchange.placeMarketOrder(symbol, nadoSide, size),
-          lighterExchange.placeMarketOrder(symbol, lighterSide, size)
-        ]);
-        
-        nadoOrder = nadoMarketOrder;
-        lighterOrder = lighterMarketOrder;
-        
-        this.logger.info(`✅ Market orders placed successfully! Nado: ${nadoOrder.orderId}, Lighter: ${lighterOrder.orderId}`);
-      } catch (marketError: any) {
-        this.logger.error(`❌ CRITICAL: Market order fallback also failed: ${marketError.message}`);
-        throw new Error('Both limit and market order placement failed!');
+    // No timeout race here: submitOrder settles an unanswered send itself, and an order abandoned
+    // mid-lookup could still be live when a fallback goes out
+    const [longPlaced, shortPlaced] = await Promise.allSettled([
+      this.placeExitOrder(longExchange, symbol, 'sell', size, longLimitPrice),
+      this.placeExitOrder(shortExchange, symbol, 'buy', size, shortLimitPrice)
+    ]);
+    
+    if (longPlaced.status === 'rejected' || shortPlaced.status === 'rejected') {
+      for (const [exchange, placed] of [[longExchange, longPlaced], [shortExchange, shortPlaced]] as const) {
+        if (placed.status === 'fulfilled') {
+          this.logger.error(`⚠️  ${exchange.name} exit order ${placed.value.orderId} is live - the other leg could not be placed`);
+        } else {
+          this.logger.error(`❌ CRITICAL: ${exchange.name} exit order failed: ${placed.reason?.message || placed.reason}`);
+        }
       }
+      this.logger.error(`⚠️  MANUAL INTERVENTION REQUIRED - exit orders not placed on both venues!`);
+      throw new Error('Exit order placement failed!');
     }
     
-    // Wait and verify fills with retries (APIs can be slow to update)
-    this.logger.info(`⏳ Waiting for exit fills to settle and APIs to update...`);
+    const longOrder = longPlaced.value;
+    const shortOrder = shortPlaced.value;
+    this.logger.info(`✓ Both exit orders placed! ${longExchange.name}: ${longOrder.orderId}, ${shortExchange.name}: ${shortOrder.orderId}`);
     
-    let nadoFilledSize = size;
-    let lighterFilledSize = size;
-    let nadoFillPrice = nadoLimitPrice;
-    let lighterFillPrice = lighterLimitPrice;
+    // Wait for the exchanges to report the fills; unfilled remainders are cancelled
+    this.logger.info(`⏳ Waiting for exit fills (timeout: ${SIMULTANEOUS_FILL_TIMEOUT_MS}ms)...`);
     
-    // Try up to 3 times with increasing wait times (10s, 15s total)
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      const waitTime = attempt === 1 ? 10000 : 5000; // 10s first, then 5s more
-      this.logger.info(`  Attempt ${attempt}/3: Waiting ${waitTime/1000}s...`);
-      await sleep(waitTime);
-      
-      // Check positions (should be closed or near 0)
-      const [nadoPos, lighterPos] = await Promise.all([
-        nadoExchange.getPosition(symbol),
-        lighterExchange.getPosition(symbol)
-      ]);
-      
-      const nadoClosed = Math.abs(nadoPos?.size || 0) < size * 0.1;
-      const lighterClosed = Math.abs(lighterPos?.size || 0) < size * 0.1;
-      
-      this.logger.info(`  Nado: ${nadoClosed ? 'CLOSED' : 'NOT CLOSED'}, Lighter: ${lighterClosed ? 'CLOSED' : 'NOT CLOSED'}`);
-      
-      // Check if both closed
-      if (nadoClosed && lighterClosed) {
-        this.logger.info(`✅ Both positions closed successfully after ${attempt} attempt(s)`);
-        break;
-      }
-      
-      if (attempt < 3) {
-        this.logger.warn(`⚠️  Not both closed yet, retrying...`);
-      } else {
-        // CRITICAL: After 3 attempts, force close with market orders
-        this.logger.error(`❌ CRITICAL: Limit orders failed to close after 3 attempts!`);
-        this.logger.error(`   Nado: ${nadoClosed ? 'CLOSED' : 'STILL OPEN'}, Lighter: ${lighterClosed ? 'CLOSED' : 'STILL OPEN'}`);
-        
-        // Force close any remaining open positions with market orders
-        if (!nadoClosed) {
-          this.logger.warn(`🚨 EMERGENCY: Force closing Nado with MARKET order...`);
-          try {
-            const nadoSide = isNadoLong ? 'sell' : 'buy';
-            const emergencyOrder = await nadoExchange.placeMarketOrder(symbol, nadoSide, size);
-            this.logger.info(`✅ Nado emergency close successful: ${emergencyOrder.orderId}`);
-          } catch (error: any) {
-            this.logger.error(`❌ FAILED to emergency close Nado: ${error.message}`);
-            this.logger.error(`⚠️  MANUAL INTERVENTION REQUIRED - Nado position still open!`);
-          }
-        }
-        
-        if (!lighterClosed) {
-          this.logger.warn(`🚨 EMERGENCY: Force closing Lighter with MARKET order...`);
-          try {
-            const lighterSide = isNadoLong ? 'buy' : 'sell';
-            const emergencyOrder = await lighterExchange.placeMarketOrder(symbol, lighterSide, size);
-            this.logger.info(`✅ Lighter emergency close successful: ${emergencyOrder.orderId}`);
-          } catch (error: any) {
-            this.logger.error(`❌ FAILED to emergency close Lighter: ${error.message}`);
-            this.logger.error(`⚠️  MANUAL INTERVENTION REQUIRED - Lighter position still open!`);
-          }
-        }
-        
-        // Wait a bit for emergency orders to settle
-        await new Promise(resolve => setTimeout(resolve, 5000));
-      }
+    const [longFinal, shortFinal] = await Promise.all([
+      this.trackOrder(longExchange, symbol, longOrder, longPositionBefore, SIMULTANEOUS_FILL_TIMEOUT_MS, ORDER_POLL_INTERVAL_MS),
+      this.trackOrder(shortExchange, symbol, shortOrder, shortPositionBefore, SIMULTANEOUS_FILL_TIMEOUT_MS, ORDER_POLL_INTERVAL_MS)
+    ]);
+    
+    const longFill = {
+      size: longFinal.filledSize,
+      notional: longFinal.filledSize * this.getFillPrice(longFinal, longLimitPrice),
+      orderIds: [longOrder.orderId]
+    };
+    const shortFill = {
+      size: shortFinal.filledSize,
+      notional: shortFinal.filledSize * this.getFillPrice(shortFinal, shortLimitPrice),
+      orderIds: [shortOrder.orderId]
+    };
+    
+    // Force close any remainder with market orders
+    await this.closeRemainder(longExchange, symbol, 'sell', size, longFill, longMarket.midPrice);
+    await this.closeRemainder(shortExchange, symbol, 'buy', size, shortFill, shortMarket.midPrice);
+    
+    this.logger.info(`  ${longExchange.name}: ${longFill.size}/${size} BTC, ${shortExchange.name}: ${shortFill.size}/${size} BTC closed`);
+    
+    if (longFill.size < size * 0.99 || shortFill.size < size * 0.99) {
+      this.logger.error(`⚠️  MANUAL INTERVENTION REQUIRED - exit incomplete!`);
+      throw new Error(`Exit incomplete: ${longExchange.name} closed ${longFill.size}, ${shortExchange.name} closed ${shortFill.size} of ${size}`);
     }
     
+    const longFillPrice = longFill.notional / longFill.size;
+    const shortFillPrice = shortFill.notional / shortFill.size;
+    
     // Build results
-    const nadoResult: LegExecutionResult = {
-      exchange: nadoExchange.name,
-      orderId: nadoOrder.orderId,
-      filledSize: nadoFilledSize,
-      averagePrice: nadoFillPrice,
-      usedMaker: true, // Aggressive limit (crosses spread but still maker on some exchanges)
-      feeUsd: this.calculateFeeUsd(nadoExchange.name, nadoFilledSize, nadoFillPrice, true)
+    const longResult: LegExecutionResult = {
+      exchange: longExchange.name,
+      venue: longExchange.id,
+      orderId: longOrder.orderId,
+      orderIds: longFill.orderIds,
+      filledSize: longFill.size,
+      averagePrice: longFillPrice,
+      usedMaker: true, // Aggressive limit, counted at the maker rate
+      feeUsd: this.calculateFeeUsd(longExchange, symbol, longFill.size, longFillPrice, true)
     };
     
-    const lighterResult: LegExecutionResult = {
-      exchange: lighterExchange.name,
-      orderId: lighterOrder.orderId,
-      filledSize: lighterFilledSize,
-      averagePrice: lighterFillPrice,
-      usedMaker: true, // Aggressive limit
-      feeUsd: this.calculateFeeUsd(lighterExchange.name, lighterFilledSize, lighterFillPrice, true)
+    const shortResult: LegExecutionResult = {
+      exchange: shortExchange.name,
+      venue: shortExchange.id,
+      orderId: shortOrder.orderId,
+      orderIds: shortFill.orderIds,
+      filledSize: shortFill.size,
+      averagePrice: shortFillPrice,
+      usedMaker: true,
+      feeUsd: this.calculateFeeUsd(shortExchange, symbol, shortFill.size, shortFillPrice, true)
     };
     
-    // Return in the expected order (longLeg, shortLeg)
-    const longResult = isNadoLong ? nadoResult : lighterResult;
-    const shortResult = isNadoLong ? lighterResult : nadoResult;
-    
     // Calculate exit P&L
     const sellNotional = longResult.filledSize * longResult.averagePrice;
     const buyNotional = shortResult.filledSize * shortResult.averagePrice;
@@ -1002,7 +1377,6 @@ export class ExecutionManager {
     const totalFees = (longResult.feeUsd || 0) + (shortResult.feeUsd || 0);
     const netPnl = grossPnl - totalFees;
     
-    this.logger.info(`✓ Nado: ${nadoResult.averagePrice.toFixed(2)}, Lighter: ${lighterResult.averagePrice.toFixed(2)}`);
     
     this.logger.info(
       `\n` +
@@ -1027,7 +1401,50 @@ export class ExecutionManager {
   }
   
   /**
-   * SEQUENTIAL MAKER EXIT: Nado maker first, Lighter market on fill
+   * Place one leg of a simultaneous exit as an aggressive reduce-only limit. If that fails, its
+   * journaled order is settled before anything else is sent: an order the venue has becomes the
+   * leg's order, and only one the venue doesn't have is replaced with a reduce-only market
+   * order. Throws when the venue can't say either way.
+   */
+  private async placeExitOrder(
+    exchange: IExchange,
+    symbol: string,
+    side: OrderSide,
+    size: number,
+    limitPrice: number
+  ): Promise<Order> {
+    const clientOrderId = this.peekClientOrderId(exchange, side);
+    try {
+      return await this.submitLimitOrder(exchange, symbol, side, size, limitPrice, { reduceOnly: true });
+    } catch (error: any) {
+      this.logger.error(`❌ ${exchange.name} exit order failed: ${error.message}`);
+    }
+    
+    // Not journaled: it failed before it was sent. Failed: the venue rejected it or doesn't have it
+    const submission = this.orderJournal.get(clientOrderId);
+    if (submission && submission.status !== 'failed') {
+      let found: Order | null;
+      try {
+        found = await this.findSubmittedOrder(exchange, symbol, clientOrderId);
+      } catch (lookupError) {
+        throw new Error(
+          `${exchange.name}: Exit order ${clientOrderId} may have been placed - lookup gave no answer (${lookupError}), no market order sent`
+        );
+      }
+      if (found) {
+        this.logger.info(`✓ ${exchange.name}: Exit order ${clientOrderId} reached the venue (${found.orderId}, ${found.status})`);
+        this.orderJournal.update(clientOrderId, { status: 'placed', orderId: found.orderId });
+        return found;
+      }
+      this.orderJournal.update(clientOrderId, { status: 'failed', error: 'Not found before market fallback' });
+    }
+    
+    this.logger.warn(`🚨 ${exchange.name}: Falling back to a reduce-only MARKET order for the exit`);
+    return this.submitMarketOrder(exchange, symbol, side, size, limitPrice, { reduceOnly: true });
+  }
+  
+  /**
+   * SEQUENTIAL MAKER EXIT: maker venue first, hedge on the other venue on fill
    */
   private async executeSpreadExitSequential(
     longExchange: IExchange,
@@ -1038,155 +1455,158 @@ export class ExecutionManager {
     longLeg: LegExecutionResult;
     shortLeg: LegExecutionResult;
   }> {
-    this.logger.info(`🎯 SEQUENTIAL MAKER EXIT: Nado maker first → Lighter market on fill`);
-    
-    // Determine which is Nado and which is Lighter
-    const isNadoLong = longExchange.name === 'Nado';
-    const nadoExchange = isNadoLong ? longExchange : shortExchange;
-    const lighterExchange = isNadoLong ? shortExchange : longExchange;
+    // Determine which venue posts the maker order and which hedges
+    const isMakerLong = this.isMakerVenue(longExchange, shortExchange);
+    const makerExchange = isMakerLong ? longExchange : shortExchange;
+    const hedgeExchange = isMakerLong ? shortExchange : longExchange;
     // Exit: close LONG = sell, close SHORT = buy
-    const nadoSide: OrderSide = isNadoLong ? 'sell' : 'buy';
-    const lighterSide: OrderSide = isNadoLong ? 'buy' : 'sell';
+    const makerSide: OrderSide = isMakerLong ? 'sell' : 'buy';
+    const hedgeSide: OrderSide = isMakerLong ? 'buy' : 'sell';
+    
+    this.logger.info(`🎯 SEQUENTIAL MAKER EXIT: ${makerExchange.name} maker first → ${hedgeExchange.name} market on fill`);
     
-    // Get fresh market data from Nado
-    const nadoMarket = await nadoExchange.getMarketData(symbol);
+    // Get fresh market data from the maker venue
+    const makerMarket = await makerExchange.getMarketData(symbol);
     
     // Calculate maker price for exit: AT best bid/ask (NOT inside spread!)
-    const tickSize = 1;
+    const tickSize = this.getTickSize(makerExchange, symbol);
     const offsetTicks = this.executionConfig.nadoMakerOffsetTicks;
     
-    let nadoMakerPrice: number;
-    if (nadoSide === 'buy') {
+    let makerPrice: number;
+    if (makerSide === 'buy') {
       // BUY to close short: post AT best bid (offset goes deeper = lower)
-      nadoMakerPrice = nadoMarket.bidPrice - (offsetTicks * tickSize);
+      makerPrice = makerMarket.bidPrice - (offsetTicks * tickSize);
     } else {
       // SELL to close long: post AT best ask (offset goes deeper = higher)
-      nadoMakerPrice = nadoMarket.askPrice + (offsetTicks * tickSize);
+      makerPrice = makerMarket.askPrice + (offsetTicks * tickSize);
     }
     
     this.logger.info(
-      `📊 Nado market: bid=${nadoMarket.bidPrice}, ask=${nadoMarket.askPrice}`
+      `📊 ${makerExchange.name} market: bid=${makerMarket.bidPrice}, ask=${makerMarket.askPrice}`
     );
     this.logger.info(
-      `📝 Placing Nado MAKER EXIT ${nadoSide.toUpperCase()} @ $${nadoMakerPrice.toFixed(2)}`
+      `📝 Placing ${makerExchange.name} MAKER EXIT ${makerSide.toUpperCase()} @ $${makerPrice.toFixed(2)}`
     );
     
-    // Step 1: Place Nado maker order with reduceOnly
-    const nadoOrder = await nadoExchange.placeLimitOrder(
+    const [makerPositionBefore, hedgePositionBefore] = await Promise.all([
+      this.getSignedPositionSize(makerExchange, symbol),
+      this.getSignedPositionSize(hedgeExchange, symbol)
+    ]);
+    
+    // Step 1: Place the maker order with reduceOnly (post-only where the venue supports it)
+    const makerOrder = await this.submitLimitOrder(
+      makerExchange,
       symbol,
-      nadoSide,
+      makerSide,
       size,
-      nadoMakerPrice,
-      { postOnly: true, reduceOnly: true }
+      makerPrice,
+      this.makerOrderOptions(true)
     );
     
-    this.logger.info(`✓ Nado maker exit order placed: ${nadoOrder.orderId}`);
+    this.logger.info(`✓ ${makerExchange.name} maker exit order placed: ${makerOrder.orderId}`);
     
-    // Step 2: Poll for Nado fill (check if position is closed)
-    const startTime = Date.now();
-    const timeoutMs = this.executionConfig.nadoMakerTimeoutMs;
-    const pollIntervalMs = this.executionConfig.nadoFillPollIntervalMs;
+    // Step 2: Poll for the maker fill - cancelled if it times out
+    this.logger.info(`⏳ Waiting for ${makerExchange.name} exit fill...`);
     
-    let nadoFilled = false;
-    let nadoFillPrice = nadoMakerPrice;
-    
-    this.logger.info(`⏳ Waiting for Nado exit fill...`);
-    
-    while (Date.now() - startTime < timeoutMs) {
-      const nadoPos = await nadoExchange.getPosition(symbol);
-      const remainingSize = Math.abs(nadoPos?.size || 0);
-      
-      if (remainingSize < size * 0.1) { // Position closed (< 10% remaining)
-        nadoFilled = true;
-        const fillTimeMs = Date.now() - startTime;
-        this.logger.info(`✅ Nado EXIT FILLED in ${fillTimeMs}ms!`);
-        break;
-      }
-      
-      await sleep(pollIntervalMs);
-    }
+    const makerFinal = await this.trackOrder(
+      makerExchange,
+      symbol,
+      makerOrder,
+      makerPositionBefore,
+      this.executionConfig.nadoMakerTimeoutMs,
+      this.executionConfig.nadoFillPollIntervalMs
+    );
+    const makerFill = {
+      size: makerFinal.filledSize,
+      notional: makerFinal.filledSize * this.getFillPrice(makerFinal, makerPrice),
+      orderIds: [makerOrder.orderId]
+    };
+    const makerFilled = makerFill.size >= size * 0.99;
     
-    // Step 3: Handle timeout
-    if (!nadoFilled) {
-      this.logger.warn(`⚠️ Nado exit maker timed out - using MARKET to close!`);
-      try {
-        await nadoExchange.cancelOrder(symbol, nadoOrder.orderId);
-      } catch (e: any) {
-        this.logger.warn(`Cancel failed: ${e.message}`);
-      }
-      
-      // Force close with market order
-      const emergencyOrder = await nadoExchange.placeMarketOrder(symbol, nadoSide, size, { reduceOnly: true });
-      this.logger.info(`✓ Nado emergency market close: ${emergencyOrder.orderId}`);
-      nadoFillPrice = emergencyOrder.price || nadoMakerPrice;
+    // Step 3: Handle timeout - close the rest with a market order
+    if (!makerFilled) {
+      this.logger.warn(`⚠️ ${makerExchange.name} exit maker timed out (${makerFill.size}/${size}) - using MARKET to close!`);
+      await this.closeRemainder(makerExchange, symbol, makerSide, size, makerFill, makerMarket.midPrice);
     }
     
-    // Step 4: Execute Lighter exit with aggressive limit (0.4% across spread)
-    this.logger.info(`🚀 Executing Lighter ${lighterSide.toUpperCase()} aggressive limit exit (0.4%)...`);
+    // Step 4: Execute the hedge exit with aggressive limit (0.4% across spread)
+    this.logger.info(`🚀 Executing ${hedgeExchange.name} ${hedgeSide.toUpperCase()} aggressive limit exit (0.4%)...`);
     
-    const lighterMarket = await lighterExchange.getMarketData(symbol);
+    const hedgeMarket = await hedgeExchange.getMarketData(symbol);
     
     // Calculate aggressive limit price: 0.4% across the spread
-    let lighterLimitPrice: number;
-    if (lighterSide === 'buy') {
-      lighterLimitPrice = lighterMarket.askPrice * 1.004; // 0.4% above ask
+    let hedgeLimitPrice: number;
+    if (hedgeSide === 'buy') {
+      hedgeLimitPrice = hedgeMarket.askPrice * 1.004; // 0.4% above ask
     } else {
-      lighterLimitPrice = lighterMarket.bidPrice * 0.996; // 0.4% below bid
+      hedgeLimitPrice = hedgeMarket.bidPrice * 0.996; // 0.4% below bid
     }
     
-    // Round to Lighter's $0.10 tick size
-    const lighterLimitPriceRounded = Math.round(lighterLimitPrice * 10) / 10;
+    // Round to the hedge market's tick
+    const hedgeLimitPriceRounded = roundToIncrement(hedgeLimitPrice, this.getTickSize(hedgeExchange, symbol), 'nearest');
     
-    this.logger.info(`  Lighter ${lighterSide.toUpperCase()} @ $${lighterLimitPriceRounded.toFixed(1)} (ask: ${lighterMarket.askPrice}, bid: ${lighterMarket.bidPrice})`);
+    this.logger.info(`  ${hedgeExchange.name} ${hedgeSide.toUpperCase()} @ $${hedgeLimitPriceRounded} (ask: ${hedgeMarket.askPrice}, bid: ${hedgeMarket.bidPrice})`);
     
-    const lighterOrder = await lighterExchange.placeLimitOrder(
-      symbol, 
-      lighterSide, 
+    // Plain limit - allowed to cross
+    const hedgeOrder = await this.submitLimitOrder(
+      hedgeExchange,
+      symbol,
+      hedgeSide,
       size,
-      lighterLimitPriceRounded,
-      { postOnly: false } // Allow crossing
+      hedgeLimitPriceRounded
     );
     
-    this.logger.info(`✓ Lighter aggressive limit exit placed: ${lighterOrder.orderId}`);
+    this.logger.info(`✓ ${hedgeExchange.name} aggressive limit exit placed: ${hedgeOrder.orderId}`);
     
-    // Step 5: Verify positions closed
-    await sleep(5000);
-    
-    const [nadoPos, lighterPos] = await Promise.all([
-      nadoExchange.getPosition(symbol),
-      lighterExchange.getPosition(symbol)
-    ]);
-    
-    const nadoClosed = Math.abs(nadoPos?.size || 0) < size * 0.1;
-    const lighterClosed = Math.abs(lighterPos?.size || 0) < size * 0.1;
+    // Step 5: Wait for the hedge fill, market close anything left
+    const hedgeFinal = await this.trackOrder(
+      hedgeExchange,
+      symbol,
+      hedgeOrder,
+      hedgePositionBefore,
+      TAKER_FILL_TIMEOUT_MS,
+      ORDER_POLL_INTERVAL_MS
+    );
+    const hedgeFill = {
+      size: hedgeFinal.filledSize,
+      notional: hedgeFinal.filledSize * this.getFillPrice(hedgeFinal, hedgeLimitPriceRounded),
+      orderIds: [hedgeOrder.orderId]
+    };
+    await this.closeRemainder(hedgeExchange, symbol, hedgeSide, size, hedgeFill, hedgeMarket.midPrice);
     
-    if (!nadoClosed || !lighterClosed) {
-      this.logger.error(`⚠️ Exit incomplete! Nado: ${nadoClosed ? 'CLOSED' : 'OPEN'}, Lighter: ${lighterClosed ? 'CLOSED' : 'OPEN'}`);
+    if (makerFill.size < size * 0.99 || hedgeFill.size < size * 0.99) {
+      this.logger.error(`⚠️ Exit incomplete! ${makerExchange.name} closed ${makerFill.size}/${size}, ${hedgeExchange.name} closed ${hedgeFill.size}/${size}`);
+      throw new Error(`Exit incomplete: ${makerExchange.name} closed ${makerFill.size}, ${hedgeExchange.name} closed ${hedgeFill.size} of ${size}`);
     }
     
-    const lighterFillPrice = lighterPos?.entryPrice || lighterMarket.midPrice;
+    const makerFillPrice = makerFill.notional / makerFill.size;
+    const hedgeFillPrice = hedgeFill.notional / hedgeFill.size;
     
     // Build results
-    const nadoResult: LegExecutionResult = {
-      exchange: nadoExchange.name,
-      orderId: nadoOrder.orderId,
-      filledSize: size,
-      averagePrice: nadoFillPrice,
-      usedMaker: nadoFilled, // True if maker filled, false if had to use market
-      feeUsd: this.calculateFeeUsd(nadoExchange.name, size, nadoFillPrice, nadoFilled)
+    const makerResult: LegExecutionResult = {
+      exchange: makerExchange.name,
+      venue: makerExchange.id,
+      orderId: makerOrder.orderId,
+      orderIds: makerFill.orderIds,
+      filledSize: makerFill.size,
+      averagePrice: makerFillPrice,
+      usedMaker: makerFilled, // True if maker filled, false if had to use market
+      feeUsd: this.calculateFeeUsd(makerExchange, symbol, makerFill.size, makerFillPrice, makerFilled)
     };
     
-    const lighterResult: LegExecutionResult = {
-      exchange: lighterExchange.name,
-      orderId: lighterOrder.orderId,
-      filledSize: size,
-      averagePrice: lighterFillPrice,
+    const hedgeResult: LegExecutionResult = {
+      exchange: hedgeExchange.name,
+      venue: hedgeExchange.id,
+      orderId: hedgeOrder.orderId,
+      orderIds: hedgeFill.orderIds,
+      filledSize: hedgeFill.size,
+      averagePrice: hedgeFillPrice,
       usedMaker: false,
-      feeUsd: this.calculateFeeUsd(lighterExchange.name, size, lighterFillPrice, false)
+      feeUsd: this.calculateFeeUsd(hedgeExchange, symbol, hedgeFill.size, hedgeFillPrice, false)
     };
     
-    const longResult = isNadoLong ? nadoResult : lighterResult;
-    const shortResult = isNadoLong ? lighterResult : nadoResult;
+    const longResult = isMakerLong ? makerResult : hedgeResult;
+    const shortResult = isMakerLong ? hedgeResult : makerResult;
     
     // Calculate P&L
     const sellNotional = longResult.filledSize * longResult.averagePrice;
@@ -1200,11 +1620,11 @@ export class ExecutionManager {
       `═══════════════════════════════════════════════════════════\n` +
       `📊 SEQUENTIAL MAKER EXIT COMPLETE\n` +
       `───────────────────────────────────────────────────────────\n` +
-      `  Nado: ${nadoSide.toUpperCase()} ${nadoResult.filledSize} BTC @ $${nadoResult.averagePrice.toFixed(2)}\n` +
-      `    Fee: $${(nadoResult.feeUsd || 0).toFixed(2)} (${nadoResult.usedMaker ? 'maker ✓' : 'taker'})\n` +
+      `  ${makerExchange.name}: ${makerSide.toUpperCase()} ${makerResult.filledSize} BTC @ $${makerResult.averagePrice.toFixed(2)}\n` +
+      `    Fee: $${(makerResult.feeUsd || 0).toFixed(2)} (${makerResult.usedMaker ? 'maker ✓' : 'taker'})\n` +
       `\n` +
-      `  Lighter: ${lighterSide.toUpperCase()} ${lighterResult.filledSize} BTC @ $${lighterResult.averagePrice.toFixed(2)}\n` +
-      `    Fee: $${(lighterResult.feeUsd || 0).toFixed(2)} (taker @ 0%)\n` +
+      `  ${hedgeExchange.name}: ${hedgeSide.toUpperCase()} ${hedgeResult.filledSize} BTC @ $${hedgeResult.averagePrice.toFixed(2)}\n` +
+      `    Fee: $${(hedgeResult.feeUsd || 0).toFixed(2)} (taker)\n` +
       `───────────────────────────────────────────────────────────\n` +
       `  Gross P&L: $${grossPnl.toFixed(2)}\n` +
       `  Total Fees: -$${totalFees.toFixed(2)}\n` +
@@ -1224,8 +1644,8 @@ export class ExecutionManager {
     expensiveExchange: IExchange,
     symbol: string,
     expectedSize: number,
-    lighterReportedFill: number,
-    nadoReportedFill: number
+    cheapReportedFill: number,
+    expensiveReportedFill: number
   ): Promise<{
     success: boolean;
     error?: string;
@@ -1255,8 +1675,8 @@ export class ExecutionManager {
       // Something went wrong - detailed diagnostics
       this.logger.error('❌ FILL MISMATCH DETECTED:');
       this.logger.error(`   Expected: ${expectedSize} BTC on each side`);
-      this.logger.error(`   ${cheapExchange.name} actual: ${cheapActualSize} BTC (reported: ${lighterReportedFill})`);
-      this.logger.error(`   ${expensiveExchange.name} actual: ${expensiveActualSize} BTC (reported: ${nadoReportedFill})`);
+      this.logger.error(`   ${cheapExchange.name} actual: ${cheapActualSize} BTC (reported: ${cheapReportedFill})`);
+      this.logger.error(`   ${expensiveExchange.name} actual: ${expensiveActualSize} BTC (reported: ${expensiveReportedFill})`);
       
       // Determine the problem
       let error = '';
@@ -1267,14 +1687,14 @@ export class ExecutionManager {
         action = 'Check exchange UIs manually. No positions to close.';
       } else if (cheapActualSize === 0 && expensiveActualSize > 0) {
         error = `CRITICAL: Only ${expensiveExchange.name} filled (${expensiveActualSize} BTC) - UNHEDGED!`;
-        action = `MANUALLY CLOSE ${expensiveActualSize} BTC on ${expensiveExchange.name} immediately!`;
+        action = `Hedge repair will rebalance the ${expensiveActualSize} BTC on ${expensiveExchange.name}`;
       } else if (cheapActualSize > 0 && expensiveActualSize === 0) {
         error = `CRITICAL: Only ${cheapExchange.name} filled (${cheapActualSize} BTC) - UNHEDGED!`;
-        action = `MANUALLY CLOSE ${cheapActualSize} BTC on ${cheapExchange.name} immediately!`;
+        action = `Hedge repair will rebalance the ${cheapActualSize} BTC on ${cheapExchange.name}`;
       } else if (Math.abs(cheapActualSize - expensiveActualSize) > tolerance) {
         const diff = Math.abs(cheapActualSize - expensiveActualSize);
         error = `CRITICAL: Size mismatch - ${cheapExchange.name}: ${cheapActualSize}, ${expensiveExchange.name}: ${expensiveActualSize}`;
-        action = `PARTIAL FILL DETECTED! Difference: ${diff.toFixed(4)} BTC. Check exchanges and close manually.`;
+        action = `PARTIAL FILL DETECTED! Difference: ${diff.toFixed(4)} BTC. Hedge repair will rebalance.`;
       } else if (cheapActualSize < expectedSize * 0.5) {
         // Both filled but way less than expected (< 50%)
         error = `WARNING: Both sides only partially filled (~${((cheapActualSize / expectedSize) * 100).toFixed(1)}%)`;
@@ -0,0 +1,114 @@
+/**
+ * Realized funding for the open spread position.
+ * Sums what each venue actually paid or charged since entry from the account's funding
+ * history. A venue that can't report its history (dry run, API error) has its funding
+ * accrued from the hourly rate instead, so the position always carries a funding figure.
+ */
+
+import { IExchange } from '../exchanges/interface';
+import { Logger } from '../utils/logger';
+
+/** One leg of the spread being charged funding */
+export interface FundingLeg {
+  exchange: IExchange;
+  side: 'long' | 'short';
+  size: number;
+}
+
+export interface FundingSnapshot {
+  totalUsd: number; // Positive = received
+  byExchange: Record<string, number>;
+}
+
+interface VenueFunding {
+  amountUsd: number; // Positive = received
+  source: 'history' | 'accrued' | null; // null until the first refresh
+  lastUpdate: number;
+}
+
+export class FundingLedger {
+  private logger: Logger;
+  private symbol: string;
+  private refreshIntervalMs: number;
+  private positionTimestamp: number | null = null; // entryTimestamp of the position being tracked
+  private venues: Map<string, VenueFunding> = new Map();
+  private lastRefresh: number = 0;
+
+  constructor(logger: Logger, symbol: string, refreshIntervalMs: number) {
+    this.logger = logger;
+    this.symbol = symbol;
+    this.refreshIntervalMs = refreshIntervalMs;
+  }
+
+  /**
+   * Funding on the position since entry, refreshed at most once per interval unless forced.
+   * `carried` is what was recorded per venue before a restart - accrual picks up from there.
+   */
+  async update(
+    entryTimestamp: number,
+    legs: FundingLeg[],
+    referencePrice: number,
+    carried?: Record<string, number>,
+    force: boolean = false
+  ): Promise<FundingSnapshot> {
+    const now = Date.now();
+
+    if (this.positionTimestamp !== entryTimestamp) {
+      this.positionTimestamp = entryTimestamp;
+      this.lastRefresh = 0;
+      this.venues = new Map(legs.map(leg => [leg.exchange.name, {
+        amountUsd: carried?.[leg.exchange.name] ?? 0,
+        source: null,
+        lastUpdate: carried ? now : entryTimestamp
+      }]));
+    }
+
+    if (force || now - this.lastRefresh >= this.refreshIntervalMs) {
+      this.lastRefresh = now;
+      await Promise.all(legs.map(leg => this.refreshVenue(leg, entryTimestamp, referencePrice, now)));
+    }
+
+    const byExchange: Record<string, number> = {};
+    let totalUsd = 0;
+    for (const [name, venue] of this.venues) {
+      byExchange[name] = venue.amountUsd;
+      totalUsd += venue.amountUsd;
+    }
+    return { totalUsd, byExchange };
+  }
+
+  private async refreshVenue(leg: FundingLeg, since: number, referencePrice: number, now: number): Promise<void> {
+    const venue = this.venues.get(leg.exchange.name);
+    if (!venue) {
+      return;
+    }
+
+    try {
+      const payments = await leg.exchange.getFundingPayments(this.symbol, since);
+      venue.amountUsd = payments.reduce((sum, payment) => sum + payment.amountUsd, 0);
+      if (venue.source !== 'history') {
+        this.logger.info(`${leg.exchange.name}: ${this.symbol} funding read from account history`);
+      }
+      venue.source = 'history';
+      venue.lastUpdate = now;
+      return;
+    } catch (error) {
+      if (venue.source !== 'accrued') {
+        this.logger.info(`${leg.exchange.name}: ${this.symbol} funding history unavailable (${error}) - accruing from the hourly rate`);
+      }
+    }
+
+    try {
+      const funding = await leg.exchange.getFundingRate(this.symbol);
+      const hours = (now - venue.lastUpdate) / 3600000;
+      // A positive rate means longs pay shorts
+      const direction = leg.side === 'long' ? -1 : 1;
+      venue.amountUsd += direction * funding.rate * referencePrice * leg.size * hours;
+      venue.source = 'accrued';
+      venue.lastUpdate = now;
+    } catch (error) {
+      // Leave lastUpdate alone so the missed time is accrued on the next refresh
+      this.logger.warn(`${leg.exchange.name}: ${this.symbol} funding rate unavailable (${error}) - funding not updated`);
+    }
+  }
+}
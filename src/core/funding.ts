@@ -1,11 +1,23 @@
 /**
  * Funding rate logic for cross-exchange basis trading.
  * Computes net funding costs/earnings and determines if a trade is funding-favorable.
+ * Funding is also priced in USD per unit of the base asset, the same units as the price gap,
+ * so the strategy can add it to the gap when deciding to enter, hold or exit.
  */
 
 import { IExchange } from '../exchanges/interface';
+import { FundingConfig, VenueId } from '../config/types';
 import { Logger } from '../utils/logger';
 
+// Default funding settings
+export const DEFAULT_FUNDING_CONFIG: FundingConfig = {
+  enabled: true,
+  expectedHoldHours: 1
+};
+
+// Rates change at most hourly - don't refetch them on every book update
+const DEFAULT_RATE_REFRESH_MS = 60000;
+
 export interface NetFunding {
   netFundingPerHour: number;
   longExchange: string;
@@ -15,11 +27,58 @@ export interface NetFunding {
   isFavorable: boolean;
 }
 
+/** Funding for LONG on one venue and SHORT on the other */
+export interface FundingProjection {
+  longFundingRate: number; // per hour
+  shortFundingRate: number; // per hour
+  netFundingPerHour: number; // Short minus long: positive = we earn
+  usdPerHour: number; // Net funding per unit of base at the reference price
+}
+
 export class FundingManager {
   private logger: Logger;
+  private refreshIntervalMs: number;
+  private rateCache: Map<string, { rate: number; fetchedAt: number }> = new Map(); // "exchange:symbol" -> rate
   
-  constructor(logger: Logger) {
+  constructor(logger: Logger, refreshIntervalMs: number = DEFAULT_RATE_REFRESH_MS) {
     this.logger = logger;
+    this.refreshIntervalMs = refreshIntervalMs;
+  }
+  
+  /**
+   * Net funding per hour for a LONG/SHORT pair, in USD per unit of base at `referencePrice`.
+   * Rates are cached for the refresh interval.
+   */
+  async projectFunding(
+    symbol: string,
+    longExchange: IExchange,
+    shortExchange: IExchange,
+    referencePrice: number
+  ): Promise<FundingProjection> {
+    const [longFundingRate, shortFundingRate] = await Promise.all([
+      this.getCachedRate(symbol, longExchange),
+      this.getCachedRate(symbol, shortExchange)
+    ]);
+    
+    const netFundingPerHour = shortFundingRate - longFundingRate;
+    return {
+      longFundingRate,
+      shortFundingRate,
+      netFundingPerHour,
+      usdPerHour: referencePrice * netFundingPerHour
+    };
+  }
+  
+  private async getCachedRate(symbol: string, exchange: IExchange): Promise<number> {
+    const key = `${exchange.name}:${symbol}`;
+    const cached = this.rateCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.refreshIntervalMs) {
+      return cached.rate;
+    }
+    
+    const funding = await exchange.getFundingRate(symbol);
+    this.rateCache.set(key, { rate: funding.rate, fetchedAt: Date.now() });
+    return funding.rate;
   }
   
   /**
@@ -77,70 +136,53 @@ export class FundingManager {
   }
   
   /**
-   * Determine which direction (Nado long vs Lighter long) has better funding.
+   * Determine which direction (long the first venue or long the second) has better funding.
    * Returns the recommended configuration.
    */
   async determineBestFundingDirection(
     symbol: string,
-    nadoExchange: IExchange,
-    lighterExchange: IExchange,
+    firstExchange: IExchange,
+    secondExchange: IExchange,
     maxNetFundingThreshold: number
   ): Promise<{
-    cheapExchange: 'nado' | 'lighter';
-    expensiveExchange: 'nado' | 'lighter';
+    cheapExchange: VenueId;
+    expensiveExchange: VenueId;
     netFunding: NetFunding;
   } | null> {
-    // Option 1: LONG Nado, SHORT Lighter
+    // Option 1: LONG the first venue, SHORT the second
     const option1 = await this.calculateNetFunding(
       symbol,
-      nadoExchange,
-      lighterExchange,
+      firstExchange,
+      secondExchange,
       maxNetFundingThreshold
     );
     
-    // Option 2: LONG Lighter, SHORT Nado
+    // Option 2: LONG the second venue, SHORT the first
     const option2 = await this.calculateNetFunding(
       symbol,
-      lighterExchange,
-      nadoExchange,
+      secondExchange,
+      firstExchange,
       maxNetFundingThreshold
     );
     
+    const longFirst = { cheapExchange: firstExchange.id, expensiveExchange: secondExchange.id, netFunding: option1 };
+    const longSecond = { cheapExchange: secondExchange.id, expensiveExchange: firstExchange.id, netFunding: option2 };
+    
     // Choose the option with better net funding
     if (option1.isFavorable && option2.isFavorable) {
       // Both are favorable, choose the better one
-      if (option1.netFundingPerHour >= option2.netFundingPerHour) {
-        return {
-          cheapExchange: 'nado',
-          expensiveExchange: 'lighter',
-          netFunding: option1
-        };
-      } else {
-        return {
-          cheapExchange: 'lighter',
-          expensiveExchange: 'nado',
-          netFunding: option2
-        };
-      }
+      return option1.netFundingPerHour >= option2.netFundingPerHour ? longFirst : longSecond;
     } else if (option1.isFavorable) {
-      return {
-        cheapExchange: 'nado',
-        expensiveExchange: 'lighter',
-        netFunding: option1
-      };
+      return longFirst;
     } else if (option2.isFavorable) {
-      return {
-        cheapExchange: 'lighter',
-        expensiveExchange: 'nado',
-        netFunding: option2
-      };
+      return longSecond;
     }
     
     // Neither is favorable
     this.logger.warn(
       `Neither funding direction is favorable. ` +
-      `Option 1 (LONG Nado): ${(option1.netFundingPerHour * 100).toFixed(4)}%/hr, ` +
-      `Option 2 (LONG Lighter): ${(option2.netFundingPerHour * 100).toFixed(4)}%/hr, ` +
+      `Option 1 (LONG ${firstExchange.name}): ${(option1.netFundingPerHour * 100).toFixed(4)}%/hr, ` +
+      `Option 2 (LONG ${secondExchange.name}): ${(option2.netFundingPerHour * 100).toFixed(4)}%/hr, ` +
       `Threshold: ${(maxNetFundingThreshold * 100).toFixed(4)}%/hr`
     );
     
@@ -0,0 +1,354 @@
+/**
+ * Hedge repair for partially filled spreads.
+ * Measures the net delta across both venues and removes it by unwinding the leg that
+ * is too big or topping up the leg that is too small, with price-limited orders.
+ * If the delta can't be removed within the deadline, or the books have moved past the
+ * price limit, the kill switch closes the delta at market and blocks new entries.
+ */
+
+import { IExchange } from '../exchanges/interface';
+import { HedgeRepairConfig, MarketData, OrderSide, Position, VenueId } from '../config/types';
+import { Logger } from '../utils/logger';
+import { sleep } from '../utils/retry';
+import { ExecutionManager } from './execution';
+import { roundToIncrement } from './markets';
+
+// Default repair settings
+export const DEFAULT_HEDGE_REPAIR_CONFIG: HedgeRepairConfig = {
+  policy: 'unwind',
+  maxPriceDeviationBps: 50,
+  deadlineMs: 60000,
+  retryIntervalMs: 2000,
+  toleranceBtc: 0.001
+};
+
+export interface HedgeRepairAction {
+  exchange: string;
+  venue: VenueId;
+  mode: 'unwind' | 'top_up' | 'kill_switch';
+  side: OrderSide;
+  size: number;
+  filledSize: number;
+  averagePrice?: number;
+}
+
+export interface HedgeRepairResult {
+  status: 'balanced' | 'repaired' | 'killed';
+  initialDeltaBtc: number; // Signed: positive = net long
+  finalDeltaBtc: number;
+  actions: HedgeRepairAction[];
+  reason?: string; // Why the kill switch was triggered
+}
+
+interface RepairCandidate {
+  exchange: IExchange;
+  mode: 'unwind' | 'top_up';
+  size: number;
+}
+
+export class HedgeRepairManager {
+  private exchanges: IExchange[];
+  private executionManager: ExecutionManager;
+  private config: HedgeRepairConfig;
+  private logger: Logger;
+  private killSwitchReason: string | null = null;
+
+  constructor(
+    exchanges: IExchange[],
+    executionManager: ExecutionManager,
+    logger: Logger,
+    config?: HedgeRepairConfig
+  ) {
+    this.exchanges = exchanges;
+    this.executionManager = executionManager;
+    this.logger = logger;
+    this.config = { ...DEFAULT_HEDGE_REPAIR_CONFIG, ...config };
+  }
+
+  /**
+   * True once the kill switch has fired - no new entries until restart.
+   */
+  isKillSwitchActive(): boolean {
+    return this.killSwitchReason !== null;
+  }
+
+  getKillSwitchReason(): string | null {
+    return this.killSwitchReason;
+  }
+
+  /**
+   * Bring the net delta across the venues back within tolerance.
+   */
+  async repair(symbol: string): Promise<HedgeRepairResult> {
+    const startTime = Date.now();
+    const actions: HedgeRepairAction[] = [];
+
+    let positions = await this.readPositions(symbol);
+    const initialDeltaBtc = this.netDelta(positions);
+
+    if (Math.abs(initialDeltaBtc) <= this.config.toleranceBtc) {
+      return { status: 'balanced', initialDeltaBtc, finalDeltaBtc: initialDeltaBtc, actions };
+    }
+
+    this.logger.error(
+      `🩹 NET DELTA ${initialDeltaBtc.toFixed(4)} BTC across venues ` +
+      `(${this.describePositions(positions)}) - starting hedge repair (${this.config.policy})`
+    );
+
+    // Price limits are anchored to the books when the delta was found
+    const referencePrices = new Map<string, number>();
+    for (const exchange of this.exchanges) {
+      const market = await exchange.getMarketData(symbol);
+      referencePrices.set(exchange.name, market.midPrice);
+    }
+
+    let delta = initialDeltaBtc;
+
+    while (Math.abs(delta) > this.config.toleranceBtc) {
+      if (Date.now() - startTime >= this.config.deadlineMs) {
+        return this.triggerKillSwitch(
+          symbol,
+          `delta ${delta.toFixed(4)} BTC still open after ${this.config.deadlineMs}ms`,
+          positions,
+          initialDeltaBtc,
+          actions
+        );
+      }
+
+      const side: OrderSide = delta > 0 ? 'sell' : 'buy';
+      const markets = new Map<string, MarketData>();
+      for (const exchange of this.exchanges) {
+        markets.set(exchange.name, await exchange.getMarketData(symbol));
+      }
+
+      let withinLimit = false;
+
+      for (const candidate of this.planRepair(positions, delta, markets)) {
+        const market = markets.get(candidate.exchange.name)!;
+        const reference = referencePrices.get(candidate.exchange.name)!;
+        const limitPrice = this.getLimitPrice(side, reference, candidate.exchange.getMarketInfo(symbol).tickSize);
+        const bestPrice = side === 'sell' ? market.bidPrice : market.askPrice;
+
+        if (side === 'sell' ? bestPrice < limitPrice : bestPrice > limitPrice) {
+          this.logger.warn(
+            `${candidate.exchange.name}: Best ${side === 'sell' ? 'bid' : 'ask'} ${bestPrice.toFixed(2)} ` +
+            `is beyond the repair limit ${limitPrice.toFixed(2)} - skipping ${candidate.mode}`
+          );
+          continue;
+        }
+
+        withinLimit = true;
+        this.logger.warn(
+          `🩹 ${candidate.mode === 'unwind' ? 'Unwinding' : 'Topping up'} on ${candidate.exchange.name}: ` +
+          `${side.toUpperCase()} ${candidate.size.toFixed(4)} limit ${limitPrice.toFixed(2)}`
+        );
+
+        try {
+          const order = await this.executionManager.executeLimitOrder(
+            candidate.exchange,
+            symbol,
+            side,
+            candidate.size,
+            limitPrice,
+            { reduceOnly: candidate.mode === 'unwind' }
+          );
+
+          actions.push({
+            exchange: candidate.exchange.name,
+            venue: candidate.exchange.id,
+            mode: candidate.mode,
+            side,
+            size: candidate.size,
+            filledSize: order.filledSize,
+            averagePrice: order.averageFillPrice ?? order.price
+          });
+          break;
+        } catch (error) {
+          // Venue rejected the order - try the other way of repairing
+          this.logger.error(`${candidate.exchange.name}: Hedge repair order failed: ${error}`);
+        }
+      }
+
+      if (!withinLimit) {
+        return this.triggerKillSwitch(
+          symbol,
+          `books moved more than ${this.config.maxPriceDeviationBps} bps since the delta was found`,
+          positions,
+          initialDeltaBtc,
+          actions
+        );
+      }
+
+      positions = await this.readPositions(symbol);
+      delta = this.netDelta(positions);
+
+      if (Math.abs(delta) > this.config.toleranceBtc) {
+        this.logger.warn(`🩹 Delta still ${delta.toFixed(4)} BTC - retrying in ${this.config.retryIntervalMs}ms`);
+        await sleep(this.config.retryIntervalMs);
+        positions = await this.readPositions(symbol);
+        delta = this.netDelta(positions);
+      }
+    }
+
+    this.logger.info(
+      `✅ Hedge repaired in ${Date.now() - startTime}ms: delta ${initialDeltaBtc.toFixed(4)} → ${delta.toFixed(4)} BTC ` +
+      `(${this.describePositions(positions)})`
+    );
+
+    return { status: 'repaired', initialDeltaBtc, finalDeltaBtc: delta, actions };
+  }
+
+  /**
+   * Repair orders in the order they should be tried.
+   * Unwinding reduces the venue carrying the delta; topping up trades the same side on the other venue.
+   */
+  private planRepair(
+    positions: Map<string, number>,
+    delta: number,
+    markets: Map<string, MarketData>
+  ): RepairCandidate[] {
+    // The venue whose position points the same way as the delta, biggest first
+    const excess = this.exchanges
+      .filter(exchange => Math.sign(positions.get(exchange.name) || 0) === Math.sign(delta))
+      .sort((a, b) => Math.abs(positions.get(b.name) || 0) - Math.abs(positions.get(a.name) || 0))[0];
+    const lagging = this.exchanges.find(exchange => exchange !== excess);
+
+    const candidates: RepairCandidate[] = [];
+    if (excess) {
+      const excessSize = Math.abs(positions.get(excess.name) || 0);
+      candidates.push({ exchange: excess, mode: 'unwind', size: Math.min(Math.abs(delta), excessSize) });
+    }
+    if (lagging) {
+      candidates.push({ exchange: lagging, mode: 'top_up', size: Math.abs(delta) });
+    }
+
+    if (this.config.policy === 'top_up') {
+      candidates.reverse();
+    } else if (this.config.policy === 'best_price') {
+      // Selling wants the higher bid, buying the lower ask
+      const price = (candidate: RepairCandidate): number => {
+        const market = markets.get(candidate.exchange.name)!;
+        return delta > 0 ? -market.bidPrice : market.askPrice;
+      };
+      candidates.sort((a, b) => price(a) - price(b));
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Close the remaining delta at market, whatever the price, and block new entries.
+   */
+  private async triggerKillSwitch(
+    symbol: string,
+    reason: string,
+    positions: Map<string, number>,
+    initialDeltaBtc: number,
+    actions: HedgeRepairAction[]
+  ): Promise<HedgeRepairResult> {
+    this.killSwitchReason = reason;
+    this.logger.error(`🛑 KILL SWITCH: ${reason} - closing the delta at market and blocking new entries`);
+
+    const delta = this.netDelta(positions);
+    const side: OrderSide = delta > 0 ? 'sell' : 'buy';
+    let remaining = Math.abs(delta);
+
+    // Reduce the venues carrying the delta, biggest first, then offset on the others if they fail
+    const carriers = this.exchanges
+      .filter(exchange => Math.sign(positions.get(exchange.name) || 0) === Math.sign(delta))
+      .sort((a, b) => Math.abs(positions.get(b.name) || 0) - Math.abs(positions.get(a.name) || 0));
+    const others = this.exchanges.filter(exchange => !carriers.includes(exchange));
+
+    for (const exchange of [...carriers, ...others]) {
+      if (remaining <= this.config.toleranceBtc) {
+        break;
+      }
+
+      const reduceOnly = carriers.includes(exchange);
+      const size = reduceOnly ? Math.min(remaining, Math.abs(positions.get(exchange.name) || 0)) : remaining;
+      const market = await exchange.getMarketData(symbol);
+      const result = await this.executionManager.executeTakerOrder(
+        exchange,
+        symbol,
+        side,
+        size,
+        market.midPrice,
+        { reduceOnly }
+      );
+
+      const filledSize = result.order?.filledSize || 0;
+      remaining -= filledSize;
+      actions.push({
+        exchange: exchange.name,
+        venue: exchange.id,
+        mode: 'kill_switch',
+        side,
+        size,
+        filledSize,
+        averagePrice: result.order ? result.order.averageFillPrice ?? result.order.price : undefined
+      });
+
+      if (!result.success) {
+        this.logger.error(`❌ ${exchange.name}: Kill switch market order failed: ${result.error}`);
+      }
+    }
+
+    const finalPositions = await this.readPositions(symbol);
+    const finalDeltaBtc = this.netDelta(finalPositions);
+
+    if (Math.abs(finalDeltaBtc) > this.config.toleranceBtc) {
+      this.logger.error(
+        `⚠️  MANUAL INTERVENTION REQUIRED - delta still ${finalDeltaBtc.toFixed(4)} BTC ` +
+        `(${this.describePositions(finalPositions)})`
+      );
+    } else {
+      this.logger.error(`🛑 Kill switch closed the delta (${this.describePositions(finalPositions)}) - restart to resume trading`);
+    }
+
+    return { status: 'killed', initialDeltaBtc, finalDeltaBtc, actions, reason };
+  }
+
+  /**
+   * Signed position per venue (long positive).
+   */
+  private async readPositions(symbol: string): Promise<Map<string, number>> {
+    const positions = new Map<string, number>();
+    const results = await Promise.all(this.exchanges.map(exchange => exchange.getPosition(symbol)));
+
+    this.exchanges.forEach((exchange, index) => {
+      positions.set(exchange.name, this.toSignedSize(results[index]));
+    });
+    return positions;
+  }
+
+  private netDelta(positions: Map<string, number>): number {
+    let delta = 0;
+    for (const size of positions.values()) {
+      delta += size;
+    }
+    return delta;
+  }
+
+  private toSignedSize(position: Position | null): number {
+    if (!position) {
+      return 0;
+    }
+    return position.side === 'long' ? position.size : -position.size;
+  }
+
+  /**
+   * Worst acceptable price for a repair order, rounded inside the limit onto the venue's tick.
+   */
+  private getLimitPrice(side: OrderSide, referencePrice: number, tickSize: number): number {
+    const deviation = this.config.maxPriceDeviationBps / 10000;
+    return side === 'sell'
+      ? roundToIncrement(referencePrice * (1 - deviation), tickSize, 'up')
+      : roundToIncrement(referencePrice * (1 + deviation), tickSize, 'down');
+  }
+
+  private describePositions(positions: Map<string, number>): string {
+    return Array.from(positions.entries())
+      .map(([name, size]) => `${name} ${size.toFixed(4)}`)
+      .join(', ');
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Equity-based loss limits and drawdown position sizing.
+ * Equity is the sum of both venues' account balances, read every refreshIntervalMs. It is
+ * compared with the equity at the start of the UTC day and week and with its peak: a loss
+ * beyond maxDailyLossUsd / maxWeeklyLossUsd or a drawdown beyond maxDrawdownPercent halts
+ * entries and flips on every market (exits still run) until that period resets. Below the
+ * halt, entry size shrinks as the drawdown grows. Deposits and withdrawals move equity too,
+ * so reset the state file after moving funds. The baselines and any halt are kept in the
+ * state directory, so a restart doesn't clear them.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BotConfig, LossLimitConfig } from '../config/types';
+import { IExchange } from '../exchanges/interface';
+import { Logger } from '../utils/logger';
+import { DEFAULT_STATE_CONFIG } from './state-store';
+
+// Default loss limit settings
+export const DEFAULT_LOSS_LIMIT_CONFIG: LossLimitConfig = {
+  enabled: false,
+  maxDailyLossUsd: 0,
+  maxWeeklyLossUsd: 0,
+  maxDrawdownPercent: 0,
+  sizeReductionStartPercent: 0,
+  minSizeMultiplier: 0.25,
+  resetHourUtc: 0,
+  weeklyResetDay: 1,
+  drawdownReset: 'weekly',
+  refreshIntervalMs: 60000
+};
+
+const DAY_MS = 86400000;
+
+export type LossLimitType = 'daily_loss' | 'weekly_loss' | 'drawdown';
+
+export interface LossLimitHalt {
+  limit: LossLimitType;
+  reason: string;
+  periodStart: number; // Start of the period the limit was hit in - the halt lifts when it changes
+  timestamp: number;
+}
+
+/** Equity at the start of a period (for the peak: the highest equity seen in it) */
+export interface EquityBaseline {
+  periodStart: number;
+  equityUsd: number;
+}
+
+export interface LossLimitState {
+  version: 1;
+  day: EquityBaseline | null;
+  week: EquityBaseline | null;
+  peak: EquityBaseline | null;
+  halt: LossLimitHalt | null;
+}
+
+export interface LossLimitStatus {
+  enabled: boolean;
+  equityUsd: number | null; // null until the first successful read
+  dailyPnlUsd: number;
+  weeklyPnlUsd: number;
+  drawdownPercent: number;
+  sizeMultiplier: number;
+  halt: LossLimitHalt | null;
+}
+
+function emptyLossLimitState(): LossLimitState {
+  return { version: 1, day: null, week: null, peak: null, halt: null };
+}
+
+export class LossLimitManager {
+  private config: LossLimitConfig;
+  private exchanges: IExchange[];
+  private logger: Logger;
+  private filePath: string | null;
+  private state: LossLimitState;
+  private equityUsd: number | null = null;
+  private lastRefresh: number = 0;
+  private refreshing: Promise<void> | null = null; // Markets share one read
+
+  constructor(config: BotConfig, exchanges: IExchange[], logger: Logger) {
+    this.config = { ...DEFAULT_LOSS_LIMIT_CONFIG, ...config.lossLimits };
+    this.exchanges = exchanges;
+    this.logger = logger;
+
+    const stateConfig = config.state || DEFAULT_STATE_CONFIG;
+    this.filePath = this.config.enabled && stateConfig.enabled
+      ? path.join(stateConfig.directory, 'loss-limits.json')
+      : null;
+    this.state = this.load();
+
+    if (this.config.enabled && this.state.halt) {
+      this.logger.error(
+        `🛑 Loss limit still hit since ${new Date(this.state.halt.timestamp).toISOString()} ` +
+        `(${this.state.halt.limit}: ${this.state.halt.reason}) - no new entries until the period resets`
+      );
+    }
+  }
+
+  /**
+   * Read equity from the venues if the refresh interval has passed, then roll the periods over
+   * and check the limits. A failed read keeps the last equity.
+   */
+  async refresh(): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+    if (Date.now() - this.lastRefresh < this.config.refreshIntervalMs) {
+      return;
+    }
+
+    this.lastRefresh = Date.now();
+    this.refreshing = this.refreshEquity();
+    try {
+      await this.refreshing;
+    } finally {
+      this.refreshing = null;
+    }
+  }
+
+  isHalted(): boolean {
+    return this.config.enabled && this.state.halt !== null;
+  }
+
+  getHalt(): LossLimitHalt | null {
+    return this.config.enabled ? this.state.halt : null;
+  }
+
+  /**
+   * Fraction of the configured size to trade at the current drawdown: 1 up to
+   * sizeReductionStartPercent, falling linearly to minSizeMultiplier at maxDrawdownPercent.
+   */
+  getSizeMultiplier(): number {
+    const { maxDrawdownPercent, sizeReductionStartPercent, minSizeMultiplier } = this.config;
+    if (!this.config.enabled || maxDrawdownPercent <= 0 || sizeReductionStartPercent >= maxDrawdownPercent) {
+      return 1;
+    }
+
+    const drawdownPercent = this.getDrawdownPercent();
+    if (drawdownPercent <= sizeReductionStartPercent) {
+      return 1;
+    }
+    const progress = Math.min(1, (drawdownPercent - sizeReductionStartPercent) / (maxDrawdownPercent - sizeReductionStartPercent));
+    return 1 - progress * (1 - minSizeMultiplier);
+  }
+
+  getStatus(): LossLimitStatus {
+    const equityUsd = this.equityUsd;
+    return {
+      enabled: this.config.enabled,
+      equityUsd,
+      dailyPnlUsd: equityUsd !== null && this.state.day ? equityUsd - this.state.day.equityUsd : 0,
+      weeklyPnlUsd: equityUsd !== null && this.state.week ? equityUsd - this.state.week.equityUsd : 0,
+      drawdownPercent: this.getDrawdownPercent(),
+      sizeMultiplier: this.getSizeMultiplier(),
+      halt: this.getHalt()
+    };
+  }
+
+  /**
+   * One-line summary for logs.
+   */
+  describe(): string {
+    const status = this.getStatus();
+    if (status.equityUsd === null) {
+      return 'equity not read yet';
+    }
+    return `equity $${status.equityUsd.toFixed(2)}, day ${status.dailyPnlUsd.toFixed(2)} USD, ` +
+      `week ${status.weeklyPnlUsd.toFixed(2)} USD, drawdown ${status.drawdownPercent.toFixed(2)}%, ` +
+      `size x${status.sizeMultiplier.toFixed(2)}`;
+  }
+
+  private async refreshEquity(): Promise<void> {
+    try {
+      const accounts = await Promise.all(this.exchanges.map(exchange => exchange.getAccountInfo()));
+      this.update(accounts.reduce((sum, account) => sum + account.balance, 0), Date.now());
+    } catch (error) {
+      this.logger.warn(`⚠️  Failed to read equity for loss limits (${error}) - keeping the last reading`);
+    }
+  }
+
+  private update(equityUsd: number, now: number): void {
+    this.equityUsd = equityUsd;
+    const dayStart = this.getDayStart(now);
+    const weekStart = this.getWeekStart(now);
+    const peakStart = this.config.drawdownReset === 'daily' ? dayStart
+      : this.config.drawdownReset === 'weekly' ? weekStart
+      : 0;
+    let changed = false;
+
+    // New periods start from the current equity
+    if (this.state.day?.periodStart !== dayStart) {
+      this.state.day = { periodStart: dayStart, equityUsd };
+      changed = true;
+    }
+    if (this.state.week?.periodStart !== weekStart) {
+      this.state.week = { periodStart: weekStart, equityUsd };
+      changed = true;
+    }
+    if (this.state.peak?.periodStart !== peakStart || equityUsd > this.state.peak.equityUsd) {
+      this.state.peak = { periodStart: peakStart, equityUsd };
+      changed = true;
+    }
+
+    const halt = this.state.halt;
+    if (halt) {
+      const currentStart = halt.limit === 'daily_loss' ? dayStart : halt.limit === 'weekly_loss' ? weekStart : peakStart;
+      if (halt.periodStart !== currentStart) {
+        this.logger.info(`✅ Loss limit reset (${halt.limit}, hit ${new Date(halt.timestamp).toISOString()}) - entries resume`);
+        this.state.halt = null;
+        changed = true;
+      }
+    }
+
+    if (!this.state.halt) {
+      const dailyLossUsd = this.state.day.equityUsd - equityUsd;
+      const weeklyLossUsd = this.state.week.equityUsd - equityUsd;
+      const drawdownPercent = this.getDrawdownPercent();
+
+      if (this.config.maxDailyLossUsd > 0 && dailyLossUsd >= this.config.maxDailyLossUsd) {
+        this.halt('daily_loss', `equity down ${dailyLossUsd.toFixed(2)} USD today, limit ${this.config.maxDailyLossUsd} USD`, dayStart);
+        changed = true;
+      } else if (this.config.maxWeeklyLossUsd > 0 && weeklyLossUsd >= this.config.maxWeeklyLossUsd) {
+        this.halt('weekly_loss', `equity down ${weeklyLossUsd.toFixed(2)} USD this week, limit ${this.config.maxWeeklyLossUsd} USD`, weekStart);
+        changed = true;
+      } else if (this.config.maxDrawdownPercent > 0 && drawdownPercent >= this.config.maxDrawdownPercent) {
+        this.halt('drawdown', `drawdown ${drawdownPercent.toFixed(2)}% from peak, limit ${this.config.maxDrawdownPercent}%`, peakStart);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.save();
+    }
+  }
+
+  private halt(limit: LossLimitType, reason: string, periodStart: number): void {
+    this.state.halt = { limit, reason, periodStart, timestamp: Date.now() };
+    this.logger.error(`🛑 LOSS LIMIT HIT (${limit}): ${reason} - no new entries until the period resets`);
+  }
+
+  private getDrawdownPercent(): number {
+    if (this.equityUsd === null || !this.state.peak || this.state.peak.equityUsd <= 0) {
+      return 0;
+    }
+    return Math.max(0, (this.state.peak.equityUsd - this.equityUsd) / this.state.peak.equityUsd * 100);
+  }
+
+  /** Start of the current day: the most recent resetHourUtc */
+  private getDayStart(now: number): number {
+    const date = new Date(now);
+    const start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), this.config.resetHourUtc);
+    return start > now ? start - DAY_MS : start;
+  }
+
+  /** Start of the current week: the most recent weeklyResetDay at resetHourUtc */
+  private getWeekStart(now: number): number {
+    const dayStart = this.getDayStart(now);
+    const daysSince = (new Date(dayStart).getUTCDay() - this.config.weeklyResetDay + 7) % 7;
+    return dayStart - daysSince * DAY_MS;
+  }
+
+  private load(): LossLimitState {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return emptyLossLimitState();
+    }
+    try {
+      return { ...emptyLossLimitState(), ...JSON.parse(fs.readFileSync(this.filePath, 'utf8')) };
+    } catch (error) {
+      this.logger.warn(`Failed to read loss limit state (${error}) - starting from current equity`);
+      return emptyLossLimitState();
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this.state, null, 2), 'utf8');
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      this.logger.error(`Failed to persist loss limit state: ${error}`);
+    }
+  }
+}
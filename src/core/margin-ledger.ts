@@ -0,0 +1,44 @@
+/**
+ * Margin reserved by entries in flight, shared by the per-market strategies.
+ * An exchange only counts an entry's margin as used once its orders fill, so two markets
+ * checking margin at the same time would both see the same free collateral. Each entry
+ * reserves its margin here when its risk check passes and releases it when the entry finishes.
+ */
+
+export class MarginLedger {
+  private reservations: Map<string, Map<string, number>> = new Map(); // symbol -> exchange -> USD
+
+  /**
+   * Reserve margin on an exchange if what's left after other markets' reservations covers it.
+   */
+  tryReserve(symbol: string, exchangeName: string, amountUsd: number, availableUsd: number): boolean {
+    if (availableUsd - this.getReserved(exchangeName, symbol) < amountUsd) {
+      return false;
+    }
+
+    const bySymbol = this.reservations.get(symbol) || new Map<string, number>();
+    bySymbol.set(exchangeName, (bySymbol.get(exchangeName) || 0) + amountUsd);
+    this.reservations.set(symbol, bySymbol);
+    return true;
+  }
+
+  /**
+   * Drop every reservation a market holds (its entry finished or was abandoned).
+   */
+  release(symbol: string): void {
+    this.reservations.delete(symbol);
+  }
+
+  /**
+   * Margin reserved on an exchange, optionally excluding one market's own reservations.
+   */
+  getReserved(exchangeName: string, excludeSymbol?: string): number {
+    let total = 0;
+    for (const [symbol, bySymbol] of this.reservations) {
+      if (symbol !== excludeSymbol) {
+        total += bySymbol.get(exchangeName) || 0;
+      }
+    }
+    return total;
+  }
+}
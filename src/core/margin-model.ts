@@ -0,0 +1,120 @@
+/**
+ * Venue margin model.
+ * Initial and maintenance margin come from each venue's listing (see MarketInfo). Where a
+ * venue doesn't report them, initial margin is 1 / risk.maxLeverage and maintenance half of
+ * that. risk.maxLeverage also caps leverage on venues that would allow more.
+ * Liquidation prices are estimates for a cross-margin account: the leg is liquidated when the
+ * venue's equity, moved by the leg's PnL, falls to the maintenance margin of everything open there.
+ * The strategy checks its open legs against these estimates (see LiquidationConfig).
+ */
+
+import { IExchange } from '../exchanges/interface';
+import { LiquidationConfig, Position } from '../config/types';
+
+// Default liquidation monitoring settings
+export const DEFAULT_LIQUIDATION_CONFIG: LiquidationConfig = {
+  checkIntervalMs: 10000,
+  alertDistancePercent: 20,
+  reduceDistancePercent: 10,
+  reduceFraction: 0.5
+};
+
+const FALLBACK_MAINTENANCE_RATIO = 0.5; // Maintenance as a share of initial margin when the venue doesn't say
+
+export interface MarginRequirements {
+  initialMarginFraction: number; // Fractions of notional
+  maintenanceMarginFraction: number;
+  source: 'venue' | 'config';
+}
+
+export interface LiquidationEstimate {
+  exchange: string;
+  side: 'long' | 'short';
+  size: number;
+  markPrice: number;
+  liquidationPrice: number | null; // null when equity covers the leg at any price
+  distancePercent: number | null; // Distance from mark to liquidation, percent of mark
+}
+
+/**
+ * Margin fractions for a market on a venue.
+ */
+export function getMarginRequirements(exchange: IExchange, symbol: string, maxLeverage: number): MarginRequirements {
+  const configFraction = 1 / maxLeverage;
+  let market;
+  try {
+    market = exchange.getMarketInfo(symbol);
+  } catch {
+    market = undefined;
+  }
+
+  if (market?.initialMarginFraction === undefined) {
+    return {
+      initialMarginFraction: configFraction,
+      maintenanceMarginFraction: market?.maintenanceMarginFraction ?? configFraction * FALLBACK_MAINTENANCE_RATIO,
+      source: 'config'
+    };
+  }
+
+  return {
+    initialMarginFraction: Math.max(market.initialMarginFraction, configFraction),
+    maintenanceMarginFraction: market.maintenanceMarginFraction ?? market.initialMarginFraction * FALLBACK_MAINTENANCE_RATIO,
+    source: 'venue'
+  };
+}
+
+/**
+ * Estimated liquidation price of one position on a cross-margin venue. `otherMaintenanceUsd`
+ * is the maintenance margin of the venue's other positions, taken as fixed.
+ */
+export function estimateLiquidationPrice(
+  position: Position,
+  equityUsd: number,
+  otherMaintenanceUsd: number,
+  maintenanceMarginFraction: number
+): number | null {
+  const { size, markPrice } = position;
+  if (size <= 0) {
+    return null;
+  }
+
+  // Long: equity + size * (P - mark) = other + mmf * size * P. Short: equity - size * (P - mark) = ...
+  const price = position.side === 'long'
+    ? (size * markPrice + otherMaintenanceUsd - equityUsd) / (size * (1 - maintenanceMarginFraction))
+    : (equityUsd + size * markPrice - otherMaintenanceUsd) / (size * (1 + maintenanceMarginFraction));
+  return price > 0 ? price : null;
+}
+
+/**
+ * Liquidation estimate for the symbol's position on a venue, or null when it holds none.
+ */
+export async function estimateLegLiquidation(
+  exchange: IExchange,
+  symbol: string,
+  maxLeverage: number
+): Promise<LiquidationEstimate | null> {
+  const [positions, account] = await Promise.all([exchange.getOpenPositions(), exchange.getAccountInfo()]);
+  const position = positions.find(p => p.symbol === symbol && p.size > 0);
+  if (!position) {
+    return null;
+  }
+
+  const otherMaintenanceUsd = positions
+    .filter(p => p !== position)
+    .reduce((sum, p) => sum + p.size * p.markPrice * getMarginRequirements(exchange, p.symbol, maxLeverage).maintenanceMarginFraction, 0);
+  const { maintenanceMarginFraction } = getMarginRequirements(exchange, symbol, maxLeverage);
+  const liquidationPrice = estimateLiquidationPrice(position, account.balance, otherMaintenanceUsd, maintenanceMarginFraction);
+
+  return {
+    exchange: exchange.name,
+    side: position.side,
+    size: position.size,
+    markPrice: position.markPrice,
+    liquidationPrice,
+    // 0 once the mark is past the estimate
+    distancePercent: liquidationPrice === null
+      ? null
+      : Math.max(0, (position.side === 'long' ? position.markPrice - liquidationPrice : liquidationPrice - position.markPrice) /
+        position.markPrice * 100)
+  };
+}
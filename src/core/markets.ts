@@ -0,0 +1,115 @@
+/**
+ * Per-market trading settings.
+ * Resolves the configured markets (falling back to the top-level BTC settings),
+ * rounds prices and sizes onto the increments the venues accept and checks orders
+ * against each venue's market spec before they are submitted.
+ */
+
+import { IExchange, getTimeInForce } from '../exchanges/interface';
+import { BotConfig, MarketConfig, MarketSpec, OrderRequest } from '../config/types';
+
+const DEFAULT_SYMBOL = 'BTC-PERP';
+const DEFAULT_MAX_ENTRY_GAP_USD = 999999;
+const INCREMENT_EPSILON = 1e-9; // Float tolerance when dividing by an increment
+
+/** A market with every threshold filled in */
+export interface ResolvedMarket extends MarketConfig {
+  entryGapUsd: number;
+  maxEntryGapUsd: number;
+  exitGapUsd: number;
+}
+
+/**
+ * Markets to trade. Without a `markets` section this is BTC-PERP with the top-level settings.
+ */
+export function resolveMarkets(config: BotConfig): ResolvedMarket[] {
+  const markets = config.markets && config.markets.length > 0
+    ? config.markets
+    : [{ symbol: DEFAULT_SYMBOL, positionSize: config.positionSizeBtc }];
+
+  return markets.map(market => resolveMarket(config, market));
+}
+
+export function resolveMarket(config: BotConfig, market: MarketConfig): ResolvedMarket {
+  return {
+    ...market,
+    entryGapUsd: market.entryGapUsd ?? config.entryGapUsd,
+    maxEntryGapUsd: market.maxEntryGapUsd ?? config.maxEntryGapUsd ?? DEFAULT_MAX_ENTRY_GAP_USD,
+    exitGapUsd: market.exitGapUsd ?? config.exitGapUsd,
+    ladder: market.ladder ?? config.ladder
+  };
+}
+
+/**
+ * Size increment valid on every venue: the configured lotSize, else the coarsest venue lot.
+ */
+export function getCommonLotSize(market: MarketConfig, exchanges: IExchange[]): number {
+  if (market.lotSize) {
+    return market.lotSize;
+  }
+  return Math.max(...exchanges.map(exchange => exchange.getMarketInfo(market.symbol).lotSize));
+}
+
+/**
+ * Round onto an increment. "up"/"down" keep limit prices on the safe side of a target.
+ */
+export function roundToIncrement(value: number, increment: number, mode: 'up' | 'down' | 'nearest'): number {
+  const steps = value / increment;
+  const rounded = mode === 'up'
+    ? Math.ceil(steps - INCREMENT_EPSILON)
+    : mode === 'down'
+      ? Math.floor(steps + INCREMENT_EPSILON)
+      : Math.round(steps);
+
+  // Strip float noise (e.g. 3 * 0.1) so the value prints and compares cleanly
+  const decimals = Math.max(0, Math.ceil(-Math.log10(increment)));
+  return parseFloat((rounded * increment).toFixed(decimals));
+}
+
+/**
+ * Fit an order to a venue's market spec: the size rounded down to the lot, the limit price
+ * snapped to the nearest tick (callers round in the direction they want first), reduce-only
+ * dropped where the venue doesn't enforce it. Throws if the venue doesn't support the
+ * time-in-force or the order is below its minimum size or value. A market order's value is
+ * checked at referencePrice, its expected fill price.
+ */
+export function prepareOrder(
+  spec: MarketSpec,
+  venueName: string,
+  request: OrderRequest,
+  referencePrice?: number
+): OrderRequest {
+  const label = `${venueName}: ${request.side} ${request.size} ${spec.symbol}`;
+
+  const timeInForce = getTimeInForce(request);
+  if (!spec.capabilities.timeInForce.includes(timeInForce)) {
+    throw new Error(
+      `${label} rejected: ${timeInForce} orders are not supported (supported: ${spec.capabilities.timeInForce.join(', ')})`
+    );
+  }
+
+  if (!isFinite(request.size) || request.size <= 0) {
+    throw new Error(`${label} rejected: invalid size`);
+  }
+  const size = roundToIncrement(request.size, spec.lotSize, 'down');
+  if (size <= 0 || size < spec.minSize - INCREMENT_EPSILON) {
+    throw new Error(`${label} rejected: size ${size} is below the minimum of ${spec.minSize} (lot ${spec.lotSize})`);
+  }
+
+  let price: number | undefined;
+  if (request.price !== undefined) {
+    if (!isFinite(request.price) || request.price <= 0) {
+      throw new Error(`${label} rejected: invalid price ${request.price}`);
+    }
+    price = roundToIncrement(request.price, spec.tickSize, 'nearest');
+  }
+
+  const notionalPrice = price ?? referencePrice;
+  if (notionalPrice !== undefined && spec.minNotional > 0 && size * notionalPrice < spec.minNotional) {
+    throw new Error(
+      `${label} rejected: value ${(size * notionalPrice).toFixed(2)} USD is below the minimum of ${spec.minNotional} USD`
+    );
+  }
+
+  return { ...request, size, price, reduceOnly: !!request.reduceOnly && spec.capabilities.reduceOnly };
+}
@@ -0,0 +1,138 @@
+/**
+ * Client order IDs and the order submission journal.
+ * Every order the bot sends carries a client order ID derived from the trade it belongs to and
+ * the leg it fills, and is written to the journal before it goes out. After a send that failed
+ * without a clear answer, ExecutionManager asks the venue for the order by that ID before it
+ * sends it again. The journal keeps how each submission ended; orders a crash left unresolved are
+ * looked up on the venues when the bot restarts.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OrderSide, OrderType, StateConfig, VenueId } from '../config/types';
+import { Logger } from '../utils/logger';
+
+// Client order IDs are 48-bit integers - the widest Lighter's client_order_index takes
+const CLIENT_ORDER_ID_HEX_DIGITS = 12;
+
+const MAX_SUBMISSIONS = 500;
+
+/**
+ * pending: journaled, no answer yet; placed: the venue has it; failed: rejected, or not found
+ * after every attempt; unknown: the send failed ambiguously and the order couldn't be looked up
+ */
+export type SubmissionStatus = 'pending' | 'placed' | 'failed' | 'unknown';
+
+export interface OrderSubmission {
+  clientOrderId: string;
+  tradeId: string;
+  leg: string; // e.g. "nado:buy:1" - venue, side and the order's number on that side
+  venue: VenueId;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  size: number;
+  price?: number;
+  status: SubmissionStatus;
+  attempts: number;
+  orderId?: string; // Venue order ID once placed
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface OrderJournalState {
+  version: 1;
+  submissions: OrderSubmission[];
+}
+
+/**
+ * The client order ID of a trade's leg: the first 48 bits of sha256("tradeId:leg"), as a
+ * decimal string. The same trade and leg always give the same ID.
+ */
+export function deriveClientOrderId(tradeId: string, leg: string): string {
+  const digest = crypto.createHash('sha256').update(`${tradeId}:${leg}`).digest('hex');
+  return BigInt(`0x${digest.slice(0, CLIENT_ORDER_ID_HEX_DIGITS)}`).toString();
+}
+
+export class OrderJournal {
+  private logger: Logger;
+  private filePath: string | null;
+  private state: OrderJournalState;
+
+  /**
+   * Kept in memory only when state persistence is off.
+   */
+  constructor(config: StateConfig | null, key: string, logger: Logger) {
+    this.logger = logger;
+    const safeKey = key.replace(/[^A-Za-z0-9_-]/g, '_');
+    this.filePath = config?.enabled ? path.join(config.directory, `${safeKey}.orders.json`) : null;
+    this.state = this.load();
+  }
+
+  /**
+   * Journal an order before it is sent. Recording an ID that is already journaled returns the
+   * existing entry.
+   */
+  record(submission: Omit<OrderSubmission, 'status' | 'attempts' | 'createdAt' | 'updatedAt'>): OrderSubmission {
+    const existing = this.get(submission.clientOrderId);
+    if (existing) {
+      return existing;
+    }
+
+    const now = Date.now();
+    const entry: OrderSubmission = { ...submission, status: 'pending', attempts: 0, createdAt: now, updatedAt: now };
+    this.state.submissions = [...this.state.submissions, entry].slice(-MAX_SUBMISSIONS);
+    this.save();
+    return entry;
+  }
+
+  update(clientOrderId: string, changes: Partial<Pick<OrderSubmission, 'status' | 'attempts' | 'orderId' | 'error'>>): void {
+    const entry = this.get(clientOrderId);
+    if (!entry) {
+      return;
+    }
+    Object.assign(entry, changes, { updatedAt: Date.now() });
+    this.save();
+  }
+
+  get(clientOrderId: string): OrderSubmission | undefined {
+    return this.state.submissions.find(entry => entry.clientOrderId === clientOrderId);
+  }
+
+  /**
+   * Submissions whose outcome is not known: still pending, or failed ambiguously.
+   */
+  getUnresolved(): OrderSubmission[] {
+    return this.state.submissions.filter(entry => entry.status === 'pending' || entry.status === 'unknown');
+  }
+
+  private load(): OrderJournalState {
+    const empty: OrderJournalState = { version: 1, submissions: [] };
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return empty;
+    }
+    try {
+      return { ...empty, ...JSON.parse(fs.readFileSync(this.filePath, 'utf8')) };
+    } catch (error) {
+      this.logger.warn(`Failed to read order journal (${error}) - starting a new one`);
+      return empty;
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this.state, null, 2), 'utf8');
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      this.logger.error(`Failed to persist order journal: ${error}`);
+    }
+  }
+}
@@ -4,8 +4,16 @@
  */
 
 import { IExchange } from '../exchanges/interface';
-import { BotConfig } from '../config/types';
+import { BotConfig, VenueFees } from '../config/types';
 import { Logger } from '../utils/logger';
+import { MarginLedger } from './margin-ledger';
+import { getMarginRequirements } from './margin-model';
+import { getVenueFees, resolvePair } from '../exchanges/venues';
+import { prepareOrder } from './markets';
+
+const DEFAULT_MAX_SLIPPAGE_BPS = 10; // 0.1%
+const ORDER_BOOK_DEPTH = 20;
+const SIZE_EPSILON = 1e-9; // Float tolerance when walking levels
 
 export interface MarginCheckResult {
   passed: boolean;
@@ -23,38 +31,73 @@ export interface DepthCheckResult {
   slippageBps: number;
 }
 
+export interface PreTradeCheckResult {
+  passed: boolean;
+  reason?: string;
+  executableGapUsd?: number; // VWAP gap after round-trip fees, per BTC (once depth checks ran)
+}
+
+/**
+ * Round-trip fees in bps of notional: entry and exit on both legs.
+ * In sequential_maker mode the pair's first venue places a maker order, everything else pays taker.
+ */
+export function getRoundTripFeeBps(config: BotConfig): number {
+  const fees = getVenueFees(config);
+  const [makerVenue, hedgeVenue] = resolvePair(config);
+  return roundTripFeeBps(config, fees[makerVenue], fees[hedgeVenue]);
+}
+
+function roundTripFeeBps(config: BotConfig, makerFees: VenueFees | undefined, hedgeFees: VenueFees | undefined): number {
+  const entryMode = config.execution?.entryMode || 'sequential_maker';
+  const exitMode = config.execution?.exitMode || 'sequential_maker';
+  
+  const makerFeeBps = (mode: string) =>
+    (mode === 'sequential_maker' ? makerFees?.makerFeeBps : makerFees?.takerFeeBps) ?? 0;
+  const hedgeFeeBps = hedgeFees?.takerFeeBps ?? 0;
+  return makerFeeBps(entryMode) + hedgeFeeBps + makerFeeBps(exitMode) + hedgeFeeBps;
+}
+
 export class RiskManager {
   private logger: Logger;
   private config: BotConfig;
+  private marginLedger: MarginLedger | undefined;
   
-  constructor(config: BotConfig, logger: Logger) {
+  constructor(config: BotConfig, logger: Logger, marginLedger?: MarginLedger) {
     this.config = config;
     this.logger = logger;
+    this.marginLedger = marginLedger;
   }
   
   /**
-   * Check if there's sufficient margin on an exchange to open a position.
+   * Check if there's sufficient margin on an exchange to open a position, at the venue's
+   * initial margin for the market (risk.maxLeverage when the venue doesn't report it).
+   * Margin reserved by other markets' entries in flight is not available.
    */
   async checkMargin(
     exchange: IExchange,
     positionSizeBtc: number,
-    entryPrice: number
+    entryPrice: number,
+    symbol?: string
   ): Promise<MarginCheckResult> {
     try {
       const accountInfo = await exchange.getAccountInfo();
       const notionalValue = positionSizeBtc * entryPrice;
+      const reservedMargin = this.marginLedger?.getReserved(exchange.name, symbol) || 0;
       
-      // Calculate required margin based on leverage
-      const requiredMargin = notionalValue / this.config.risk.maxLeverage;
+      // Required margin at the venue's initial margin fraction
+      const requiredMargin = symbol
+        ? notionalValue * getMarginRequirements(exchange, symbol, this.config.risk.maxLeverage).initialMarginFraction
+        : notionalValue / this.config.risk.maxLeverage;
       
       // Add buffer
       const requiredMarginWithBuffer = requiredMargin * (1 + this.config.risk.minMarginBufferPercent / 100);
       
-      if (accountInfo.availableMargin < requiredMarginWithBuffer) {
+      if (accountInfo.availableMargin - reservedMargin < requiredMarginWithBuffer) {
         return {
           passed: false,
           reason: `Insufficient margin on ${exchange.name}. ` +
-            `Available: ${accountInfo.availableMargin.toFixed(2)}, ` +
+            `Available: ${accountInfo.availableMargin.toFixed(2)}` +
+            (reservedMargin > 0 ? ` (${reservedMargin.toFixed(2)} reserved by other markets)` : '') + `, ` +
             `Required: ${requiredMarginWithBuffer.toFixed(2)} (with ${this.config.risk.minMarginBufferPercent}% buffer)`,
           availableMargin: accountInfo.availableMargin,
           requiredMargin: requiredMarginWithBuffer
@@ -86,37 +129,26 @@ export class RiskManager {
   
   /**
    * Check order book depth to ensure sufficient liquidity.
-   * Validates that we can fill the order with acceptable slippage.
+   * Walks the book for the full size and validates the VWAP slippage against the reference price.
    */
   async checkOrderBookDepth(
     exchange: IExchange,
-    _symbol: string,
-    _side: 'buy' | 'sell',
+    symbol: string,
+    side: 'buy' | 'sell',
     size: number,
     referencePrice: number,
-    _maxSlippageBps: number = 10 // 0.1% default
+    maxSlippageBps: number = DEFAULT_MAX_SLIPPAGE_BPS
   ): Promise<DepthCheckResult> {
     try {
-      // TEMPORARY: Skip actual orderbook depth check due to API issues
-      // Use reference price as execution price (assumes sufficient liquidity)
-      return {
-        passed: true,
-        availableLiquidity: size,
-        requiredSize: size,
-        averagePrice: referencePrice,
-        slippageBps: 0 // Assume no slippage for now
-      };
-      
-      /* Original code - disabled
-      const orderBook = await exchange.getOrderBook(symbol, 20);
+      const orderBook = await exchange.getOrderBook(symbol, ORDER_BOOK_DEPTH);
       
-      // Select the appropriate side of the book
+      // Buying takes the asks, selling takes the bids (adapters return both best first)
       const levels = side === 'buy' ? orderBook.asks : orderBook.bids;
       
       if (levels.length === 0) {
         return {
           passed: false,
-          reason: `${exchange.name}: Order book is empty on ${side} side`,
+          reason: `${exchange.name}: Order book is empty on ${side === 'buy' ? 'ask' : 'bid'} side`,
           availableLiquidity: 0,
           requiredSize: size,
           averagePrice: 0,
@@ -135,17 +167,19 @@ export class RiskManager {
         filledSize += fillAmount;
         remainingSize -= fillAmount;
         
-        if (remainingSize <= 0) {
+        if (remainingSize <= SIZE_EPSILON) {
           break;
         }
       }
       
-      if (filledSize < size) {
+      const availableLiquidity = levels.reduce((sum, [, levelSize]) => sum + levelSize, 0);
+      
+      if (remainingSize > SIZE_EPSILON) {
         return {
           passed: false,
           reason: `${exchange.name}: Insufficient liquidity. ` +
-            `Can only fill ${filledSize.toFixed(4)}/${size} ${symbol}`,
-          availableLiquidity: filledSize,
+            `Can only fill ${filledSize.toFixed(4)}/${size} ${symbol} within ${levels.length} levels`,
+          availableLiquidity,
           requiredSize: size,
           averagePrice: filledSize > 0 ? totalCost / filledSize : 0,
           slippageBps: 0
@@ -154,8 +188,10 @@ export class RiskManager {
       
       const averagePrice = totalCost / filledSize;
       
-      // Calculate slippage vs reference price
-      const slippageBps = Math.abs((averagePrice - referencePrice) / referencePrice) * 10000;
+      // Slippage is adverse only: paying above the reference on a buy, receiving below it on a sell
+      const slippageBps = Math.max(0,
+        (side === 'buy' ? averagePrice - referencePrice : referencePrice - averagePrice) / referencePrice * 10000
+      );
       
       if (slippageBps > maxSlippageBps) {
         return {
@@ -164,7 +200,7 @@ export class RiskManager {
             `Expected: ${referencePrice.toFixed(2)}, ` +
             `Average: ${averagePrice.toFixed(2)}, ` +
             `Slippage: ${slippageBps.toFixed(2)} bps (max: ${maxSlippageBps} bps)`,
-          availableLiquidity: filledSize,
+          availableLiquidity,
           requiredSize: size,
           averagePrice,
           slippageBps
@@ -179,18 +215,17 @@ export class RiskManager {
       
       return {
         passed: true,
-        availableLiquidity: filledSize,
+        availableLiquidity,
         requiredSize: size,
         averagePrice,
         slippageBps
       };
-      */
       
     } catch (error) {
       this.logger.error(`${exchange.name}: Failed to check order book depth: ${error}`);
       return {
         passed: false,
-        reason: `Failed to retrieve order book: ${error}`,
+        reason: `${exchange.name}: Failed to retrieve order book: ${error}`,
         availableLiquidity: 0,
         requiredSize: size,
         averagePrice: 0,
@@ -199,9 +234,55 @@ export class RiskManager {
     }
   }
   
+  /**
+   * Estimated round-trip fees in USD per BTC: entry and exit on both legs, at the fees the
+   * venues report for the market.
+   */
+  private estimateRoundTripFeesPerBtc(
+    cheapExchange: IExchange,
+    expensiveExchange: IExchange,
+    symbol: string,
+    price: number
+  ): number {
+    const [makerExchange, hedgeExchange] = expensiveExchange.id === resolvePair(this.config)[0]
+      ? [expensiveExchange, cheapExchange]
+      : [cheapExchange, expensiveExchange];
+    const feeBps = roundTripFeeBps(
+      this.config,
+      makerExchange.getMarketSpec(symbol).fees,
+      hedgeExchange.getMarketSpec(symbol).fees
+    );
+    return feeBps / 10000 * price;
+  }
+  
+  /**
+   * Orders of this size must meet both venues' minimum size and value for the market.
+   */
+  private checkOrderMinimums(
+    cheapExchange: IExchange,
+    expensiveExchange: IExchange,
+    symbol: string,
+    sizeBtc: number,
+    cheapPrice: number,
+    expensivePrice: number
+  ): PreTradeCheckResult {
+    try {
+      prepareOrder(cheapExchange.getMarketSpec(symbol), cheapExchange.name, {
+        symbol, side: 'buy', type: 'limit', size: sizeBtc, price: cheapPrice
+      });
+      prepareOrder(expensiveExchange.getMarketSpec(symbol), expensiveExchange.name, {
+        symbol, side: 'sell', type: 'limit', size: sizeBtc, price: expensivePrice
+      });
+    } catch (error) {
+      return { passed: false, reason: error instanceof Error ? error.message : String(error) };
+    }
+    return { passed: true };
+  }
+  
   /**
    * Comprehensive pre-trade risk check.
    * Validates margin, liquidity, and other safety requirements on both exchanges.
+   * When it passes, the entry's margin stays reserved until releaseMargin(symbol).
    */
   async preTradeCheck(
     cheapExchange: IExchange,
@@ -210,14 +291,112 @@ export class RiskManager {
     positionSizeBtc: number,
     cheapPrice: number,
     expensivePrice: number,
-    maxSlippageBps: number = 10
-  ): Promise<{ passed: boolean; reason?: string }> {
+    fundingEdgeUsd: number = 0, // Funding expected over the hold, per unit - counts towards the executable gap
+    maxSlippageBps: number = this.config.risk.maxSlippageBps ?? DEFAULT_MAX_SLIPPAGE_BPS
+  ): Promise<PreTradeCheckResult> {
     this.logger.info('Running pre-trade risk checks...');
     
+    const minimums = this.checkOrderMinimums(cheapExchange, expensiveExchange, symbol, positionSizeBtc, cheapPrice, expensivePrice);
+    if (!minimums.passed) {
+      return minimums;
+    }
+    
     // Check 1: Margin on both exchanges
+    const margin = await this.checkAndReserveMargin(
+      cheapExchange,
+      expensiveExchange,
+      symbol,
+      positionSizeBtc,
+      cheapPrice,
+      expensivePrice
+    );
+    if (!margin.passed) {
+      return margin;
+    }
+    
+    const result = await this.checkLiquidityAndGap(
+      cheapExchange,
+      expensiveExchange,
+      symbol,
+      positionSizeBtc,
+      cheapPrice,
+      expensivePrice,
+      fundingEdgeUsd,
+      maxSlippageBps
+    );
+    
+    if (!result.passed) {
+      this.releaseMargin(symbol);
+    }
+    return result;
+  }
+  
+  /**
+   * Pre-trade check for flipping an open spread: the same checks as an entry, with margin for
+   * the reversed position and book depth for the flip orders (closing plus opening size).
+   * The margin still held by the old position is not counted as freed.
+   */
+  async preFlipCheck(
+    cheapExchange: IExchange,
+    expensiveExchange: IExchange,
+    symbol: string,
+    closeSizeBtc: number,
+    openSizeBtc: number,
+    cheapPrice: number,
+    expensivePrice: number,
+    fundingEdgeUsd: number = 0,
+    maxSlippageBps: number = this.config.risk.maxSlippageBps ?? DEFAULT_MAX_SLIPPAGE_BPS
+  ): Promise<PreTradeCheckResult> {
+    this.logger.info('Running pre-flip risk checks...');
+    
+    const minimums = this.checkOrderMinimums(cheapExchange, expensiveExchange, symbol, openSizeBtc, cheapPrice, expensivePrice);
+    if (!minimums.passed) {
+      return minimums;
+    }
+    
+    const margin = await this.checkAndReserveMargin(
+      cheapExchange,
+      expensiveExchange,
+      symbol,
+      openSizeBtc,
+      cheapPrice,
+      expensivePrice
+    );
+    if (!margin.passed) {
+      return margin;
+    }
+    
+    const result = await this.checkLiquidityAndGap(
+      cheapExchange,
+      expensiveExchange,
+      symbol,
+      closeSizeBtc + openSizeBtc,
+      cheapPrice,
+      expensivePrice,
+      fundingEdgeUsd,
+      maxSlippageBps
+    );
+    
+    if (!result.passed) {
+      this.releaseMargin(symbol);
+    }
+    return result;
+  }
+  
+  /**
+   * Margin for a position on both exchanges, reserved in the margin ledger when it passes.
+   */
+  private async checkAndReserveMargin(
+    cheapExchange: IExchange,
+    expensiveExchange: IExchange,
+    symbol: string,
+    positionSizeBtc: number,
+    cheapPrice: number,
+    expensivePrice: number
+  ): Promise<PreTradeCheckResult> {
     const [cheapMargin, expensiveMargin] = await Promise.all([
-      this.checkMargin(cheapExchange, positionSizeBtc, cheapPrice),
-      this.checkMargin(expensiveExchange, positionSizeBtc, expensivePrice)
+      this.checkMargin(cheapExchange, positionSizeBtc, cheapPrice, symbol),
+      this.checkMargin(expensiveExchange, positionSizeBtc, expensivePrice, symbol)
     ]);
     
     if (!cheapMargin.passed) {
@@ -228,6 +407,38 @@ export class RiskManager {
       return { passed: false, reason: expensiveMargin.reason };
     }
     
+    // Hold the margin so another market's entry can't count it too
+    if (this.marginLedger) {
+      const reserved =
+        this.marginLedger.tryReserve(symbol, cheapExchange.name, cheapMargin.requiredMargin, cheapMargin.availableMargin) &&
+        this.marginLedger.tryReserve(symbol, expensiveExchange.name, expensiveMargin.requiredMargin, expensiveMargin.availableMargin);
+      
+      if (!reserved) {
+        this.marginLedger.release(symbol);
+        return { passed: false, reason: 'Margin was reserved by another market while checking' };
+      }
+    }
+    
+    return { passed: true };
+  }
+  
+  /**
+   * Release the margin reserved by preTradeCheck once the entry has finished (filled or not).
+   */
+  releaseMargin(symbol: string): void {
+    this.marginLedger?.release(symbol);
+  }
+  
+  private async checkLiquidityAndGap(
+    cheapExchange: IExchange,
+    expensiveExchange: IExchange,
+    symbol: string,
+    positionSizeBtc: number,
+    cheapPrice: number,
+    expensivePrice: number,
+    fundingEdgeUsd: number,
+    maxSlippageBps: number
+  ): Promise<PreTradeCheckResult> {
     // Check 2: Order book depth on both exchanges
     const [cheapDepth, expensiveDepth] = await Promise.all([
       this.checkOrderBookDepth(cheapExchange, symbol, 'buy', positionSizeBtc, cheapPrice, maxSlippageBps),
@@ -242,26 +453,38 @@ export class RiskManager {
       return { passed: false, reason: expensiveDepth.reason };
     }
     
-    // Check 3: Verify gap is still positive after considering execution prices
-    const executionGap = expensiveDepth.averagePrice - cheapDepth.averagePrice;
+    // Check 3: Gap we can actually execute (VWAP on both books) must still cover
+    // round-trip fees and leave at least the minimum executable gap (expected funding included)
+    const vwapGap = expensiveDepth.averagePrice - cheapDepth.averagePrice;
+    const feesPerBtc = this.estimateRoundTripFeesPerBtc(
+      cheapExchange,
+      expensiveExchange,
+      symbol,
+      (cheapDepth.averagePrice + expensiveDepth.averagePrice) / 2
+    );
+    const executableGapUsd = vwapGap - feesPerBtc + fundingEdgeUsd;
+    const minExecutableGapUsd = this.config.risk.minExecutableGapUsd ?? this.config.exitGapUsd;
     
-    if (executionGap < 0) {
+    if (executableGapUsd < minExecutableGapUsd) {
       return {
         passed: false,
-        reason: `Execution gap would be negative after slippage. ` +
-          `Cheap side avg: ${cheapDepth.averagePrice.toFixed(2)}, ` +
-          `Expensive side avg: ${expensiveDepth.averagePrice.toFixed(2)}`
+        reason: `Executable gap too small after slippage and fees: ` +
+          `${executableGapUsd.toFixed(2)} USD < ${minExecutableGapUsd} USD minimum ` +
+          `(VWAP gap ${vwapGap.toFixed(2)}, fees ${feesPerBtc.toFixed(2)}, funding ${fundingEdgeUsd.toFixed(2)}, ` +
+          `cheap avg ${cheapDepth.averagePrice.toFixed(2)}, expensive avg ${expensiveDepth.averagePrice.toFixed(2)})`,
+        executableGapUsd
       };
     }
     
     this.logger.info(
       `Pre-trade checks PASSED. ` +
-      `Execution gap: ${executionGap.toFixed(2)} USD, ` +
+      `Executable gap: ${executableGapUsd.toFixed(2)} USD ` +
+      `(VWAP gap ${vwapGap.toFixed(2)}, fees ${feesPerBtc.toFixed(2)}, funding ${fundingEdgeUsd.toFixed(2)}), ` +
       `Cheap slippage: ${cheapDepth.slippageBps.toFixed(2)} bps, ` +
       `Expensive slippage: ${expensiveDepth.slippageBps.toFixed(2)} bps`
     );
     
-    return { passed: true };
+    return { passed: true, executableGapUsd };
   }
   
   /**
@@ -269,26 +492,18 @@ export class RiskManager {
    * Ensures we have the expected hedged position.
    */
   async validatePositions(
-    nadoExchange: IExchange,
-    lighterExchange: IExchange,
+    longExchange: IExchange,
+    shortExchange: IExchange,
     symbol: string,
-    expectedLongExchange: 'nado' | 'lighter',
-    expectedShortExchange: 'nado' | 'lighter',
     expectedSize: number,
     toleranceBtc: number = 0.001
   ): Promise<{ valid: boolean; reason?: string }> {
     try {
-      const [nadoPosition, lighterPosition] = await Promise.all([
-        nadoExchange.getPosition(symbol),
-        lighterExchange.getPosition(symbol)
+      const [longPosition, shortPosition] = await Promise.all([
+        longExchange.getPosition(symbol),
+        shortExchange.getPosition(symbol)
       ]);
       
-      const longExchange = expectedLongExchange === 'nado' ? nadoExchange : lighterExchange;
-      const shortExchange = expectedShortExchange === 'nado' ? nadoExchange : lighterExchange;
-      
-      const longPosition = expectedLongExchange === 'nado' ? nadoPosition : lighterPosition;
-      const shortPosition = expectedShortExchange === 'nado' ? nadoPosition : lighterPosition;
-      
       // Check long position
       if (!longPosition || longPosition.side !== 'long') {
         return {
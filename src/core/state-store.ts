@@ -0,0 +1,271 @@
+/**
+ * Durable storage for BotStateManager.
+ * Every state transition is appended to a journal (newline-delimited JSON) and the
+ * journal is periodically compacted into a snapshot. On startup the snapshot is
+ * loaded and any newer journal entries are replayed on top of it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StateConfig, VenueId } from '../config/types';
+import { Logger } from '../utils/logger';
+import type { SpreadPosition, TradeHistory } from './state';
+
+// Default state persistence config
+export const DEFAULT_STATE_CONFIG: StateConfig = {
+  enabled: true,
+  directory: './state',
+  snapshotEveryEvents: 50
+};
+
+export type StateEvent =
+  | { type: 'POSITION_OPENED'; position: SpreadPosition }
+  | { type: 'ORDER_IDS_UPDATED'; cheapExchangeOrderId: string; expensiveExchangeOrderId: string; entryOrderIds?: Record<VenueId, string[]> }
+  | { type: 'FUNDING_UPDATED'; fundingUsd: number; fundingByExchange: Record<string, number> }
+  | { type: 'CLIP_ADDED'; position: SpreadPosition }
+  | { type: 'CLIP_CLOSED'; position: SpreadPosition | null; trade: TradeHistory }
+  | { type: 'POSITION_CLOSED'; trade: TradeHistory }
+  | { type: 'POSITION_FLIPPED'; position: SpreadPosition; trade: TradeHistory }
+  | { type: 'POSITION_REDUCED'; position: SpreadPosition; trade: TradeHistory }
+  | { type: 'POSITION_DISCARDED'; reason: string };
+
+export interface JournalEntry {
+  seq: number;
+  timestamp: number;
+  event: StateEvent;
+}
+
+export interface PersistedState {
+  currentPosition: SpreadPosition | null;
+  tradeHistory: TradeHistory[];
+  lastExitTime: number;
+}
+
+interface StateSnapshot extends PersistedState {
+  version: 1;
+  seq: number; // Last journal sequence number included in this snapshot
+  timestamp: number;
+}
+
+export function emptyPersistedState(): PersistedState {
+  return { currentPosition: null, tradeHistory: [], lastExitTime: 0 };
+}
+
+/**
+ * Apply a single journal event to a state. Used both for live transitions and replay,
+ * so a replayed journal always yields the same state the bot had in memory.
+ */
+export function applyStateEvent(state: PersistedState, entry: JournalEntry): PersistedState {
+  const event = entry.event;
+
+  switch (event.type) {
+    case 'POSITION_OPENED':
+      return { ...state, currentPosition: { ...event.position } };
+
+    case 'ORDER_IDS_UPDATED':
+      if (!state.currentPosition) {
+        return state;
+      }
+      return {
+        ...state,
+        currentPosition: {
+          ...state.currentPosition,
+          cheapExchangeOrderId: event.cheapExchangeOrderId,
+          expensiveExchangeOrderId: event.expensiveExchangeOrderId,
+          entryOrderIds: event.entryOrderIds
+        }
+      };
+
+    case 'FUNDING_UPDATED':
+      if (!state.currentPosition) {
+        return state;
+      }
+      return {
+        ...state,
+        currentPosition: {
+          ...state.currentPosition,
+          fundingUsd: event.fundingUsd,
+          fundingByExchange: { ...event.fundingByExchange }
+        }
+      };
+
+    case 'POSITION_CLOSED':
+      return {
+        currentPosition: null,
+        tradeHistory: [...state.tradeHistory, event.trade],
+        lastExitTime: event.trade.exitTimestamp
+      };
+
+    case 'POSITION_FLIPPED':
+    case 'POSITION_REDUCED':
+      return {
+        currentPosition: { ...event.position },
+        tradeHistory: [...state.tradeHistory, event.trade],
+        lastExitTime: event.trade.exitTimestamp
+      };
+
+    case 'CLIP_ADDED':
+      return { ...state, currentPosition: { ...event.position } };
+
+    case 'CLIP_CLOSED':
+      return {
+        currentPosition: event.position ? { ...event.position } : null,
+        tradeHistory: [...state.tradeHistory, event.trade],
+        lastExitTime: event.trade.exitTimestamp
+      };
+
+    case 'POSITION_DISCARDED':
+      return { ...state, currentPosition: null };
+  }
+}
+
+export class StateStore {
+  private logger: Logger;
+  private journalPath: string;
+  private snapshotPath: string;
+  private snapshotEveryEvents: number;
+  private state: PersistedState = emptyPersistedState();
+  private seq: number = 0;
+  private eventsSinceSnapshot: number = 0;
+  private loaded: boolean = false;
+
+  constructor(config: StateConfig, key: string, logger: Logger) {
+    this.logger = logger;
+    this.snapshotEveryEvents = config.snapshotEveryEvents;
+
+    if (!fs.existsSync(config.directory)) {
+      fs.mkdirSync(config.directory, { recursive: true });
+    }
+
+    const safeKey = key.replace(/[^A-Za-z0-9_-]/g, '_');
+    this.journalPath = path.join(config.directory, `${safeKey}.journal.jsonl`);
+    this.snapshotPath = path.join(config.directory, `${safeKey}.snapshot.json`);
+  }
+
+  /**
+   * Load the latest snapshot and replay the journal written after it.
+   */
+  load(): PersistedState {
+    let state = emptyPersistedState();
+    let seq = 0;
+
+    if (fs.existsSync(this.snapshotPath)) {
+      try {
+        const snapshot: StateSnapshot = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8'));
+        state = {
+          currentPosition: snapshot.currentPosition,
+          tradeHistory: snapshot.tradeHistory || [],
+          lastExitTime: snapshot.lastExitTime || 0
+        };
+        seq = snapshot.seq;
+      } catch (error) {
+        this.logger.error(`State store: failed to read snapshot ${this.snapshotPath}: ${error}`);
+      }
+    }
+
+    let replayed = 0;
+    if (fs.existsSync(this.journalPath)) {
+      let content = fs.readFileSync(this.journalPath, 'utf8');
+
+      // A crash mid-write can leave a torn last line - everything before it is still valid. Cut
+      // it off, or the next append would run on from it and be lost with it
+      const complete = content.lastIndexOf('\n') + 1;
+      if (complete < content.length) {
+        this.logger.warn(`State store: dropping torn journal line: ${content.substring(complete, complete + 80)}`);
+        content = content.substring(0, complete);
+        fs.truncateSync(this.journalPath, Buffer.byteLength(content, 'utf8'));
+      }
+
+      const lines = content.split('\n');
+
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+
+        let entry: JournalEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch (error) {
+          this.logger.warn(`State store: skipping unreadable journal line: ${line.substring(0, 80)}`);
+          continue;
+        }
+
+        // Entries up to the snapshot's seq are already folded into it
+        if (entry.seq <= seq) {
+          continue;
+        }
+
+        state = applyStateEvent(state, entry);
+        seq = entry.seq;
+        replayed++;
+      }
+    }
+
+    this.state = state;
+    this.seq = seq;
+    this.eventsSinceSnapshot = replayed;
+    this.loaded = true;
+
+    this.logger.info(
+      `State store: loaded ${state.tradeHistory.length} trades, ` +
+      `position ${state.currentPosition ? 'OPEN' : 'FLAT'} (replayed ${replayed} journal events)`
+    );
+
+    return state;
+  }
+
+  /**
+   * Durably record a state transition. The entry is fsynced before returning.
+   */
+  append(event: StateEvent): void {
+    // Make sure sequence numbers continue from what is already on disk
+    if (!this.loaded) {
+      this.load();
+    }
+    
+    const entry: JournalEntry = {
+      seq: this.seq + 1,
+      timestamp: Date.now(),
+      event
+    };
+
+    const fd = fs.openSync(this.journalPath, 'a');
+    try {
+      fs.writeSync(fd, JSON.stringify(entry) + '\n');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    this.seq = entry.seq;
+    this.state = applyStateEvent(this.state, entry);
+    this.eventsSinceSnapshot++;
+
+    if (this.eventsSinceSnapshot >= this.snapshotEveryEvents) {
+      this.writeSnapshot();
+    }
+  }
+
+  /**
+   * Compact the journal into a snapshot.
+   * The snapshot is written atomically (tmp file + rename) before the journal is truncated,
+   * so a crash at any point leaves a loadable state.
+   */
+  writeSnapshot(): void {
+    const snapshot: StateSnapshot = {
+      version: 1,
+      seq: this.seq,
+      timestamp: Date.now(),
+      ...this.state
+    };
+
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(snapshot, null, 2), 'utf8');
+    fs.renameSync(tmpPath, this.snapshotPath);
+    fs.writeFileSync(this.journalPath, '', 'utf8');
+
+    this.eventsSinceSnapshot = 0;
+    this.logger.debug(`State store: snapshot written at seq ${this.seq}`);
+  }
+}
@@ -1,9 +1,12 @@
 /**
  * State management for the basis trading bot.
  * Tracks current position state, entry details, and trade history.
+ * When a StateStore is attached, every transition is persisted so state survives restarts.
  */
 
+import { VenueId } from '../config/types';
 import { Logger } from '../utils/logger';
+import { StateStore, StateEvent } from './state-store';
 
 export type BotState = 'FLAT' | 'OPEN';
 
@@ -11,13 +14,33 @@ export interface SpreadPosition {
   state: BotState;
   entryGapUsd: number;
   entryTimestamp: number;
-  cheapExchange: 'nado' | 'lighter';
-  expensiveExchange: 'nado' | 'lighter';
+  cheapExchange: VenueId; // Venue holding the long leg
+  expensiveExchange: VenueId; // Venue holding the short leg
   positionSizeBtc: number;
   cheapExchangePrice: number;
   expensiveExchangePrice: number;
+  entryFundingUsd?: number; // Funding (per unit) expected over the projected hold when entering
+  fundingUsd?: number; // Funding received (+) or paid (-) since entry, across both legs
+  fundingByExchange?: Record<string, number>; // fundingUsd split by venue
+  fundingClosedUsd?: number; // Part of fundingUsd already booked to clips peeled off
+  entryFeesUsd?: number; // Fees paid to open, when known (flipped positions) - otherwise estimated at exit
   cheapExchangeOrderId?: string;
   expensiveExchangeOrderId?: string;
+  entryOrderIds?: Record<VenueId, string[]>; // Every order that filled the entry, by venue (for fill reconciliation)
+  clips?: SpreadClip[]; // Laddered mode: the clips making up the position, in the order added
+}
+
+/** One laddered clip. The position's size, entry gap and prices are the size-weighted totals */
+export interface SpreadClip {
+  tier: number; // Index into the ladder's tiers
+  size: number;
+  entryGapUsd: number;
+  exitGapUsd: number; // Tier's exit threshold
+  entryTimestamp: number;
+  cheapExchangePrice: number;
+  expensiveExchangePrice: number;
+  entryFundingUsd?: number;
+  entryOrderIds?: Record<VenueId, string[]>; // Orders that filled this clip, by venue
 }
 
 export interface TradeHistory {
@@ -30,19 +53,86 @@ export interface TradeHistory {
   expensiveExchange: string;
   positionSizeBtc: number;
   realizedPnl: number;
+  fundingUsd?: number; // Funding received (+) or paid (-) while the position was open
   holdDurationSeconds: number;
 }
 
+type ClipTotals = Pick<
+  SpreadPosition,
+  'positionSizeBtc' | 'entryGapUsd' | 'cheapExchangePrice' | 'expensiveExchangePrice' | 'entryFundingUsd'
+>;
+
+function aggregateClips(clips: SpreadClip[]): ClipTotals {
+  const size = clips.reduce((sum, clip) => sum + clip.size, 0);
+  const weighted = (value: (clip: SpreadClip) => number): number =>
+    clips.reduce((sum, clip) => sum + value(clip) * clip.size, 0) / size;
+  
+  return {
+    positionSizeBtc: parseFloat(size.toFixed(8)), // Strip float noise from summing clip sizes
+    entryGapUsd: weighted(clip => clip.entryGapUsd),
+    cheapExchangePrice: weighted(clip => clip.cheapExchangePrice),
+    expensiveExchangePrice: weighted(clip => clip.expensiveExchangePrice),
+    entryFundingUsd: weighted(clip => clip.entryFundingUsd ?? 0)
+  };
+}
+
+/**
+ * Every order that filled any of the clips, by venue.
+ */
+export function mergeClipOrderIds(clips: SpreadClip[]): Record<VenueId, string[]> {
+  const merged: Record<VenueId, string[]> = {};
+  for (const clip of clips) {
+    for (const [venue, orderIds] of Object.entries(clip.entryOrderIds || {})) {
+      merged[venue] = [...(merged[venue] || []), ...orderIds];
+    }
+  }
+  return merged;
+}
+
 export class BotStateManager {
   private currentState: BotState = 'FLAT';
   private currentPosition: SpreadPosition | null = null;
   private tradeHistory: TradeHistory[] = [];
   private logger: Logger;
+  private store: StateStore | null;
   private errorCount: number = 0;
   private lastErrorTime: number = 0;
+  private lastExitTime: number = 0;
   
-  constructor(logger: Logger) {
+  constructor(logger: Logger, store?: StateStore) {
     this.logger = logger;
+    this.store = store || null;
+  }
+  
+  /**
+   * Load persisted state (if a store is attached) into memory.
+   * Returns the recovered position, which still needs reconciling against the exchanges.
+   */
+  restore(): SpreadPosition | null {
+    if (!this.store) {
+      return this.currentPosition;
+    }
+    
+    const persisted = this.store.load();
+    this.currentPosition = persisted.currentPosition ? { ...persisted.currentPosition } : null;
+    this.currentState = persisted.currentPosition ? 'OPEN' : 'FLAT';
+    this.tradeHistory = [...persisted.tradeHistory];
+    this.lastExitTime = persisted.lastExitTime;
+    
+    return this.currentPosition;
+  }
+  
+  private persist(event: StateEvent): void {
+    if (!this.store) {
+      return;
+    }
+    
+    try {
+      this.store.append(event);
+    } catch (error) {
+      // Never let a disk problem break trading - but make it loud
+      this.logger.error(`Failed to persist state event ${event.type}: ${error}`);
+    }
   }
   
   recordError(): void {
@@ -80,11 +170,12 @@ export class BotStateManager {
   
   openPosition(
     entryGapUsd: number,
-    cheapExchange: 'nado' | 'lighter',
-    expensiveExchange: 'nado' | 'lighter',
+    cheapExchange: VenueId,
+    expensiveExchange: VenueId,
     positionSizeBtc: number,
     cheapExchangePrice: number,
-    expensiveExchangePrice: number
+    expensiveExchangePrice: number,
+    entryFundingUsd?: number
   ): void {
     if (this.currentState !== 'FLAT') {
       throw new Error('Cannot open position: already in OPEN state');
@@ -98,10 +189,12 @@ export class BotStateManager {
       expensiveExchange,
       positionSizeBtc,
       cheapExchangePrice,
-      expensiveExchangePrice
+      expensiveExchangePrice,
+      entryFundingUsd
     };
     
     this.currentState = 'OPEN';
+    this.persist({ type: 'POSITION_OPENED', position: this.currentPosition });
     
     this.logger.info(
       `Position OPENED: ${entryGapUsd.toFixed(2)} USD gap, ` +
@@ -110,16 +203,177 @@ export class BotStateManager {
     );
   }
   
-  updateOrderIds(cheapExchangeOrderId: string, expensiveExchangeOrderId: string): void {
+  updateOrderIds(
+    cheapExchangeOrderId: string,
+    expensiveExchangeOrderId: string,
+    entryOrderIds?: Record<VenueId, string[]>
+  ): void {
     if (!this.currentPosition) {
       throw new Error('No current position to update');
     }
     
     this.currentPosition.cheapExchangeOrderId = cheapExchangeOrderId;
     this.currentPosition.expensiveExchangeOrderId = expensiveExchangeOrderId;
+    this.currentPosition.entryOrderIds = entryOrderIds;
+    this.persist({ type: 'ORDER_IDS_UPDATED', cheapExchangeOrderId, expensiveExchangeOrderId, entryOrderIds });
+  }
+  
+  /**
+   * Record the funding the open position has received or paid so far.
+   */
+  updateFunding(fundingUsd: number, fundingByExchange: Record<string, number>): void {
+    if (!this.currentPosition) {
+      throw new Error('No current position to update');
+    }
+    
+    this.currentPosition.fundingUsd = fundingUsd;
+    this.currentPosition.fundingByExchange = { ...fundingByExchange };
+    this.persist({ type: 'FUNDING_UPDATED', fundingUsd, fundingByExchange });
+  }
+  
+  /**
+   * Laddered mode: add a clip to the position, opening it if FLAT.
+   */
+  addClip(cheapExchange: VenueId, expensiveExchange: VenueId, clip: SpreadClip): void {
+    if (!this.currentPosition) {
+      this.currentPosition = {
+        state: 'OPEN',
+        ...aggregateClips([clip]),
+        entryTimestamp: clip.entryTimestamp,
+        cheapExchange,
+        expensiveExchange,
+        clips: [clip]
+      };
+      this.currentState = 'OPEN';
+      this.persist({ type: 'POSITION_OPENED', position: this.currentPosition });
+    } else {
+      if (this.currentPosition.cheapExchange !== cheapExchange) {
+        throw new Error(`Cannot add clip: position is LONG ${this.currentPosition.cheapExchange}, clip is LONG ${cheapExchange}`);
+      }
+      
+      const clips = [...(this.currentPosition.clips || []), clip];
+      Object.assign(this.currentPosition, aggregateClips(clips), { clips });
+      this.persist({ type: 'CLIP_ADDED', position: this.currentPosition });
+    }
+    
+    this.logger.info(
+      `Clip ADDED (tier ${clip.tier}): ${clip.size} @ ${clip.entryGapUsd.toFixed(2)} USD gap, ` +
+      `position now ${this.currentPosition.positionSizeBtc} over ${this.currentPosition.clips!.length} clip(s), ` +
+      `weighted entry gap ${this.currentPosition.entryGapUsd.toFixed(2)} USD`
+    );
+  }
+  
+  /**
+   * Laddered mode: peel a clip off the position and record it as a completed trade.
+   * Closing the last clip closes the position.
+   */
+  closeClip(tier: number, exitGapUsd: number, realizedPnl: number, fundingUsd: number = 0): void {
+    const position = this.currentPosition;
+    const clip = position?.clips?.find(c => c.tier === tier);
+    if (!position || !clip) {
+      throw new Error(`Cannot close clip: tier ${tier} is not open`);
+    }
+    
+    const exitTimestamp = Date.now();
+    const trade: TradeHistory = {
+      id: `trade-${clip.entryTimestamp}`,
+      entryTimestamp: clip.entryTimestamp,
+      exitTimestamp,
+      entryGapUsd: clip.entryGapUsd,
+      exitGapUsd,
+      cheapExchange: position.cheapExchange,
+      expensiveExchange: position.expensiveExchange,
+      positionSizeBtc: clip.size,
+      realizedPnl,
+      fundingUsd,
+      holdDurationSeconds: Math.floor((exitTimestamp - clip.entryTimestamp) / 1000)
+    };
+    
+    const remaining = position.clips!.filter(c => c !== clip);
+    if (remaining.length === 0) {
+      this.currentPosition = null;
+      this.currentState = 'FLAT';
+    } else {
+      Object.assign(position, aggregateClips(remaining), {
+        clips: remaining,
+        fundingClosedUsd: (position.fundingClosedUsd || 0) + fundingUsd
+      });
+    }
+    
+    this.tradeHistory.push(trade);
+    this.lastExitTime = exitTimestamp; // Cooldown before the tier can be re-added
+    this.persist({ type: 'CLIP_CLOSED', position: this.currentPosition, trade });
+    
+    this.logger.info(
+      `Clip CLOSED (tier ${tier}): Exit gap ${exitGapUsd.toFixed(2)} USD, ` +
+      `Hold duration ${trade.holdDurationSeconds}s, Realized PnL: ${realizedPnl.toFixed(4)} BTC, ` +
+      `Funding: ${fundingUsd.toFixed(2)} USD` +
+      (this.currentPosition ? ` - ${this.currentPosition.positionSizeBtc} left over ${remaining.length} clip(s)` : ' - position closed')
+    );
+  }
+  
+  /**
+   * Close part of a position without clips (liquidation-distance reduction) and record it as
+   * a completed trade (returned). The rest keeps its entry gap and prices.
+   */
+  reducePosition(size: number, exitGapUsd: number, realizedPnl: number, fundingUsd: number = 0): TradeHistory {
+    const position = this.currentPosition;
+    if (this.currentState !== 'OPEN' || !position || position.clips) {
+      throw new Error('Cannot reduce position: no open position without clips');
+    }
+    if (!(size > 0 && size < position.positionSizeBtc)) {
+      throw new Error(`Cannot reduce position by ${size}: position is ${position.positionSizeBtc}`);
+    }
+    
+    const exitTimestamp = Date.now();
+    const trade: TradeHistory = {
+      id: `trade-${position.entryTimestamp}-reduce-${exitTimestamp}`,
+      entryTimestamp: position.entryTimestamp,
+      exitTimestamp,
+      entryGapUsd: position.entryGapUsd,
+      exitGapUsd,
+      cheapExchange: position.cheapExchange,
+      expensiveExchange: position.expensiveExchange,
+      positionSizeBtc: size,
+      realizedPnl,
+      fundingUsd,
+      holdDurationSeconds: Math.floor((exitTimestamp - position.entryTimestamp) / 1000)
+    };
+    
+    const remaining = parseFloat((position.positionSizeBtc - size).toFixed(8));
+    if (position.entryFeesUsd !== undefined) {
+      position.entryFeesUsd = position.entryFeesUsd * remaining / position.positionSizeBtc;
+    }
+    position.positionSizeBtc = remaining;
+    position.fundingClosedUsd = (position.fundingClosedUsd || 0) + fundingUsd;
+    
+    this.tradeHistory.push(trade);
+    this.lastExitTime = exitTimestamp;
+    this.persist({ type: 'POSITION_REDUCED', position, trade });
+    
+    this.logger.info(
+      `Position REDUCED by ${size}: Exit gap ${exitGapUsd.toFixed(2)} USD, ` +
+      `Realized PnL: ${realizedPnl.toFixed(4)} BTC, Funding: ${fundingUsd.toFixed(2)} USD - ${remaining} left`
+    );
+    return trade;
+  }
+  
+  /**
+   * Drop the current position without recording a trade.
+   * Used when reconciliation shows the position no longer exists on the exchanges.
+   */
+  discardPosition(reason: string): void {
+    if (!this.currentPosition) {
+      return;
+    }
+    
+    this.logger.warn(`Position DISCARDED: ${reason}`);
+    this.currentPosition = null;
+    this.currentState = 'FLAT';
+    this.persist({ type: 'POSITION_DISCARDED', reason });
   }
   
-  closePosition(exitGapUsd: number, realizedPnl: number): void {
+  closePosition(exitGapUsd: number, realizedPnl: number, fundingUsd: number = 0): void {
     if (this.currentState !== 'OPEN' || !this.currentPosition) {
       throw new Error('Cannot close position: not in OPEN state');
     }
@@ -137,18 +391,82 @@ export class BotStateManager {
       expensiveExchange: this.currentPosition.expensiveExchange,
       positionSizeBtc: this.currentPosition.positionSizeBtc,
       realizedPnl,
+      fundingUsd,
       holdDurationSeconds
     };
     
     this.tradeHistory.push(trade);
     this.currentPosition = null;
     this.currentState = 'FLAT';
-    (this as any).lastExitTime = Date.now(); // Track exit time for cooldown
+    this.lastExitTime = exitTimestamp; // Track exit time for cooldown
+    this.persist({ type: 'POSITION_CLOSED', trade });
     
     this.logger.info(
       `Position CLOSED: Exit gap ${exitGapUsd.toFixed(2)} USD, ` +
       `Hold duration ${holdDurationSeconds}s, ` +
-      `Realized PnL: ${realizedPnl.toFixed(4)} BTC (${(realizedPnl * 45000).toFixed(2)} USD est.)`
+      `Realized PnL: ${realizedPnl.toFixed(4)} BTC (${(realizedPnl * 45000).toFixed(2)} USD est.), ` +
+      `Funding: ${fundingUsd.toFixed(2)} USD`
+    );
+  }
+  
+  /**
+   * Flip mode: record the open position as a completed trade and open the reverse spread
+   * in its place, as one transition.
+   */
+  flipPosition(
+    exitGapUsd: number,
+    realizedPnl: number,
+    fundingUsd: number,
+    entryGapUsd: number,
+    cheapExchangePrice: number,
+    expensiveExchangePrice: number,
+    positionSizeBtc: number,
+    entryFeesUsd: number,
+    entryFundingUsd?: number
+  ): void {
+    const closed = this.currentPosition;
+    if (this.currentState !== 'OPEN' || !closed) {
+      throw new Error('Cannot flip position: not in OPEN state');
+    }
+    
+    const exitTimestamp = Date.now();
+    const trade: TradeHistory = {
+      id: `trade-${closed.entryTimestamp}`,
+      entryTimestamp: closed.entryTimestamp,
+      exitTimestamp,
+      entryGapUsd: closed.entryGapUsd,
+      exitGapUsd,
+      cheapExchange: closed.cheapExchange,
+      expensiveExchange: closed.expensiveExchange,
+      positionSizeBtc: closed.positionSizeBtc,
+      realizedPnl,
+      fundingUsd,
+      holdDurationSeconds: Math.floor((exitTimestamp - closed.entryTimestamp) / 1000)
+    };
+    
+    // The old short venue is the new long
+    this.currentPosition = {
+      state: 'OPEN',
+      entryGapUsd,
+      entryTimestamp: exitTimestamp,
+      cheapExchange: closed.expensiveExchange,
+      expensiveExchange: closed.cheapExchange,
+      positionSizeBtc,
+      cheapExchangePrice,
+      expensiveExchangePrice,
+      entryFeesUsd,
+      entryFundingUsd
+    };
+    
+    this.tradeHistory.push(trade);
+    this.lastExitTime = exitTimestamp;
+    this.persist({ type: 'POSITION_FLIPPED', position: this.currentPosition, trade });
+    
+    this.logger.info(
+      `Position FLIPPED: Exit gap ${exitGapUsd.toFixed(2)} USD after ${trade.holdDurationSeconds}s, ` +
+      `Realized PnL: ${realizedPnl.toFixed(4)} BTC, Funding: ${fundingUsd.toFixed(2)} USD - ` +
+      `now LONG ${positionSizeBtc} on ${this.currentPosition.cheapExchange} @ ${cheapExchangePrice.toFixed(2)}, ` +
+      `SHORT ${positionSizeBtc} on ${this.currentPosition.expensiveExchange} @ ${expensiveExchangePrice.toFixed(2)}`
     );
   }
   
@@ -159,6 +477,10 @@ export class BotStateManager {
     return Math.floor((Date.now() - this.currentPosition.entryTimestamp) / 1000);
   }
   
+  getLastExitTime(): number {
+    return this.lastExitTime;
+  }
+  
   getTradeHistory(): TradeHistory[] {
     return [...this.tradeHistory];
   }
@@ -166,6 +488,7 @@ export class BotStateManager {
   getTradeStats(): {
     totalTrades: number;
     totalPnl: number;
+    totalFundingUsd: number;
     averageHoldDuration: number;
     winRate: number;
   } {
@@ -173,12 +496,14 @@ export class BotStateManager {
       return {
         totalTrades: 0,
         totalPnl: 0,
+        totalFundingUsd: 0,
         averageHoldDuration: 0,
         winRate: 0
       };
     }
     
     const totalPnl = this.tradeHistory.reduce((sum, t) => sum + t.realizedPnl, 0);
+    const totalFundingUsd = this.tradeHistory.reduce((sum, t) => sum + (t.fundingUsd || 0), 0);
     const avgHoldDuration = this.tradeHistory.reduce((sum, t) => sum + t.holdDurationSeconds, 0) / this.tradeHistory.length;
     const winningTrades = this.tradeHistory.filter(t => t.realizedPnl > 0).length;
     const winRate = winningTrades / this.tradeHistory.length;
@@ -186,6 +511,7 @@ export class BotStateManager {
     return {
       totalTrades: this.tradeHistory.length,
       totalPnl,
+      totalFundingUsd,
       averageHoldDuration: avgHoldDuration,
       winRate
     };
@@ -199,6 +525,8 @@ export class BotStateManager {
       this.logger.info(
         `Status: OPEN | Entry gap: ${this.currentPosition.entryGapUsd.toFixed(2)} USD | ` +
         `Hold: ${holdDuration}s | ` +
+        `Funding: ${(this.currentPosition.fundingUsd || 0).toFixed(2)} USD | ` +
+        (this.currentPosition.clips ? `Clips: ${this.currentPosition.clips.length} (${this.currentPosition.positionSizeBtc}) | ` : '') +
         `Long ${this.currentPosition.cheapExchange}, Short ${this.currentPosition.expensiveExchange}`
       );
     }
@@ -208,6 +536,7 @@ export class BotStateManager {
       this.logger.info(
         `Stats: ${stats.totalTrades} trades, ` +
         `Total PnL: ${stats.totalPnl.toFixed(4)} BTC, ` +
+        `Funding: ${stats.totalFundingUsd.toFixed(2)} USD, ` +
         `Avg hold: ${stats.averageHoldDuration.toFixed(0)}s, ` +
         `Win rate: ${(stats.winRate * 100).toFixed(1)}%`
       );
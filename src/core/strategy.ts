@@ -4,56 +4,143 @@
  */
 
 import { IExchange } from '../exchanges/interface';
-import { BotConfig } from '../config/types';
+import { BotConfig, FundingConfig, LadderConfig, LadderTier, LiquidationConfig, LoggingConfig, MarketConfig, MarketData, VenueId } from '../config/types';
 import { Logger } from '../utils/logger';
-import { BotStateManager } from './state';
-// import { FundingManager } from './funding'; // Disabled - funding check removed
-import { ExecutionManager } from './execution';
-import { RiskManager } from './risk';
+import { BotStateManager, SpreadClip, SpreadPosition, mergeClipOrderIds } from './state';
+import { StateStore, DEFAULT_STATE_CONFIG } from './state-store';
+import { OrderJournal } from './order-journal';
+import { FundingManager, FundingProjection, DEFAULT_FUNDING_CONFIG } from './funding';
+import { FundingLedger } from './funding-ledger';
+import { ExecutionManager, LegExecutionResult } from './execution';
+import { RiskManager, getRoundTripFeeBps } from './risk';
+import { HedgeRepairManager, HedgeRepairResult, DEFAULT_HEDGE_REPAIR_CONFIG } from './hedge-repair';
+import { CircuitBreakerManager, BreakerTrip, DEFAULT_CIRCUIT_BREAKER_CONFIG } from './circuit-breaker';
+import { MarginLedger } from './margin-ledger';
+import { LossLimitManager, LossLimitStatus } from './loss-limits';
+import { LiquidationEstimate, estimateLegLiquidation, DEFAULT_LIQUIDATION_CONFIG } from './margin-model';
+import { CollateralRebalancer, RebalanceStatus } from '../rebalance/rebalancer';
+import { AdaptiveThresholdModel, GapThresholds, DEFAULT_ADAPTIVE_THRESHOLD_CONFIG } from './adaptive-thresholds';
+import { ResolvedMarket, resolveMarket, resolveMarkets, getCommonLotSize, roundToIncrement } from './markets';
 import { CompletedTrade } from './trade-logger';
 import { SupabaseTradeLogger } from './supabase-trade-logger';
 import { CsvTradeLogger, TradeLogEntry } from '../utils/csv-logger';
 
+// Default trade log output
+export const DEFAULT_LOGGING_CONFIG: LoggingConfig = {
+  directory: './logs',
+  supabaseEnabled: true
+};
+
+/** Funding component of an entry decision */
+interface EntryFunding {
+  edgeUsd: number; // Per unit, over the projected hold
+  cheapRate: number; // per hour, on the venue we buy
+  expensiveRate: number; // per hour, on the venue we sell
+}
+
+/** Ladder tier picked for an entry, by its index in the config */
+interface LadderClipTier {
+  index: number;
+  tier: LadderTier;
+}
+
 export class BasisTradingStrategy {
   private config: BotConfig;
   private logger: Logger;
   private stateManager: BotStateManager;
-  // private _fundingManager: FundingManager; // Unused - funding check disabled
+  private fundingManager: FundingManager;
+  private fundingConfig: FundingConfig;
+  private fundingLedger: FundingLedger;
   private executionManager: ExecutionManager;
   private riskManager: RiskManager;
+  private thresholdModel: AdaptiveThresholdModel; // Entry/exit gaps (static unless adaptive thresholds are on)
+  private hedgeRepairManager: HedgeRepairManager;
+  private circuitBreakers: CircuitBreakerManager; // Shared with the other markets' strategies
+  private unhedgedCheckIntervalMs: number;
+  private lossLimits: LossLimitManager; // Shared with the other markets' strategies
+  private rebalancer: CollateralRebalancer; // Shared with the other markets' strategies
+  private liquidationConfig: LiquidationConfig;
+  private lastLiquidationCheck: number = 0;
+  private liquidationEstimates: LiquidationEstimate[] = []; // Open legs at the last check
+  private lastHedgeCheck: number = 0;
   private tradeLogger: SupabaseTradeLogger;
   private csvLogger: CsvTradeLogger; // CSV logger for detailed trade records
-  private nadoExchange: IExchange;
-  private lighterExchange: IExchange;
+  private venueA: IExchange; // Maker venue in sequential_maker mode
+  private venueB: IExchange;
   private symbol: string;
+  private market: ResolvedMarket;
+  private tradeSize: number; // positionSize rounded to a lot both venues accept (set in initialize)
+  private ladder: LadderConfig | null; // Laddered mode, when enabled for this market
+  private ladderTiers: LadderTier[] = []; // Tiers with clip sizes rounded like tradeSize (set in initialize)
+  private flipEnabled: boolean; // Flip mode - laddered markets exit clip by clip instead
   private isExecutingTrade: boolean = false; // LOCK to prevent concurrent trades
   
   constructor(
     config: BotConfig,
-    nadoExchange: IExchange,
-    lighterExchange: IExchange,
+    venueA: IExchange, // The configured pair, in order
+    venueB: IExchange,
     logger: Logger,
-    symbol: string = 'BTC-PERP'
+    market?: MarketConfig, // Default: the first configured market (BTC-PERP without a markets section)
+    marginLedger?: MarginLedger, // Shared with the other markets' strategies
+    circuitBreakers?: CircuitBreakerManager, // Shared too - a trip halts every market
+    lossLimits?: LossLimitManager, // Shared too - limits apply to the account's equity
+    rebalancer?: CollateralRebalancer // Shared too - collateral is per venue, not per market
   ) {
     this.config = config;
     this.logger = logger;
-    this.nadoExchange = nadoExchange;
-    this.lighterExchange = lighterExchange;
-    this.symbol = symbol;
+    this.venueA = venueA;
+    this.venueB = venueB;
+    this.market = market ? resolveMarket(config, market) : resolveMarkets(config)[0];
+    this.symbol = this.market.symbol;
+    this.tradeSize = this.market.positionSize;
+    this.ladder = this.market.ladder?.enabled ? this.market.ladder : null;
+    this.flipEnabled = !!config.flip?.enabled && !this.ladder;
     
-    this.stateManager = new BotStateManager(logger);
-    // this._fundingManager = new FundingManager(logger); // Disabled
+    const stateConfig = config.state || DEFAULT_STATE_CONFIG;
+    this.stateManager = new BotStateManager(
+      logger,
+      stateConfig.enabled ? new StateStore(stateConfig, this.symbol, logger) : undefined
+    );
+    this.fundingManager = new FundingManager(logger, config.fundingRateUpdateIntervalMs);
+    this.fundingConfig = { ...DEFAULT_FUNDING_CONFIG, ...config.funding };
+    this.fundingLedger = new FundingLedger(logger, this.symbol, config.fundingRateUpdateIntervalMs);
     this.executionManager = new ExecutionManager(
       logger,
-      config.fees?.nadoMakerFeeBps || 1,
-      config.fees?.nadoTakerFeeBps || 3.5,
-      config.fees?.lighterMakerFeeBps || 0.2,
-      config.fees?.lighterTakerFeeBps || 0.2,
-      config.execution // Pass execution config for sequential maker mode
+      config.execution, // Pass execution config for sequential maker mode
+      this.market,
+      venueA.id,
+      new OrderJournal(stateConfig, this.symbol, logger)
+    );
+    // Defaults derived from the gap thresholds follow this market's thresholds
+    this.riskManager = new RiskManager(
+      { ...config, entryGapUsd: this.market.entryGapUsd, exitGapUsd: this.market.exitGapUsd },
+      logger,
+      marginLedger
+    );
+    this.thresholdModel = new AdaptiveThresholdModel(
+      { ...DEFAULT_ADAPTIVE_THRESHOLD_CONFIG, ...config.adaptiveThresholds },
+      this.market.entryGapUsd,
+      this.market.exitGapUsd,
+      getRoundTripFeeBps(config),
+      logger
+    );
+    this.hedgeRepairManager = new HedgeRepairManager(
+      [venueA, venueB],
+      this.executionManager,
+      logger,
+      config.hedgeRepair
     );
-    this.riskManager = new RiskManager(config, logger);
-    this.tradeLogger = new SupabaseTradeLogger(logger);
-    this.csvLogger = new CsvTradeLogger('./logs');
+    this.circuitBreakers = circuitBreakers || new CircuitBreakerManager(config, logger);
+    this.unhedgedCheckIntervalMs = {
+      ...DEFAULT_CIRCUIT_BREAKER_CONFIG,
+      ...config.circuitBreakers
+    }.unhedgedCheckIntervalMs;
+    this.lossLimits = lossLimits || new LossLimitManager(config, [venueA, venueB], logger);
+    this.rebalancer = rebalancer || new CollateralRebalancer(config, [venueA, venueB], logger);
+    this.liquidationConfig = { ...DEFAULT_LIQUIDATION_CONFIG, ...config.liquidation };
+    const loggingConfig = config.logging || DEFAULT_LOGGING_CONFIG;
+    this.tradeLogger = new SupabaseTradeLogger(logger, loggingConfig.directory, loggingConfig.supabaseEnabled);
+    this.csvLogger = new CsvTradeLogger(loggingConfig.directory);
     this.logger.info(`📊 CSV trade logging enabled: ${this.csvLogger.getLogFilePath()}`);
   }
   
@@ -62,51 +149,104 @@ export class BasisTradingStrategy {
    * Call this before starting the bot!
    */
   async initialize(): Promise<void> {
-    this.logger.info('Initializing strategy and checking for existing positions...');
+    this.logger.info(`Initializing ${this.symbol} strategy and checking for existing positions...`);
     
     try {
+      // Trade size on a lot both venues accept
+      const exchanges = [this.venueA, this.venueB];
+      this.tradeSize = roundToIncrement(this.market.positionSize, getCommonLotSize(this.market, exchanges), 'down');
+      const minSize = Math.max(...exchanges.map(exchange => exchange.getMarketInfo(this.symbol).minSize));
+      
+      if (this.tradeSize < minSize) {
+        throw new Error(`${this.symbol}: positionSize ${this.market.positionSize} is below the minimum order size ${minSize}`);
+      }
+      if (this.tradeSize !== this.market.positionSize) {
+        this.logger.warn(`${this.symbol}: positionSize ${this.market.positionSize} rounded down to ${this.tradeSize} (lot size)`);
+      }
+      
+      if (this.ladder) {
+        const lotSize = getCommonLotSize(this.market, exchanges);
+        this.ladderTiers = this.ladder.tiers.map((tier, index) => {
+          const size = roundToIncrement(tier.size, lotSize, 'down');
+          if (size < minSize) {
+            throw new Error(`${this.symbol}: ladder tier ${index} size ${tier.size} is below the minimum order size ${minSize}`);
+          }
+          return { ...tier, size };
+        });
+        this.logger.info(
+          `${this.symbol}: Laddered mode - ${this.ladderTiers.length} tier(s) ` +
+          `(${this.ladderTiers.map(tier => `${tier.size} @ ${tier.entryGapUsd}/${tier.exitGapUsd}`).join(', ')}), ` +
+          `max inventory ${this.ladder.maxInventory}`
+        );
+      }
+      
+      // Recover persisted state (entry gap, timestamp, order IDs) from the last run
+      const persistedPosition = this.stateManager.restore();
+      
+      // Orders the last run sent without learning whether they were placed
+      await this.executionManager.resolveUnresolvedOrders(exchanges);
+      
       // Check for existing positions on both exchanges
-      const [nadoPosition, lighterPosition] = await Promise.all([
-        this.nadoExchange.getPosition(this.symbol),
-        this.lighterExchange.getPosition(this.symbol)
+      const [aPosition, bPosition] = await Promise.all([
+        this.venueA.getPosition(this.symbol),
+        this.venueB.getPosition(this.symbol)
       ]);
       
-      const nadoSize = Math.abs(nadoPosition?.size || 0);
-      const lighterSize = Math.abs(lighterPosition?.size || 0);
+      const aSize = Math.abs(aPosition?.size || 0);
+      const bSize = Math.abs(bPosition?.size || 0);
       
-      if (nadoSize > 0 || lighterSize > 0) {
+      if (aSize > 0 || bSize > 0) {
         this.logger.warn('⚠️  EXISTING POSITIONS DETECTED:');
-        this.logger.warn(`   Nado: ${nadoSize} BTC (${nadoPosition?.side || 'none'})`);
-        this.logger.warn(`   Lighter: ${lighterSize} BTC (${lighterPosition?.side || 'none'})`);
+        this.logger.warn(`   ${this.venueA.name}: ${aSize} BTC (${aPosition?.side || 'none'})`);
+        this.logger.warn(`   ${this.venueB.name}: ${bSize} BTC (${bPosition?.side || 'none'})`);
         
         // Check if positions are balanced (hedged)
-        const sizeDiff = Math.abs(nadoSize - lighterSize);
+        const sizeDiff = Math.abs(aSize - bSize);
         const tolerance = 0.001; // 0.001 BTC tolerance
         
-        if (sizeDiff < tolerance && nadoSize > 0) {
+        if (sizeDiff < tolerance && aSize > 0) {
           // Check if they're opposite sides (hedged)
-          const isHedged = nadoPosition?.side !== lighterPosition?.side;
+          const isHedged = aPosition?.side !== bPosition?.side;
           
           if (isHedged) {
             this.logger.warn('   ✓ Positions appear to be hedged');
             this.logger.warn('   Bot will monitor for exit conditions');
+            
+            const liveLongExchange = aPosition?.side === 'long' ? this.venueA.id : this.venueB.id;
+            if (persistedPosition && this.matchesLivePosition(persistedPosition, liveLongExchange, aSize)) {
+              this.logger.info(
+                `✓ Recovered persisted position: entry gap ${persistedPosition.entryGapUsd.toFixed(2)} USD, ` +
+                `opened ${new Date(persistedPosition.entryTimestamp).toISOString()} ` +
+                `(held ${this.stateManager.getHoldDurationSeconds()}s)`
+              );
+              return;
+            }
+            
+            if (persistedPosition) {
+              this.stateManager.discardPosition(
+                `persisted position (LONG ${persistedPosition.cheapExchange} ${persistedPosition.positionSizeBtc}) ` +
+                `does not match exchanges (LONG ${liveLongExchange} ${aSize})`
+              );
+            }
+            
             // Mark as OPEN so bot will look for exit
-            const [nadoData, lighterData] = await Promise.all([
-              this.nadoExchange.getMarketData(this.symbol),
-              this.lighterExchange.getMarketData(this.symbol)
+            const [aData, bData] = await Promise.all([
+              this.venueA.getMarketData(this.symbol),
+              this.venueB.getMarketData(this.symbol)
             ]);
             
-            const gap = Math.abs(nadoData.midPrice - lighterData.midPrice);
-            const cheapEx = nadoData.midPrice < lighterData.midPrice ? 'nado' : 'lighter';
-            const expEx = nadoData.midPrice < lighterData.midPrice ? 'lighter' : 'nado';
+            // The long venue is the cheap leg, whichever mid is lower right now
+            const longIsA = liveLongExchange === this.venueA.id;
+            const [longData, shortData] = longIsA ? [aData, bData] : [bData, aData];
+            const gap = shortData.midPrice - longData.midPrice;
             
             this.stateManager.openPosition(
               gap,
-              cheapEx,
-              expEx,
-              nadoSize,
-              nadoData.midPrice,
-              lighterData.midPrice
+              liveLongExchange,
+              longIsA ? this.venueB.id : this.venueA.id,
+              aSize,
+              longData.midPrice,
+              shortData.midPrice
             );
           } else {
             this.logger.error('   ❌ UNHEDGED: Both positions on same side!');
@@ -120,6 +260,9 @@ export class BasisTradingStrategy {
           throw new Error('Imbalanced positions detected');
         }
       } else {
+        if (persistedPosition) {
+          this.stateManager.discardPosition('exchanges show no positions (closed while bot was offline?)');
+        }
         this.logger.info('✓ No existing positions found - starting fresh');
       }
       
@@ -129,21 +272,102 @@ export class BasisTradingStrategy {
     }
   }
   
+  /**
+   * Check that a persisted position describes the hedge currently open on the exchanges.
+   */
+  private matchesLivePosition(
+    position: SpreadPosition,
+    liveLongExchange: VenueId,
+    liveSize: number
+  ): boolean {
+    const tolerance = 0.001; // 0.001 BTC tolerance
+    return position.cheapExchange === liveLongExchange &&
+      Math.abs(position.positionSizeBtc - liveSize) < tolerance;
+  }
+  
+  /**
+   * One of the pair's venues by ID - throws for a venue this strategy doesn't trade.
+   */
+  private getExchange(id: VenueId): IExchange {
+    const exchange = [this.venueA, this.venueB].find(candidate => candidate.id === id);
+    if (!exchange) {
+      throw new Error(`${this.symbol}: venue ${id} is not part of the traded pair (${this.venueA.id}/${this.venueB.id})`);
+    }
+    return exchange;
+  }
+  
+  /**
+   * The orders that filled two legs, by venue - kept on trades for fill reconciliation.
+   */
+  private legOrderIds(a: LegExecutionResult, b: LegExecutionResult): Record<VenueId, string[]> {
+    return { [a.venue]: a.orderIds, [b.venue]: b.orderIds };
+  }
+  
+  /**
+   * Entry fee of one leg as the entry placed it: maker on the maker venue, taker on the other.
+   */
+  private estimateEntryFeeUsd(venue: VenueId, price: number, size: number): number {
+    const exchange = [this.venueA, this.venueB].find(candidate => candidate.id === venue);
+    if (!exchange) {
+      return 0;
+    }
+    const fees = exchange.getMarketSpec(this.symbol).fees;
+    const feeBps = venue === this.venueA.id ? fees.makerFeeBps : fees.takerFeeBps;
+    return (feeBps / 10000) * price * size;
+  }
+  
   /**
    * Main strategy tick - called on each market data update.
    */
   async onMarketUpdate(): Promise<void> {
     try {
+      await this.checkNetDelta();
+      await this.checkLiquidation();
+      await this.rebalancer.check();
+      
       if (this.stateManager.isFlat()) {
         await this.evaluateEntry();
       } else if (this.stateManager.isOpen()) {
         await this.evaluateExit();
+        
+        // Laddered: an open position keeps adding clips as the gap widens
+        if (this.ladder && this.stateManager.isOpen()) {
+          await this.evaluateEntry();
+        }
       }
     } catch (error) {
       this.logger.error(`Strategy update error: ${error}`);
     }
   }
   
+  /**
+   * Feed the net delta across the venues to the unhedged-exposure breaker, at most once per
+   * check interval. Skipped while a trade is executing - its legs fill one after the other.
+   */
+  private async checkNetDelta(): Promise<void> {
+    if (this.isExecutingTrade || Date.now() - this.lastHedgeCheck < this.unhedgedCheckIntervalMs) {
+      return;
+    }
+    this.lastHedgeCheck = Date.now();
+    
+    try {
+      const [aPosition, bPosition] = await Promise.all([
+        this.venueA.getPosition(this.symbol),
+        this.venueB.getPosition(this.symbol)
+      ]);
+      const signed = (position: typeof aPosition): number =>
+        position ? (position.side === 'long' ? position.size : -position.size) : 0;
+      
+      this.circuitBreakers.recordNetDelta(
+        this.symbol,
+        signed(aPosition) + signed(bPosition),
+        { ...DEFAULT_HEDGE_REPAIR_CONFIG, ...this.config.hedgeRepair }.toleranceBtc
+      );
+    } catch (error) {
+      this.logger.warn(`${this.symbol}: Could not read positions for the hedge check: ${error}`);
+    }
+  }
+  
   /**
    * Evaluate conditions for opening a new spread trade.
    */
@@ -160,98 +384,278 @@ export class BasisTradingStrategy {
       return;
     }
     
+    // SAFETY CHECK 1b: Hedge repair gave up and flattened the delta - no entries until restart
+    if (this.hedgeRepairManager.isKillSwitchActive()) {
+      this.logger.warn(`🛑 Kill switch active (${this.hedgeRepairManager.getKillSwitchReason()}) - not entering`);
+      return;
+    }
+    
+    // SAFETY CHECK 1c: A tripped circuit breaker blocks entries until an operator resets it
+    if (this.circuitBreakers.isTripped()) {
+      this.logger.warn(`🚨 Circuit breaker tripped (${this.circuitBreakers.getTrip()!.reason}) - not entering`);
+      return;
+    }
+    
+    // SAFETY CHECK 1d: Daily/weekly loss or drawdown limit hit - no entries until the period resets
+    await this.lossLimits.refresh();
+    if (this.lossLimits.isHalted()) {
+      this.logger.warn(`🛑 Loss limit hit (${this.lossLimits.getHalt()!.reason}) - not entering`);
+      return;
+    }
+    
+    // SAFETY CHECK 1e: Collateral rebalance pending - the drained venue can't carry another position
+    if (this.rebalancer.isPending()) {
+      this.logger.warn(`💸 Collateral rebalance pending (${this.rebalancer.describePending()}) - not entering`);
+      return;
+    }
+    
     // SAFETY CHECK 2: Wait for any recent exits to fully process
-    const lastExitTime = (this.stateManager as any).lastExitTime || 0;
+    const lastExitTime = this.stateManager.getLastExitTime();
     if (Date.now() - lastExitTime < 30000) { // 30 seconds cooldown after exit
       this.logger.debug(`⏳ Waiting for recent exit to fully process (${Math.floor((30000 - (Date.now() - lastExitTime)) / 1000)}s remaining)`);
       return;
     }
     
-    // SAFETY CHECK 3: Make sure we're actually FLAT before trying to enter
-    const lighterPos = await this.lighterExchange.getPosition(this.symbol);
-    const nadoPos = await this.nadoExchange.getPosition(this.symbol);
+    // SAFETY CHECK 3: Laddered clips add to the open position, in its direction only
+    const position = this.stateManager.getCurrentPosition();
+    if (position && !position.clips) {
+      return; // Not opened by the ladder - exited as a whole
+    }
+    
+    // Get current market data from both exchanges
+    const [aData, bData] = await Promise.all([
+      this.venueA.getMarketData(this.symbol),
+      this.venueB.getMarketData(this.symbol)
+    ]);
+    
+    // Never open on a book we can't trust
+    this.circuitBreakers.recordMarketData(this.symbol, !!(aData.stale || bData.stale));
+    if (aData.stale || bData.stale) {
+      this.logger.warn(
+        `⚠️  Stale market data (${this.venueA.name}: ${!!aData.stale}, ${this.venueB.name}: ${!!bData.stale}) - skipping entry evaluation`
+      );
+      return;
+    }
+    
+    const aPrice = aData.midPrice;
+    const bPrice = bData.midPrice;
+    
+    // A gap beyond the sanity bound is bad data - trip rather than trade on it
+    this.circuitBreakers.recordGap(this.symbol, bPrice - aPrice);
+    if (this.circuitBreakers.isTripped()) {
+      return;
+    }
+    
+    // Every gap seen here feeds the threshold model
+    this.thresholdModel.addSample(Math.abs(bPrice - aPrice), (aPrice + bPrice) / 2);
+    const thresholds = this.thresholdModel.getThresholds();
+    
+    // Direction: long the cheaper venue, unless funding over the projected hold outweighs the gap.
+    // Reversing the legs negates both the gap and the net funding, so one projection covers both
+    const holdHours = this.fundingConfig.expectedHoldHours;
+    const aLongFunding = await this.getFundingProjection(
+      this.venueA,
+      this.venueB,
+      (aPrice + bPrice) / 2
+    );
+    const aLongFundingUsd = (aLongFunding?.usdPerHour ?? 0) * holdHours;
+    const longA = (bPrice - aPrice) + aLongFundingUsd > 0;
+    const fundingEdgeUsd = longA ? aLongFundingUsd : -aLongFundingUsd;
+    
+    // Determine which exchange to buy ("cheap") and which to sell ("expensive").
+    // With funding on, the long venue can be the pricier one - the gap is then negative
+    const cheapExchange = longA ? this.venueA : this.venueB;
+    const expensiveExchange = longA ? this.venueB : this.venueA;
+    const cheapExchangeName = cheapExchange.id;
+    const expensiveExchangeName = expensiveExchange.id;
+    const cheapData = longA ? aData : bData;
+    const expensiveData = longA ? bData : aData;
+    const cheapPrice = cheapData.midPrice;
+    const expensivePrice = expensiveData.midPrice;
+    
+    // For accurate P&L: use ASK price (what we pay when buying) and BID price (what we get when selling)
+    const cheapBuyPrice = cheapData.askPrice;  // ASK on cheap exchange (we buy here)
+    const expensiveSellPrice = expensiveData.bidPrice;  // BID on expensive exchange (we sell here)
+    
+    // Laddered clips only add to the open position's direction
+    if (position && position.cheapExchange !== cheapExchangeName) {
+      return;
+    }
+    
+    const gapUsd = expensivePrice - cheapPrice;
+    const entryEdgeUsd = gapUsd + fundingEdgeUsd;
+    const entryFunding: EntryFunding | undefined = aLongFunding
+      ? {
+        edgeUsd: fundingEdgeUsd,
+        cheapRate: longA ? aLongFunding.longFundingRate : aLongFunding.shortFundingRate,
+        expensiveRate: longA ? aLongFunding.shortFundingRate : aLongFunding.longFundingRate
+      }
+      : undefined;
+    
+    // Calculate REALISTIC gap (what we'll actually capture after bid/ask spread)
+    const realisticGap = expensiveSellPrice - cheapBuyPrice;
+    
+    // Log current gap at INFO level (visible always)
+    this.logger.info(
+      `📊 ${this.symbol} Gap: ${gapUsd.toFixed(2)} USD | ` +
+      `${cheapExchangeName}: $${cheapPrice.toFixed(2)} → ${expensiveExchangeName}: $${expensivePrice.toFixed(2)} | ` +
+      (aLongFunding ? `Funding: ${fundingEdgeUsd.toFixed(2)} USD over ${holdHours}h | ` : '') +
+      `Entry threshold: $${thresholds.entryGapUsd.toFixed(2)}` +
+      (thresholds.source === 'adaptive' ? ` (adaptive, exit $${thresholds.exitGapUsd.toFixed(2)})` : '')
+    );
+    
+    this.logger.debug(
+      `Realistic gap (after spread): ${realisticGap.toFixed(2)} USD ` +
+      `(${cheapExchangeName}: buy@${cheapBuyPrice.toFixed(2)}, ${expensiveExchangeName}: sell@${expensiveSellPrice.toFixed(2)})`
+    );
+    
+    // Check 1: Entry threshold on the gap plus the funding expected over the hold.
+    // Laddered: the next tier the edge has reached, within the inventory cap
+    const ladderTier = this.ladder ? this.getNextTier(entryEdgeUsd, position) : null;
+    if (this.ladder ? !ladderTier : entryEdgeUsd < thresholds.entryGapUsd) {
+      return;
+    }
+    // Smaller entries as the drawdown grows
+    const entrySize = this.getScaledSize(ladderTier ? ladderTier.tier.size : this.tradeSize);
+    if (entrySize === null) {
+      return;
+    }
+    
+    // Opening a position needs both venues flat - asked only once the gap calls for an entry,
+    // as it costs a position read on each venue
+    if (!position && !(await this.checkVenuesFlat())) {
+      return;
+    }
+    
+    this.logger.info(
+      `GAP DETECTED: ${gapUsd.toFixed(2)} USD gap + ${fundingEdgeUsd.toFixed(2)} USD funding = ` +
+      `${entryEdgeUsd.toFixed(2)} USD >= ${(ladderTier ? ladderTier.tier.entryGapUsd : thresholds.entryGapUsd).toFixed(2)} USD threshold` +
+      (ladderTier ? ` (ladder tier ${ladderTier.index}, clip ${entrySize})` : '')
+    );
+    
+    // Check 1b: Gap threshold (maximum) - skip extremely volatile gaps
+    const maxGap = this.market.maxEntryGapUsd;
+    if (Math.abs(gapUsd) > maxGap) {
+      this.logger.warn(`⚠️  GAP TOO LARGE: ${gapUsd.toFixed(2)} USD > ${maxGap} USD max threshold`);
+      this.logger.warn(`   Skipping trade - gap indicates extreme volatility and high risk of partial fills`);
+      await this.logRejectedGap(
+        gapUsd, cheapExchangeName, expensiveExchangeName, cheapPrice, expensivePrice,
+        `Gap above max entry threshold (${maxGap} USD)`,
+        entryFunding
+      );
+      return;
+    }
+    
+    // Check 2: Risk checks (margin, liquidity, slippage) - the executable gap counts the funding too
+    const riskCheck = await this.riskManager.preTradeCheck(
+      cheapExchange,
+      expensiveExchange,
+      this.symbol,
+      entrySize,
+      cheapPrice,
+      expensivePrice,
+      fundingEdgeUsd
+    );
+    
+    if (!riskCheck.passed) {
+      this.logger.warn(`Risk check FAILED: ${riskCheck.reason}`);
+      await this.logRejectedGap(
+        gapUsd, cheapExchangeName, expensiveExchangeName, cheapPrice, expensivePrice,
+        riskCheck.reason || 'Risk check failed',
+        entryFunding
+      );
+      return;
+    }
+    
+    // All checks passed - execute entry
+    this.logger.info('ALL ENTRY CONDITIONS MET - EXECUTING SPREAD ENTRY');
+    
+    await this.executeEntry(
+      cheapExchange,
+      expensiveExchange,
+      cheapExchangeName,
+      expensiveExchangeName,
+      cheapBuyPrice,       // Pass realistic ask price
+      expensiveSellPrice,  // Pass realistic bid price
+      realisticGap,        // Pass realistic gap for tracking
+      fundingEdgeUsd,
+      entrySize,
+      ladderTier ?? undefined
+    );
+  }
+  
+  /**
+   * Make sure neither venue holds a position before opening one. Orphaned or same-side
+   * positions are closed; a hedged pair is adopted as the current position.
+   * Returns false if the entry has to wait.
+   */
+  private async checkVenuesFlat(): Promise<boolean> {
+    // Make sure we're actually FLAT before trying to enter
+    const [aPosition, bPosition] = await Promise.all([
+      this.venueA.getPosition(this.symbol),
+      this.venueB.getPosition(this.symbol)
+    ]);
     
-    if (lighterPos && nadoPos && (Math.abs(lighterPos.size) > 0.001 || Math.abs(nadoPos.size) > 0.001)) {
-      this.logger.warn(`⚠️  Cannot enter - positions already exist! Lighter: ${lighterPos.size}, Nado: ${nadoPos.size}`);
+    if (bPosition && aPosition && (Math.abs(bPosition.size) > 0.001 || Math.abs(aPosition.size) > 0.001)) {
+      this.logger.warn(
+        `⚠️  Cannot enter - positions already exist! ${this.venueB.name}: ${bPosition.size}, ${this.venueA.name}: ${aPosition.size}`
+      );
       this.logger.warn(`⚠️  Bot state may be out of sync. Manual intervention required.`);
       
       // If we have positions but state is FLAT, we need to manually close them
       if (this.stateManager.getState() === 'FLAT') {
         this.logger.error('⚠️  State is FLAT but positions exist! Use close-positions.js to close manually.');
       }
-      return;
+      return false;
     }
     
-    // SAFETY CHECK 2: Verify we actually have no positions
-    const [nadoPosition, lighterPosition] = await Promise.all([
-      this.nadoExchange.getPosition(this.symbol),
-      this.lighterExchange.getPosition(this.symbol)
-    ]);
-    
-    const nadoSize = Math.abs(nadoPosition?.size || 0);
-    const lighterSize = Math.abs(lighterPosition?.size || 0);
+    // Verify we actually have no positions
+    const aSize = Math.abs(aPosition?.size || 0);
+    const bSize = Math.abs(bPosition?.size || 0);
     
-    if (nadoSize > 0.001 || lighterSize > 0.001) {
+    if (aSize > 0.001 || bSize > 0.001) {
       this.logger.warn('⚠️  Cannot open new position - existing positions detected:');
-      this.logger.warn(`   Nado: ${nadoSize} BTC, Lighter: ${lighterSize} BTC`);
+      this.logger.warn(`   ${this.venueA.name}: ${aSize} BTC, ${this.venueB.name}: ${bSize} BTC`);
       
       // CRITICAL: Check if BOTH positions exist (hedged) or only ONE (unhedged)
-      const onlyNado = nadoSize > 0.001 && lighterSize < 0.001;
-      const onlyLighter = lighterSize > 0.001 && nadoSize < 0.001;
+      const onlyA = aSize > 0.001 && bSize < 0.001;
+      const onlyB = bSize > 0.001 && aSize < 0.001;
       
-      if (onlyNado || onlyLighter) {
+      if (onlyA || onlyB) {
         // UNHEDGED POSITION DETECTED - AUTO-CLOSE IT
+        const orphanExchange = onlyA ? this.venueA : this.venueB;
+        const otherExchange = onlyA ? this.venueB : this.venueA;
+        const orphanPosition = (onlyA ? aPosition : bPosition)!;
+        const orphanSize = onlyA ? aSize : bSize;
         this.logger.error('🚨 CRITICAL: UNHEDGED POSITION DETECTED!');
-        this.logger.error(`   Only ${onlyNado ? 'Nado' : 'Lighter'} has a position!`);
+        this.logger.error(`   Only ${orphanExchange.name} has a position!`);
         this.logger.error('   Auto-closing orphaned position to prevent losses...');
         
         try {
-          if (onlyNado) {
-            // Close Nado position
-            const side = nadoPosition!.side === 'long' ? 'sell' : 'buy';
-            this.logger.warn(`   Closing Nado ${nadoPosition!.side.toUpperCase()} ${nadoSize} BTC with market order...`);
-            await this.nadoExchange.placeMarketOrder(this.symbol, side, nadoSize);
-            this.logger.info('   ✓ Nado orphaned position closed');
-            
-            // Log to CSV
-            const csvEntry: TradeLogEntry = {
-              timestamp: new Date().toISOString(),
-              tradeId: `unhedged-${Date.now()}`,
-              action: 'UNHEDGED_CLOSE',
-              status: 'UNHEDGED',
-              nadoSide: side,
-              nadoSize: nadoSize,
-              nadoPrice: nadoPosition!.entryPrice,
-              nadoFilled: true,
-              lighterFilled: false,
-              notes: 'Auto-closed unhedged Nado position (Lighter never filled or already closed)'
-            };
-            this.csvLogger.logTrade(csvEntry);
-          } else {
-            // Close Lighter position
-            const side = lighterPosition!.side === 'long' ? 'sell' : 'buy';
-            this.logger.warn(`   Closing Lighter ${lighterPosition!.side.toUpperCase()} ${lighterSize} BTC with market order...`);
-            await this.lighterExchange.placeMarketOrder(this.symbol, side, lighterSize);
-            this.logger.info('   ✓ Lighter orphaned position closed');
-            
-            // Log to CSV
-            const csvEntry: TradeLogEntry = {
-              timestamp: new Date().toISOString(),
-              tradeId: `unhedged-${Date.now()}`,
-              action: 'UNHEDGED_CLOSE',
-              status: 'UNHEDGED',
-              lighterSide: side,
-              lighterSize: lighterSize,
-              lighterPrice: lighterPosition!.entryPrice,
-              lighterFilled: true,
-              nadoFilled: false,
-              notes: 'Auto-closed unhedged Lighter position (Nado never filled or already closed)'
-            };
-            this.csvLogger.logTrade(csvEntry);
-          }
+          const side = orphanPosition.side === 'long' ? 'sell' : 'buy';
+          this.logger.warn(
+            `   Closing ${orphanExchange.name} ${orphanPosition.side.toUpperCase()} ${orphanSize} BTC with market order...`
+          );
+          await orphanExchange.placeMarketOrder(this.symbol, side, orphanSize);
+          this.logger.info(`   ✓ ${orphanExchange.name} orphaned position closed`);
+          
+          // Log to CSV
+          const csvEntry: TradeLogEntry = {
+            timestamp: new Date().toISOString(),
+            symbol: this.symbol,
+            tradeId: `unhedged-${Date.now()}`,
+            action: 'UNHEDGED_CLOSE',
+            status: 'UNHEDGED',
+            legs: [
+              { venue: orphanExchange.id, side, size: orphanSize, price: orphanPosition.entryPrice, filled: true },
+              { venue: otherExchange.id, filled: false }
+            ],
+            notes: `Auto-closed unhedged ${orphanExchange.name} position (${otherExchange.name} never filled or already closed)`
+          };
+          this.csvLogger.logTrade(csvEntry);
           
           this.logger.info('✅ Orphaned position closed - bot can now trade normally');
-          return;
+          return false;
           
         } catch (error) {
           this.logger.error(`❌ FAILED to auto-close orphaned position: ${error}`);
@@ -264,25 +668,25 @@ export class BasisTradingStrategy {
       this.logger.warn('   Both positions exist - switching to OPEN state to manage them');
       
       // Verify positions are actually hedged (opposite sides)
-      const nadoSide = nadoPosition!.side;
-      const lighterSide = lighterPosition!.side;
+      const aSide = aPosition!.side;
+      const bSide = bPosition!.side;
       
-      if (nadoSide === lighterSide) {
+      if (aSide === bSide) {
         this.logger.error('🚨 CRITICAL: Both positions are on the SAME SIDE!');
-        this.logger.error(`   Nado: ${nadoSide.toUpperCase()}, Lighter: ${lighterSide.toUpperCase()}`);
+        this.logger.error(`   ${this.venueA.name}: ${aSide.toUpperCase()}, ${this.venueB.name}: ${bSide.toUpperCase()}`);
         this.logger.error('   This is NOT hedged! Closing both positions...');
         
         try {
-          const nadoCloseSide = nadoSide === 'long' ? 'sell' : 'buy';
-          const lighterCloseSide = lighterSide === 'long' ? 'sell' : 'buy';
+          const aCloseSide = aSide === 'long' ? 'sell' : 'buy';
+          const bCloseSide = bSide === 'long' ? 'sell' : 'buy';
           
           await Promise.all([
-            this.nadoExchange.placeMarketOrder(this.symbol, nadoCloseSide, nadoSize),
-            this.lighterExchange.placeMarketOrder(this.symbol, lighterCloseSide, lighterSize)
+            this.venueA.placeMarketOrder(this.symbol, aCloseSide, aSize),
+            this.venueB.placeMarketOrder(this.symbol, bCloseSide, bSize)
           ]);
           
           this.logger.info('✅ Both same-side positions closed');
-          return;
+          return false;
           
         } catch (error) {
           this.logger.error(`❌ FAILED to close same-side positions: ${error}`);
@@ -291,134 +695,57 @@ export class BasisTradingStrategy {
       }
       
       // Positions are properly hedged - reconstruct state
-      const [nadoData, lighterData] = await Promise.all([
-        this.nadoExchange.getMarketData(this.symbol),
-        this.lighterExchange.getMarketData(this.symbol)
+      const [aData, bData] = await Promise.all([
+        this.venueA.getMarketData(this.symbol),
+        this.venueB.getMarketData(this.symbol)
       ]);
       
-      const gap = Math.abs(nadoData.midPrice - lighterData.midPrice);
+      const gap = Math.abs(aData.midPrice - bData.midPrice);
       
       // Determine which is long and which is short based on ACTUAL positions
-      const cheapEx = nadoSide === 'long' ? 'nado' : 'lighter';
-      const expEx = nadoSide === 'long' ? 'lighter' : 'nado';
+      const cheapEx = aSide === 'long' ? this.venueA.id : this.venueB.id;
+      const expEx = aSide === 'long' ? this.venueB.id : this.venueA.id;
       
       this.stateManager.openPosition(
         gap,
         cheapEx,
         expEx,
-        Math.max(nadoSize, lighterSize),
-        nadoData.midPrice,
-        lighterData.midPrice
+        Math.max(aSize, bSize),
+        aData.midPrice,
+        bData.midPrice
       );
       
       this.logger.info(`✓ State reconstructed: LONG on ${cheapEx}, SHORT on ${expEx}`);
-      return;
-    }
-    
-    // Get current market data from both exchanges
-    const [nadoData, lighterData] = await Promise.all([
-      this.nadoExchange.getMarketData(this.symbol),
-      this.lighterExchange.getMarketData(this.symbol)
-    ]);
-    
-    const nadoPrice = nadoData.midPrice;
-    const lighterPrice = lighterData.midPrice;
-    
-    // Determine which exchange is cheaper and which is more expensive
-    let cheapExchange: IExchange;
-    let expensiveExchange: IExchange;
-    let cheapExchangeName: 'nado' | 'lighter';
-    let expensiveExchangeName: 'nado' | 'lighter';
-    let cheapPrice: number;
-    let expensivePrice: number;
-    
-    // For accurate P&L: use ASK price (what we pay when buying) and BID price (what we get when selling)
-    let cheapBuyPrice: number;  // ASK on cheap exchange (we buy here)
-    let expensiveSellPrice: number;  // BID on expensive exchange (we sell here)
-    
-    if (nadoPrice < lighterPrice) {
-      cheapExchange = this.nadoExchange;
-      expensiveExchange = this.lighterExchange;
-      cheapExchangeName = 'nado';
-      expensiveExchangeName = 'lighter';
-      cheapPrice = nadoPrice;
-      expensivePrice = lighterPrice;
-      cheapBuyPrice = nadoData.askPrice;  // Buying on Nado = pay ask
-      expensiveSellPrice = lighterData.bidPrice;  // Selling on Lighter = get bid
-    } else {
-      cheapExchange = this.lighterExchange;
-      expensiveExchange = this.nadoExchange;
-      cheapExchangeName = 'lighter';
-      expensiveExchangeName = 'nado';
-      cheapPrice = lighterPrice;
-      expensivePrice = nadoPrice;
-      cheapBuyPrice = lighterData.askPrice;  // Buying on Lighter = pay ask
-      expensiveSellPrice = nadoData.bidPrice;  // Selling on Nado = get bid
-    }
-    
-    const gapUsd = expensivePrice - cheapPrice;
-    
-    // Calculate REALISTIC gap (what we'll actually capture after bid/ask spread)
-    const realisticGap = expensiveSellPrice - cheapBuyPrice;
-    
-    // Log current gap at INFO level (visible always)
-    this.logger.info(
-      `📊 Current Gap: ${gapUsd.toFixed(2)} USD | ` +
-      `${cheapExchangeName}: $${cheapPrice.toFixed(2)} → ${expensiveExchangeName}: $${expensivePrice.toFixed(2)} | ` +
-      `Entry threshold: $${this.config.entryGapUsd}`
-    );
-    
-    this.logger.debug(
-      `Realistic gap (after spread): ${realisticGap.toFixed(2)} USD ` +
-      `(${cheapExchangeName}: buy@${cheapBuyPrice.toFixed(2)}, ${expensiveExchangeName}: sell@${expensiveSellPrice.toFixed(2)})`
-    );
-    
-    // Check 1: Gap threshold (minimum)
-    if (gapUsd < this.config.entryGapUsd) {
-      return;
-    }
-    
-    this.logger.info(`GAP DETECTED: ${gapUsd.toFixed(2)} USD >= ${this.config.entryGapUsd} USD threshold`);
-    
-    // Check 1b: Gap threshold (maximum) - skip extremely volatile gaps
-    const maxGap = (this.config as any).maxEntryGapUsd || 999999;
-    if (gapUsd > maxGap) {
-      this.logger.warn(`⚠️  GAP TOO LARGE: ${gapUsd.toFixed(2)} USD > ${maxGap} USD max threshold`);
-      this.logger.warn(`   Skipping trade - gap indicates extreme volatility and high risk of partial fills`);
-      return;
+      return false;
     }
     
-    // Check 2: Funding rate check (DISABLED - user requested to ignore funding)
-    this.logger.info(`Funding check SKIPPED (disabled by user)`);
-    
-    // Check 3: Risk checks (margin, liquidity, slippage)
-    const riskCheck = await this.riskManager.preTradeCheck(
-      cheapExchange,
-      expensiveExchange,
-      this.symbol,
-      this.config.positionSizeBtc,
+    return true;
+  }
+  
+  /**
+   * Report a gap that met the entry threshold but was rejected, with the reason.
+   */
+  private async logRejectedGap(
+    gapUsd: number,
+    cheapExchangeName: VenueId,
+    expensiveExchangeName: VenueId,
+    cheapPrice: number,
+    expensivePrice: number,
+    reason: string,
+    funding?: EntryFunding
+  ): Promise<void> {
+    await this.tradeLogger.logGap({
+      timestamp: new Date(),
+      gapUsd,
+      cheapExchange: cheapExchangeName,
+      expensiveExchange: expensiveExchangeName,
       cheapPrice,
       expensivePrice,
-      10 // max 0.1% slippage
-    );
-    
-    if (!riskCheck.passed) {
-      this.logger.warn(`Risk check FAILED: ${riskCheck.reason}`);
-      return;
-    }
-    
-    // All checks passed - execute entry
-    this.logger.info('ALL ENTRY CONDITIONS MET - EXECUTING SPREAD ENTRY');
-    
-    await this.executeEntry(
-      cheapExchange,
-      expensiveExchange,
-      cheapExchangeName,
-      expensiveExchangeName,
-      cheapBuyPrice,       // Pass realistic ask price
-      expensiveSellPrice,  // Pass realistic bid price
-      realisticGap         // Pass realistic gap for tracking
-    );
+      fundingRateCheap: funding?.cheapRate,
+      fundingRateExpensive: funding?.expensiveRate,
+      actionTaken: 'none',
+      reason: funding ? `${reason} (funding edge ${funding.edgeUsd.toFixed(2)} USD)` : reason
+    });
   }
   
   /**
@@ -427,81 +754,100 @@ export class BasisTradingStrategy {
   private async executeEntry(
     cheapExchange: IExchange,
     expensiveExchange: IExchange,
-    cheapExchangeName: 'nado' | 'lighter',
-    expensiveExchangeName: 'nado' | 'lighter',
+    cheapExchangeName: VenueId,
+    expensiveExchangeName: VenueId,
     cheapBuyPrice: number,       // ASK price on cheap exchange (what we pay)
     expensiveSellPrice: number,  // BID price on expensive exchange (what we get)
-    gapUsd: number
+    gapUsd: number,
+    fundingEdgeUsd: number,      // Funding expected over the projected hold, per unit
+    size: number,
+    ladderTier?: LadderClipTier  // Laddered: the tier this clip fills
   ): Promise<void> {
     // SET LOCK - Prevent concurrent trade execution
     this.isExecutingTrade = true;
     this.logger.info('🔒 LOCK ACQUIRED - No new trades until this completes');
     
+    const tradeId = `trade-${Date.now()}`;
+    
     try {
       // Use realistic bid/ask prices for accurate P&L tracking
       const result = await this.executionManager.executeSpreadEntry(
         cheapExchange,
         expensiveExchange,
         this.symbol,
-        this.config.positionSizeBtc,
+        size,
         cheapBuyPrice,           // ASK price (what we actually pay when buying)
         expensiveSellPrice,      // BID price (what we actually get when selling)
         this.config.entryTimeoutMs,
-        false // NO fallback - if limits don't fill instantly, stop (user manages manually)
+        false, // NO fallback - if limits don't fill instantly, stop (user manages manually)
+        tradeId
       );
       
-      // TRUST THE EXECUTION - Record position immediately
-      // Note: Position verification disabled due to unreliable exchange APIs
+      // executeSpreadEntry throws unless both legs filled, so this is a hedged position
       // The LOCK mechanism above ensures only ONE trade executes at a time
-      this.logger.info('✓ Orders placed successfully - Recording position in state');
+      const filledSizeBtc = Math.min(result.cheapLeg.filledSize, result.expensiveLeg.filledSize);
+      this.logger.info(`✓ Both legs filled (${filledSizeBtc} BTC) - Recording position in state`);
       
-      // Record the opened position
-      this.stateManager.openPosition(
-        gapUsd,
-        cheapExchangeName,
-        expensiveExchangeName,
-        this.config.positionSizeBtc,
-        result.cheapLeg.averagePrice,
-        result.expensiveLeg.averagePrice
-      );
+      // Record the opened position (laddered: add the clip to it)
+      const entryOrderIds = this.legOrderIds(result.cheapLeg, result.expensiveLeg);
+      if (ladderTier) {
+        this.stateManager.addClip(cheapExchangeName, expensiveExchangeName, {
+          tier: ladderTier.index,
+          size: filledSizeBtc,
+          entryGapUsd: gapUsd,
+          exitGapUsd: ladderTier.tier.exitGapUsd,
+          entryTimestamp: Date.now(),
+          cheapExchangePrice: result.cheapLeg.averagePrice,
+          expensiveExchangePrice: result.expensiveLeg.averagePrice,
+          entryFundingUsd: fundingEdgeUsd,
+          entryOrderIds
+        });
+      } else {
+        this.stateManager.openPosition(
+          gapUsd,
+          cheapExchangeName,
+          expensiveExchangeName,
+          filledSizeBtc,
+          result.cheapLeg.averagePrice,
+          result.expensiveLeg.averagePrice,
+          fundingEdgeUsd
+        );
+      }
       
       this.stateManager.updateOrderIds(
         result.cheapLeg.orderId,
-        result.expensiveLeg.orderId
+        result.expensiveLeg.orderId,
+        entryOrderIds
       );
       
       // Log to CSV with entry details
-      const tradeId = `trade-${Date.now()}`;
       const csvEntry: TradeLogEntry = {
         timestamp: new Date().toISOString(),
+        symbol: this.symbol,
         tradeId,
         action: 'ENTRY',
         status: 'SUCCESS',
         entryGapUsd: gapUsd,
-        lighterSide: cheapExchangeName === 'lighter' ? 'buy' : 'sell',
-        lighterOrderId: cheapExchangeName === 'lighter' ? result.cheapLeg.orderId : result.expensiveLeg.orderId,
-        lighterSize: this.config.positionSizeBtc,
-        lighterPrice: cheapExchangeName === 'lighter' ? result.cheapLeg.averagePrice : result.expensiveLeg.averagePrice,
-        lighterFilled: true,
-        lighterFeeUsd: cheapExchangeName === 'lighter' ? 0 : 0, // Lighter entry fees are 0
-        nadoSide: cheapExchangeName === 'nado' ? 'buy' : 'sell',
-        nadoOrderId: cheapExchangeName === 'nado' ? result.cheapLeg.orderId : result.expensiveLeg.orderId,
-        nadoSize: this.config.positionSizeBtc,
-        nadoPrice: cheapExchangeName === 'nado' ? result.cheapLeg.averagePrice : result.expensiveLeg.averagePrice,
-        nadoFilled: true,
-        nadoFeeUsd: cheapExchangeName === 'nado' 
-          ? (this.config.fees.nadoMakerFeeBps / 10000) * result.cheapLeg.averagePrice * this.config.positionSizeBtc
-          : (this.config.fees.nadoMakerFeeBps / 10000) * result.expensiveLeg.averagePrice * this.config.positionSizeBtc,
-        notes: `LONG ${cheapExchangeName} @ ${result.cheapLeg.averagePrice.toFixed(2)}, SHORT ${expensiveExchangeName} @ ${result.expensiveLeg.averagePrice.toFixed(2)}`
+        legs: [
+          { venue: cheapExchangeName, side: 'buy', orderId: result.cheapLeg.orderId, size: result.cheapLeg.filledSize,
+            price: result.cheapLeg.averagePrice, filled: true, feeUsd: result.cheapLeg.feeUsd },
+          { venue: expensiveExchangeName, side: 'sell', orderId: result.expensiveLeg.orderId, size: result.expensiveLeg.filledSize,
+            price: result.expensiveLeg.averagePrice, filled: true, feeUsd: result.expensiveLeg.feeUsd }
+        ],
+        fundingEdgeUsd,
+        notes: `LONG ${cheapExchangeName} @ ${result.cheapLeg.averagePrice.toFixed(2)}, SHORT ${expensiveExchangeName} @ ${result.expensiveLeg.averagePrice.toFixed(2)}` +
+          (ladderTier ? ` (ladder tier ${ladderTier.index})` : '')
       };
       this.csvLogger.logTrade(csvEntry);
       
       this.logger.info(
-        `✓ SPREAD OPENED: Entry gap ${gapUsd.toFixed(2)} USD, ` +
-        `LONG ${this.config.positionSizeBtc} on ${cheapExchangeName} @ ${result.cheapLeg.averagePrice.toFixed(2)}, ` +
-        `SHORT ${this.config.positionSizeBtc} on ${expensiveExchangeName} @ ${result.expensiveLeg.averagePrice.toFixed(2)}`
+        `✓ ${this.symbol} SPREAD OPENED: Entry gap ${gapUsd.toFixed(2)} USD, ` +
+        `LONG ${result.cheapLeg.filledSize} on ${cheapExchangeName} @ ${result.cheapLeg.averagePrice.toFixed(2)}, ` +
+        `SHORT ${result.expensiveLeg.filledSize} on ${expensiveExchangeName} @ ${result.expensiveLeg.averagePrice.toFixed(2)}`
       );
       
+      this.circuitBreakers.recordSuccess();
+      
       // RELEASE LOCK - Trade completed successfully
       this.isExecutingTrade = false;
       this.logger.info('🔓 LOCK RELEASED - Bot can now monitor for exit or new entry');
@@ -515,31 +861,141 @@ export class BasisTradingStrategy {
       
       // Record error to prevent immediate retries
       this.stateManager.recordError();
+      this.circuitBreakers.recordError(this.symbol, `entry: ${error}`);
       this.logger.warn('⚠️  Blocking new trades for 60 seconds after error');
       
-      // Emergency: check if we have partial positions and try to close them
-      await this.handlePartialFillEmergency();
+      // Rebalance any leg that filled without its hedge
+      const repair = await this.repairHedge('entry');
+      
+      // Partial fills leave a hedged spread behind - both legs filled alike, the bigger one unwound
+      // to the smaller or the smaller topped up. Track it like a normal entry
+      if (repair && repair.status !== 'killed') {
+        await this.adoptHedgedPosition(gapUsd, ladderTier);
+      }
+    } finally {
+      // The venues account for the position's margin now - drop the reservation
+      this.riskManager.releaseMargin(this.symbol);
     }
   }
   
   /**
-   * Evaluate conditions for closing the current spread trade.
+   * Estimate each open leg's distance to liquidation, at most once per check interval.
+   * Alerts below alertDistancePercent and reduces the spread below reduceDistancePercent.
    */
-  private async evaluateExit(): Promise<void> {
-    // SAFETY CHECK: LOCK - Don't evaluate exit if another trade is executing
-    if (this.isExecutingTrade) {
-      this.logger.debug('🔒 Trade execution in progress - skipping exit evaluation');
+  private async checkLiquidation(): Promise<void> {
+    const { checkIntervalMs, alertDistancePercent, reduceDistancePercent } = this.liquidationConfig;
+    const position = this.stateManager.getCurrentPosition();
+    if (!position || this.isExecutingTrade || Date.now() - this.lastLiquidationCheck < checkIntervalMs) {
       return;
     }
-    
-    const position = this.stateManager.getCurrentPosition();
-    if (!position) {
-      this.logger.error('evaluateExit called but no position exists');
+    if (alertDistancePercent <= 0 && reduceDistancePercent <= 0) {
       return;
     }
+    this.lastLiquidationCheck = Date.now();
+    
+    try {
+      const legs = await Promise.all([this.venueA, this.venueB].map(exchange =>
+        estimateLegLiquidation(exchange, this.symbol, this.config.risk.maxLeverage)
+      ));
+      this.liquidationEstimates = legs.filter((leg): leg is LiquidationEstimate => leg !== null);
+    } catch (error) {
+      this.logger.warn(`${this.symbol}: Could not estimate liquidation prices: ${error}`);
+      return;
+    }
+    
+    const closest = this.liquidationEstimates
+      .filter(leg => leg.distancePercent !== null)
+      .sort((a, b) => a.distancePercent! - b.distancePercent!)[0];
+    if (!closest) {
+      return;
+    }
+    
+    const leg = `${closest.exchange} ${closest.side} ${closest.size} @ mark ${closest.markPrice.toFixed(2)}, ` +
+      `liquidation ~${closest.liquidationPrice!.toFixed(2)} (${closest.distancePercent!.toFixed(2)}% away)`;
+    if (reduceDistancePercent > 0 && closest.distancePercent! < reduceDistancePercent) {
+      this.logger.error(`🚨 ${this.symbol} LIQUIDATION RISK: ${leg} - below ${reduceDistancePercent}%, reducing the spread`);
+      await this.reduceForLiquidation(position);
+    } else if (alertDistancePercent > 0 && closest.distancePercent! < alertDistancePercent) {
+      this.logger.error(`⚠️  ${this.symbol} liquidation alert: ${leg} - below ${alertDistancePercent}%`);
+    }
+  }
+  
+  /**
+   * Close reduceFraction of the spread (laddered: the latest clips covering it). The whole
+   * position closes when the reduction or what's left would be below the minimum order size.
+   */
+  private async reduceForLiquidation(position: SpreadPosition): Promise<void> {
+    const longExchange = this.getExchange(position.cheapExchange);
+    const shortExchange = this.getExchange(position.expensiveExchange);
+    const [longData, shortData] = await Promise.all([
+      longExchange.getMarketData(this.symbol),
+      shortExchange.getMarketData(this.symbol)
+    ]);
+    const gapUsd = shortData.midPrice - longData.midPrice;
+    const targetSize = position.positionSizeBtc * this.liquidationConfig.reduceFraction;
+    const exit = (clips?: SpreadClip[], reduceSize?: number): Promise<void> => this.executeExit(
+      longExchange,
+      shortExchange,
+      longData.midPrice,
+      shortData.midPrice,
+      gapUsd,
+      'liquidation distance',
+      0,
+      clips,
+      reduceSize
+    );
+    
+    if (position.clips) {
+      const clips: SpreadClip[] = [];
+      let size = 0;
+      for (let i = position.clips.length - 1; i >= 0 && size < targetSize - 1e-9; i--) {
+        clips.push(position.clips[i]);
+        size += position.clips[i].size;
+      }
+      await exit(clips);
+      return;
+    }
+    
+    const exchanges = [this.venueA, this.venueB];
+    const reduceSize = roundToIncrement(targetSize, getCommonLotSize(this.market, exchanges), 'down');
+    const minSize = Math.max(...exchanges.map(exchange => exchange.getMarketInfo(this.symbol).minSize));
+    if (reduceSize < minSize || position.positionSizeBtc - reduceSize < minSize) {
+      await exit();
+    } else {
+      await exit(undefined, reduceSize);
+    }
+  }
+  
+  /**
+   * Evaluate conditions for closing the current spread trade.
+   */
+  private async evaluateExit(): Promise<void> {
+    // SAFETY CHECK: LOCK - Don't evaluate exit if another trade is executing
+    if (this.isExecutingTrade) {
+      this.logger.debug('🔒 Trade execution in progress - skipping exit evaluation');
+      return;
+    }
+    
+    const position = this.stateManager.getCurrentPosition();
+    if (!position) {
+      this.logger.error('evaluateExit called but no position exists');
+      return;
+    }
+    
+    const holdDuration = this.stateManager.getHoldDurationSeconds();
+    
+    // Get current prices for the same exchanges as entry
+    const cheapExchange = this.getExchange(position.cheapExchange);
+    const expensiveExchange = this.getExchange(position.expensiveExchange);
+    
+    // Funding keeps accruing during the minimum hold
+    const funding = await this.getFundingProjection(
+      cheapExchange,
+      expensiveExchange,
+      (position.cheapExchangePrice + position.expensiveExchangePrice) / 2
+    );
+    const positionFundingUsd = await this.updatePositionFunding(position);
     
-    const holdDuration = this.stateManager.getHoldDurationSeconds();
-    
     // Check minimum hold duration
     if (holdDuration < this.config.minHoldDurationSeconds) {
       this.logger.debug(
@@ -548,10 +1004,6 @@ export class BasisTradingStrategy {
       return;
     }
     
-    // Get current prices for the same exchanges as entry
-    const cheapExchange = position.cheapExchange === 'nado' ? this.nadoExchange : this.lighterExchange;
-    const expensiveExchange = position.expensiveExchange === 'nado' ? this.nadoExchange : this.lighterExchange;
-    
     const [cheapData, expensiveData] = await Promise.all([
       cheapExchange.getMarketData(this.symbol),
       expensiveExchange.getMarketData(this.symbol)
@@ -561,16 +1013,86 @@ export class BasisTradingStrategy {
     const currentExpensivePrice = expensiveData.midPrice;
     const currentGapUsd = currentExpensivePrice - currentCheapPrice;
     
+    // Exits still run on a tripped breaker, but the data keeps feeding it
+    const stale = !!(cheapData.stale || expensiveData.stale);
+    this.circuitBreakers.recordMarketData(this.symbol, stale);
+    if (!stale) {
+      this.circuitBreakers.recordGap(this.symbol, currentGapUsd);
+    }
+    
+    // Funding per unit: still expected over what's left of the projected hold, and realized so far
+    const remainingHoldHours = Math.max(0, this.fundingConfig.expectedHoldHours - holdDuration / 3600);
+    const projectedFundingUsd = (funding?.usdPerHour ?? 0) * remainingHoldHours;
+    const realizedFundingUsd = (positionFundingUsd - (position.fundingClosedUsd || 0)) / position.positionSizeBtc;
+    const holdEdgeUsd = currentGapUsd + projectedFundingUsd;
+    
+    // Laddered: each clip exits at its tier's threshold. A position without clips (opened before
+    // laddering was enabled, or rebuilt from the venues) exits as a whole at exitGapUsd
+    const clips = this.ladder ? position.clips : undefined;
+    const exitGapUsd = this.thresholdModel.getThresholds().exitGapUsd;
+    const exitThresholdUsd = clips
+      ? Math.min(...clips.map(clip => clip.exitGapUsd))
+      : exitGapUsd;
+    
     this.logger.info(
       `Exit monitoring: Current gap ${currentGapUsd.toFixed(2)} USD ` +
-      `(entry: ${position.entryGapUsd.toFixed(2)} USD, exit threshold: ${this.config.exitGapUsd} USD, hold: ${holdDuration}s)`
+      (funding ? `+ ${projectedFundingUsd.toFixed(2)} USD projected funding (realized ${realizedFundingUsd.toFixed(2)}) ` : '') +
+      `(entry: ${position.entryGapUsd.toFixed(2)} USD, exit threshold: ${exitThresholdUsd.toFixed(2)} USD, hold: ${holdDuration}s` +
+      (clips ? `, ${clips.length} clip(s)` : '') + ')'
     );
     
-    // Check exit condition: gap has compressed to exit threshold
-    if (currentGapUsd <= this.config.exitGapUsd) {
+    // Flip mode: the gap has inverted past the entry threshold - reverse the spread in one execution
+    if (this.flipEnabled && await this.evaluateFlip(position, cheapData, expensiveData, funding)) {
+      return;
+    }
+    
+    // Laddered: peel off the latest clip whose tier the gap (plus funding still to come) has compressed to
+    const clipToPeel = clips ? this.getClipToPeel(clips, holdEdgeUsd) : null;
+    if (clipToPeel) {
       this.logger.info(
-        `EXIT CONDITION MET: Current gap ${currentGapUsd.toFixed(2)} USD <= ` +
-        `exit threshold ${this.config.exitGapUsd} USD`
+        `CLIP EXIT CONDITION MET: Current gap ${currentGapUsd.toFixed(2)} USD + projected funding ` +
+        `${projectedFundingUsd.toFixed(2)} USD <= tier ${clipToPeel.tier} exit threshold ${clipToPeel.exitGapUsd} USD`
+      );
+      
+      await this.executeExit(
+        cheapExchange,
+        expensiveExchange,
+        currentCheapPrice,
+        currentExpensivePrice,
+        currentGapUsd,
+        'ladder tier converged',
+        projectedFundingUsd,
+        [clipToPeel]
+      );
+      return;
+    }
+    
+    // Check exit condition: gap (plus funding still to come) has compressed to exit threshold
+    if (!clips && holdEdgeUsd <= exitGapUsd) {
+      this.logger.info(
+        `EXIT CONDITION MET: Current gap ${currentGapUsd.toFixed(2)} USD + projected funding ` +
+        `${projectedFundingUsd.toFixed(2)} USD <= exit threshold ${exitGapUsd.toFixed(2)} USD`
+      );
+      
+      await this.executeExit(
+        cheapExchange,
+        expensiveExchange,
+        currentCheapPrice,
+        currentExpensivePrice,
+        currentGapUsd,
+        'gap converged',
+        projectedFundingUsd
+      );
+      return;
+    }
+    
+    // Check funding drag: paying more funding than the convergence still left would earn
+    const fundingCostUsd = -(realizedFundingUsd + projectedFundingUsd);
+    const remainingEdgeUsd = currentGapUsd - exitThresholdUsd;
+    if (funding && fundingCostUsd > 0 && fundingCostUsd > remainingEdgeUsd) {
+      this.logger.warn(
+        `FUNDING EXIT: Realized + projected funding cost ${fundingCostUsd.toFixed(2)} USD exceeds ` +
+        `the remaining convergence edge ${remainingEdgeUsd.toFixed(2)} USD - exiting early`
       );
       
       await this.executeExit(
@@ -578,7 +1100,10 @@ export class BasisTradingStrategy {
         expensiveExchange,
         currentCheapPrice,
         currentExpensivePrice,
-        currentGapUsd
+        currentGapUsd,
+        'funding cost',
+        projectedFundingUsd,
+        clips
       );
       return;
     }
@@ -596,9 +1121,217 @@ export class BasisTradingStrategy {
         expensiveExchange,
         currentCheapPrice,
         currentExpensivePrice,
-        currentGapUsd
+        currentGapUsd,
+        'max hold duration',
+        projectedFundingUsd,
+        clips
+      );
+    }
+  }
+  
+  /**
+   * Flip mode: check whether the reverse spread meets the entry conditions and, if it passes
+   * the risk checks, flip into it. Returns true when a flip was executed (or attempted); false
+   * leaves the position to the normal exit checks.
+   */
+  private async evaluateFlip(
+    position: SpreadPosition,
+    cheapData: MarketData,     // Current long venue
+    expensiveData: MarketData, // Current short venue
+    funding: FundingProjection | null // Funding for the current direction
+  ): Promise<boolean> {
+    if (this.stateManager.shouldBlockTrading() || this.hedgeRepairManager.isKillSwitchActive() ||
+        this.circuitBreakers.isTripped()) {
+      return false;
+    }
+    await this.lossLimits.refresh();
+    if (this.lossLimits.isHalted() || this.rebalancer.isPending()) {
+      return false;
+    }
+    if (cheapData.stale || expensiveData.stale) {
+      this.logger.warn(`⚠️  Stale market data - not flipping`);
+      return false;
+    }
+    
+    // Reversed, the current short venue is the one we buy. Reversing negates the net funding too
+    const newCheapExchange = this.getExchange(position.expensiveExchange);
+    const newExpensiveExchange = this.getExchange(position.cheapExchange);
+    const gapUsd = cheapData.midPrice - expensiveData.midPrice;
+    const fundingEdgeUsd = -(funding?.usdPerHour ?? 0) * this.fundingConfig.expectedHoldHours;
+    const flipEdgeUsd = gapUsd + fundingEdgeUsd;
+    const entryGapUsd = this.thresholdModel.getThresholds().entryGapUsd;
+    
+    if (flipEdgeUsd < entryGapUsd) {
+      return false;
+    }
+    const openSize = this.getScaledSize(this.tradeSize);
+    if (openSize === null) {
+      return false;
+    }
+    
+    const entryFunding: EntryFunding | undefined = funding
+      ? { edgeUsd: fundingEdgeUsd, cheapRate: funding.shortFundingRate, expensiveRate: funding.longFundingRate }
+      : undefined;
+    
+    this.logger.info(
+      `FLIP DETECTED: Gap inverted to ${gapUsd.toFixed(2)} USD (LONG ${position.expensiveExchange}) + ` +
+      `${fundingEdgeUsd.toFixed(2)} USD funding = ${flipEdgeUsd.toFixed(2)} USD >= ${entryGapUsd.toFixed(2)} USD threshold`
+    );
+    
+    // Same gates as an entry. A rejected flip falls through to the normal exit
+    const maxGap = this.market.maxEntryGapUsd;
+    if (Math.abs(gapUsd) > maxGap) {
+      this.logger.warn(`⚠️  GAP TOO LARGE: ${gapUsd.toFixed(2)} USD > ${maxGap} USD max threshold - not flipping`);
+      await this.logRejectedGap(
+        gapUsd, position.expensiveExchange, position.cheapExchange, expensiveData.midPrice, cheapData.midPrice,
+        `Flip: gap above max entry threshold (${maxGap} USD)`,
+        entryFunding
+      );
+      return false;
+    }
+    
+    const riskCheck = await this.riskManager.preFlipCheck(
+      newCheapExchange,
+      newExpensiveExchange,
+      this.symbol,
+      position.positionSizeBtc,
+      openSize,
+      expensiveData.midPrice,
+      cheapData.midPrice,
+      fundingEdgeUsd
+    );
+    
+    if (!riskCheck.passed) {
+      this.logger.warn(`Flip risk check FAILED: ${riskCheck.reason}`);
+      await this.logRejectedGap(
+        gapUsd, position.expensiveExchange, position.cheapExchange, expensiveData.midPrice, cheapData.midPrice,
+        `Flip: ${riskCheck.reason || 'Risk check failed'}`,
+        entryFunding
+      );
+      return false;
+    }
+    
+    this.logger.info('ALL FLIP CONDITIONS MET - EXECUTING SPREAD FLIP');
+    
+    await this.executeFlip(
+      newCheapExchange,
+      newExpensiveExchange,
+      expensiveData.midPrice - cheapData.midPrice, // Exit gap of the current position
+      cheapData.bidPrice - expensiveData.askPrice,  // Realistic entry gap of the reversed one
+      fundingEdgeUsd,
+      openSize
+    );
+    return true;
+  }
+  
+  /**
+   * Entry size after drawdown sizing, on a lot both venues accept. Null when the reduced
+   * size is below the venues' minimum order size.
+   */
+  private getScaledSize(size: number): number | null {
+    const multiplier = this.lossLimits.getSizeMultiplier();
+    if (multiplier >= 1) {
+      return size;
+    }
+    
+    const exchanges = [this.venueA, this.venueB];
+    const scaled = roundToIncrement(size * multiplier, getCommonLotSize(this.market, exchanges), 'down');
+    const minSize = Math.max(...exchanges.map(exchange => exchange.getMarketInfo(this.symbol).minSize));
+    if (scaled < minSize) {
+      this.logger.warn(
+        `📉 Drawdown sizing: ${size} x ${multiplier.toFixed(2)} = ${scaled} is below the minimum order size ${minSize} - not entering`
       );
+      return null;
     }
+    
+    this.logger.info(`📉 Drawdown sizing: ${size} x ${multiplier.toFixed(2)} -> ${scaled} (${this.lossLimits.describe()})`);
+    return scaled;
+  }
+  
+  /**
+   * Laddered: the most recently added clip that has reached its tier's exit threshold and
+   * served the minimum hold. One clip per evaluation, so the ladder unwinds in order.
+   */
+  private getClipToPeel(clips: SpreadClip[], holdEdgeUsd: number): SpreadClip | null {
+    const now = Date.now();
+    for (let i = clips.length - 1; i >= 0; i--) {
+      const clip = clips[i];
+      const heldSeconds = (now - clip.entryTimestamp) / 1000;
+      if (holdEdgeUsd <= clip.exitGapUsd && heldSeconds >= this.config.minHoldDurationSeconds) {
+        return clip;
+      }
+    }
+    return null;
+  }
+  
+  /**
+   * Laddered: the tier to add next - the unfilled tier with the lowest entry gap the edge has
+   * reached, if its clip fits under maxInventory. Null when no tier is due.
+   */
+  private getNextTier(entryEdgeUsd: number, position: SpreadPosition | null): LadderClipTier | null {
+    const filled = new Set((position?.clips || []).map(clip => clip.tier));
+    const inventory = position?.positionSizeBtc ?? 0;
+    
+    const next = this.ladderTiers
+      .map((tier, index) => ({ index, tier }))
+      .filter(({ index, tier }) => !filled.has(index) && entryEdgeUsd >= tier.entryGapUsd)
+      .sort((a, b) => a.tier.entryGapUsd - b.tier.entryGapUsd)[0];
+    
+    if (!next) {
+      return null;
+    }
+    if (inventory + next.tier.size > this.ladder!.maxInventory + 1e-9) {
+      this.logger.debug(
+        `Ladder tier ${next.index} due but ${inventory} + ${next.tier.size} would exceed maxInventory ${this.ladder!.maxInventory}`
+      );
+      return null;
+    }
+    return next;
+  }
+  
+  /**
+   * Net funding per hour (USD per unit) for LONG on one venue and SHORT on the other.
+   * Null when funding is disabled or the rates can't be read - decisions then use the gap alone.
+   */
+  private async getFundingProjection(
+    longExchange: IExchange,
+    shortExchange: IExchange,
+    referencePrice: number
+  ): Promise<FundingProjection | null> {
+    if (!this.fundingConfig.enabled) {
+      return null;
+    }
+    
+    try {
+      return await this.fundingManager.projectFunding(this.symbol, longExchange, shortExchange, referencePrice);
+    } catch (error) {
+      this.logger.warn(`${this.symbol}: Funding rates unavailable (${error}) - deciding on the price gap alone`);
+      return null;
+    }
+  }
+  
+  /**
+   * Bring the open position's realized funding up to date and persist it when it changes.
+   */
+  private async updatePositionFunding(position: SpreadPosition, force: boolean = false): Promise<number> {
+    const longExchange = this.getExchange(position.cheapExchange);
+    const shortExchange = this.getExchange(position.expensiveExchange);
+    
+    const snapshot = await this.fundingLedger.update(
+      position.entryTimestamp,
+      [
+        { exchange: longExchange, side: 'long', size: position.positionSizeBtc },
+        { exchange: shortExchange, side: 'short', size: position.positionSizeBtc }
+      ],
+      (position.cheapExchangePrice + position.expensiveExchangePrice) / 2,
+      position.fundingByExchange,
+      force
+    );
+    
+    if (snapshot.totalUsd !== (position.fundingUsd ?? 0) || !position.fundingByExchange) {
+      this.stateManager.updateFunding(snapshot.totalUsd, snapshot.byExchange);
+    }
+    return snapshot.totalUsd;
   }
   
   /**
@@ -609,7 +1342,11 @@ export class BasisTradingStrategy {
     shortExchange: IExchange,
     longExitPrice: number,
     shortExitPrice: number,
-    exitGapUsd: number
+    exitGapUsd: number,
+    exitReason: string,
+    fundingEdgeUsd: number, // Funding (per unit) still projected when deciding to exit
+    clips?: SpreadClip[], // Laddered: the clips to close (default: the whole position)
+    reduceSize?: number // Without clips: close only this much of the position
   ): Promise<void> {
     const position = this.stateManager.getCurrentPosition();
     if (!position) {
@@ -621,239 +1358,536 @@ export class BasisTradingStrategy {
     this.isExecutingTrade = true;
     this.logger.info('🔒 LOCK ACQUIRED (EXIT) - No new trades until exit completes');
     
+    // Each closed part is recorded as its own trade - a position without clips is one part
+    const parts: SpreadClip[] = clips || [{
+      tier: -1,
+      size: reduceSize ?? position.positionSizeBtc,
+      entryGapUsd: position.entryGapUsd,
+      exitGapUsd: this.thresholdModel.getThresholds().exitGapUsd,
+      entryTimestamp: position.entryTimestamp,
+      cheapExchangePrice: position.cheapExchangePrice,
+      expensiveExchangePrice: position.expensiveExchangePrice,
+      // Laddered: every open clip's orders filled part of what is being reduced
+      entryOrderIds: position.clips ? mergeClipOrderIds(position.clips) : position.entryOrderIds
+    }];
+    const exitSize = parseFloat(parts.reduce((sum, part) => sum + part.size, 0).toFixed(8));
+    
     try {
       const result = await this.executionManager.executeSpreadExit(
         longExchange,
         shortExchange,
         this.symbol,
-        this.config.positionSizeBtc,
+        exitSize,
         longExitPrice,
         shortExitPrice,
         this.config.exitTimeoutMs,
-        false // NO fallback - if limits don't fill instantly, stop (user manages manually)
+        false, // NO fallback - if limits don't fill instantly, stop (user manages manually)
+        `trade-${position.entryTimestamp}-exit-${Date.now()}`
       );
       
-      // TRUST THE EXECUTION - Record closure immediately
-      // Note: Position verification disabled due to unreliable exchange APIs
-      this.logger.info('✓ Exit orders placed successfully - Recording closure in state');
+      // executeSpreadExit throws unless both legs were closed
+      this.logger.info('✓ Both legs closed - Recording closure in state');
       
-      // Calculate realized PnL
-      // Long side: (exit price - entry price) * size
-      // Short side: (entry price - exit price) * size
-      // Total: entry gap - exit gap (in price terms)
-      const longPnl = (result.longLeg.averagePrice - position.cheapExchangePrice) * this.config.positionSizeBtc;
-      const shortPnl = (position.expensiveExchangePrice - result.shortLeg.averagePrice) * this.config.positionSizeBtc;
-      const realizedPnlUsd = longPnl + shortPnl;
-      const realizedPnlBtc = realizedPnlUsd / ((position.cheapExchangePrice + position.expensiveExchangePrice) / 2);
+      // Final funding read now the legs are closed. Each part takes its share of what isn't booked yet
+      const positionFundingUsd = await this.updatePositionFunding(position, true);
+      const openFundingUsd = positionFundingUsd - (position.fundingClosedUsd || 0);
+      const positionSize = position.positionSizeBtc;
       
-      // Calculate actual fees based on maker/taker usage
-      // Entry fees: Nado uses maker (limit), Lighter uses market (taker but 0% fee)
-      const nadoEntryFee = (this.config.fees.nadoMakerFeeBps / 10000) * 
-        (position.cheapExchange === 'nado' ? position.cheapExchangePrice : position.expensiveExchangePrice) * 
-        this.config.positionSizeBtc;
-      const lighterEntryFee = 0; // Lighter market orders are free
-      const entryFeesUsd = nadoEntryFee + lighterEntryFee;
+      for (const part of parts) {
+        const fundingUsd = openFundingUsd * part.size / positionSize;
+        
+        // Calculate realized PnL
+        // Long side: (exit price - entry price) * size
+        // Short side: (entry price - exit price) * size
+        // Total: entry gap - exit gap (in price terms)
+        const longPnl = (result.longLeg.averagePrice - part.cheapExchangePrice) * part.size;
+        const shortPnl = (part.expensiveExchangePrice - result.shortLeg.averagePrice) * part.size;
+        const realizedPnlUsd = longPnl + shortPnl;
+        const realizedPnlBtc = realizedPnlUsd / ((part.cheapExchangePrice + part.expensiveExchangePrice) / 2);
+        
+        // Calculate actual fees based on maker/taker usage
+        // Entry fees: maker on the maker venue, taker on the hedge venue
+        const longEntryFee = this.estimateEntryFeeUsd(position.cheapExchange, part.cheapExchangePrice, part.size);
+        const shortEntryFee = this.estimateEntryFeeUsd(position.expensiveExchange, part.expensiveExchangePrice, part.size);
+        // A flipped position was opened by the flip's taker orders - use what they cost
+        const entryFeesUsd = position.entryFeesUsd !== undefined
+          ? position.entryFeesUsd * part.size / position.positionSizeBtc
+          : longEntryFee + shortEntryFee;
+        
+        // Exit fees: this part's share of what each exit order paid
+        const partFee = (leg: LegExecutionResult): number =>
+          leg.filledSize > 0 ? (leg.feeUsd || 0) * part.size / leg.filledSize : 0;
+        const exitLongFee = partFee(result.longLeg);
+        const exitShortFee = partFee(result.shortLeg);
+        
+        const exitFeesUsd = exitLongFee + exitShortFee;
+        const totalFeesUsd = entryFeesUsd + exitFeesUsd;
+        
+        // Close the position (or clip, or the reduced part) in state
+        let tradeId = `trade-${part.entryTimestamp}`;
+        if (clips) {
+          this.stateManager.closeClip(part.tier, exitGapUsd, realizedPnlBtc, fundingUsd);
+        } else if (reduceSize !== undefined) {
+          tradeId = this.stateManager.reducePosition(part.size, exitGapUsd, realizedPnlBtc, fundingUsd).id;
+        } else {
+          this.stateManager.closePosition(exitGapUsd, realizedPnlBtc, fundingUsd);
+        }
+        
+        // Log completed trade to disk with fees
+        const trade: CompletedTrade = {
+          id: tradeId,
+          symbol: this.symbol,
+          entryTimestamp: part.entryTimestamp,
+          exitTimestamp: Date.now(),
+          entryGapUsd: part.entryGapUsd,
+          exitGapUsd,
+          cheapExchange: position.cheapExchange,
+          expensiveExchange: position.expensiveExchange,
+          positionSizeBtc: part.size,
+          realizedPnlBtc,
+          realizedPnlUsd,
+          fundingUsd,
+          holdDurationSeconds: Math.floor((Date.now() - part.entryTimestamp) / 1000),
+          entryPrices: {
+            cheap: part.cheapExchangePrice,
+            expensive: part.expensiveExchangePrice
+          },
+          exitPrices: {
+            long: result.longLeg.averagePrice,
+            short: result.shortLeg.averagePrice
+          },
+          fees: {
+            entry: entryFeesUsd,
+            exit: exitFeesUsd,
+            total: totalFeesUsd
+          },
+          orderIds: {
+            entry: part.entryOrderIds || {},
+            exit: this.legOrderIds(result.longLeg, result.shortLeg)
+          }
+        };
+        
+        await this.tradeLogger.logTrade(trade);
+        
+        // Log to CSV with detailed information
+        const csvEntry: TradeLogEntry = {
+          timestamp: new Date().toISOString(),
+          symbol: this.symbol,
+          tradeId: trade.id,
+          action: 'EXIT',
+          status: 'SUCCESS',
+          entryGapUsd: part.entryGapUsd,
+          exitGapUsd,
+          holdDurationSeconds: trade.holdDurationSeconds,
+          legs: [
+            { venue: position.cheapExchange, side: 'buy', size: part.size, price: part.cheapExchangePrice, filled: true, feeUsd: longEntryFee },
+            { venue: position.expensiveExchange, side: 'sell', size: part.size, price: part.expensiveExchangePrice, filled: true, feeUsd: shortEntryFee }
+          ],
+          grossPnlUsd: realizedPnlUsd,
+          totalFeesUsd,
+          netPnlUsd: realizedPnlUsd - totalFeesUsd + fundingUsd,
+          netPnlBtc: realizedPnlBtc,
+          fundingEdgeUsd,
+          fundingUsd,
+          notes: `Entry: ${position.cheapExchange} @ ${part.cheapExchangePrice.toFixed(2)}, ${position.expensiveExchange} @ ${part.expensiveExchangePrice.toFixed(2)}; ` +
+            `exit on ${exitReason}` + (clips ? ` (ladder tier ${part.tier})` : '')
+        };
+        this.csvLogger.logTrade(csvEntry);
+        
+        const netPnlUsd = realizedPnlUsd - totalFeesUsd + fundingUsd;
+        this.circuitBreakers.recordRealizedPnl(netPnlUsd);
+        this.logger.info(
+          `✓ ${this.symbol} ${clips ? `CLIP (tier ${part.tier})` : reduceSize !== undefined ? `SPREAD REDUCED (${part.size})` : 'SPREAD'} CLOSED: Exit gap ${exitGapUsd.toFixed(2)} USD, ` +
+          `Gross PnL: $${realizedPnlUsd.toFixed(2)}, Fees: $${totalFeesUsd.toFixed(2)}, ` +
+          `Funding: $${fundingUsd.toFixed(2)}, ` +
+          `Net PnL: $${netPnlUsd.toFixed(2)}, ` +
+          `Entry gap was ${part.entryGapUsd.toFixed(2)} USD`
+        );
+      }
+      
+      this.circuitBreakers.recordSuccess();
+      
+      // RELEASE LOCK - Exit completed successfully
+      this.isExecutingTrade = false;
+      this.logger.info('🔓 LOCK RELEASED (EXIT) - Bot can now enter new positions');
+      
+    } catch (error) {
+      this.logger.error(`FAILED TO EXECUTE EXIT: ${error}`);
+      this.circuitBreakers.recordError(this.symbol, `exit: ${error}`);
+      
+      // RELEASE LOCK on error too
+      this.isExecutingTrade = false;
+      this.logger.warn('🔓 LOCK RELEASED (exit error occurred)');
       
-      // Exit fees (calculate based on actual execution)
-      const exitLongFee = result.longLeg.exchange === 'Lighter' 
-        ? 0 // Lighter market orders are free (0% taker)
-        : (result.longLeg.usedMaker ? this.config.fees.nadoMakerFeeBps : this.config.fees.nadoTakerFeeBps) / 10000 * result.longLeg.averagePrice * this.config.positionSizeBtc;
+      // Rebalance the venues if only one leg (or part of one) was closed
+      const repair = await this.repairHedge('exit');
+      
+      if (repair) {
+        const [longPosition, shortPosition] = await Promise.all([
+          longExchange.getPosition(this.symbol),
+          shortExchange.getPosition(this.symbol)
+        ]);
+        
+        if (!longPosition && !shortPosition) {
+          // Both legs ended up closed - nothing left to exit
+          this.stateManager.discardPosition('both legs closed during hedge repair after a failed exit');
+          return;
+        }
+      }
       
-      const exitShortFee = result.shortLeg.exchange === 'Lighter'
-        ? 0 // Lighter market orders are free (0% taker)
-        : (result.shortLeg.usedMaker ? this.config.fees.nadoMakerFeeBps : this.config.fees.nadoTakerFeeBps) / 10000 * result.shortLeg.averagePrice * this.config.positionSizeBtc;
+      if (repair && repair.status !== 'killed') {
+        this.logger.warn('⚠️  Venues are hedged - State remains OPEN, exit will be retried');
+        return;
+      }
       
-      const exitFeesUsd = exitLongFee + exitShortFee;
+      // Repair failed or the kill switch fired - the operator has to check
+      this.logger.error(
+        '\n' +
+        '🚨🚨🚨 CRITICAL ALERT 🚨🚨🚨\n' +
+        '═══════════════════════════════════════════════════════════\n' +
+        '  EXIT FAILED - POSITION MAY BE UNHEDGED!\n' +
+        '  \n' +
+        '  One or both legs may have failed to close and hedge repair\n' +
+        '  could not rebalance them. CHECK YOUR POSITIONS IMMEDIATELY:\n' +
+        '  \n' +
+        `  1. Go to ${shortExchange.name} and check if SHORT is still open\n` +
+        `  2. Go to ${longExchange.name} and check if LONG is still open\n` +
+        '  3. If only ONE side closed, you have BTC price exposure!\n' +
+        '  4. Manually close any remaining positions NOW!\n' +
+        '  \n' +
+        '  Error details: ' + error + '\n' +
+        '═══════════════════════════════════════════════════════════\n'
+      );
+      
+      // Don't change state - keep it as OPEN so bot won't try to enter again
+      this.logger.warn('⚠️  State remains OPEN - bot will NOT enter new trades');
+      this.logger.warn('⚠️  Manually fix positions and restart bot when ready');
+    }
+  }
+  
+  /**
+   * Execute a flip: close the current position and open the reverse spread with one order per
+   * venue. The closed position is recorded as a completed trade and logged as one FLIP row.
+   */
+  private async executeFlip(
+    newCheapExchange: IExchange,     // Current short venue, bought
+    newExpensiveExchange: IExchange, // Current long venue, sold
+    exitGapUsd: number,
+    entryGapUsd: number,
+    fundingEdgeUsd: number,          // Funding (per unit) expected over the reversed position's hold
+    reverseSize: number              // Size to open the reversed position at
+  ): Promise<void> {
+    const position = this.stateManager.getCurrentPosition();
+    if (!position) {
+      this.logger.error('executeFlip called but no position exists');
+      return;
+    }
+    
+    // SET LOCK - Prevent concurrent trade execution
+    this.isExecutingTrade = true;
+    this.logger.info('🔒 LOCK ACQUIRED (FLIP) - No new trades until flip completes');
+    
+    const closeSize = position.positionSizeBtc;
+    
+    try {
+      const result = await this.executionManager.executeSpreadFlip(
+        newCheapExchange,
+        newExpensiveExchange,
+        this.symbol,
+        closeSize,
+        reverseSize,
+        `trade-${position.entryTimestamp}-flip-${Date.now()}`
+      );
+      
+      // executeSpreadFlip throws unless both venues hold the reversed spread
+      const openSize = parseFloat(
+        (Math.min(result.cheapLeg.filledSize, result.expensiveLeg.filledSize) - closeSize).toFixed(8)
+      );
+      this.logger.info(`✓ Flip filled - Recording closure and reversed position (${openSize}) in state`);
+      
+      // Final funding read for the closed position, less what reductions already booked
+      const positionFundingUsd = await this.updatePositionFunding(position, true);
+      const fundingUsd = positionFundingUsd - (position.fundingClosedUsd || 0);
+      
+      // The old long was sold on the new expensive venue, the old short bought back on the new cheap one
+      const longPnl = (result.expensiveLeg.averagePrice - position.cheapExchangePrice) * closeSize;
+      const shortPnl = (position.expensiveExchangePrice - result.cheapLeg.averagePrice) * closeSize;
+      const realizedPnlUsd = longPnl + shortPnl;
+      const realizedPnlBtc = realizedPnlUsd / ((position.cheapExchangePrice + position.expensiveExchangePrice) / 2);
+      
+      // Entry fees as for a normal exit - what an earlier flip actually paid if it opened the
+      // position; the closing share of each flip order's fee
+      const entryFeesUsd = position.entryFeesUsd !== undefined
+        ? position.entryFeesUsd * closeSize / position.positionSizeBtc
+        : this.estimateEntryFeeUsd(position.cheapExchange, position.cheapExchangePrice, closeSize) +
+          this.estimateEntryFeeUsd(position.expensiveExchange, position.expensiveExchangePrice, closeSize);
+      const flipFeesUsd = (result.cheapLeg.feeUsd || 0) + (result.expensiveLeg.feeUsd || 0);
+      const exitFeesUsd = [result.cheapLeg, result.expensiveLeg]
+        .reduce((sum, leg) => sum + (leg.feeUsd || 0) * closeSize / leg.filledSize, 0);
       const totalFeesUsd = entryFeesUsd + exitFeesUsd;
+      const netPnlUsd = realizedPnlUsd - totalFeesUsd + fundingUsd;
       
-      // Close the position in state
-      this.stateManager.closePosition(exitGapUsd, realizedPnlBtc);
+      this.stateManager.flipPosition(
+        exitGapUsd,
+        realizedPnlBtc,
+        fundingUsd,
+        entryGapUsd,
+        result.cheapLeg.averagePrice,
+        result.expensiveLeg.averagePrice,
+        openSize,
+        flipFeesUsd - exitFeesUsd, // The opening share is the new position's entry fee
+        fundingEdgeUsd
+      );
+      const flipOrderIds = this.legOrderIds(result.cheapLeg, result.expensiveLeg);
+      this.stateManager.updateOrderIds(result.cheapLeg.orderId, result.expensiveLeg.orderId, flipOrderIds);
       
-      // Log completed trade to disk with fees
       const trade: CompletedTrade = {
         id: `trade-${position.entryTimestamp}`,
+        symbol: this.symbol,
         entryTimestamp: position.entryTimestamp,
         exitTimestamp: Date.now(),
         entryGapUsd: position.entryGapUsd,
         exitGapUsd,
         cheapExchange: position.cheapExchange,
         expensiveExchange: position.expensiveExchange,
-        positionSizeBtc: this.config.positionSizeBtc,
+        positionSizeBtc: closeSize,
         realizedPnlBtc,
         realizedPnlUsd,
+        fundingUsd,
         holdDurationSeconds: Math.floor((Date.now() - position.entryTimestamp) / 1000),
         entryPrices: {
           cheap: position.cheapExchangePrice,
           expensive: position.expensiveExchangePrice
         },
         exitPrices: {
-          long: result.longLeg.averagePrice,
-          short: result.shortLeg.averagePrice
+          long: result.expensiveLeg.averagePrice,
+          short: result.cheapLeg.averagePrice
         },
         fees: {
           entry: entryFeesUsd,
           exit: exitFeesUsd,
           total: totalFeesUsd
+        },
+        orderIds: {
+          entry: position.entryOrderIds || {},
+          exit: flipOrderIds
         }
       };
       
       await this.tradeLogger.logTrade(trade);
       
-      // Log to CSV with detailed information
+      // One row for the whole flip: the flip orders, and the PnL of the position it closed
       const csvEntry: TradeLogEntry = {
         timestamp: new Date().toISOString(),
+        symbol: this.symbol,
         tradeId: trade.id,
-        action: 'EXIT',
+        action: 'FLIP',
         status: 'SUCCESS',
-        entryGapUsd: position.entryGapUsd,
+        entryGapUsd,
         exitGapUsd,
         holdDurationSeconds: trade.holdDurationSeconds,
-        lighterSide: position.cheapExchange === 'lighter' ? 'buy' : 'sell',
-        lighterSize: this.config.positionSizeBtc,
-        lighterPrice: position.cheapExchange === 'lighter' ? position.cheapExchangePrice : position.expensiveExchangePrice,
-        lighterFilled: true,
-        lighterFeeUsd: position.cheapExchange === 'lighter' ? lighterEntryFee : 0,
-        nadoSide: position.cheapExchange === 'nado' ? 'buy' : 'sell',
-        nadoSize: this.config.positionSizeBtc,
-        nadoPrice: position.cheapExchange === 'nado' ? position.cheapExchangePrice : position.expensiveExchangePrice,
-        nadoFilled: true,
-        nadoFeeUsd: nadoEntryFee,
+        legs: [result.cheapLeg, result.expensiveLeg].map(leg => ({
+          venue: leg.venue,
+          side: leg === result.cheapLeg ? 'buy' : 'sell',
+          orderId: leg.orderId,
+          size: leg.filledSize,
+          price: leg.averagePrice,
+          filled: true,
+          feeUsd: leg.feeUsd
+        })),
         grossPnlUsd: realizedPnlUsd,
         totalFeesUsd,
-        netPnlUsd: realizedPnlUsd - totalFeesUsd,
+        netPnlUsd,
         netPnlBtc: realizedPnlBtc,
-        notes: `Entry: ${position.cheapExchange} @ ${position.cheapExchangePrice.toFixed(2)}, ${position.expensiveExchange} @ ${position.expensiveExchangePrice.toFixed(2)}`
+        fundingEdgeUsd,
+        fundingUsd,
+        notes: `Closed LONG ${position.cheapExchange} @ ${position.cheapExchangePrice.toFixed(2)} / SHORT ${position.expensiveExchange} @ ` +
+          `${position.expensiveExchangePrice.toFixed(2)} (entry gap ${position.entryGapUsd.toFixed(2)}); ` +
+          `opened LONG ${position.expensiveExchange} / SHORT ${position.cheapExchange} ${openSize}`
       };
       this.csvLogger.logTrade(csvEntry);
+      this.circuitBreakers.recordRealizedPnl(netPnlUsd);
       
-      // RELEASE LOCK - Exit completed successfully
-      this.isExecutingTrade = false;
-      this.logger.info('🔓 LOCK RELEASED (EXIT) - Bot can now enter new positions');
-      
-      const netPnlUsd = realizedPnlUsd - totalFeesUsd;
       this.logger.info(
-        `✓ SPREAD CLOSED: Exit gap ${exitGapUsd.toFixed(2)} USD, ` +
+        `✓ ${this.symbol} SPREAD FLIPPED: Exit gap ${exitGapUsd.toFixed(2)} USD, ` +
         `Gross PnL: $${realizedPnlUsd.toFixed(2)}, Fees: $${totalFeesUsd.toFixed(2)}, ` +
-        `Net PnL: $${netPnlUsd.toFixed(2)}, ` +
-        `Entry gap was ${position.entryGapUsd.toFixed(2)} USD`
+        `Funding: $${fundingUsd.toFixed(2)}, Net PnL: $${netPnlUsd.toFixed(2)} - ` +
+        `now LONG ${openSize} on ${position.expensiveExchange} @ ${result.cheapLeg.averagePrice.toFixed(2)}, ` +
+        `SHORT on ${position.cheapExchange} @ ${result.expensiveLeg.averagePrice.toFixed(2)} (entry gap ${entryGapUsd.toFixed(2)} USD)`
       );
       
+      this.circuitBreakers.recordSuccess();
+      
+      // RELEASE LOCK - Flip completed successfully
+      this.isExecutingTrade = false;
+      this.logger.info('🔓 LOCK RELEASED (FLIP)');
+      
     } catch (error) {
-      this.logger.error(`FAILED TO EXECUTE EXIT: ${error}`);
+      this.logger.error(`FAILED TO EXECUTE FLIP: ${error}`);
       
       // RELEASE LOCK on error too
       this.isExecutingTrade = false;
-      this.logger.warn('🔓 LOCK RELEASED (exit error occurred)');
+      this.logger.warn('🔓 LOCK RELEASED (flip error occurred)');
       
-      // This is critical - we need to keep trying to close or alert the operator
-      this.logger.error(
-        '\n' +
-        '🚨🚨🚨 CRITICAL ALERT 🚨🚨🚨\n' +
-        '═══════════════════════════════════════════════════════════\n' +
-        '  EXIT FAILED - POSITION MAY BE UNHEDGED!\n' +
-        '  \n' +
-        '  One or both legs may have failed to close.\n' +
-        '  CHECK YOUR POSITIONS IMMEDIATELY:\n' +
-        '  \n' +
-        '  1. Go to Nado and check if SHORT is still open\n' +
-        '  2. Go to Lighter and check if LONG is still open\n' +
-        '  3. If only ONE side closed, you have BTC price exposure!\n' +
-        '  4. Manually close any remaining positions NOW!\n' +
-        '  \n' +
-        '  Error details: ' + error + '\n' +
-        '═══════════════════════════════════════════════════════════\n'
-      );
+      this.stateManager.recordError();
+      this.circuitBreakers.recordError(this.symbol, `flip: ${error}`);
+      this.logger.warn('⚠️  Blocking new trades for 60 seconds after error');
       
-      // Don't change state - keep it as OPEN so bot won't try to enter again
-      this.logger.warn('⚠️  State remains OPEN - bot will NOT enter new trades');
-      this.logger.warn('⚠️  Manually fix positions and restart bot when ready');
+      // A partial flip can leave either direction (or a delta) behind - rebalance, then track what's left
+      const repair = await this.repairHedge('flip');
+      await this.reconcileAfterFailedFlip(position, entryGapUsd, repair);
+    } finally {
+      // The venues account for the position's margin now - drop the reservation
+      this.riskManager.releaseMargin(this.symbol);
     }
   }
   
   /**
-   * Handle emergency situation where only one leg filled.
+   * Bring state in line with the venues after a failed flip: keep the position if the venues
+   * still hold it, otherwise drop it and adopt whatever hedged spread is left.
    */
-  private async handlePartialFillEmergency(): Promise<void> {
-    this.logger.error('Handling partial fill emergency...');
+  private async reconcileAfterFailedFlip(
+    position: SpreadPosition,
+    flipEntryGapUsd: number,
+    repair: HedgeRepairResult | null
+  ): Promise<void> {
+    if (!repair || repair.status === 'killed') {
+      this.logger.error('🚨 FLIP FAILED and hedge repair could not rebalance - CHECK YOUR POSITIONS IMMEDIATELY');
+    }
+    
+    const [longPosition, shortPosition] = await Promise.all([
+      this.getExchange(position.cheapExchange).getPosition(this.symbol),
+      this.getExchange(position.expensiveExchange).getPosition(this.symbol)
+    ]);
+    
+    if (!longPosition && !shortPosition) {
+      this.stateManager.discardPosition('both legs closed during hedge repair after a failed flip');
+      return;
+    }
+    
+    const unchanged = longPosition?.side === 'long' && shortPosition?.side === 'short' &&
+      Math.abs(Math.min(longPosition.size, shortPosition.size) - position.positionSizeBtc) <= 0.001;
+    
+    if (unchanged) {
+      this.logger.warn('⚠️  Flip did not go through - State remains OPEN, exit will be retried');
+      return;
+    }
     
+    // The venues no longer hold the tracked position - whatever spread is left is tracked as a new one
+    const reversed = longPosition?.side === 'short' && shortPosition?.side === 'long';
+    this.stateManager.discardPosition('venues changed by a failed flip');
+    await this.adoptHedgedPosition(reversed ? flipEntryGapUsd : position.entryGapUsd);
+  }
+  
+  /**
+   * Remove any net delta left by a failed entry or exit. Repair orders are logged to the CSV.
+   * Returns null if the repair itself failed.
+   */
+  private async repairHedge(context: 'entry' | 'exit' | 'flip'): Promise<HedgeRepairResult | null> {
     try {
-      // Check positions on both exchanges
-      const [nadoPosition, lighterPosition] = await Promise.all([
-        this.nadoExchange.getPosition(this.symbol),
-        this.lighterExchange.getPosition(this.symbol)
-      ]);
+      const result = await this.hedgeRepairManager.repair(this.symbol);
       
-      // If we have a position on one exchange but not the other, close it immediately
-      if (nadoPosition && !lighterPosition) {
-        this.logger.warn('Detected position on Nado only - closing with market order');
-        const side = nadoPosition.side === 'long' ? 'sell' : 'buy';
-        await this.nadoExchange.placeMarketOrder(
-          this.symbol,
-          side,
-          nadoPosition.size,
-          { reduceOnly: true }
-        );
-        
-        // Log emergency closure to CSV
-        const csvEntry: TradeLogEntry = {
-          timestamp: new Date().toISOString(),
-          tradeId: `emergency-${Date.now()}`,
-          action: 'EMERGENCY_CLOSE',
-          status: 'PARTIAL',
-          nadoSide: side,
-          nadoSize: nadoPosition.size,
-          nadoPrice: nadoPosition.entryPrice,
-          nadoFilled: true,
-          lighterFilled: false,
-          notes: 'Emergency closure: Nado position only (Lighter failed to fill)'
-        };
-        this.csvLogger.logTrade(csvEntry);
-      } else if (lighterPosition && !nadoPosition) {
-        this.logger.warn('Detected position on Lighter only - closing with market order');
-        const side = lighterPosition.side === 'long' ? 'sell' : 'buy';
-        await this.lighterExchange.placeMarketOrder(
-          this.symbol,
-          side,
-          lighterPosition.size,
-          { reduceOnly: true }
-        );
-        
-        // Log emergency closure to CSV
+      for (const action of result.actions) {
         const csvEntry: TradeLogEntry = {
           timestamp: new Date().toISOString(),
-          tradeId: `emergency-${Date.now()}`,
-          action: 'EMERGENCY_CLOSE',
-          status: 'PARTIAL',
-          lighterSide: side,
-          lighterSize: lighterPosition.size,
-          lighterPrice: lighterPosition.entryPrice,
-          lighterFilled: true,
-          nadoFilled: false,
-          notes: 'Emergency closure: Lighter position only (Nado failed to fill)'
+          symbol: this.symbol,
+          tradeId: `hedge-repair-${Date.now()}`,
+          action: action.mode === 'kill_switch' ? 'UNHEDGED_CLOSE' : 'EMERGENCY_CLOSE',
+          status: result.status === 'killed' ? 'UNHEDGED' : 'PARTIAL',
+          legs: [{ venue: action.venue, side: action.side, size: action.filledSize, price: action.averagePrice, filled: action.filledSize > 0 }],
+          notes: `Hedge repair after failed ${context}: ${action.mode} ${action.filledSize}/${action.size} on ${action.exchange}` +
+            (result.reason ? ` (${result.reason})` : '')
         };
         this.csvLogger.logTrade(csvEntry);
       }
       
-      this.logger.info('Partial fill emergency handled');
-      
+      return result;
     } catch (error) {
-      this.logger.error(`Failed to handle partial fill emergency: ${error}`);
+      this.logger.error(`Hedge repair failed: ${error}`);
       this.logger.error('CRITICAL: Manual intervention required!');
+      return null;
     }
   }
   
+  /**
+   * Record a hedged spread left on the venues after a repaired entry, so it is exited normally.
+   */
+  private async adoptHedgedPosition(gapUsd: number, ladderTier?: LadderClipTier): Promise<void> {
+    const [aPosition, bPosition] = await Promise.all([
+      this.venueA.getPosition(this.symbol),
+      this.venueB.getPosition(this.symbol)
+    ]);
+    
+    if (!aPosition || !bPosition || aPosition.side === bPosition.side) {
+      return;
+    }
+    
+    const cheapEx = aPosition.side === 'long' ? this.venueA.id : this.venueB.id;
+    const expEx = aPosition.side === 'long' ? this.venueB.id : this.venueA.id;
+    const longPosition = aPosition.side === 'long' ? aPosition : bPosition;
+    const shortPosition = aPosition.side === 'long' ? bPosition : aPosition;
+    
+    // Laddered: the clip is what the venues hold beyond the clips already tracked. Its prices are
+    // taken from the venues' average entry prices
+    if (ladderTier) {
+      const tracked = this.stateManager.getCurrentPosition()?.positionSizeBtc ?? 0;
+      const clipSize = parseFloat((Math.min(longPosition.size, shortPosition.size) - tracked).toFixed(8));
+      if (clipSize <= 0) {
+        return;
+      }
+      
+      this.logger.warn(`⚠️  Hedge repair left a clip open (${clipSize}) - recording it as ladder tier ${ladderTier.index}`);
+      this.stateManager.addClip(cheapEx, expEx, {
+        tier: ladderTier.index,
+        size: clipSize,
+        entryGapUsd: gapUsd,
+        exitGapUsd: ladderTier.tier.exitGapUsd,
+        entryTimestamp: Date.now(),
+        cheapExchangePrice: longPosition.entryPrice,
+        expensiveExchangePrice: shortPosition.entryPrice
+      });
+      return;
+    }
+    
+    this.logger.warn(
+      `⚠️  Hedge repair left a spread open (LONG ${cheapEx} ${longPosition.size}, SHORT ${expEx} ${shortPosition.size}) ` +
+      `- recording it as the current position`
+    );
+    
+    this.stateManager.openPosition(
+      gapUsd,
+      cheapEx,
+      expEx,
+      Math.min(longPosition.size, shortPosition.size),
+      longPosition.entryPrice,
+      shortPosition.entryPrice
+    );
+  }
+  
   /**
    * Get current strategy status.
    */
   getStatus(): {
+    symbol: string;
     state: string;
     position: any;
     stats: any;
+    thresholds: GapThresholds;
+    circuitBreaker: BreakerTrip | null;
+    lossLimits: LossLimitStatus;
+    liquidation: LiquidationEstimate[];
+    rebalance: RebalanceStatus;
   } {
     return {
+      symbol: this.symbol,
       state: this.stateManager.getState(),
       position: this.stateManager.getCurrentPosition(),
-      stats: this.stateManager.getTradeStats()
+      stats: this.stateManager.getTradeStats(),
+      thresholds: this.thresholdModel.getThresholds(),
+      circuitBreaker: this.circuitBreakers.getTrip(),
+      lossLimits: this.lossLimits.getStatus(),
+      liquidation: this.stateManager.isOpen() ? this.liquidationEstimates : [],
+      rebalance: this.rebalancer.getStatus()
     };
   }
   
@@ -862,6 +1896,21 @@ export class BasisTradingStrategy {
    */
   logStatus(): void {
     this.stateManager.logStatus();
+    this.logger.info(`${this.symbol} thresholds: ${this.thresholdModel.describe()}`);
+    const trip = this.circuitBreakers.getTrip();
+    if (trip) {
+      this.logger.error(`${this.symbol}: Circuit breaker tripped (${trip.breaker}: ${trip.reason}) - entries halted until reset`);
+    }
+    if (this.lossLimits.getStatus().enabled) {
+      this.logger.info(`${this.symbol} loss limits: ${this.lossLimits.describe()}`);
+      const halt = this.lossLimits.getHalt();
+      if (halt) {
+        this.logger.error(`${this.symbol}: Loss limit hit (${halt.limit}: ${halt.reason}) - entries halted until the period resets`);
+      }
+    }
+    if (this.rebalancer.isPending()) {
+      this.logger.warn(`${this.symbol}: Collateral rebalance pending (${this.rebalancer.describePending()}) - entries wait`);
+    }
   }
 }
 
@@ -11,9 +11,15 @@ export class SupabaseTradeLogger extends LocalTradeLogger {
   private supabase!: ReturnType<typeof getSupabaseClient>;
   private useSupabase: boolean = true;
 
-  constructor(logger: Logger, logDir: string = './logs') {
+  constructor(logger: Logger, logDir: string = './logs', useSupabase: boolean = true) {
     super(logger, logDir);
     
+    if (!useSupabase) {
+      this.useSupabase = false;
+      this.logger.info('Supabase logging disabled - local logging only');
+      return;
+    }
+    
     try {
       this.supabase = getSupabaseClient();
       this.logger.info('✅ Supabase connection initialized');
@@ -63,6 +69,7 @@ export class SupabaseTradeLogger extends LocalTradeLogger {
       fees_entry: trade.fees.entry,
       fees_exit: trade.fees.exit,
       fees_total: trade.fees.total,
+      funding_usd: trade.fundingUsd || 0,
     };
 
     const { error } = await this.supabase
@@ -76,6 +83,39 @@ export class SupabaseTradeLogger extends LocalTradeLogger {
     this.logger.info(`💾 Trade ${trade.id} saved to Supabase`);
   }
 
+  /**
+   * Replace a logged trade locally and update its prices, fees and PnL in Supabase
+   */
+  async updateTrade(trade: CompletedTrade): Promise<void> {
+    super.updateTrade(trade);
+
+    if (!this.useSupabase) return;
+
+    try {
+      const { error } = await this.supabase
+        .from('trades')
+        .update({
+          entry_price_cheap: trade.entryPrices.cheap,
+          entry_price_expensive: trade.entryPrices.expensive,
+          exit_price_long: trade.exitPrices.long,
+          exit_price_short: trade.exitPrices.short,
+          fees_entry: trade.fees.entry,
+          fees_exit: trade.fees.exit,
+          fees_total: trade.fees.total,
+          realized_pnl_btc: trade.realizedPnlBtc,
+          realized_pnl_usd: trade.realizedPnlUsd,
+        })
+        .eq('trade_id', trade.id)
+        .eq('exit_timestamp', new Date(trade.exitTimestamp).toISOString());
+
+      if (error) {
+        throw new Error(`Supabase update failed: ${error.message}`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to update trade ${trade.id} in Supabase: ${error}`);
+    }
+  }
+
   /**
    * Log a gap/opportunity to Supabase
    */
@@ -190,6 +230,7 @@ export class SupabaseTradeLogger extends LocalTradeLogger {
     winRate: number;
     totalPnlUsd: number;
     totalFees: number;
+    totalFundingUsd: number;
     netPnlUsd: number;
   }> {
     if (!this.useSupabase) {
@@ -200,6 +241,7 @@ export class SupabaseTradeLogger extends LocalTradeLogger {
         winRate: 0,
         totalPnlUsd: 0,
         totalFees: 0,
+        totalFundingUsd: 0,
         netPnlUsd: 0,
       };
     }
@@ -207,7 +249,7 @@ export class SupabaseTradeLogger extends LocalTradeLogger {
     try {
       const { data, error } = await this.supabase
         .from('trades')
-        .select('realized_pnl_usd, fees_total');
+        .select('realized_pnl_usd, fees_total, funding_usd');
 
       if (error) throw new Error(error.message);
 
@@ -219,6 +261,7 @@ export class SupabaseTradeLogger extends LocalTradeLogger {
           winRate: 0,
           totalPnlUsd: 0,
           totalFees: 0,
+          totalFundingUsd: 0,
           netPnlUsd: 0,
         };
       }
@@ -226,8 +269,11 @@ export class SupabaseTradeLogger extends LocalTradeLogger {
       const totalTrades = data.length;
       const totalPnlUsd = data.reduce((sum, t) => sum + Number(t.realized_pnl_usd), 0);
       const totalFees = data.reduce((sum, t) => sum + Number(t.fees_total), 0);
-      const netPnlUsd = totalPnlUsd - totalFees;
-      const winningTrades = data.filter(t => (Number(t.realized_pnl_usd) - Number(t.fees_total)) > 0).length;
+      const totalFundingUsd = data.reduce((sum, t) => sum + Number(t.funding_usd || 0), 0);
+      const netPnlUsd = totalPnlUsd - totalFees + totalFundingUsd;
+      const winningTrades = data.filter(
+        t => (Number(t.realized_pnl_usd) - Number(t.fees_total) + Number(t.funding_usd || 0)) > 0
+      ).length;
       const losingTrades = totalTrades - winningTrades;
       const winRate = winningTrades / totalTrades;
 
@@ -238,6 +284,7 @@ export class SupabaseTradeLogger extends LocalTradeLogger {
         winRate,
         totalPnlUsd,
         totalFees,
+        totalFundingUsd,
         netPnlUsd,
       };
     } catch (error) {
@@ -249,6 +296,7 @@ export class SupabaseTradeLogger extends LocalTradeLogger {
         winRate: 0,
         totalPnlUsd: 0,
         totalFees: 0,
+        totalFundingUsd: 0,
         netPnlUsd: 0,
       };
     }
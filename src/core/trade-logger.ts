@@ -7,8 +7,26 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { Logger } from '../utils/logger';
 
+/** What reconciling a trade against the venues' reported fills found */
+export interface TradeReconciliation {
+  status: 'reconciled' | 'unmatched'; // Unmatched: fills for some leg never showed up
+  reconciledAt: number;
+  missing?: string[]; // Legs without fills, e.g. "entry long on nado"
+  // The bot's own figures, kept when they are replaced by the reported ones
+  estimated?: {
+    entryPrices: CompletedTrade['entryPrices'];
+    exitPrices: CompletedTrade['exitPrices'];
+    fees: CompletedTrade['fees'];
+    realizedPnlUsd: number;
+  };
+  pnlDriftUsd?: number; // Reported net PnL minus estimated
+  priceDriftBps?: number; // Largest fill price difference of any leg
+  flagged?: boolean; // Drift above the reconciliation limits
+}
+
 export interface CompletedTrade {
   id: string;
+  symbol?: string; // Unset on trades logged before multi-market support
   entryTimestamp: number;
   exitTimestamp: number;
   entryGapUsd: number;
@@ -18,6 +36,7 @@ export interface CompletedTrade {
   positionSizeBtc: number;
   realizedPnlBtc: number;
   realizedPnlUsd: number;
+  fundingUsd?: number; // Funding received (+) or paid (-) while the position was open
   holdDurationSeconds: number;
   entryPrices: {
     cheap: number;
@@ -32,6 +51,12 @@ export interface CompletedTrade {
     exit: number;
     total: number;
   };
+  // Orders that filled each leg, by venue - unset on trades logged before fill reconciliation
+  orderIds?: {
+    entry: Record<string, string[]>;
+    exit: Record<string, string[]>;
+  };
+  reconciliation?: TradeReconciliation;
 }
 
 export class TradeLogger {
@@ -66,12 +91,31 @@ export class TradeLogger {
       this.logger.info(`📝 Trade logged: ${trade.id}`);
       this.logger.info(`   P&L: ${trade.realizedPnlBtc.toFixed(6)} BTC ($${trade.realizedPnlUsd.toFixed(2)})`);
       this.logger.info(`   Fees: $${trade.fees.total.toFixed(2)}`);
+      this.logger.info(`   Funding: $${(trade.fundingUsd || 0).toFixed(2)}`);
       this.logger.info(`   Hold: ${trade.holdDurationSeconds}s`);
     } catch (error) {
       this.logger.error(`Failed to log trade: ${error}`);
     }
   }
   
+  /**
+   * Replace a logged trade (same id and exit time) with an updated copy
+   */
+  updateTrade(trade: CompletedTrade): void {
+    try {
+      const trades = this.loadTrades();
+      const index = trades.findIndex(t => t.id === trade.id && t.exitTimestamp === trade.exitTimestamp);
+      if (index < 0) {
+        this.logger.warn(`Trade ${trade.id} not found in the trade log - not updated`);
+        return;
+      }
+      trades[index] = trade;
+      this.saveTrades(trades);
+    } catch (error) {
+      this.logger.error(`Failed to update trade ${trade.id}: ${error}`);
+    }
+  }
+  
   /**
    * Get all trades from disk
    */
@@ -100,6 +144,7 @@ export class TradeLogger {
     totalPnlBtc: number;
     totalPnlUsd: number;
     totalFees: number;
+    totalFundingUsd: number;
     netPnlUsd: number;
     winningTrades: number;
     losingTrades: number;
@@ -115,6 +160,7 @@ export class TradeLogger {
         totalPnlBtc: 0,
         totalPnlUsd: 0,
         totalFees: 0,
+        totalFundingUsd: 0,
         netPnlUsd: 0,
         winningTrades: 0,
         losingTrades: 0,
@@ -127,8 +173,9 @@ export class TradeLogger {
     const totalPnlBtc = trades.reduce((sum, t) => sum + t.realizedPnlBtc, 0);
     const totalPnlUsd = trades.reduce((sum, t) => sum + t.realizedPnlUsd, 0);
     const totalFees = trades.reduce((sum, t) => sum + t.fees.total, 0);
-    const netPnlUsd = totalPnlUsd - totalFees;
-    const winningTrades = trades.filter(t => (t.realizedPnlUsd - t.fees.total) > 0).length;
+    const totalFundingUsd = trades.reduce((sum, t) => sum + (t.fundingUsd || 0), 0);
+    const netPnlUsd = totalPnlUsd - totalFees + totalFundingUsd;
+    const winningTrades = trades.filter(t => (t.realizedPnlUsd - t.fees.total + (t.fundingUsd || 0)) > 0).length;
     const losingTrades = trades.length - winningTrades;
     const winRate = winningTrades / trades.length;
     const avgHoldDuration = trades.reduce((sum, t) => sum + t.holdDurationSeconds, 0) / trades.length;
@@ -139,6 +186,7 @@ export class TradeLogger {
       totalPnlBtc,
       totalPnlUsd,
       totalFees,
+      totalFundingUsd,
       netPnlUsd,
       winningTrades,
       losingTrades,
@@ -164,6 +212,7 @@ export class TradeLogger {
     console.log('');
     console.log(`Gross P&L: ${stats.totalPnlBtc.toFixed(6)} BTC ($${stats.totalPnlUsd.toFixed(2)})`);
     console.log(`Total Fees: $${stats.totalFees.toFixed(2)}`);
+    console.log(`Funding: $${stats.totalFundingUsd.toFixed(2)}`);
     console.log(`Net P&L: $${stats.netPnlUsd.toFixed(2)}`);
     console.log('');
     console.log(`Avg Hold Duration: ${Math.floor(stats.avgHoldDuration / 60)}m ${Math.floor(stats.avgHoldDuration % 60)}s`);
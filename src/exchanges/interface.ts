@@ -1,5 +1,5 @@
 /**
- * Common exchange interface for Nado and Lighter.
+ * Common exchange interface every venue adapter implements (Nado, Lighter, the simulator).
  */
 
 import { 
@@ -7,18 +7,56 @@ import {
   Position, 
   OrderBook, 
   FundingRate, 
-  MarketData 
+  FundingPayment,
+  Fill,
+  MarketData,
+  MarketInfo,
+  MarketSpec,
+  OrderOptions,
+  OrderRequest,
+  TimeInForce,
+  ExchangeCapabilities,
+  VenueFees,
+  VenueId
 } from '../config/types';
 import { Logger } from '../utils/logger';
 
+/**
+ * An order's time-in-force, with the defaults filled in.
+ */
+export function getTimeInForce(request: Pick<OrderRequest, 'type' | 'timeInForce'>): TimeInForce {
+  return request.timeInForce ?? (request.type === 'market' ? 'ioc' : 'gtc');
+}
+
 export interface IExchange {
   readonly name: string;
   
+  /**
+   * Venue ID the exchange is registered under (see ExchangeRegistry)
+   */
+  readonly id: VenueId;
+  
   /**
    * Initialize the exchange connection (WebSocket, auth, etc.)
    */
   initialize(): Promise<void>;
   
+  /**
+   * Fetch the markets the exchange lists (ids, tick and lot sizes). Called by initialize()
+   */
+  loadMarkets(): Promise<MarketInfo[]>;
+  
+  /**
+   * Metadata for a listed market - throws if the exchange doesn't list it
+   */
+  getMarketInfo(symbol: string): MarketInfo;
+  
+  /**
+   * What orders on a listed market must satisfy (increments, minimums, time-in-force) and
+   * the fees they pay - throws if the exchange doesn't list it
+   */
+  getMarketSpec(symbol: string): MarketSpec;
+  
   /**
    * Get current mark price for the symbol
    */
@@ -35,29 +73,48 @@ export interface IExchange {
   getFundingRate(symbol: string): Promise<FundingRate>;
   
   /**
-   * Get order book with depth
+   * Funding paid or received on the symbol's position since `since` (ms), oldest first.
+   * Throws if the account's funding history can't be read
+   */
+  getFundingPayments(symbol: string, since: number): Promise<FundingPayment[]>;
+  
+  /**
+   * Our fills on the symbol since `since` (ms), oldest first, with the fee each paid.
+   * Throws if the account's trade history can't be read
+   */
+  getFills(symbol: string, since: number): Promise<Fill[]>;
+  
+  /**
+   * Get order book with depth.
+   * Levels are [price, size] in BTC, bids best (highest) first, asks best (lowest) first.
    */
   getOrderBook(symbol: string, depth?: number): Promise<OrderBook>;
   
   /**
-   * Place a limit order
+   * Place an order. Throws if the venue doesn't support its time-in-force
+   * (see getMarketSpec().capabilities)
+   */
+  placeOrder(request: OrderRequest): Promise<Order>;
+  
+  /**
+   * Place a limit order (gtc unless the options say otherwise)
    */
   placeLimitOrder(
     symbol: string,
     side: 'buy' | 'sell',
     size: number,
     price: number,
-    options?: { postOnly?: boolean; reduceOnly?: boolean }
+    options?: OrderOptions
   ): Promise<Order>;
   
   /**
-   * Place a market order
+   * Place a market order (ioc)
    */
   placeMarketOrder(
     symbol: string,
     side: 'buy' | 'sell',
     size: number,
-    options?: { reduceOnly?: boolean }
+    options?: Pick<OrderOptions, 'clientOrderId' | 'reduceOnly'>
   ): Promise<Order>;
   
   /**
@@ -70,6 +127,13 @@ export interface IExchange {
    */
   getOrder(symbol: string, orderId: string): Promise<Order>;
   
+  /**
+   * Find an order by the client order ID it was placed with - null if the venue has no such
+   * order (without reliableOrderLookup, a fresh one may not show yet). Throws when the venue
+   * can't tell
+   */
+  getOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null>;
+  
   /**
    * Get all open positions
    */
@@ -109,35 +173,31 @@ export interface IExchange {
 }
 
 export abstract class BaseExchange implements IExchange {
+  public readonly id: VenueId;
   protected logger: Logger;
+  protected markets: Map<string, MarketInfo> = new Map(); // symbol -> listing, filled by loadMarkets()
   
   constructor(
     public readonly name: string,
-    logger: Logger
+    logger: Logger,
+    id?: VenueId // Default: the name in lower case
   ) {
+    this.id = id || name.toLowerCase();
     this.logger = logger;
   }
   
   abstract initialize(): Promise<void>;
+  abstract loadMarkets(): Promise<MarketInfo[]>;
   abstract getMarkPrice(symbol: string): Promise<number>;
   abstract getMarketData(symbol: string): Promise<MarketData>;
   abstract getFundingRate(symbol: string): Promise<FundingRate>;
+  abstract getFundingPayments(symbol: string, since: number): Promise<FundingPayment[]>;
+  abstract getFills(symbol: string, since: number): Promise<Fill[]>;
   abstract getOrderBook(symbol: string, depth?: number): Promise<OrderBook>;
-  abstract placeLimitOrder(
-    symbol: string,
-    side: 'buy' | 'sell',
-    size: number,
-    price: number,
-    options?: { postOnly?: boolean; reduceOnly?: boolean }
-  ): Promise<Order>;
-  abstract placeMarketOrder(
-    symbol: string,
-    side: 'buy' | 'sell',
-    size: number,
-    options?: { reduceOnly?: boolean }
-  ): Promise<Order>;
+  abstract placeOrder(request: OrderRequest): Promise<Order>;
   abstract cancelOrder(symbol: string, orderId: string): Promise<void>;
   abstract getOrder(symbol: string, orderId: string): Promise<Order>;
+  abstract getOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null>;
   abstract getOpenPositions(): Promise<Position[]>;
   abstract getPosition(symbol: string): Promise<Position | null>;
   abstract getAccountInfo(): Promise<{
@@ -151,5 +211,107 @@ export abstract class BaseExchange implements IExchange {
   ): Promise<void>;
   abstract unsubscribeFromMarketData(symbol: string): Promise<void>;
   abstract close(): Promise<void>;
+  
+  /**
+   * What the venue's order API honors
+   */
+  protected abstract getCapabilities(): ExchangeCapabilities;
+  
+  /**
+   * Fees the account pays on this venue
+   */
+  protected abstract getFees(): VenueFees;
+  
+  placeLimitOrder(
+    symbol: string,
+    side: 'buy' | 'sell',
+    size: number,
+    price: number,
+    options?: OrderOptions
+  ): Promise<Order> {
+    return this.placeOrder({ ...options, symbol, side, type: 'limit', size, price });
+  }
+  
+  placeMarketOrder(
+    symbol: string,
+    side: 'buy' | 'sell',
+    size: number,
+    options?: Pick<OrderOptions, 'clientOrderId' | 'reduceOnly'>
+  ): Promise<Order> {
+    return this.placeOrder({ ...options, symbol, side, type: 'market', size });
+  }
+  
+  getMarketInfo(symbol: string): MarketInfo {
+    const market = this.markets.get(symbol);
+    if (!market) {
+      throw new Error(`${this.name}: Market ${symbol} is not listed (or markets not loaded)`);
+    }
+    return market;
+  }
+  
+  getMarketSpec(symbol: string): MarketSpec {
+    const market = this.getMarketInfo(symbol);
+    return {
+      ...market,
+      minNotional: market.minNotional ?? 0,
+      fees: this.getFees(),
+      capabilities: this.getCapabilities()
+    };
+  }
+  
+  /**
+   * Check an order request against what the venue supports and return its time-in-force.
+   * Throws for an unsupported time-in-force, a gtt order without a future expiry, a limit
+   * order without a price or a client order ID that isn't an integer.
+   */
+  protected checkOrderRequest(request: OrderRequest): TimeInForce {
+    const timeInForce = getTimeInForce(request);
+    const label = `${this.name}: ${request.type} ${request.side} ${request.size} ${request.symbol}`;
+    
+    const supported = this.getCapabilities().timeInForce;
+    if (!supported.includes(timeInForce)) {
+      throw new Error(`${label} rejected: ${timeInForce} orders are not supported (supported: ${supported.join(', ')})`);
+    }
+    if (request.type === 'market' && timeInForce !== 'ioc' && timeInForce !== 'fok') {
+      throw new Error(`${label} rejected: market orders are ioc or fok, not ${timeInForce}`);
+    }
+    if (request.type === 'limit' && !(request.price !== undefined && request.price > 0)) {
+      throw new Error(`${label} rejected: limit orders need a price`);
+    }
+    if (timeInForce === 'gtt' && !(request.expiresAt !== undefined && request.expiresAt > Date.now())) {
+      throw new Error(`${label} rejected: gtt orders need an expiresAt in the future`);
+    }
+    if (request.clientOrderId !== undefined && !/^\d+$/.test(request.clientOrderId)) {
+      throw new Error(`${label} rejected: client order ID ${request.clientOrderId} is not an integer`);
+    }
+    return timeInForce;
+  }
+  
+  /**
+   * Replace the known markets with a fresh listing.
+   */
+  protected setMarkets(markets: MarketInfo[]): MarketInfo[] {
+    this.markets = new Map(markets.map(market => [market.symbol, market]));
+    return markets;
+  }
+  
+  /**
+   * Build an OrderBook from raw levels: drops invalid levels and sorts both
+   * sides best first, so consumers can walk the book without re-checking.
+   */
+  protected normalizeOrderBook(
+    bids: [number, number][],
+    asks: [number, number][],
+    timestamp: number = Date.now()
+  ): OrderBook {
+    const valid = ([price, size]: [number, number]) =>
+      isFinite(price) && isFinite(size) && price > 0 && size > 0;
+    
+    return {
+      bids: bids.filter(valid).sort((a, b) => b[0] - a[0]),
+      asks: asks.filter(valid).sort((a, b) => a[0] - b[0]),
+      timestamp
+    };
+  }
 }
 
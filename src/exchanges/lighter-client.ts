@@ -0,0 +1,281 @@
+/**
+ * Lighter transaction client.
+ * Signs order and cancel transactions with a LighterSigner and sends them to sendTx. Every
+ * transaction takes the account's next nonce; the nonce manager caches it, signs and sends one
+ * transaction at a time, and reads it from the API again after a transaction is rejected or
+ * gets no answer - so orders sent together (both entry legs, a hedge repair) can't race for
+ * the same nonce.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { OrderSide, TimeInForce } from '../config/types';
+import { Logger } from '../utils/logger';
+import { LighterSigner, SignedLighterTx } from './lighter-signer';
+
+// Auth tokens are valid for up to 8 hours; refresh well before that
+const AUTH_TOKEN_TTL_SECONDS = 3600;
+
+// Signer time_in_force values
+const TIF_IOC = 0;
+const TIF_GTT = 1;
+const TIF_POST_ONLY = 2;
+
+// Signer expiry values: IOC orders take 0, -1 is the venue's default lifetime (28 days)
+const IOC_EXPIRY = 0;
+const DEFAULT_EXPIRY = -1;
+
+// Client order indexes are 48-bit
+const MAX_CLIENT_ORDER_INDEX = 2 ** 48 - 1;
+
+// Market orders are IOC limits this far through the touch
+const MARKET_ORDER_CROSS = 0.001;
+
+export interface LighterClientConfig {
+  baseUrl: string;
+  accountIndex: number;
+  apiKeyIndex: number;
+}
+
+export interface LighterOrderOptions {
+  timeInForce?: TimeInForce; // gtc (default), ioc, post_only or gtt (with expiresAt)
+  expiresAt?: number; // ms timestamp
+  reduceOnly?: boolean;
+  clientOrderId?: string; // Becomes the order's client_order_index
+}
+
+export interface LighterOrderResult {
+  txHash: string;
+  orderId: string; // The client_order_index - orders are looked up by it
+}
+
+/** Price and size increments of a market */
+export interface LighterIncrements {
+  tickSize: number;
+  lotSize: number;
+}
+
+/**
+ * The account's transaction nonces. Transactions run one at a time with the cached next nonce;
+ * a transaction that fails - rejected, unanswered, or not signed - leaves the nonce unknown,
+ * and the next one reads it from the API first.
+ */
+export class LighterNonceManager {
+  private fetchNonce: () => Promise<number>;
+  private logger: Logger;
+  private nextNonce: number | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(fetchNonce: () => Promise<number>, logger: Logger) {
+    this.fetchNonce = fetchNonce;
+    this.logger = logger;
+  }
+
+  /**
+   * Run `submit` with the next nonce once every earlier transaction has finished. The nonce
+   * counts as used when `submit` resolves.
+   */
+  withNonce<T>(submit: (nonce: number) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      if (this.nextNonce === null) {
+        this.nextNonce = await this.fetchNonce();
+        this.logger.debug(`Lighter: Nonce synced from the API: ${this.nextNonce}`);
+      }
+
+      const nonce = this.nextNonce;
+      try {
+        const result = await submit(nonce);
+        this.nextNonce = nonce + 1;
+        return result;
+      } catch (error) {
+        this.resync();
+        throw error;
+      }
+    });
+    this.queue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Read the nonce from the API before the next transaction.
+   */
+  resync(): void {
+    this.nextNonce = null;
+  }
+}
+
+/**
+ * Signer time_in_force and expiry for an order's time-in-force.
+ */
+function orderTiming(timeInForce: TimeInForce | undefined, expiresAt: number | undefined): { tif: number; expiry: number } {
+  switch (timeInForce) {
+    case 'ioc':
+      return { tif: TIF_IOC, expiry: IOC_EXPIRY };
+    case 'post_only':
+      return { tif: TIF_POST_ONLY, expiry: expiresAt ?? DEFAULT_EXPIRY };
+    case 'gtt':
+      if (!expiresAt) {
+        throw new Error('gtt orders need expiresAt');
+      }
+      return { tif: TIF_GTT, expiry: expiresAt };
+    case 'gtc':
+    case undefined:
+      return { tif: TIF_GTT, expiry: expiresAt ?? DEFAULT_EXPIRY };
+    default:
+      throw new Error(`Unsupported time in force: ${timeInForce}`);
+  }
+}
+
+function clientOrderIndexFor(clientOrderId: string | undefined): number {
+  if (clientOrderId === undefined) {
+    return Math.floor(Math.random() * 1000000);
+  }
+  const index = Number(clientOrderId);
+  if (!Number.isInteger(index) || index < 0 || index > MAX_CLIENT_ORDER_INDEX) {
+    throw new Error(`Invalid client order index: ${clientOrderId}`);
+  }
+  return index;
+}
+
+export class LighterClient {
+  private config: LighterClientConfig;
+  private signer: LighterSigner;
+  private logger: Logger;
+  private http: AxiosInstance;
+  private nonces: LighterNonceManager;
+  private authToken: string | null = null;
+  private authTokenExpiry: number = 0;
+
+  constructor(config: LighterClientConfig, signer: LighterSigner, logger: Logger) {
+    this.config = config;
+    this.signer = signer;
+    this.logger = logger;
+    this.http = axios.create({ baseURL: config.baseUrl, timeout: 10000 });
+    this.nonces = new LighterNonceManager(() => this.fetchNonce(), logger);
+  }
+
+  async initialize(): Promise<void> {
+    await this.signer.initialize();
+    this.nonces.resync();
+  }
+
+  /**
+   * Sign and send a limit order (type 0). Size and price are converted to the market's
+   * integer units with its increments.
+   */
+  async placeLimitOrder(
+    marketId: number,
+    side: OrderSide,
+    size: number,
+    price: number,
+    increments: LighterIncrements,
+    options: LighterOrderOptions = {}
+  ): Promise<LighterOrderResult> {
+    const { tif, expiry } = orderTiming(options.timeInForce, options.expiresAt);
+    const clientOrderIndex = clientOrderIndexFor(options.clientOrderId);
+    const baseAmount = Math.floor(size / increments.lotSize + 1e-9);
+    const priceUnits = Math.floor(price / increments.tickSize + 1e-9);
+
+    this.logger.debug(
+      `Lighter: Signing ${side} ${size} (baseAmount ${baseAmount}) @ ${price} (priceUnits ${priceUnits}), ` +
+      `${options.timeInForce || 'gtc'}, client order index ${clientOrderIndex}`
+    );
+
+    const response = await this.sendTx('Order', nonce => this.signer.signCreateOrder({
+      marketIndex: marketId,
+      clientOrderIndex,
+      baseAmount,
+      price: priceUnits,
+      isAsk: side === 'sell',
+      orderType: 0,
+      timeInForce: tif,
+      reduceOnly: !!options.reduceOnly,
+      triggerPrice: 0,
+      orderExpiry: expiry
+    }, nonce));
+
+    return { txHash: response.tx_hash, orderId: String(clientOrderIndex) };
+  }
+
+  /**
+   * A market order as an aggressive limit through the touch - IOC unless the options say
+   * otherwise, so whatever doesn't fill right away is cancelled.
+   */
+  async placeMarketOrder(
+    marketId: number,
+    side: OrderSide,
+    size: number,
+    increments: LighterIncrements,
+    options: LighterOrderOptions = {}
+  ): Promise<LighterOrderResult> {
+    const book = await this.http.get('/api/v1/orderBookOrders', { params: { market_id: marketId, limit: 1 } });
+    const price = side === 'buy'
+      ? parseFloat(book.data.asks[0].price) * (1 + MARKET_ORDER_CROSS)
+      : parseFloat(book.data.bids[0].price) * (1 - MARKET_ORDER_CROSS);
+
+    return this.placeLimitOrder(marketId, side, size, price, increments, {
+      ...options,
+      timeInForce: options.timeInForce || 'ioc'
+    });
+  }
+
+  /**
+   * Cancel a resting order by its exchange-assigned order_index.
+   */
+  async cancelOrder(marketId: number, orderIndex: number): Promise<{ txHash: string }> {
+    const response = await this.sendTx('Cancel', nonce => this.signer.signCancelOrder({
+      marketIndex: marketId,
+      orderIndex
+    }, nonce));
+    return { txHash: response.tx_hash };
+  }
+
+  /**
+   * Auth token for the account-scoped read endpoints. Cached until shortly before it expires.
+   */
+  getAuthToken(): string {
+    const now = Math.floor(Date.now() / 1000);
+    if (this.authToken && now < this.authTokenExpiry - 60) {
+      return this.authToken;
+    }
+
+    const deadline = now + AUTH_TOKEN_TTL_SECONDS;
+    this.authToken = this.signer.createAuthToken(deadline);
+    this.authTokenExpiry = deadline;
+    return this.authToken;
+  }
+
+  /**
+   * Sign a transaction with the next nonce and send it. Throws on a rejection, which also
+   * resyncs the nonce.
+   */
+  private sendTx(label: string, sign: (nonce: number) => SignedLighterTx): Promise<any> {
+    return this.nonces.withNonce(async nonce => {
+      const signed = sign(nonce);
+
+      const params = new URLSearchParams();
+      params.append('tx_type', signed.txType.toString());
+      params.append('tx_info', signed.txInfo);
+      params.append('account_index', this.config.accountIndex.toString());
+      params.append('api_key_index', this.config.apiKeyIndex.toString());
+
+      const response = await this.http.post('/api/v1/sendTx', params.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      });
+      if (response.data?.code !== 200) {
+        throw new Error(`${label} failed (nonce ${nonce}): ${JSON.stringify(response.data)}`);
+      }
+      return response.data;
+    });
+  }
+
+  private async fetchNonce(): Promise<number> {
+    const response = await this.http.get('/api/v1/nextNonce', {
+      params: { account_index: this.config.accountIndex, api_key_index: this.config.apiKeyIndex }
+    });
+    const nonce = Number(response.data?.nonce);
+    if (!Number.isInteger(nonce)) {
+      throw new Error(`nextNonce returned no nonce: ${JSON.stringify(response.data)}`);
+    }
+    return nonce;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Lighter transaction signers.
+ * Lighter transactions are signed with the account's API key by Lighter's signer library. The
+ * Lighter client only needs the operations below, so the signer sits behind an interface: the
+ * bundled shared library through FFI (Windows DLL, or the Linux/macOS builds of the same
+ * library), or any other implementation - a pure TypeScript signer - passed to LighterExchange.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** A signed transaction, ready for sendTx */
+export interface SignedLighterTx {
+  txType: number;
+  txInfo: string; // JSON
+  txHash?: string;
+}
+
+/** Order fields in Lighter's integer units */
+export interface LighterCreateOrderTx {
+  marketIndex: number;
+  clientOrderIndex: number;
+  baseAmount: number; // Size in lots
+  price: number; // Price in ticks
+  isAsk: boolean;
+  orderType: number; // 0 = limit, 1 = market
+  timeInForce: number; // 0 = IOC, 1 = GTT, 2 = post-only
+  reduceOnly: boolean;
+  triggerPrice: number;
+  orderExpiry: number; // ms timestamp, 0 for IOC, -1 for the venue's default lifetime
+}
+
+export interface LighterCancelOrderTx {
+  marketIndex: number;
+  orderIndex: number; // Exchange-assigned order_index
+}
+
+/** The API key a signer signs with */
+export interface LighterSignerCredentials {
+  baseUrl: string;
+  apiPrivateKey: string;
+  chainId: number;
+  apiKeyIndex: number;
+  accountIndex: number;
+}
+
+export interface LighterSigner {
+  readonly name: string;
+
+  /**
+   * Load the key and check it against the API. Called once before anything is signed
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Sign an order with a nonce. Throws if it can't be signed
+   */
+  signCreateOrder(order: LighterCreateOrderTx, nonce: number): SignedLighterTx;
+
+  /**
+   * Sign a cancel with a nonce. Throws if it can't be signed
+   */
+  signCancelOrder(cancel: LighterCancelOrderTx, nonce: number): SignedLighterTx;
+
+  /**
+   * Auth token for the account-scoped read endpoints, valid until `deadline` (unix seconds)
+   */
+  createAuthToken(deadline: number): string;
+}
+
+// Lighter's signer builds, by Node platform and architecture
+const SIGNER_LIBRARIES: Record<string, string> = {
+  'win32-x64': 'lighter-signer-windows-amd64.dll',
+  'linux-x64': 'lighter-signer-linux-amd64.so',
+  'linux-arm64': 'lighter-signer-linux-arm64.so',
+  'darwin-arm64': 'lighter-signer-darwin-arm64.dylib'
+};
+
+/**
+ * The signer library for this platform in the repository root.
+ */
+export function defaultSignerLibrary(): string {
+  const file = SIGNER_LIBRARIES[`${process.platform}-${process.arch}`];
+  if (!file) {
+    throw new Error(`No Lighter signer library for ${process.platform}-${process.arch} - set signerLibrary`);
+  }
+  return path.resolve(__dirname, '..', '..', file);
+}
+
+/**
+ * Lighter's signer library through FFI. The library keeps the key once CreateClient has run,
+ * so every call after initialize() only passes the key and account indexes.
+ */
+export class FfiLighterSigner implements LighterSigner {
+  readonly name = 'ffi';
+  private credentials: LighterSignerCredentials;
+  private libraryPath: string;
+  private library: any = null;
+
+  constructor(credentials: LighterSignerCredentials, libraryPath: string = defaultSignerLibrary()) {
+    this.credentials = credentials;
+    this.libraryPath = libraryPath;
+  }
+
+  async initialize(): Promise<void> {
+    const library = this.load();
+    const { baseUrl, apiPrivateKey, chainId, apiKeyIndex, accountIndex } = this.credentials;
+
+    const createErr = library.CreateClient(baseUrl, apiPrivateKey, chainId, apiKeyIndex, accountIndex);
+    if (createErr) {
+      throw new Error(`Failed to create client: ${createErr}`);
+    }
+
+    const checkErr = library.CheckClient(apiKeyIndex, accountIndex);
+    if (checkErr) {
+      throw new Error(`Failed to verify API key: ${checkErr}`);
+    }
+  }
+
+  signCreateOrder(order: LighterCreateOrderTx, nonce: number): SignedLighterTx {
+    return this.signed(this.load().SignCreateOrder(
+      order.marketIndex,
+      order.clientOrderIndex,
+      order.baseAmount,
+      order.price,
+      order.isAsk ? 1 : 0,
+      order.orderType,
+      order.timeInForce,
+      order.reduceOnly ? 1 : 0,
+      order.triggerPrice,
+      order.orderExpiry,
+      nonce,
+      this.credentials.apiKeyIndex,
+      this.credentials.accountIndex
+    ));
+  }
+
+  signCancelOrder(cancel: LighterCancelOrderTx, nonce: number): SignedLighterTx {
+    return this.signed(this.load().SignCancelOrder(
+      cancel.marketIndex,
+      cancel.orderIndex,
+      nonce,
+      this.credentials.apiKeyIndex,
+      this.credentials.accountIndex
+    ));
+  }
+
+  createAuthToken(deadline: number): string {
+    const result = this.load().CreateAuthToken(deadline, this.credentials.apiKeyIndex, this.credentials.accountIndex);
+    if (result.err) {
+      throw new Error(`Failed to create auth token: ${result.err}`);
+    }
+    return result.str;
+  }
+
+  private signed(response: any): SignedLighterTx {
+    if (response.err) {
+      throw new Error(`Signing failed: ${response.err}`);
+    }
+    return { txType: response.txType, txInfo: response.txInfo, txHash: response.txHash || undefined };
+  }
+
+  /**
+   * Bind the library on first use - the FFI modules are native and only needed for live trading.
+   */
+  private load(): any {
+    if (this.library) {
+      return this.library;
+    }
+    if (!fs.existsSync(this.libraryPath)) {
+      throw new Error(`Lighter signer library not found: ${this.libraryPath}`);
+    }
+
+    const ffi = require('ffi-napi');
+    const ref = require('ref-napi');
+    const Struct = require('ref-struct-napi');
+
+    const SignedTxResponse = Struct({
+      txType: ref.types.uint8,
+      txInfo: ref.types.CString,
+      txHash: ref.types.CString,
+      messageToSign: ref.types.CString,
+      err: ref.types.CString
+    });
+    const StrOrErr = Struct({
+      str: ref.types.CString,
+      err: ref.types.CString
+    });
+
+    this.library = ffi.Library(this.libraryPath, {
+      CreateClient: ['string', ['string', 'string', 'int', 'int', 'int64']],
+      CheckClient: ['string', ['int', 'int64']],
+      SignCreateOrder: [SignedTxResponse, [
+        'int', // market_index
+        'int64', // client_order_index
+        'int64', // base_amount
+        'int', // price
+        'int', // is_ask
+        'int', // type
+        'int', // time_in_force
+        'int', // reduce_only
+        'int', // trigger_price
+        'int64', // expiry
+        'int64', // nonce
+        'int', // api_key_index
+        'int64' // account_index
+      ]],
+      SignCancelOrder: [SignedTxResponse, ['int', 'int64', 'int64', 'int', 'int64']],
+      CreateAuthToken: [StrOrErr, ['int64', 'int', 'int64']]
+    });
+    return this.library;
+  }
+}
@@ -1,43 +1,73 @@
 /**
  * Lighter Exchange Adapter (Mantle Network)
  * 
- * This implementation uses REST API with API key authentication.
+ * This implementation uses REST API with API key authentication, and the
+ * order_book WebSocket channel for live market data.
  * No SDK/WASM dependencies to avoid compatibility issues.
  */
 
 import axios, { AxiosInstance } from 'axios';
-const LighterOrderClient = require('../../lighter-order.js');
 import { BaseExchange } from './interface';
 import { 
   Order, 
   Position, 
   OrderBook, 
   FundingRate, 
+  FundingPayment,
+  Fill,
   MarketData,
-  ExchangeConfig 
+  MarketInfo,
+  ExchangeConfig,
+  ExchangeCapabilities,
+  MarketDataConfig,
+  OrderRequest,
+  TimeInForce,
+  VenueFees
 } from '../config/types';
 import { Logger } from '../utils/logger';
 import { retryWithBackoff } from '../utils/retry';
+import { ReconnectingWebSocket, DEFAULT_MARKET_DATA_CONFIG } from './websocket-feed';
+import { LocalOrderBook } from './local-order-book';
+import { LighterClient } from './lighter-client';
+import { FfiLighterSigner, LighterSigner } from './lighter-signer';
+
+/** Local book state for one market on the order_book channel */
+interface LighterBookState {
+  symbol: string;
+  book: LocalOrderBook;
+  lastNonce: number | null; // nonce of the last applied message
+  lastOffset: number | null; // Fallback sequencing when nonces are absent
+  inverted: boolean; // Snapshot arrived with bids/asks swapped (same API quirk as REST)
+}
+
+/** Margin fraction from hundredths of a percent, or undefined when the venue doesn't report it */
+function marginFraction(value: unknown): number | undefined {
+  const fraction = Number(value) / 10000;
+  return fraction > 0 ? fraction : undefined;
+}
 
 export class LighterExchange extends BaseExchange {
   private httpClient: AxiosInstance;
   private dryRun: boolean;
   private lastMarketData: Map<string, MarketData> = new Map();
-  private orderClient: any;
+  private orderClient: LighterClient | null = null;
   private config: ExchangeConfig;
+  private marketDataConfig: MarketDataConfig;
+  private marketDataCallbacks: Map<string, (data: MarketData) => void> = new Map();
+  private feed: ReconnectingWebSocket | null = null;
+  private books: Map<number, LighterBookState> = new Map(); // market_id -> local book
   
-  // Lighter market ID mapping (symbol -> market_id)
-  private static readonly MARKET_IDS: Record<string, number> = {
-    'BTC-PERP': 1,
-    'ETH-PERP': 0,
-    'SOL-PERP': 2,
-    'DOGE-PERP': 3
-  };
-  
-  constructor(config: ExchangeConfig, logger: Logger, dryRun: boolean = false) {
-    super('Lighter', logger);
+  constructor(
+    config: ExchangeConfig,
+    logger: Logger,
+    dryRun: boolean = false,
+    marketDataConfig?: MarketDataConfig,
+    signer?: LighterSigner // Default: the signer library through FFI
+  ) {
+    super('Lighter', logger, config.id);
     this.dryRun = dryRun;
     this.config = config;
+    this.marketDataConfig = { ...DEFAULT_MARKET_DATA_CONFIG, ...marketDataConfig };
     
     this.httpClient = axios.create({
       baseURL: config.restApiUrl,
@@ -47,23 +77,27 @@ export class LighterExchange extends BaseExchange {
       }
     });
     
-    // Initialize order client (FFI-based, works on Windows)
+    // Transactions are signed by a pluggable signer; the client serializes them on the nonce
     if (!dryRun) {
-      this.orderClient = new LighterOrderClient({
+      const accountIndex = (config as any).accountIndex;
+      const apiKeyIndex = (config as any).apiKeyIndex || 0;
+      const orderSigner = signer || new FfiLighterSigner({
+        baseUrl: config.restApiUrl,
         apiPrivateKey: (config as any).apiPrivateKey,
-        apiPublicKey: (config as any).apiPublicKey,
-        accountIndex: (config as any).accountIndex,
-        apiKeyIndex: (config as any).apiKeyIndex || 0,
         chainId: (config as any).chainId || 304,
-        baseUrl: config.restApiUrl
-      });
-      this.logger.info(`${this.name}: Order client created`);
+        apiKeyIndex,
+        accountIndex
+      }, config.signerLibrary);
+      this.orderClient = new LighterClient({ baseUrl: config.restApiUrl, accountIndex, apiKeyIndex }, orderSigner, logger);
+      this.logger.info(`${this.name}: Order client created (${orderSigner.name} signer)`);
     }
   }
   
   async initialize(): Promise<void> {
     this.logger.info(`Initializing ${this.name} exchange...`);
     
+    await retryWithBackoff(() => this.loadMarkets(), { maxAttempts: 5, initialDelayMs: 2000 }, this.logger);
+    
     if (this.dryRun) {
       this.logger.info(`${this.name}: Running in DRY RUN mode`);
       return;
@@ -81,6 +115,53 @@ export class LighterExchange extends BaseExchange {
     }, { maxAttempts: 5, initialDelayMs: 2000 }, this.logger);
   }
 
+  /**
+   * Perp markets from orderBookDetails. Lighter names markets by base asset ("ETH"),
+   * which maps to the bot's "ETH-PERP".
+   */
+  async loadMarkets(): Promise<MarketInfo[]> {
+    const response = await this.httpClient.get('/api/v1/orderBookDetails', { timeout: 10000 });
+    const details = response.data?.order_book_details;
+    if (!Array.isArray(details)) {
+      throw new Error(`${this.name}: orderBookDetails returned no markets: ${JSON.stringify(response.data)}`);
+    }
+    
+    const markets: MarketInfo[] = details.map((detail: any) => ({
+      symbol: `${detail.symbol}-PERP`,
+      marketId: Number(detail.market_id),
+      tickSize: Math.pow(10, -Number(detail.price_decimals)),
+      lotSize: Math.pow(10, -Number(detail.size_decimals)),
+      minSize: parseFloat(detail.min_base_amount || '0'),
+      minNotional: parseFloat(detail.min_quote_amount || '0'),
+      // Margin fractions are in hundredths of a percent (500 = 5%)
+      initialMarginFraction: marginFraction(detail.default_initial_margin_fraction ?? detail.min_initial_margin_fraction),
+      maintenanceMarginFraction: marginFraction(detail.maintenance_margin_fraction)
+    }));
+    
+    this.logger.info(`${this.name}: Loaded ${markets.length} perp markets`);
+    return this.setMarkets(markets);
+  }
+  
+  /**
+   * The signer takes IOC, GTT (gtc is GTT with the default 28-day expiry) and post-only
+   * orders and the reduce-only flag - there is no fill-or-kill. Transactions are applied
+   * asynchronously: a fresh order may not be listed yet, and cancels only reach orders
+   * already listed as active.
+   */
+  protected getCapabilities(): ExchangeCapabilities {
+    return {
+      timeInForce: ['gtc', 'ioc', 'post_only', 'gtt'],
+      reduceOnly: true,
+      reliableCancel: false,
+      reliableOrderLookup: false,
+      websocketMarketData: !this.dryRun && this.marketDataConfig.websocketEnabled && !!this.config.wsUrl
+    };
+  }
+  
+  protected getFees(): VenueFees {
+    return this.config.fees || { makerFeeBps: 0, takerFeeBps: 0 };
+  }
+
   // Signing method for future use when implementing full REST API
   // private signRequest(method: string, path: string, body: any = null): { timestamp: string; signature: string } {
   //   const timestamp = Date.now().toString();
@@ -100,6 +181,12 @@ export class LighterExchange extends BaseExchange {
   }
   
   async getMarketData(symbol: string): Promise<MarketData> {
+    // Live WebSocket book when it's synced and fresh, REST otherwise
+    const live = this.getLiveMarketData(symbol);
+    if (live && !live.stale) {
+      return live;
+    }
+    
     // Check cache first
     const cached = this.lastMarketData.get(symbol);
     if (cached && Date.now() - cached.timestamp < 2000) {
@@ -107,10 +194,7 @@ export class LighterExchange extends BaseExchange {
     }
     
     return retryWithBackoff(async () => {
-      const marketId = LighterExchange.MARKET_IDS[symbol];
-      if (marketId === undefined) {
-        throw new Error(`Unknown symbol ${symbol} for Lighter exchange`);
-      }
+      const marketId = this.getMarketId(symbol);
       
       const response = await this.httpClient.get('/api/v1/orderBookOrders', {
         params: { 
@@ -150,7 +234,9 @@ export class LighterExchange extends BaseExchange {
           bidPrice: actualBid,
           askPrice: actualAsk,
           midPrice: (actualBid + actualAsk) / 2,
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          source: 'rest',
+          stale: false
         };
         
         this.lastMarketData.set(symbol, marketData);
@@ -189,6 +275,94 @@ export class LighterExchange extends BaseExchange {
     }, {}, this.logger);
   }
   
+  async getFundingPayments(symbol: string, since: number): Promise<FundingPayment[]> {
+    if (this.dryRun) {
+      throw new Error(`${this.name}: No funding history in dry run`);
+    }
+    
+    if (!this.orderClient) {
+      throw new Error('Lighter order client not initialized - funding history needs an auth token');
+    }
+    
+    const response = await this.httpClient.get('/api/v1/positionFunding', {
+      params: {
+        account_index: this.config.accountIndex,
+        market_id: this.getMarketId(symbol),
+        limit: 100, // Most recent first - funding is hourly
+        auth: this.orderClient.getAuthToken()
+      },
+      timeout: 10000
+    });
+    
+    if (response.data?.code !== undefined && response.data.code !== 200) {
+      throw new Error(`/api/v1/positionFunding failed: ${JSON.stringify(response.data)}`);
+    }
+    
+    return (response.data?.position_fundings || [])
+      .map((funding: any) => ({
+        timestamp: Number(funding.timestamp) * 1000,
+        amountUsd: parseFloat(funding.change || '0'),
+        rate: parseFloat(funding.rate || '0')
+      }))
+      .filter((payment: FundingPayment) => payment.timestamp >= since)
+      .sort((a: FundingPayment, b: FundingPayment) => a.timestamp - b.timestamp);
+  }
+  
+  /**
+   * Our trades on the market. Each trade names both sides' accounts and client order
+   * indexes; ours is the side with our account index.
+   */
+  async getFills(symbol: string, since: number): Promise<Fill[]> {
+    if (this.dryRun) {
+      throw new Error(`${this.name}: No trade history in dry run`);
+    }
+    
+    if (!this.orderClient) {
+      throw new Error('Lighter order client not initialized - trade history needs an auth token');
+    }
+    
+    const response = await this.httpClient.get('/api/v1/trades', {
+      params: {
+        account_index: this.config.accountIndex,
+        market_id: this.getMarketId(symbol),
+        sort_by: 'timestamp',
+        limit: 100, // Most recent first - covers the fills of the trades being reconciled
+        auth: this.orderClient.getAuthToken()
+      },
+      timeout: 10000
+    });
+    
+    if (response.data?.code !== undefined && response.data.code !== 200) {
+      throw new Error(`/api/v1/trades failed: ${JSON.stringify(response.data)}`);
+    }
+    
+    const accountIndex = String(this.config.accountIndex);
+    return (response.data?.trades || [])
+      .map((trade: any) => {
+        const isAsk = String(trade.ask_account_id) === accountIndex;
+        const isMaker = isAsk === Boolean(trade.is_maker_ask);
+        const size = parseFloat(trade.size || '0');
+        const price = parseFloat(trade.price || '0');
+        // Fee rates are in millionths of the trade's notional
+        const feeRate = Number((isMaker ? trade.maker_fee : trade.taker_fee) || 0) / 1e6;
+        const timestamp = Number(trade.timestamp);
+        return {
+          orderId: String(isAsk ? trade.ask_client_id : trade.bid_client_id),
+          symbol,
+          side: isAsk ? 'sell' : 'buy',
+          size,
+          price,
+          fee: feeRate * size * price,
+          feeAsset: 'USDC',
+          liquidity: isMaker ? 'maker' : 'taker',
+          // Trade timestamps are in ms, older API versions sent seconds
+          timestamp: timestamp < 1e12 ? timestamp * 1000 : timestamp
+        } as Fill;
+      })
+      .filter((fill: Fill) => fill.size > 0 && fill.timestamp >= since)
+      .sort((a: Fill, b: Fill) => a.timestamp - b.timestamp);
+  }
+  
   async getOrderBook(symbol: string, depth: number = 10): Promise<OrderBook> {
     if (this.dryRun) {
       const basePrice = 95000 + Math.random() * 1000;
@@ -204,30 +378,47 @@ export class LighterExchange extends BaseExchange {
     }
     
     return retryWithBackoff(async () => {
-      const marketId = LighterExchange.MARKET_IDS[symbol];
+      const marketId = this.getMarketId(symbol);
+      
       const response = await this.httpClient.get(`/api/v1/orderBookOrders`, {
-        params: { market_id: marketId, depth }
+        params: { market_id: marketId, limit: depth }
       });
       
-      return {
-        bids: response.data.bids.map((b: any) => [parseFloat(b[0] || b.price), parseFloat(b[1] || b.size)]),
-        asks: response.data.asks.map((a: any) => [parseFloat(a[0] || a.price), parseFloat(a[1] || a.size)]),
-        timestamp: Date.now()
-      };
+      // Orders come back as objects ({ price, remaining_base_amount }) or [price, size] tuples
+      const toLevel = (level: any): [number, number] => Array.isArray(level)
+        ? [parseFloat(level[0]), parseFloat(level[1])]
+        : [parseFloat(level.price), parseFloat(level.remaining_base_amount ?? level.size)];
+      
+      const book = this.normalizeOrderBook(
+        (response.data.bids || []).map(toLevel),
+        (response.data.asks || []).map(toLevel)
+      );
+      
+      // Same inversion as getMarketData: the API can return bids and asks swapped
+      if (book.bids.length > 0 && book.asks.length > 0 && book.bids[0][0] > book.asks[0][0]) {
+        this.logger.debug(`${this.name}: Order book sides inverted, swapping`);
+        return this.normalizeOrderBook(book.asks, book.bids, book.timestamp);
+      }
+      
+      return book;
     }, {}, this.logger);
   }
   
-  async placeLimitOrder(
-    symbol: string,
-    side: 'buy' | 'sell',
-    size: number,
-    price: number,
-    _options?: { postOnly?: boolean; reduceOnly?: boolean }
-  ): Promise<Order> {
+  async placeOrder(request: OrderRequest): Promise<Order> {
+    const timeInForce = this.checkOrderRequest(request);
+    return request.type === 'market'
+      ? this.placeMarket(request)
+      : this.placeLimit(request, timeInForce);
+  }
+  
+  private async placeLimit(request: OrderRequest, timeInForce: TimeInForce): Promise<Order> {
+    const { symbol, side, size } = request;
+    const price = request.price!;
     if (this.dryRun) {
       this.logger.info(`[DRY RUN] ${this.name}: Place limit ${side} ${size} ${symbol} @ ${price}`);
       return {
-        orderId: `dry-${Date.now()}`,
+        orderId: `dry-${request.clientOrderId ?? Date.now()}`,
+        clientOrderId: request.clientOrderId,
         symbol,
         side,
         type: 'limit',
@@ -244,29 +435,31 @@ export class LighterExchange extends BaseExchange {
     }
     
     try {
-      const marketId = LighterExchange.MARKET_IDS[symbol];
-      if (marketId === undefined) {
-        throw new Error(`Unknown symbol ${symbol}`);
-      }
+      const market = this.getMarketInfo(symbol);
       
-      this.logger.info(`${this.name}: Placing TRUE LIMIT ${side} ${size} ${symbol} @ $${price}`);
+      this.logger.info(`${this.name}: Placing TRUE LIMIT ${side} ${size} ${symbol} @ $${price} (${timeInForce})`);
       
       // TRUE LIMIT ORDERS NOW WORKING with FFI-based client!
-      // postOnly defaults to false for normal limit orders
-      const postOnly = _options?.postOnly || false;
-      const result = await this.orderClient.placeLimitOrder(marketId, side, size, price, postOnly);
+      // Size and price are converted to the market's integer units with its increments
+      const result = await this.orderClient.placeLimitOrder(market.marketId, side, size, price, market, {
+        timeInForce,
+        expiresAt: request.expiresAt,
+        reduceOnly: request.reduceOnly,
+        clientOrderId: request.clientOrderId
+      });
       
       this.logger.info(`${this.name}: Order placed - TxHash: ${result.txHash}`);
       
       return {
         orderId: result.orderId,
+        clientOrderId: request.clientOrderId,
         symbol,
         side,
         type: 'limit',
         size,
         price,
-        filledSize: size, // Assume filled for IOC orders
-        status: 'filled',
+        filledSize: 0, // Fills are tracked by the caller (see ExecutionManager)
+        status: 'open',
         timestamp: Date.now()
       };
       
@@ -276,16 +469,13 @@ export class LighterExchange extends BaseExchange {
     }
   }
   
-  async placeMarketOrder(
-    symbol: string,
-    side: 'buy' | 'sell',
-    size: number,
-    _options?: { reduceOnly?: boolean }
-  ): Promise<Order> {
+  private async placeMarket(request: OrderRequest): Promise<Order> {
+    const { symbol, side, size } = request;
     if (this.dryRun) {
       this.logger.info(`[DRY RUN] ${this.name}: Place market ${side} ${size} ${symbol}`);
       return {
-        orderId: `dry-${Date.now()}`,
+        orderId: `dry-${request.clientOrderId ?? Date.now()}`,
+        clientOrderId: request.clientOrderId,
         symbol,
         side,
         type: 'market',
@@ -301,25 +491,27 @@ export class LighterExchange extends BaseExchange {
     }
     
     try {
-      const marketId = LighterExchange.MARKET_IDS[symbol];
-      if (marketId === undefined) {
-        throw new Error(`Unknown symbol ${symbol}`);
-      }
+      const market = this.getMarketInfo(symbol);
       
       this.logger.info(`${this.name}: Placing market ${side} ${size} ${symbol}`);
       
-      const result = await this.orderClient.placeMarketOrder(marketId, side, size);
+      // An aggressive IOC limit - whatever doesn't fill right away is cancelled
+      const result = await this.orderClient.placeMarketOrder(market.marketId, side, size, market, {
+        reduceOnly: request.reduceOnly,
+        clientOrderId: request.clientOrderId
+      });
       
       this.logger.info(`${this.name}: Order placed successfully - TxHash: ${result.txHash}`);
       
       return {
         orderId: result.orderId,
+        clientOrderId: request.clientOrderId,
         symbol,
         side,
         type: 'market',
         size,
-        filledSize: size, // Assume filled immediately for market orders
-        status: 'filled',
+        filledSize: 0, // Fills are tracked by the caller (see ExecutionManager)
+        status: 'open',
         timestamp: Date.now()
       };
       
@@ -329,13 +521,74 @@ export class LighterExchange extends BaseExchange {
     }
   }
   
-  async cancelOrder(_symbol: string, orderId: string): Promise<void> {
+  async cancelOrder(symbol: string, orderId: string): Promise<void> {
     if (this.dryRun) {
       this.logger.info(`[DRY RUN] ${this.name}: Cancel order ${orderId}`);
       return;
     }
     
-    this.logger.warn(`${this.name}: Order cancellation not yet implemented`);
+    if (!this.orderClient) {
+      throw new Error('Lighter order client not initialized');
+    }
+    
+    try {
+      const marketId = this.getMarketId(symbol);
+      
+      // Cancels are signed against the exchange-assigned order_index
+      const active = this.findOrder(await this.fetchOrders(marketId, 'active'), orderId);
+      if (!active) {
+        this.logger.info(`${this.name}: Order ${orderId} is no longer resting - nothing to cancel`);
+        return;
+      }
+      
+      this.logger.info(`${this.name}: Cancelling order ${orderId} (order_index ${active.order_index})`);
+      
+      const result = await this.orderClient.cancelOrder(marketId, Number(active.order_index));
+      
+      this.logger.info(`${this.name}: Order cancelled successfully - TxHash: ${result.txHash}`);
+    } catch (error) {
+      this.logger.error(`${this.name}: Failed to cancel order: ${error}`);
+      throw error;
+    }
+  }
+  
+  /**
+   * Cancel every resting order on one market (Lighter's own cancel-all is account-wide).
+   */
+  async cancelAllOrders(symbol: string): Promise<void> {
+    if (this.dryRun) {
+      this.logger.info(`[DRY RUN] ${this.name}: Cancel all orders on ${symbol}`);
+      return;
+    }
+    
+    if (!this.orderClient) {
+      throw new Error('Lighter order client not initialized');
+    }
+    
+    const marketId = this.getMarketId(symbol);
+    const active = await this.fetchOrders(marketId, 'active');
+    
+    if (active.length === 0) {
+      this.logger.info(`${this.name}: No resting orders on ${symbol}`);
+      return;
+    }
+    
+    this.logger.info(`${this.name}: Cancelling ${active.length} resting order(s) on ${symbol}`);
+    
+    const failures: string[] = [];
+    for (const order of active) {
+      try {
+        await this.orderClient.cancelOrder(marketId, Number(order.order_index));
+      } catch (error) {
+        failures.push(`${order.client_order_index}: ${error}`);
+      }
+    }
+    
+    if (failures.length > 0) {
+      throw new Error(`${this.name}: Failed to cancel ${failures.length} order(s) on ${symbol} - ${failures.join('; ')}`);
+    }
+    
+    this.logger.info(`${this.name}: All orders on ${symbol} cancelled`);
   }
   
   async getOrder(symbol: string, orderId: string): Promise<Order> {
@@ -353,17 +606,45 @@ export class LighterExchange extends BaseExchange {
       };
     }
     
-    // For now, return a basic order status
-    return {
-      orderId,
-      symbol,
-      side: 'buy',
-      type: 'limit',
-      size: 0,
-      filledSize: 0,
-      status: 'filled',
-      timestamp: Date.now()
-    };
+    if (!this.orderClient) {
+      throw new Error('Lighter order client not initialized');
+    }
+    
+    const marketId = this.getMarketId(symbol);
+    
+    try {
+      // Resting orders first, then the order history (filled, cancelled, IOC)
+      const order = this.findOrder(await this.fetchOrders(marketId, 'active'), orderId)
+        || this.findOrder(await this.fetchOrders(marketId, 'inactive'), orderId);
+      
+      // Transactions are applied asynchronously, so a fresh order may not be visible yet
+      if (!order) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      
+      return this.toOrder(symbol, order);
+    } catch (error) {
+      this.logger.warn(`${this.name}: Failed to get order ${orderId}: ${error}`);
+      throw error;
+    }
+  }
+  
+  async getOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null> {
+    if (this.dryRun) {
+      return null;
+    }
+    
+    if (!this.orderClient) {
+      throw new Error('Lighter order client not initialized');
+    }
+    
+    // Our orderId is the client_order_index, but order_index must not match here
+    const marketId = this.getMarketId(symbol);
+    const matches = (order: any) => String(order.client_order_index) === clientOrderId;
+    const order = (await this.fetchOrders(marketId, 'active')).find(matches)
+      || (await this.fetchOrders(marketId, 'inactive')).find(matches);
+    
+    return order ? this.toOrder(symbol, order) : null;
   }
   
   async getPosition(symbol: string): Promise<Position | null> {
@@ -414,12 +695,8 @@ export class LighterExchange extends BaseExchange {
         // Only include non-zero positions
         if (Math.abs(positionSize) > 0.0001) {
           // Map market_id to symbol
-          let symbol = 'UNKNOWN';
-          if (pos.market_id === 0) symbol = 'ETH-PERP';
-          else if (pos.market_id === 1) symbol = 'BTC-PERP';
-          else if (pos.market_id === 2) symbol = 'SOL-PERP';
-          else if (pos.market_id === 3) symbol = 'DOGE-PERP';
-          else symbol = `MARKET-${pos.market_id}`;
+          const listing = Array.from(this.markets.values()).find(market => market.marketId === pos.market_id);
+          const symbol = listing ? listing.symbol : `MARKET-${pos.market_id}`;
           
           // Get current market price for mark price (since API doesn't provide mark_price)
           let markPrice = parseFloat(pos.avg_entry_price || '0');
@@ -450,9 +727,13 @@ export class LighterExchange extends BaseExchange {
     }
   }
   
-  async getAccountInfo(): Promise<any> {
+  async getAccountInfo(): Promise<{
+    balance: number;
+    availableMargin: number;
+    usedMargin: number;
+  }> {
     if (this.dryRun) {
-      return { balance: 10000, availableBalance: 10000, availableMargin: 10000 };
+      return { balance: 10000, availableMargin: 10000, usedMargin: 0 };
     }
     
     try {
@@ -469,16 +750,17 @@ export class LighterExchange extends BaseExchange {
         throw new Error('Account not found');
       }
 
+      const balance = parseFloat(account.total_asset_value || '0');
+      const availableMargin = parseFloat(account.available_balance || '0');
       return {
-        balance: parseFloat(account.total_asset_value || '0'),
-        availableBalance: parseFloat(account.available_balance || '0'),
-        availableMargin: parseFloat(account.available_balance || '0'),
-        collateral: parseFloat(account.collateral || '0')
+        balance,
+        availableMargin,
+        usedMargin: Math.max(0, balance - availableMargin)
       };
     } catch (error) {
+      // No made-up balance - a margin check must fail when the account can't be read
       this.logger.error(`${this.name}: Failed to get account info: ${error}`);
-      // Return safe defaults to avoid breaking the bot
-      return { balance: 10000, availableBalance: 10000, availableMargin: 10000 };
+      throw error;
     }
   }
   
@@ -486,15 +768,267 @@ export class LighterExchange extends BaseExchange {
     await this.disconnect();
   }
   
-  async subscribeToMarketData(symbol: string, _callback: (data: MarketData) => void): Promise<void> {
-    this.logger.info(`${this.name}: Market data subscription for ${symbol} (polling-based)`);
+  async subscribeToMarketData(symbol: string, callback: (data: MarketData) => void): Promise<void> {
+    this.marketDataCallbacks.set(symbol, callback);
+    
+    if (this.dryRun || !this.marketDataConfig.websocketEnabled || !this.config.wsUrl) {
+      this.logger.info(`${this.name}: Market data subscription for ${symbol} (polling-based)`);
+      return;
+    }
+    
+    const marketId = this.getMarketId(symbol);
+    
+    this.books.set(marketId, {
+      symbol,
+      book: new LocalOrderBook(),
+      lastNonce: null,
+      lastOffset: null,
+      inverted: false
+    });
+    
+    if (!this.feed) {
+      this.feed = new ReconnectingWebSocket(this.name, this.config.wsUrl, this.marketDataConfig, {
+        onOpen: () => {
+          for (const id of this.books.keys()) {
+            this.feed?.send({ type: 'subscribe', channel: `order_book/${id}` });
+          }
+        },
+        onMessage: (message) => this.handleFeedMessage(message),
+        onDisconnect: () => {
+          for (const state of this.books.values()) {
+            state.book.invalidate();
+          }
+        }
+      }, this.logger);
+      this.feed.connect();
+    } else {
+      this.feed.send({ type: 'subscribe', channel: `order_book/${marketId}` });
+    }
+    
+    this.logger.info(`${this.name}: Subscribed to ${symbol} (market ${marketId}) order book over WebSocket`);
   }
   
   async unsubscribeFromMarketData(symbol: string): Promise<void> {
+    this.marketDataCallbacks.delete(symbol);
+    
+    const marketId = this.markets.get(symbol)?.marketId;
+    if (marketId !== undefined && this.books.delete(marketId) && this.feed) {
+      this.feed.send({ type: 'unsubscribe', channel: `order_book/${marketId}` });
+    }
     this.logger.info(`${this.name}: Unsubscribed from ${symbol} market data`);
   }
   
   async disconnect(): Promise<void> {
     this.logger.info(`${this.name}: Disconnecting...`);
+    if (this.feed) {
+      this.feed.close();
+      this.feed = null;
+    }
+  }
+  
+  /**
+   * Top of the WebSocket book, or null if we have no live book for the symbol.
+   */
+  private getLiveMarketData(symbol: string): MarketData | null {
+    const marketId = this.markets.get(symbol)?.marketId;
+    const state = marketId !== undefined ? this.books.get(marketId) : undefined;
+    if (!state || !this.feed) {
+      return null;
+    }
+    
+    const stale = !state.book.isSynced() ||
+      Date.now() - this.feed.getLastMessageAt() > this.marketDataConfig.staleAfterMs;
+    return state.book.toMarketData(symbol, stale);
+  }
+  
+  /**
+   * Re-subscribing makes the server send a fresh snapshot.
+   */
+  private resyncBook(marketId: number): void {
+    const state = this.books.get(marketId);
+    if (!state) {
+      return;
+    }
+    
+    state.book.invalidate();
+    this.feed?.send({ type: 'unsubscribe', channel: `order_book/${marketId}` });
+    this.feed?.send({ type: 'subscribe', channel: `order_book/${marketId}` });
+  }
+  
+  private handleFeedMessage(message: any): void {
+    switch (message.type) {
+      case 'ping':
+        this.feed?.send({ type: 'pong' });
+        return;
+      case 'subscribed/order_book':
+      case 'update/order_book':
+        break;
+      case 'error':
+        this.logger.warn(`${this.name}: WebSocket error response: ${JSON.stringify(message)}`);
+        return;
+      default:
+        return;
+    }
+    
+    // Channel comes back as "order_book:<market_id>"
+    const marketId = Number(String(message.channel).split(':')[1]);
+    const state = this.books.get(marketId);
+    const data = message.order_book;
+    if (!state || !data) {
+      return;
+    }
+    
+    const nonce = data.nonce !== undefined ? Number(data.nonce) : null;
+    const offset = data.offset !== undefined ? Number(data.offset) : null;
+    let bids = this.parseLevels(data.bids);
+    let asks = this.parseLevels(data.asks);
+    
+    if (message.type === 'subscribed/order_book') {
+      state.book.applySnapshot(bids, asks);
+      state.inverted = false;
+      
+      if (state.book.isCrossed()) {
+        // Same inversion getMarketData handles on REST: swap the sides for this subscription
+        state.inverted = true;
+        state.book.applySnapshot(asks, bids);
+        this.logger.warn(`${this.name}: ${state.symbol} book snapshot inverted, swapping sides`);
+      }
+      
+      state.lastNonce = nonce;
+      state.lastOffset = offset;
+      this.logger.info(`${this.name}: ✓ ${state.symbol} order book synced`);
+    } else {
+      if (!state.book.isSynced()) {
+        return; // Waiting for the snapshot after a resubscribe
+      }
+      
+      // begin_nonce links an update to the previous message; offsets only ever increase
+      const beginNonce = data.begin_nonce !== undefined ? Number(data.begin_nonce) : null;
+      const gap = beginNonce !== null && state.lastNonce !== null
+        ? beginNonce !== state.lastNonce
+        : offset !== null && state.lastOffset !== null && offset <= state.lastOffset;
+      
+      if (gap) {
+        this.logger.warn(
+          `${this.name}: ${state.symbol} book sequence gap ` +
+          `(nonce ${state.lastNonce} -> ${beginNonce}, offset ${state.lastOffset} -> ${offset}), resyncing`
+        );
+        this.resyncBook(marketId);
+        return;
+      }
+      
+      if (state.inverted) {
+        [bids, asks] = [asks, bids];
+      }
+      
+      state.book.applyUpdate(bids, asks);
+      state.lastNonce = nonce;
+      state.lastOffset = offset;
+      
+      if (state.book.isCrossed()) {
+        this.logger.warn(`${this.name}: ${state.symbol} book crossed after update, resyncing`);
+        this.resyncBook(marketId);
+        return;
+      }
+    }
+    
+    const marketData = state.book.toMarketData(state.symbol, false);
+    if (marketData) {
+      this.lastMarketData.set(state.symbol, marketData);
+      this.marketDataCallbacks.get(state.symbol)?.(marketData);
+    }
+  }
+  
+  /**
+   * WebSocket levels are { price, size } objects with decimal strings.
+   */
+  private getMarketId(symbol: string): number {
+    return this.getMarketInfo(symbol).marketId;
+  }
+  
+  /**
+   * Our orders on one market from the active or inactive (history) orders endpoint.
+   */
+  private async fetchOrders(marketId: number, which: 'active' | 'inactive'): Promise<any[]> {
+    if (!this.orderClient) {
+      throw new Error('Lighter order client not initialized - order queries need an auth token');
+    }
+    
+    const path = which === 'active' ? '/api/v1/accountActiveOrders' : '/api/v1/accountInactiveOrders';
+    const params: Record<string, any> = {
+      account_index: this.config.accountIndex,
+      market_id: marketId,
+      auth: this.orderClient.getAuthToken()
+    };
+    if (which === 'inactive') {
+      params.limit = 100; // Most recent first - enough to cover the orders we are tracking
+    }
+    
+    const response = await this.httpClient.get(path, { params, timeout: 10000 });
+    
+    if (response.data?.code !== undefined && response.data.code !== 200) {
+      throw new Error(`${path} failed: ${JSON.stringify(response.data)}`);
+    }
+    
+    return response.data?.orders || [];
+  }
+  
+  /**
+   * Match by client_order_index (what we return as orderId) or order_index.
+   */
+  private findOrder(orders: any[], orderId: string): any | undefined {
+    return orders.find(order =>
+      String(order.client_order_index) === orderId || String(order.order_index) === orderId
+    );
+  }
+  
+  private toOrder(symbol: string, raw: any): Order {
+    const size = parseFloat(raw.initial_base_amount || '0');
+    const filledSize = parseFloat(raw.filled_base_amount || '0');
+    const filledQuote = parseFloat(raw.filled_quote_amount || '0');
+    const price = parseFloat(raw.price || '0');
+    
+    return {
+      orderId: String(raw.client_order_index),
+      symbol,
+      side: raw.is_ask ? 'sell' : 'buy',
+      type: raw.type === 'market' ? 'market' : 'limit',
+      size,
+      price: price > 0 ? price : undefined,
+      filledSize,
+      averageFillPrice: filledSize > 0 ? filledQuote / filledSize : undefined,
+      status: this.mapOrderStatus(String(raw.status), filledSize, size),
+      timestamp: raw.timestamp ? Number(raw.timestamp) * 1000 : Date.now()
+    };
+  }
+  
+  /**
+   * Lighter order status -> Order['status'].
+   * "canceled" and "canceled-expired" are ordinary cancels; the other "canceled-*"
+   * statuses are the matching engine rejecting the order (margin, post-only, slippage, ...).
+   */
+  private mapOrderStatus(status: string, filledSize: number, size: number): Order['status'] {
+    switch (status) {
+      case 'in-progress':
+      case 'pending':
+      case 'open':
+        return filledSize > 0 ? 'partially_filled' : 'open';
+      case 'filled':
+        return 'filled';
+      case 'canceled':
+      case 'canceled-expired':
+        return 'cancelled';
+      default:
+        if (status.startsWith('canceled')) {
+          // Whatever filled before the engine stopped the order is still a real fill
+          return filledSize > 0 ? 'cancelled' : 'failed';
+        }
+        this.logger.warn(`${this.name}: Unknown order status "${status}"`);
+        return filledSize >= size && size > 0 ? 'filled' : filledSize > 0 ? 'partially_filled' : 'open';
+    }
+  }
+  
+  private parseLevels(levels: any[] | undefined): [number, number][] {
+    return (levels || []).map((level: any) => [parseFloat(level.price), parseFloat(level.size)]);
   }
 }
@@ -0,0 +1,117 @@
+/**
+ * Local order book maintained from WebSocket snapshots and incremental updates.
+ * Updates carry the new absolute size per price level; size 0 removes the level.
+ */
+
+import { MarketData, OrderBook } from '../config/types';
+
+export class LocalOrderBook {
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  private synced: boolean = false;
+  private updatedAt: number = 0;
+
+  /**
+   * Replace the whole book. The book is usable again after this.
+   */
+  applySnapshot(bids: [number, number][], asks: [number, number][], timestamp: number = Date.now()): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.applyLevels(this.bids, bids);
+    this.applyLevels(this.asks, asks);
+    this.synced = true;
+    this.updatedAt = timestamp;
+  }
+
+  applyUpdate(bids: [number, number][], asks: [number, number][], timestamp: number = Date.now()): void {
+    this.applyLevels(this.bids, bids);
+    this.applyLevels(this.asks, asks);
+    this.updatedAt = timestamp;
+  }
+
+  /**
+   * Mark the book unusable until the next snapshot (sequence gap, disconnect).
+   */
+  invalidate(): void {
+    this.synced = false;
+  }
+
+  isSynced(): boolean {
+    return this.synced;
+  }
+
+  getUpdatedAt(): number {
+    return this.updatedAt;
+  }
+
+  getBestBid(): number | null {
+    let best: number | null = null;
+    for (const price of this.bids.keys()) {
+      if (best === null || price > best) best = price;
+    }
+    return best;
+  }
+
+  getBestAsk(): number | null {
+    let best: number | null = null;
+    for (const price of this.asks.keys()) {
+      if (best === null || price < best) best = price;
+    }
+    return best;
+  }
+
+  /**
+   * A crossed book means we missed an update somewhere.
+   */
+  isCrossed(): boolean {
+    const bestBid = this.getBestBid();
+    const bestAsk = this.getBestAsk();
+    return bestBid !== null && bestAsk !== null && bestBid >= bestAsk;
+  }
+
+  toOrderBook(depth?: number): OrderBook {
+    const bids = Array.from(this.bids.entries()).sort((a, b) => b[0] - a[0]);
+    const asks = Array.from(this.asks.entries()).sort((a, b) => a[0] - b[0]);
+
+    return {
+      bids: depth ? bids.slice(0, depth) : bids,
+      asks: depth ? asks.slice(0, depth) : asks,
+      timestamp: this.updatedAt
+    };
+  }
+
+  /**
+   * Top of book as MarketData, or null if either side is empty.
+   */
+  toMarketData(symbol: string, stale: boolean): MarketData | null {
+    const bidPrice = this.getBestBid();
+    const askPrice = this.getBestAsk();
+
+    if (bidPrice === null || askPrice === null) {
+      return null;
+    }
+
+    return {
+      symbol,
+      bidPrice,
+      askPrice,
+      midPrice: (bidPrice + askPrice) / 2,
+      timestamp: this.updatedAt,
+      source: 'websocket',
+      stale
+    };
+  }
+
+  private applyLevels(side: Map<number, number>, levels: [number, number][]): void {
+    for (const [price, size] of levels) {
+      if (!isFinite(price) || price <= 0) {
+        continue;
+      }
+      if (!isFinite(size) || size <= 0) {
+        side.delete(price);
+      } else {
+        side.set(price, size);
+      }
+    }
+  }
+}
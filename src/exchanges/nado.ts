@@ -6,7 +6,7 @@
  */
 
 import { createNadoClient, CHAIN_ENV_TO_CHAIN } from '@nadohq/client';
-import { createPublicClient, createWalletClient, http, type Hex } from 'viem';
+import { createPublicClient, createWalletClient, hashTypedData, http, type Hex } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import type { NadoClient } from '@nadohq/client';
 import axios from 'axios';
@@ -16,10 +16,59 @@ import {
   Position, 
   OrderBook, 
   FundingRate, 
+  FundingPayment,
+  Fill,
   MarketData,
-  ExchangeConfig 
+  MarketInfo,
+  ExchangeConfig,
+  ExchangeCapabilities,
+  MarketDataConfig,
+  OrderRequest,
+  TimeInForce,
+  VenueFees
 } from '../config/types';
 import { Logger } from '../utils/logger';
+import { ReconnectingWebSocket, DEFAULT_MARKET_DATA_CONFIG } from './websocket-feed';
+import { LocalOrderBook } from './local-order-book';
+
+const SNAPSHOT_DEPTH = 100;
+const MAX_TRACKED_CLIENT_ORDERS = 1000;
+
+// Appendix order type per time-in-force - gtc and gtt differ only in the expiration
+const APPENDIX_ORDER_TYPES: Record<TimeInForce, 'DEFAULT' | 'IOC' | 'FOK' | 'POST_ONLY'> = {
+  gtc: 'DEFAULT',
+  gtt: 'DEFAULT',
+  ioc: 'IOC',
+  fok: 'FOK',
+  post_only: 'POST_ONLY'
+};
+
+/** Local book state for one product on the book_depth stream */
+interface NadoBookState {
+  symbol: string;
+  book: LocalOrderBook;
+  lastMaxTimestamp: bigint | null; // max_timestamp of the last applied event
+  snapshotTimestamp: bigint | null; // Events at or before this are already in the snapshot
+  resyncing: boolean;
+  buffered: any[]; // Events received while the snapshot is loading
+}
+
+/**
+ * Margin fractions from a listing's risk weights (x18). A long is weighted below 1 and a
+ * short above it; the bigger distance from 1 is the fraction of notional held as margin.
+ */
+function marginFractions(listing: any): Pick<MarketInfo, 'initialMarginFraction' | 'maintenanceMarginFraction'> {
+  const fraction = (longWeight: unknown, shortWeight: unknown): number | undefined => {
+    const long = Number(longWeight) / 1e18;
+    const short = Number(shortWeight) / 1e18;
+    const value = Math.max(long > 0 ? 1 - long : 0, short > 0 ? short - 1 : 0);
+    return value > 0 ? value : undefined;
+  };
+  return {
+    initialMarginFraction: fraction(listing.long_weight_initial_x18, listing.short_weight_initial_x18),
+    maintenanceMarginFraction: fraction(listing.long_weight_maintenance_x18, listing.short_weight_maintenance_x18)
+  };
+}
 
 export class NadoExchange extends BaseExchange {
   private nadoClient: NadoClient | null = null;
@@ -33,16 +82,32 @@ export class NadoExchange extends BaseExchange {
   private endpointAddress: string | null = null; // Endpoint contract for verifying
   private senderHash: string | null = null; // Sender = address + subaccount name (32 bytes)
   private gatewayApiUrl = 'https://gateway.prod.nado.xyz'; // Gateway API for order placement
+  private wsUrl?: string;
+  private fees: VenueFees;
+  private marketDataConfig: MarketDataConfig;
+  private feed: ReconnectingWebSocket | null = null;
+  private books: Map<number, NadoBookState> = new Map(); // productId -> local book
+  private clientOrderDigests: Map<string, string[]> = new Map(); // client order ID -> digests signed for it
   
-  constructor(_config: ExchangeConfig, logger: Logger, dryRun: boolean = false) {
-    super('Nado', logger);
+  constructor(
+    config: ExchangeConfig,
+    logger: Logger,
+    dryRun: boolean = false,
+    marketDataConfig?: MarketDataConfig
+  ) {
+    super('Nado', logger, config.id);
     this.dryRun = dryRun;
-    // Note: config is passed but not stored as we use SDK which doesn't need it
+    // Trading goes through the SDK; only the subscription URL is needed from config
+    this.wsUrl = config.wsUrl;
+    this.fees = config.fees || { makerFeeBps: 0, takerFeeBps: 0 };
+    this.marketDataConfig = { ...DEFAULT_MARKET_DATA_CONFIG, ...marketDataConfig };
   }
   
   async initialize(): Promise<void> {
     this.logger.info(`Initializing ${this.name} exchange...`);
     
+    await this.loadMarkets();
+    
     if (this.dryRun) {
       this.logger.info(`${this.name}: Running in DRY RUN mode`);
       return;
@@ -95,29 +160,89 @@ export class NadoExchange extends BaseExchange {
       throw error;
     }
     
-    // Using REST API for market data (WebSocket disabled for reliability)
-    this.logger.info(`${this.name}: Using REST API for market data`);
+    if (!this.marketDataConfig.websocketEnabled || !this.wsUrl) {
+      this.logger.info(`${this.name}: Using REST API for market data`);
+    }
+  }
+
+  /**
+   * Perp markets from the gateway's symbols query (public, so this works in dry run too).
+   */
+  async loadMarkets(): Promise<MarketInfo[]> {
+    const response = await axios.post(`${this.gatewayApiUrl}/v1/query`, {
+      type: 'symbols',
+      product_type: 'perp'
+    }, {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: 10000
+    });
+    
+    const symbols = response.data?.data?.symbols;
+    if (!symbols) {
+      throw new Error(`${this.name}: Symbols query returned no data: ${JSON.stringify(response.data)}`);
+    }
+    
+    // Price increment is x18; size increment and min size are in x18 base units too
+    const markets: MarketInfo[] = Object.values(symbols).map((listing: any) => ({
+      symbol: listing.symbol,
+      marketId: Number(listing.product_id),
+      tickSize: parseFloat(listing.price_increment_x18) / 1e18,
+      lotSize: parseFloat(listing.size_increment) / 1e18,
+      minSize: parseFloat(listing.min_size) / 1e18,
+      ...marginFractions(listing)
+    }));
+    
+    this.logger.info(`${this.name}: Loaded ${markets.length} perp markets (${markets.map(m => m.symbol).join(', ')})`);
+    return this.setMarkets(markets);
   }
   
-  // WebSocket methods removed - using REST API only for reliability
+  /**
+   * Every order type is signed into the appendix (market orders go out as IOC) and every order
+   * carries an expiration, so gtt is a default order expiring at expiresAt. Filled and
+   * cancelled orders are only in the indexer, so a lookup right after a fill can miss them.
+   */
+  protected getCapabilities(): ExchangeCapabilities {
+    return {
+      timeInForce: ['gtc', 'ioc', 'fok', 'post_only', 'gtt'],
+      reduceOnly: true,
+      reliableCancel: true,
+      reliableOrderLookup: false,
+      websocketMarketData: !this.dryRun && this.marketDataConfig.websocketEnabled && !!this.wsUrl
+    };
+  }
+  
+  protected getFees(): VenueFees {
+    return this.fees;
+  }
 
   private productIdToSymbol(productId: number): string {
-    // Map Nado product IDs to symbols
-    // Product ID 2 = BTC-PERP on Nado
-    const productMap: { [key: number]: string } = {
-      2: 'BTC-PERP',
-      // Add other products as needed
-    };
-    return productMap[productId] || `PRODUCT-${productId}`;
+    for (const market of this.markets.values()) {
+      if (market.marketId === productId) {
+        return market.symbol;
+      }
+    }
+    return `PRODUCT-${productId}`;
   }
 
   private symbolToProductId(symbol: string): number {
-    // Reverse mapping
-    const symbolMap: { [key: string]: number } = {
-      'BTC-PERP': 2,
-      // Add other products as needed
-    };
-    return symbolMap[symbol] || 0;
+    return this.getMarketInfo(symbol).marketId;
+  }
+
+  /**
+   * Price in x18 on the market's tick grid (off-grid prices are rejected).
+   */
+  private toPriceX18(symbol: string, price: number): bigint {
+    const tickSize = this.getMarketInfo(symbol).tickSize;
+    return BigInt(Math.round(price / tickSize)) * BigInt(Math.round(tickSize * 1e18));
+  }
+
+  /**
+   * Unsigned size in x18, rounded down to the market's size increment.
+   */
+  private toAmountX18(symbol: string, size: number): bigint {
+    const lotSize = this.getMarketInfo(symbol).lotSize;
+    const lots = Math.floor(Math.abs(size) / lotSize + 1e-9);
+    return BigInt(lots) * BigInt(Math.round(lotSize * 1e18));
   }
   
   async getMarkPrice(symbol: string): Promise<number> {
@@ -145,6 +270,12 @@ export class NadoExchange extends BaseExchange {
   }
   
   async getMarketData(symbol: string): Promise<MarketData> {
+    // Live WebSocket book when it's synced and fresh, REST otherwise
+    const live = this.getLiveMarketData(symbol);
+    if (live && !live.stale) {
+      return live;
+    }
+    
     // Use short-term cache to avoid excessive API calls
     const cached = this.lastMarketData.get(symbol);
     if (cached && Date.now() - cached.timestamp < 2000) { // 2-second cache
@@ -184,7 +315,9 @@ export class NadoExchange extends BaseExchange {
         bidPrice,
         askPrice,
         midPrice,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        source: 'rest',
+        stale: false
       };
 
       this.lastMarketData.set(symbol, marketData);
@@ -239,6 +372,73 @@ export class NadoExchange extends BaseExchange {
     }
   }
   
+  async getFundingPayments(symbol: string, since: number): Promise<FundingPayment[]> {
+    if (this.dryRun) {
+      throw new Error(`${this.name}: No funding history in dry run`);
+    }
+    
+    if (!this.nadoClient || !this.accountAddress) {
+      throw new Error('Nado client not initialized');
+    }
+    
+    // Most recent first - a page covers far more hourly payments than a position is held
+    const response = await this.nadoClient.context.indexerClient.getInterestFundingPayments({
+      subaccount: { subaccountOwner: this.accountAddress, subaccountName: 'default' },
+      productIds: [this.symbolToProductId(symbol)],
+      limit: 100
+    });
+    
+    return response.fundingPayments
+      .map((payment: any) => ({
+        timestamp: Number(payment.timestamp) * 1000,
+        amountUsd: parseFloat(String(payment.paymentAmount)) / 1e18,
+        rate: parseFloat(String(payment.annualPaymentRate)) / 1e18 / (365 * 24)
+      }))
+      .filter((payment: FundingPayment) => payment.timestamp >= since)
+      .sort((a: FundingPayment, b: FundingPayment) => a.timestamp - b.timestamp);
+  }
+  
+  /**
+   * Match events from the indexer - one per fill, keyed by the order digest (our orderId).
+   */
+  async getFills(symbol: string, since: number): Promise<Fill[]> {
+    if (this.dryRun) {
+      throw new Error(`${this.name}: No trade history in dry run`);
+    }
+    
+    if (!this.nadoClient || !this.accountAddress) {
+      throw new Error('Nado client not initialized');
+    }
+    
+    // Most recent first - a page covers the fills of the trades being reconciled
+    const matches = await this.nadoClient.context.indexerClient.getMatchEvents({
+      subaccounts: [{ subaccountOwner: this.accountAddress, subaccountName: 'default' }],
+      productIds: [this.symbolToProductId(symbol)],
+      limit: 100
+    });
+    
+    // Base and quote amounts and fees are x18, base signed by side
+    return matches
+      .map((match: any) => {
+        const baseFilled = parseFloat(String(match.baseFilled)) / 1e18;
+        const quoteFilled = Math.abs(parseFloat(String(match.quoteFilled)) / 1e18);
+        const size = Math.abs(baseFilled);
+        return {
+          orderId: match.digest,
+          symbol,
+          side: baseFilled > 0 ? 'buy' : 'sell',
+          size,
+          price: size > 0 ? quoteFilled / size : 0,
+          fee: parseFloat(String(match.totalFee)) / 1e18,
+          feeAsset: 'USDC',
+          liquidity: match.isTaker ? 'taker' : 'maker',
+          timestamp: Number(match.timestamp) * 1000
+        } as Fill;
+      })
+      .filter((fill: Fill) => fill.size > 0 && fill.timestamp >= since)
+      .sort((a: Fill, b: Fill) => a.timestamp - b.timestamp);
+  }
+  
   async getOrderBook(symbol: string, depth: number = 10): Promise<OrderBook> {
     if (this.dryRun) {
       const basePrice = 45000 + Math.random() * 1000;
@@ -265,27 +465,37 @@ export class NadoExchange extends BaseExchange {
         depth,
       });
 
-      const bids: [number, number][] = (result.bids || []).map((tick: any) => [
-        parseFloat(String(tick.price)),
-        parseFloat(String(tick.size)),
-      ]);
-
-      const asks: [number, number][] = (result.asks || []).map((tick: any) => [
+      // Prices come back decimal-adjusted, liquidity is still x18
+      const toLevel = (tick: any): [number, number] => [
         parseFloat(String(tick.price)),
-        parseFloat(String(tick.size)),
-      ]);
+        parseFloat(String(tick.liquidity)) / 1e18,
+      ];
 
-      return {
-        bids,
-        asks,
-        timestamp: Date.now()
-      };
+      return this.normalizeOrderBook(
+        (result.bids || []).map(toLevel),
+        (result.asks || []).map(toLevel)
+      );
     } catch (error) {
       this.logger.error(`${this.name}: Failed to get order book: ${error}`);
       throw error;
     }
   }
   
+  /**
+   * Digests are the order IDs Nado knows; a resend under the same client ID is a new digest.
+   */
+  private rememberDigest(clientOrderId: string | undefined, digest: string): void {
+    if (clientOrderId === undefined) {
+      return;
+    }
+    const digests = [...(this.clientOrderDigests.get(clientOrderId) || []), digest];
+    this.clientOrderDigests.delete(clientOrderId); // Re-inserted as the newest
+    this.clientOrderDigests.set(clientOrderId, digests);
+    if (this.clientOrderDigests.size > MAX_TRACKED_CLIENT_ORDERS) {
+      this.clientOrderDigests.delete(this.clientOrderDigests.keys().next().value!);
+    }
+  }
+  
   /**
    * Build order appendix (bit-packed integer)
    * Based on Nado Protocol documentation:
@@ -301,15 +511,12 @@ export class NadoExchange extends BaseExchange {
   private buildAppendix(options?: {
     orderType?: 'DEFAULT' | 'IOC' | 'FOK' | 'POST_ONLY';
     reduceOnly?: boolean;
-    postOnly?: boolean;
   }): string {
     let appendix = BigInt(1); // Version 1
     
     // Set order type (bits 9-10)
     let orderTypeValue = 0; // DEFAULT
-    if (options?.postOnly) {
-      orderTypeValue = 3; // POST_ONLY
-    } else if (options?.orderType === 'IOC') {
+    if (options?.orderType === 'IOC') {
       orderTypeValue = 1;
     } else if (options?.orderType === 'FOK') {
       orderTypeValue = 2;
@@ -326,17 +533,21 @@ export class NadoExchange extends BaseExchange {
     return appendix.toString();
   }
 
-  async placeLimitOrder(
-    symbol: string,
-    side: 'buy' | 'sell',
-    size: number,
-    price: number,
-    options?: { postOnly?: boolean; reduceOnly?: boolean }
-  ): Promise<Order> {
+  async placeOrder(request: OrderRequest): Promise<Order> {
+    const timeInForce = this.checkOrderRequest(request);
+    return request.type === 'market'
+      ? this.placeMarket(request, timeInForce)
+      : this.placeLimit(request, timeInForce);
+  }
+  
+  private async placeLimit(request: OrderRequest, timeInForce: TimeInForce): Promise<Order> {
+    const { symbol, side, size } = request;
+    const price = request.price!;
     if (this.dryRun) {
       this.logger.info(`[DRY RUN] ${this.name}: Place limit ${side} ${size} ${symbol} @ ${price}`);
       return {
-        orderId: `dry-${Date.now()}`,
+        orderId: `dry-${request.clientOrderId ?? Date.now()}`,
+        clientOrderId: request.clientOrderId,
         symbol,
         side,
         type: 'limit',
@@ -357,19 +568,18 @@ export class NadoExchange extends BaseExchange {
       
       // Build proper appendix
       const appendix = this.buildAppendix({
-        orderType: 'DEFAULT',
-        postOnly: options?.postOnly,
-        reduceOnly: options?.reduceOnly,
+        orderType: APPENDIX_ORDER_TYPES[timeInForce],
+        reduceOnly: request.reduceOnly,
       });
       
       // Convert to Nado's internal format (x18 decimals for price, wei for amount)
-      // Price must be whole dollars for BTC (divisible by 1e18)
-      const priceX18 = (BigInt(Math.floor(price)) * BigInt(10**18)).toString();
-      const amountWei = (BigInt(Math.floor(Math.abs(size) * 1e18))).toString();
+      // Both must sit on the market's price and size increments
+      const priceX18 = this.toPriceX18(symbol, price).toString();
+      const amountWei = this.toAmountX18(symbol, size).toString();
       const amountSigned = side === 'buy' ? amountWei : `-${amountWei}`;
       
-      // Expiration in milliseconds
-      const expirationMs = String(Date.now() + 86400000); // 24 hours from now in ms
+      // Expiration in milliseconds - 24 hours from now unless the order sets its own
+      const expirationMs = String(request.expiresAt ?? Date.now() + 86400000);
       
       // Nonce format: 44 bits recv_time (ms) + 20 bits random
       const recvTime = Date.now() + 5000; // 5 seconds from now for network latency
@@ -423,13 +633,15 @@ export class NadoExchange extends BaseExchange {
         },
       };
       
+      // Known before the order goes out, so it can be found even if the answer is lost
+      this.rememberDigest(request.clientOrderId, hashTypedData(typedData));
       const signature = await account.signTypedData(typedData);
       
       // Prepare payload in web app format
       const payload = {
         place_orders: {
           orders: [{
-            id: Date.now(),
+            id: request.clientOrderId ? Number(request.clientOrderId) : Date.now(),
             product_id: productId,
             order,
             signature,
@@ -440,7 +652,7 @@ export class NadoExchange extends BaseExchange {
         }
       };
 
-      this.logger.info(`${this.name}: Placing limit order ${side} ${size} ${symbol} @ ${price}`);
+      this.logger.info(`${this.name}: Placing limit order ${side} ${size} ${symbol} @ ${price} (${timeInForce})`);
       
       // Place order via Gateway WebSocket /execute endpoint (same as web app)
       // NOTE: Do NOT retry on 502 errors to avoid duplicate orders!
@@ -484,6 +696,7 @@ export class NadoExchange extends BaseExchange {
       // Parse and return order
       return {
         orderId: orderResult.digest || `nado-${Date.now()}`,
+        clientOrderId: request.clientOrderId,
         symbol,
         side,
         type: 'limit',
@@ -499,16 +712,13 @@ export class NadoExchange extends BaseExchange {
     }
   }
   
-  async placeMarketOrder(
-    symbol: string,
-    side: 'buy' | 'sell',
-    size: number,
-    options?: { reduceOnly?: boolean }
-  ): Promise<Order> {
+  private async placeMarket(request: OrderRequest, timeInForce: TimeInForce): Promise<Order> {
+    const { symbol, side, size } = request;
     if (this.dryRun) {
       this.logger.info(`[DRY RUN] ${this.name}: Place market ${side} ${size} ${symbol}`);
       return {
-        orderId: `dry-${Date.now()}`,
+        orderId: `dry-${request.clientOrderId ?? Date.now()}`,
+        clientOrderId: request.clientOrderId,
         symbol,
         side,
         type: 'market',
@@ -535,23 +745,23 @@ export class NadoExchange extends BaseExchange {
         ? marketData.askPrice * slippageFactor 
         : marketData.bidPrice * slippageFactor;
       
-      // Build appendix with IOC (Immediate or Cancel) for market orders
+      // Build appendix with IOC (Immediate or Cancel) for market orders - or FOK
       const appendix = this.buildAppendix({
-        orderType: 'IOC',
-        reduceOnly: options?.reduceOnly,
+        orderType: APPENDIX_ORDER_TYPES[timeInForce],
+        reduceOnly: request.reduceOnly,
       });
       
-      const orderId = Math.floor(Math.random() * 2_000_000_000);
-      const expiration = String(Date.now() + 1800000); // 30 minutes in ms
+      const orderId = request.clientOrderId ? Number(request.clientOrderId) : Math.floor(Math.random() * 2_000_000_000);
+      const expiration = String(request.expiresAt ?? Date.now() + 1800000); // 30 minutes in ms
       
       // Nonce format: 44 bits recv_time (ms) + 20 bits random
       const recvTime = Date.now() + 5000; // 5 seconds from now for network latency
       const randomInt = Math.floor(Math.random() * (2**20));
       const nonce = String((BigInt(recvTime) << BigInt(20)) | BigInt(randomInt));
       
-      // Convert to Nado format - price must be whole dollars
-      const priceX18 = (BigInt(Math.floor(executionPrice)) * BigInt(10**18)).toString();
-      const amountWei = (BigInt(Math.floor(Math.abs(size) * 1e18 * (side === 'buy' ? 1 : -1)))).toString();
+      // Convert to Nado format - price and size on the market's increments
+      const priceX18 = this.toPriceX18(symbol, executionPrice).toString();
+      const amountWei = ((side === 'buy' ? 1n : -1n) * this.toAmountX18(symbol, size)).toString();
       
       const orderData = {
         id: orderId,
@@ -607,6 +817,8 @@ export class NadoExchange extends BaseExchange {
         },
       };
       
+      // Known before the order goes out, so it can be found even if the answer is lost
+      this.rememberDigest(request.clientOrderId, hashTypedData(typedData));
       const signature = await account.signTypedData(typedData);
       
       const payload = {
@@ -654,6 +866,7 @@ export class NadoExchange extends BaseExchange {
       
       return {
         orderId: orderResult.digest || `nado-${Date.now()}`,
+        clientOrderId: request.clientOrderId,
         symbol,
         side,
         type: 'market',
@@ -728,61 +941,100 @@ export class NadoExchange extends BaseExchange {
     }
 
     try {
-      const productId = this.symbolToProductId(symbol);
-      
-      const result = await this.nadoClient.context.engineClient.getOrder({
-        productId,
-        digest: orderId,
-      } as any);
-
-      if (!result) {
+      const order = await this.lookupOrder(symbol, orderId);
+      if (!order) {
         throw new Error(`Order ${orderId} not found`);
       }
-
-      const order = result as any;
-      const amount = parseFloat(String(order.amount || order.orderAmount));
+      return order;
+    } catch (error) {
+      this.logger.warn(`${this.name}: Failed to get order ${orderId}: ${error}`);
+      throw error;
+    }
+  }
+  
+  async getOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null> {
+    if (this.dryRun) {
+      return null;
+    }
+    
+    // Nado looks orders up by digest, known only for the orders this process signed
+    const digests = this.clientOrderDigests.get(clientOrderId);
+    if (!digests) {
+      throw new Error(`${this.name}: No digest known for client order ID ${clientOrderId}`);
+    }
+    
+    for (const digest of digests) {
+      const order = await this.lookupOrder(symbol, digest);
+      if (order) {
+        return { ...order, clientOrderId };
+      }
+    }
+    return null;
+  }
+  
+  /**
+   * An order by digest from the engine (resting) or the indexer (finished) - null if neither has it.
+   */
+  private async lookupOrder(symbol: string, orderId: string): Promise<Order | null> {
+    if (!this.nadoClient) {
+      throw new Error('Nado client not initialized');
+    }
+    
+    const productId = this.symbolToProductId(symbol);
+    
+    // Resting orders are known to the engine
+    try {
+      const open = await this.nadoClient.context.engineClient.getOrder({ productId, digest: orderId });
+      const amount = parseFloat(String(open.totalAmount)) / 1e18;
+      const size = Math.abs(amount);
+      const filledSize = size - Math.abs(parseFloat(String(open.unfilledAmount)) / 1e18);
       
       return {
-        orderId: order.digest || orderId,
+        orderId,
         symbol,
         side: amount > 0 ? 'buy' : 'sell',
         type: 'limit',
-        size: Math.abs(amount),
-        price: parseFloat(String(order.price || order.orderPrice)),
-        filledSize: parseFloat(String(order.filledAmount || order.filled || 0)),
-        status: this.normalizeOrderStatus(order.state || order.status),
-        timestamp: Date.now()
+        size,
+        price: parseFloat(String(open.price)),
+        filledSize,
+        status: filledSize > 0 ? 'partially_filled' : 'open',
+        timestamp: open.placementTime * 1000
       };
     } catch (error) {
-      const errorMsg = String(error);
-      // If it's an H256 error, assume order is still open (format mismatch issue)
-      if (errorMsg.includes('H256') || errorMsg.includes('422')) {
-        this.logger.warn(`${this.name}: Cannot check order status (format issue), assuming open`);
-        return {
-          orderId,
-          symbol,
-          side: 'buy', // Unknown
-          type: 'limit',
-          size: 0,
-          price: 0,
-          filledSize: 0,
-          status: 'open',
-          timestamp: Date.now()
-        };
-      }
-      this.logger.error(`${this.name}: Failed to get order: ${error}`);
-      throw error;
+      this.logger.debug(`${this.name}: Order ${orderId} not resting (${error}), checking indexer`);
     }
-  }
-
-  private normalizeOrderStatus(state: any): Order['status'] {
-    // Nado order states: 0 = open, 1 = filled, 2 = cancelled
-    const stateMap: { [key: number]: Order['status'] } = {
-      0: 'open',
-      1: 'filled',
-      2: 'cancelled',
+    
+    // Filled, cancelled and IOC orders only show up in the indexer (which can lag a few seconds)
+    const orders = await this.nadoClient.context.indexerClient.getOrders({
+      digests: [orderId],
+      productIds: [productId],
+      limit: 1
+    });
+    
+    const order = orders[0];
+    if (!order) {
+      return null;
+    }
+    
+    const amount = parseFloat(String(order.amount)) / 1e18;
+    const size = Math.abs(amount);
+    const baseFilled = Math.abs(parseFloat(String(order.baseFilled)));
+    const quoteFilled = Math.abs(parseFloat(String(order.quoteFilled)));
+    const filledSize = baseFilled / 1e18;
+    
+    return {
+      orderId,
+      symbol,
+      side: amount > 0 ? 'buy' : 'sell',
+      type: 'limit',
+      size,
+      price: parseFloat(String(order.price)),
+      filledSize,
+      averageFillPrice: baseFilled > 0 ? quoteFilled / baseFilled : undefined,
+      // No longer on the book, so anything short of a full fill was cancelled
+      status: filledSize >= size * 0.9999 ? 'filled' : 'cancelled',
+      timestamp: order.recvTimeSeconds * 1000
     };
-    return stateMap[state] || 'open';
   }
   
   async getOpenPositions(): Promise<Position[]> {
@@ -929,20 +1181,206 @@ export class NadoExchange extends BaseExchange {
   ): Promise<void> {
     this.marketDataCallbacks.set(symbol, callback);
     const productId = this.symbolToProductId(symbol);
-    this.logger.info(`${this.name}: Subscribed to ${symbol} (product ${productId}) market data`);
-    // Note: Using REST API polling, not WebSocket
+    
+    if (this.dryRun || !this.marketDataConfig.websocketEnabled || !this.wsUrl) {
+      this.logger.info(`${this.name}: Subscribed to ${symbol} (product ${productId}) market data (REST polling)`);
+      return;
+    }
+    
+    this.books.set(productId, {
+      symbol,
+      book: new LocalOrderBook(),
+      lastMaxTimestamp: null,
+      snapshotTimestamp: null,
+      resyncing: false,
+      buffered: []
+    });
+    
+    if (!this.feed) {
+      this.feed = new ReconnectingWebSocket(this.name, this.wsUrl, this.marketDataConfig, {
+        onOpen: () => {
+          for (const id of this.books.keys()) {
+            this.subscribeBook(id);
+          }
+        },
+        onMessage: (message) => this.handleFeedMessage(message),
+        onDisconnect: () => {
+          for (const state of this.books.values()) {
+            state.book.invalidate();
+          }
+        }
+      }, this.logger);
+      this.feed.connect();
+    } else if (this.feed.isConnected()) {
+      this.subscribeBook(productId);
+    }
+    
+    this.logger.info(`${this.name}: Subscribed to ${symbol} (product ${productId}) order book over WebSocket`);
   }
 
   async unsubscribeFromMarketData(symbol: string): Promise<void> {
     this.marketDataCallbacks.delete(symbol);
-    // Note: Using REST API polling, no WebSocket to unsubscribe from
+    
+    const productId = this.symbolToProductId(symbol);
+    if (this.books.delete(productId) && this.feed) {
+      this.feed.send({ method: 'unsubscribe', stream: { type: 'book_depth', product_id: productId }, id: productId });
+    }
   }
   
   async close(): Promise<void> {
-    // No WebSocket to close (using REST API only)
+    if (this.feed) {
+      this.feed.close();
+      this.feed = null;
+    }
     this.logger.info(`${this.name}: Closed`);
   }
   
+  /**
+   * Top of the WebSocket book, or null if we have no live book for the symbol.
+   */
+  private getLiveMarketData(symbol: string): MarketData | null {
+    const state = this.books.get(this.symbolToProductId(symbol));
+    if (!state || !this.feed) {
+      return null;
+    }
+    
+    const stale = !state.book.isSynced() ||
+      Date.now() - this.feed.getLastMessageAt() > this.marketDataConfig.staleAfterMs;
+    return state.book.toMarketData(symbol, stale);
+  }
+  
+  private subscribeBook(productId: number): void {
+    this.feed?.send({ method: 'subscribe', stream: { type: 'book_depth', product_id: productId }, id: productId });
+    void this.resyncBook(productId);
+  }
+  
+  /**
+   * Load a REST snapshot and replay the events buffered meanwhile.
+   * book_depth events carry absolute level sizes, so overlap with the snapshot is harmless.
+   */
+  private async resyncBook(productId: number): Promise<void> {
+    const state = this.books.get(productId);
+    if (!state || state.resyncing) {
+      return;
+    }
+    
+    state.resyncing = true;
+    state.book.invalidate();
+    state.buffered = [];
+    
+    try {
+      const response = await axios.post(`${this.gatewayApiUrl}/v1/query`, {
+        type: 'market_liquidity',
+        product_id: productId,
+        depth: SNAPSHOT_DEPTH
+      }, {
+        headers: { 'Content-Type': 'application/json' },
+        timeout: 10000
+      });
+      
+      const data = response.data?.data;
+      if (!data) {
+        throw new Error(`Unexpected market_liquidity response: ${JSON.stringify(response.data)}`);
+      }
+      
+      state.book.applySnapshot(this.parseLevels(data.bids), this.parseLevels(data.asks));
+      state.snapshotTimestamp = data.timestamp ? BigInt(data.timestamp) : null;
+      state.lastMaxTimestamp = null;
+      state.resyncing = false;
+      this.logger.info(`${this.name}: ✓ ${state.symbol} order book synced`);
+      
+      const buffered = state.buffered;
+      state.buffered = [];
+      for (const event of buffered) {
+        this.applyBookEvent(productId, event);
+      }
+    } catch (error) {
+      state.resyncing = false;
+      this.logger.error(`${this.name}: Order book snapshot failed: ${error}`);
+      
+      // Try again while the subscription is still wanted
+      setTimeout(() => {
+        if (this.books.get(productId) === state && this.feed?.isConnected()) {
+          void this.resyncBook(productId);
+        }
+      }, this.marketDataConfig.reconnectInitialDelayMs);
+    }
+  }
+  
+  private handleFeedMessage(message: any): void {
+    if (message.type !== 'book_depth') {
+      // Subscription acks ({ result, id }) and other streams
+      if (message.error) {
+        this.logger.warn(`${this.name}: WebSocket error response: ${JSON.stringify(message)}`);
+      }
+      return;
+    }
+    
+    const productId = Number(message.product_id);
+    const state = this.books.get(productId);
+    if (!state) {
+      return;
+    }
+    
+    if (state.resyncing) {
+      state.buffered.push(message);
+      return;
+    }
+    
+    this.applyBookEvent(productId, message);
+  }
+  
+  private applyBookEvent(productId: number, event: any): void {
+    const state = this.books.get(productId)!;
+    if (!state.book.isSynced()) {
+      return; // Waiting for a snapshot
+    }
+    
+    const maxTimestamp = BigInt(event.max_timestamp);
+    if (state.snapshotTimestamp !== null && maxTimestamp <= state.snapshotTimestamp) {
+      return; // Already included in the snapshot
+    }
+    
+    // Each event links to the previous one - a mismatch means we missed updates
+    if (state.lastMaxTimestamp !== null && BigInt(event.last_max_timestamp) !== state.lastMaxTimestamp) {
+      this.logger.warn(
+        `${this.name}: ${state.symbol} book sequence gap ` +
+        `(expected ${state.lastMaxTimestamp}, got ${event.last_max_timestamp}), resyncing`
+      );
+      void this.resyncBook(productId);
+      return;
+    }
+    
+    state.lastMaxTimestamp = maxTimestamp;
+    state.book.applyUpdate(this.parseLevels(event.bids), this.parseLevels(event.asks));
+    
+    if (state.book.isCrossed()) {
+      this.logger.warn(`${this.name}: ${state.symbol} book crossed after update, resyncing`);
+      void this.resyncBook(productId);
+      return;
+    }
+    
+    const marketData = state.book.toMarketData(state.symbol, false);
+    if (marketData) {
+      this.lastMarketData.set(state.symbol, marketData);
+      this.marketDataCallbacks.get(state.symbol)?.(marketData);
+    }
+  }
+  
+  /**
+   * Raw engine levels are [price_x18, size_x18] strings.
+   */
+  private parseLevels(levels: any[] | undefined): [number, number][] {
+    // Split into whole and fractional parts so prices don't pick up float noise
+    const fromX18 = (value: string): number => {
+      const raw = BigInt(value);
+      const scale = BigInt(1e18);
+      return Number(raw / scale) + Number(raw % scale) / 1e18;
+    };
+    
+    return (levels || []).map((level: any) => [fromX18(level[0]), fromX18(level[1])]);
+  }
+  
   // Note: SDK handles all signing and authentication
   
   // Utility methods for future SDK integration
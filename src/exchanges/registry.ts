@@ -0,0 +1,95 @@
+/**
+ * Exchange registry.
+ * Adapters are registered by type and build venues from their config; the built exchanges are
+ * kept by venue ID. The bot, the recorder and the strategy look venues up here instead of
+ * naming them, so a new perp DEX needs an IExchange adapter and one registerAdapter() call.
+ */
+
+import { ExchangeConfig, MarketDataConfig, VenueId } from '../config/types';
+import { Logger } from '../utils/logger';
+import { IExchange } from './interface';
+import { NadoExchange } from './nado';
+import { LighterExchange } from './lighter';
+import { ResolvedVenue } from './venues';
+
+/** What every adapter is built with besides its own config */
+export interface AdapterContext {
+  logger: Logger;
+  dryRun: boolean;
+  marketData?: MarketDataConfig;
+}
+
+export type ExchangeFactory = (config: ExchangeConfig, context: AdapterContext) => IExchange;
+
+export class ExchangeRegistry {
+  private factories: Map<string, ExchangeFactory> = new Map(); // adapter type -> factory
+  private exchanges: Map<VenueId, IExchange> = new Map();
+
+  registerAdapter(type: string, factory: ExchangeFactory): void {
+    this.factories.set(type, factory);
+  }
+
+  getAdapterTypes(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  /**
+   * Build a configured venue with its adapter and register it under its ID.
+   */
+  create(venue: ResolvedVenue, context: AdapterContext): IExchange {
+    const factory = this.factories.get(venue.adapter);
+    if (!factory) {
+      throw new Error(
+        `Venue ${venue.id}: unknown exchange adapter "${venue.adapter}" (available: ${this.getAdapterTypes().join(', ')})`
+      );
+    }
+    const exchange = factory(venue.config, context);
+    this.register(exchange);
+    return exchange;
+  }
+
+  /**
+   * Register an exchange built elsewhere (replay and simulated exchanges).
+   */
+  register(exchange: IExchange): void {
+    if (this.exchanges.has(exchange.id)) {
+      throw new Error(`Venue ${exchange.id} is already registered`);
+    }
+    this.exchanges.set(exchange.id, exchange);
+  }
+
+  /**
+   * A registered venue - throws if there is none with this ID.
+   */
+  get(id: VenueId): IExchange {
+    const exchange = this.exchanges.get(id);
+    if (!exchange) {
+      throw new Error(`Venue ${id} is not registered (registered: ${this.ids().join(', ') || 'none'})`);
+    }
+    return exchange;
+  }
+
+  has(id: VenueId): boolean {
+    return this.exchanges.has(id);
+  }
+
+  ids(): VenueId[] {
+    return [...this.exchanges.keys()];
+  }
+
+  all(): IExchange[] {
+    return [...this.exchanges.values()];
+  }
+}
+
+/**
+ * A registry with the built-in adapters.
+ */
+export function createExchangeRegistry(): ExchangeRegistry {
+  const registry = new ExchangeRegistry();
+  registry.registerAdapter('nado', (config, context) =>
+    new NadoExchange(config, context.logger, context.dryRun, context.marketData));
+  registry.registerAdapter('lighter', (config, context) =>
+    new LighterExchange(config, context.logger, context.dryRun, context.marketData));
+  return registry;
+}
@@ -0,0 +1,71 @@
+/**
+ * Venue settings.
+ * Resolves the configured venues - the `venues` section, or the nado/lighter sections and
+ * the fee section of older configs - and the pair of venues the strategy trades.
+ */
+
+import { BotConfig, ExchangeConfig, VenueFees, VenueId } from '../config/types';
+
+export const DEFAULT_PAIR: [VenueId, VenueId] = ['nado', 'lighter'];
+
+/** A venue with its ID and fees filled into the adapter's config */
+export interface ResolvedVenue {
+  id: VenueId;
+  adapter: string;
+  config: ExchangeConfig;
+  fees: VenueFees;
+}
+
+/**
+ * Configured venues. Without a `venues` section these are nado and lighter, with their fees
+ * taken from the fee section.
+ */
+export function resolveVenues(config: BotConfig): ResolvedVenue[] {
+  if (config.venues) {
+    return Object.entries(config.venues).map(([id, venue]) => {
+      const { adapter, makerFeeBps, takerFeeBps, ...exchangeConfig } = venue;
+      const fees = { makerFeeBps, takerFeeBps };
+      return { id, adapter, config: { ...exchangeConfig, id, fees }, fees };
+    });
+  }
+
+  const venues: ResolvedVenue[] = [];
+  if (config.nado) {
+    const fees = { makerFeeBps: config.fees?.nadoMakerFeeBps ?? 0, takerFeeBps: config.fees?.nadoTakerFeeBps ?? 0 };
+    venues.push({ id: 'nado', adapter: 'nado', config: { ...config.nado, id: 'nado', fees }, fees });
+  }
+  if (config.lighter) {
+    const fees = { makerFeeBps: config.fees?.lighterMakerFeeBps ?? 0, takerFeeBps: config.fees?.lighterTakerFeeBps ?? 0 };
+    venues.push({ id: 'lighter', adapter: 'lighter', config: { ...config.lighter, id: 'lighter', fees }, fees });
+  }
+  return venues;
+}
+
+/**
+ * The two venues to trade: `pair`, else the only two configured venues, else nado and lighter.
+ */
+export function resolvePair(config: BotConfig): [VenueId, VenueId] {
+  if (config.pair) {
+    return config.pair;
+  }
+  const ids = config.venues ? Object.keys(config.venues) : [];
+  return ids.length === 2 ? [ids[0], ids[1]] : DEFAULT_PAIR;
+}
+
+/**
+ * Fees by venue ID.
+ */
+export function getVenueFees(config: BotConfig): Record<VenueId, VenueFees> {
+  return Object.fromEntries(resolveVenues(config).map(venue => [venue.id, venue.fees]));
+}
+
+/**
+ * A resolved venue by ID - throws if it isn't configured.
+ */
+export function getVenue(config: BotConfig, id: VenueId): ResolvedVenue {
+  const venue = resolveVenues(config).find(candidate => candidate.id === id);
+  if (!venue) {
+    throw new Error(`Venue ${id} is not configured`);
+  }
+  return venue;
+}
@@ -0,0 +1,189 @@
+/**
+ * Reconnecting WebSocket connection for exchange market data feeds.
+ * Handles heartbeats and reconnects with exponential backoff; the venue
+ * protocols (subscriptions, book updates, sequencing) live in the adapters.
+ */
+
+import WebSocket from 'ws';
+import { MarketDataConfig } from '../config/types';
+import { Logger } from '../utils/logger';
+
+export const DEFAULT_MARKET_DATA_CONFIG: MarketDataConfig = {
+  websocketEnabled: true,
+  staleAfterMs: 5000,
+  heartbeatIntervalMs: 15000,
+  reconnectInitialDelayMs: 1000,
+  reconnectMaxDelayMs: 30000
+};
+
+export interface WebSocketHandlers {
+  onOpen: () => void; // (Re)connected - send subscriptions
+  onMessage: (message: any) => void; // Parsed JSON message
+  onDisconnect: () => void; // Connection lost - local books can no longer be trusted
+}
+
+export class ReconnectingWebSocket {
+  private name: string;
+  private url: string;
+  private config: MarketDataConfig;
+  private handlers: WebSocketHandlers;
+  private logger: Logger;
+  private socket: WebSocket | null = null;
+  private shouldRun: boolean = false;
+  private reconnectDelayMs: number;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private awaitingPong: boolean = false;
+  private lastMessageAt: number = 0;
+
+  constructor(
+    name: string,
+    url: string,
+    config: MarketDataConfig,
+    handlers: WebSocketHandlers,
+    logger: Logger
+  ) {
+    this.name = name;
+    this.url = url;
+    this.config = config;
+    this.handlers = handlers;
+    this.logger = logger;
+    this.reconnectDelayMs = config.reconnectInitialDelayMs;
+  }
+
+  /**
+   * Open the connection. Reconnects automatically until close() is called.
+   */
+  connect(): void {
+    if (this.shouldRun) {
+      return;
+    }
+    this.shouldRun = true;
+    this.open();
+  }
+
+  isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Time of the last message or pong - used for staleness checks.
+   */
+  getLastMessageAt(): number {
+    return this.lastMessageAt;
+  }
+
+  send(message: object): void {
+    if (!this.isConnected()) {
+      this.logger.debug(`${this.name}: WebSocket not connected, dropping ${JSON.stringify(message)}`);
+      return;
+    }
+    this.socket!.send(JSON.stringify(message));
+  }
+
+  close(): void {
+    this.shouldRun = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopHeartbeat();
+
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.on('error', () => {}); // Errors while closing are expected
+      this.socket.terminate();
+      this.socket = null;
+    }
+  }
+
+  private open(): void {
+    this.logger.info(`${this.name}: Connecting to ${this.url}...`);
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.logger.info(`${this.name}: ✓ WebSocket connected`);
+      this.reconnectDelayMs = this.config.reconnectInitialDelayMs;
+      this.lastMessageAt = Date.now();
+      this.startHeartbeat();
+      this.handlers.onOpen();
+    });
+
+    socket.on('message', (data: WebSocket.RawData) => {
+      this.lastMessageAt = Date.now();
+      this.awaitingPong = false; // Any traffic proves the connection is alive
+
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (error) {
+        this.logger.warn(`${this.name}: Ignoring malformed WebSocket message: ${error}`);
+        return;
+      }
+
+      try {
+        this.handlers.onMessage(message);
+      } catch (error) {
+        this.logger.error(`${this.name}: Failed to handle WebSocket message: ${error}`);
+      }
+    });
+
+    socket.on('pong', () => {
+      this.lastMessageAt = Date.now();
+      this.awaitingPong = false;
+    });
+
+    socket.on('error', (error: Error) => {
+      this.logger.warn(`${this.name}: WebSocket error: ${error.message}`);
+    });
+
+    socket.on('close', (code: number) => {
+      this.stopHeartbeat();
+      this.socket = null;
+      this.handlers.onDisconnect();
+
+      if (!this.shouldRun) {
+        return;
+      }
+
+      this.logger.warn(`${this.name}: WebSocket closed (code ${code}), reconnecting in ${this.reconnectDelayMs}ms`);
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (this.shouldRun) {
+          this.open();
+        }
+      }, this.reconnectDelayMs);
+      this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, this.config.reconnectMaxDelayMs);
+    });
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.awaitingPong = false;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.socket) {
+        return;
+      }
+
+      // Nothing heard since the last ping - the connection is dead even if TCP hasn't noticed
+      if (this.awaitingPong) {
+        this.logger.warn(`${this.name}: WebSocket heartbeat missed, reconnecting`);
+        this.socket.terminate();
+        return;
+      }
+
+      this.awaitingPong = true;
+      this.socket.ping();
+    }, this.config.heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
@@ -1,7 +1,8 @@
 /**
- * Main entry point for the BTC perpetual cross-exchange basis trading bot.
+ * Main entry point for the perpetual cross-exchange basis trading bot.
  * 
- * This bot trades BTC perpetual markets on Nado and Lighter (Mantle network).
+ * This bot trades perpetual markets on a pair of venues (Nado and Lighter on Mantle by default), one
+ * strategy per market.
  * It opens hedged spread trades when price gaps are large and closes when gaps compress.
  * 
  * Usage:
@@ -20,19 +21,35 @@ dotenv.config();
 
 import { loadConfig } from './config/config';
 import { createLogger } from './utils/logger';
-import { NadoExchange } from './exchanges/nado';
-import { LighterExchange } from './exchanges/lighter';
+import { ExchangeRegistry, createExchangeRegistry } from './exchanges/registry';
+import { resolvePair, resolveVenues } from './exchanges/venues';
 import { BasisTradingStrategy } from './core/strategy';
+import { MarginLedger } from './core/margin-ledger';
+import { CircuitBreakerManager } from './core/circuit-breaker';
+import { LossLimitManager } from './core/loss-limits';
+import { CollateralRebalancer } from './rebalance/rebalancer';
+import { ResolvedMarket, resolveMarkets } from './core/markets';
+import { IExchange } from './exchanges/interface';
+import { MarketRecorder } from './recorder/recorder';
+import { RecordingExchange } from './recorder/recording-exchange';
 import { sleep } from './utils/retry';
 
-const SYMBOL = 'BTC-PERP';
+/** Everything the bot runs for one market */
+interface MarketRunner {
+  market: ResolvedMarket;
+  strategy: BasisTradingStrategy;
+  recorder: MarketRecorder | null;
+  isEvaluating: boolean;
+  evaluationPending: boolean;
+}
 
 class TradingBot {
   private config: ReturnType<typeof loadConfig>;
   private logger: ReturnType<typeof createLogger>;
-  private nadoExchange!: NadoExchange;
-  private lighterExchange!: LighterExchange;
-  private strategy!: BasisTradingStrategy;
+  private registry: ExchangeRegistry;
+  private pair!: [IExchange, IExchange]; // Set in initialize - the first venue is the maker venue
+  private markets: ResolvedMarket[];
+  private runners: MarketRunner[] = [];
   private isRunning: boolean = false;
   private shouldStop: boolean = false;
   
@@ -40,14 +57,20 @@ class TradingBot {
     // Load configuration
     this.config = loadConfig();
     this.logger = createLogger(this.config.logLevel);
+    this.markets = resolveMarkets(this.config);
+    this.registry = createExchangeRegistry();
     
     this.logger.info('='.repeat(80));
-    this.logger.info('BTC Perpetual Cross-Exchange Basis Trading Bot');
+    this.logger.info('Perpetual Cross-Exchange Basis Trading Bot');
     this.logger.info('='.repeat(80));
     this.logger.info(`Mode: ${this.config.dryRun ? 'DRY RUN (SIMULATION)' : 'LIVE TRADING'}`);
-    this.logger.info(`Entry Gap: ${this.config.entryGapUsd} USD`);
-    this.logger.info(`Exit Gap: ${this.config.exitGapUsd} USD`);
-    this.logger.info(`Position Size: ${this.config.positionSizeBtc} BTC`);
+    this.logger.info(`Venues: ${resolvePair(this.config).join(' / ')}`);
+    for (const market of this.markets) {
+      this.logger.info(
+        `Market ${market.symbol}: Size ${market.positionSize} | ` +
+        `Entry Gap ${market.entryGapUsd} USD | Exit Gap ${market.exitGapUsd} USD`
+      );
+    }
     this.logger.info(`Min Hold Duration: ${this.config.minHoldDurationSeconds}s`);
     if (this.config.maxHoldDurationSeconds) {
       this.logger.info(`Max Hold Duration: ${this.config.maxHoldDurationSeconds}s`);
@@ -60,61 +83,74 @@ class TradingBot {
     this.logger.info('Initializing bot...');
     
     try {
-      // Initialize exchanges
-      this.nadoExchange = new NadoExchange(
-        this.config.nado,
-        this.logger,
-        this.config.dryRun
-      );
-      
-      this.lighterExchange = new LighterExchange(
-        this.config.lighter,
-        this.logger,
-        this.config.dryRun
-      );
+      // Initialize the pair's exchanges with their adapters
+      const context = { logger: this.logger, dryRun: this.config.dryRun, marketData: this.config.marketData };
+      const pairIds = resolvePair(this.config);
+      for (const venue of resolveVenues(this.config).filter(venue => pairIds.includes(venue.id))) {
+        this.registry.create(venue, context);
+      }
+      this.pair = [this.registry.get(pairIds[0]), this.registry.get(pairIds[1])];
       
-      await Promise.all([
-        this.nadoExchange.initialize(),
-        this.lighterExchange.initialize()
-      ]);
+      await Promise.all(this.pair.map(exchange => exchange.initialize()));
       
       this.logger.info('✓ Exchanges initialized');
       
-      // Initialize strategy
-      this.strategy = new BasisTradingStrategy(
-        this.config,
-        this.nadoExchange,
-        this.lighterExchange,
-        this.logger,
-        SYMBOL
-      );
+      // Every market must be listed on both venues before anything trades
+      for (const market of this.markets) {
+        for (const exchange of this.pair) {
+          exchange.getMarketInfo(market.symbol);
+        }
+      }
       
-      // IMPORTANT: Check for existing positions before trading
-      await this.strategy.initialize();
+      // Margin reserved by in-flight entries, shared so markets don't spend the same collateral
+      const marginLedger = new MarginLedger();
       
-      this.logger.info('✓ Strategy initialized');
+      // One set of circuit breakers - a trip on any market halts entries on all of them
+      const circuitBreakers = new CircuitBreakerManager(this.config, this.logger);
       
-      // Subscribe to market data if WebSocket is available
-      if (this.config.nado.wsUrl) {
-        await this.nadoExchange.subscribeToMarketData(SYMBOL, () => {
-          // WebSocket callback - trigger strategy evaluation
-          if (this.isRunning) {
-            this.strategy.onMarketUpdate().catch(err => {
-              this.logger.error(`Strategy update error (Nado WS): ${err}`);
-            });
-          }
-        });
+      // Loss limits and drawdown sizing follow the whole account's equity, so they're shared too
+      const lossLimits = new LossLimitManager(this.config, this.pair, this.logger);
+      
+      // Collateral sits per venue, so one rebalancer watches it for every market
+      const rebalancer = new CollateralRebalancer(this.config, this.pair, this.logger);
+      
+      for (const market of this.markets) {
+        // Optional market data recorder - the strategy trades through recording wrappers
+        let [venueA, venueB]: IExchange[] = this.pair;
+        let recorder: MarketRecorder | null = null;
+        
+        if (this.config.recorder?.enabled) {
+          recorder = new MarketRecorder(this.config.recorder, this.logger);
+          venueA = new RecordingExchange(this.pair[0], recorder);
+          venueB = new RecordingExchange(this.pair[1], recorder);
+          await recorder.start(market.symbol, Object.fromEntries(this.pair.map(exchange => [exchange.id, exchange])));
+        }
+        
+        const strategy = new BasisTradingStrategy(
+          this.config,
+          venueA,
+          venueB,
+          this.logger,
+          market,
+          marginLedger,
+          circuitBreakers,
+          lossLimits,
+          rebalancer
+        );
+        
+        // IMPORTANT: Check for existing positions before trading
+        await strategy.initialize();
+        
+        this.runners.push({ market, strategy, recorder, isEvaluating: false, evaluationPending: false });
+        this.logger.info(`✓ ${market.symbol} strategy initialized`);
       }
       
-      if (this.config.lighter.wsUrl) {
-        await this.lighterExchange.subscribeToMarketData(SYMBOL, () => {
-          // WebSocket callback - trigger strategy evaluation
-          if (this.isRunning) {
-            this.strategy.onMarketUpdate().catch(err => {
-              this.logger.error(`Strategy update error (Lighter WS): ${err}`);
-            });
-          }
-        });
+      // Live order books over WebSocket - every book update triggers an evaluation of its market
+      for (const runner of this.runners) {
+        const symbol = runner.market.symbol;
+        for (const exchange of this.pair) {
+          await exchange.subscribeToMarketData(symbol, () => this.requestEvaluation(runner));
+        }
       }
       
       this.logger.info('✓ Market data subscriptions active');
@@ -144,28 +180,34 @@ class TradingBot {
       try {
         const now = Date.now();
         
-        // Periodic market update (if not using WebSocket)
+        // Periodic market update - the only trigger when WebSocket is off or down
         if (now - lastMarketUpdateTime >= this.config.marketDataUpdateIntervalMs) {
           lastMarketUpdateTime = now;
-          await this.strategy.onMarketUpdate();
+          await Promise.all(this.runners.map(runner => this.requestEvaluation(runner)));
         }
         
         // Periodic status logging
         if (now - lastStatusLogTime >= 60000) { // Every 60 seconds
           lastStatusLogTime = now;
-          this.strategy.logStatus();
+          for (const runner of this.runners) {
+            runner.strategy.logStatus();
+          }
         }
         
         // Periodic funding rate monitoring
         if (now - lastFundingCheckTime >= this.config.fundingRateUpdateIntervalMs) {
           lastFundingCheckTime = now;
-          await this.monitorFundingRates();
+          for (const runner of this.runners) {
+            await this.monitorFundingRates(runner);
+          }
         }
         
         // Periodic position verification (every 30 minutes)
         if (now - lastPositionVerifyTime >= 1800000) { // 30 minutes
           lastPositionVerifyTime = now;
-          await this.verifyPositions();
+          for (const runner of this.runners) {
+            await this.verifyPositions(runner);
+          }
         }
         
         // Sleep to prevent tight loop
@@ -180,49 +222,81 @@ class TradingBot {
     this.logger.info('Bot stopped');
   }
   
-  private async verifyPositions(): Promise<void> {
+  /**
+   * Run a market's strategy evaluation, coalescing triggers that arrive while one is running.
+   * Book updates can arrive hundreds of times a second; they collapse into at most
+   * one follow-up evaluation, which then sees the latest book. Markets evaluate independently.
+   */
+  private async requestEvaluation(runner: MarketRunner): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+    
+    if (runner.isEvaluating) {
+      runner.evaluationPending = true;
+      return;
+    }
+    
+    runner.isEvaluating = true;
+    try {
+      do {
+        runner.evaluationPending = false;
+        await runner.strategy.onMarketUpdate();
+      } while (runner.evaluationPending && this.isRunning);
+    } catch (error) {
+      this.logger.error(`${runner.market.symbol} strategy update error: ${error}`);
+    } finally {
+      runner.isEvaluating = false;
+    }
+  }
+  
+  private async verifyPositions(runner: MarketRunner): Promise<void> {
+    const symbol = runner.market.symbol;
+    const strategy = runner.strategy;
+    
     try {
-      this.logger.info('🔍 Performing periodic position verification...');
+      this.logger.info(`🔍 Performing periodic position verification for ${symbol}...`);
       
       // Get actual positions from exchanges
-      const [nadoPosition, lighterPosition] = await Promise.all([
-        this.nadoExchange.getPosition(SYMBOL),
-        this.lighterExchange.getPosition(SYMBOL)
+      const [venueA, venueB] = this.pair;
+      const [aPosition, bPosition] = await Promise.all([
+        venueA.getPosition(symbol),
+        venueB.getPosition(symbol)
       ]);
       
-      const actualNadoSize = Math.abs(nadoPosition?.size || 0);
-      const actualLighterSize = Math.abs(lighterPosition?.size || 0);
+      const actualASize = Math.abs(aPosition?.size || 0);
+      const actualBSize = Math.abs(bPosition?.size || 0);
       
       // Get bot's internal state
-      const botState = this.strategy.getStatus();
+      const botState = strategy.getStatus();
       const botThinkPositionOpen = botState.state === 'OPEN';
       
       // Check for mismatch
-      const hasActualPosition = actualNadoSize > 0 || actualLighterSize > 0;
+      const hasActualPosition = actualASize > 0 || actualBSize > 0;
       
       if (botThinkPositionOpen && !hasActualPosition) {
         this.logger.error('❌ CRITICAL: Bot thinks position is OPEN but exchanges show FLAT!');
         this.logger.error('   This could cause unhedged positions. Forcing state reset...');
         // Force the strategy to reconcile
-        await this.strategy.initialize();
+        await strategy.initialize();
         this.logger.info('✓ State reset complete. Bot should now be in sync.');
       } else if (!botThinkPositionOpen && hasActualPosition) {
         this.logger.error('❌ CRITICAL: Bot thinks FLAT but exchanges show OPEN positions!');
-        this.logger.error(`   Nado: ${actualNadoSize} BTC (${nadoPosition?.side})`);
-        this.logger.error(`   Lighter: ${actualLighterSize} BTC (${lighterPosition?.side})`);
+        this.logger.error(`   ${venueA.name}: ${actualASize} (${aPosition?.side})`);
+        this.logger.error(`   ${venueB.name}: ${actualBSize} (${bPosition?.side})`);
         this.logger.error('   Forcing position detection...');
-        await this.strategy.initialize();
+        await strategy.initialize();
         this.logger.info('✓ Position detected. Bot will now manage exit.');
       } else if (botThinkPositionOpen && hasActualPosition) {
         // Both agree position is open - verify hedge is correct
-        const sizeDiff = Math.abs(actualNadoSize - actualLighterSize);
+        const sizeDiff = Math.abs(actualASize - actualBSize);
         if (sizeDiff > 0.001) {
           this.logger.error('❌ CRITICAL: Position size mismatch!');
-          this.logger.error(`   Nado: ${actualNadoSize} BTC, Lighter: ${actualLighterSize} BTC`);
-          this.logger.error(`   Difference: ${sizeDiff.toFixed(4)} BTC - UNHEDGED RISK!`);
-        } else if (nadoPosition?.side && lighterPosition?.side && nadoPosition.side === lighterPosition.side) {
+          this.logger.error(`   ${venueA.name}: ${actualASize}, ${venueB.name}: ${actualBSize}`);
+          this.logger.error(`   Difference: ${sizeDiff.toFixed(4)} - UNHEDGED RISK!`);
+        } else if (aPosition?.side && bPosition?.side && aPosition.side === bPosition.side) {
           this.logger.error('❌ CRITICAL: Both positions on same side - NOT HEDGED!');
-          this.logger.error(`   Nado: ${nadoPosition.side}, Lighter: ${lighterPosition.side}`);
+          this.logger.error(`   ${venueA.name}: ${aPosition.side}, ${venueB.name}: ${bPosition.side}`);
         } else {
           this.logger.info('✓ Position verification passed - properly hedged');
         }
@@ -231,41 +305,43 @@ class TradingBot {
       }
       
     } catch (error) {
-      this.logger.error(`Failed to verify positions: ${error}`);
+      this.logger.error(`Failed to verify ${symbol} positions: ${error}`);
     }
   }
   
-  private async monitorFundingRates(): Promise<void> {
+  private async monitorFundingRates(runner: MarketRunner): Promise<void> {
+    const symbol = runner.market.symbol;
+    
     try {
-      const position = this.strategy.getStatus().position;
+      const position = runner.strategy.getStatus().position;
       
       if (position) {
         // Monitor funding for current position
-        const longExchange = position.cheapExchange === 'nado' ? this.nadoExchange : this.lighterExchange;
-        const shortExchange = position.expensiveExchange === 'nado' ? this.nadoExchange : this.lighterExchange;
+        const longExchange = this.registry.get(position.cheapExchange);
+        const shortExchange = this.registry.get(position.expensiveExchange);
         
         const [longFunding, shortFunding] = await Promise.all([
-          longExchange.getFundingRate(SYMBOL),
-          shortExchange.getFundingRate(SYMBOL)
+          longExchange.getFundingRate(symbol),
+          shortExchange.getFundingRate(symbol)
         ]);
         
         const netFundingPerHour = shortFunding.rate - longFunding.rate;
         
         this.logger.debug(
-          `Funding rates - LONG ${longExchange.name}: ${(longFunding.rate * 100).toFixed(4)}%/hr, ` +
+          `${symbol} funding rates - LONG ${longExchange.name}: ${(longFunding.rate * 100).toFixed(4)}%/hr, ` +
           `SHORT ${shortExchange.name}: ${(shortFunding.rate * 100).toFixed(4)}%/hr, ` +
           `Net: ${(netFundingPerHour * 100).toFixed(4)}%/hr`
         );
         
         if (netFundingPerHour < this.config.maxNetFundingPerHourThreshold) {
           this.logger.warn(
-            `⚠ Funding now unfavorable: ${(netFundingPerHour * 100).toFixed(4)}%/hr ` +
+            `⚠ ${symbol} funding now unfavorable: ${(netFundingPerHour * 100).toFixed(4)}%/hr ` +
             `(threshold: ${(this.config.maxNetFundingPerHourThreshold * 100).toFixed(4)}%/hr)`
           );
         }
       }
     } catch (error) {
-      this.logger.error(`Failed to monitor funding rates: ${error}`);
+      this.logger.error(`Failed to monitor ${symbol} funding rates: ${error}`);
     }
   }
   
@@ -275,43 +351,49 @@ class TradingBot {
     this.isRunning = false;
     
     try {
-      const status = this.strategy.getStatus();
-      
-      if (status.state === 'OPEN') {
-        this.logger.warn('⚠ Open position detected during shutdown');
-        this.logger.warn('Position will remain open. To close it:');
-        this.logger.warn('1. Restart the bot - it will manage the exit');
-        this.logger.warn('2. Or manually close positions on both exchanges');
+      for (const runner of this.runners) {
+        const status = runner.strategy.getStatus();
         
-        const position = status.position;
-        if (position) {
-          this.logger.info(
-            `Current position: LONG ${position.positionSizeBtc} on ${position.cheapExchange}, ` +
-            `SHORT ${position.positionSizeBtc} on ${position.expensiveExchange}`
-          );
+        if (status.state === 'OPEN') {
+          this.logger.warn(`⚠ Open ${status.symbol} position detected during shutdown`);
+          this.logger.warn('Position will remain open. To close it:');
+          this.logger.warn('1. Restart the bot - it will manage the exit');
+          this.logger.warn('2. Or manually close positions on both exchanges');
+          
+          const position = status.position;
+          if (position) {
+            this.logger.info(
+              `Current position: LONG ${position.positionSizeBtc} on ${position.cheapExchange}, ` +
+              `SHORT ${position.positionSizeBtc} on ${position.expensiveExchange}`
+            );
+          }
+          
+          // Optionally, we could force close here if user wants
+          // For production safety, we leave positions open for manual intervention
         }
-        
-        // Optionally, we could force close here if user wants
-        // For production safety, we leave positions open for manual intervention
       }
       
       // Print final stats
       this.logger.info('='.repeat(80));
       this.logger.info('Final Statistics:');
-      const stats = status.stats;
-      this.logger.info(`Total Trades: ${stats.totalTrades}`);
-      if (stats.totalTrades > 0) {
-        this.logger.info(`Total PnL: ${stats.totalPnl.toFixed(6)} BTC`);
-        this.logger.info(`Average Hold Duration: ${stats.averageHoldDuration.toFixed(0)}s`);
-        this.logger.info(`Win Rate: ${(stats.winRate * 100).toFixed(1)}%`);
+      for (const runner of this.runners) {
+        const stats = runner.strategy.getStatus().stats;
+        this.logger.info(`${runner.market.symbol} - Total Trades: ${stats.totalTrades}`);
+        if (stats.totalTrades > 0) {
+          this.logger.info(`  Total PnL: ${stats.totalPnl.toFixed(6)}`);
+          this.logger.info(`  Average Hold Duration: ${stats.averageHoldDuration.toFixed(0)}s`);
+          this.logger.info(`  Win Rate: ${(stats.winRate * 100).toFixed(1)}%`);
+        }
       }
       this.logger.info('='.repeat(80));
       
+      // Flush the last recording files before exiting
+      for (const runner of this.runners) {
+        await runner.recorder?.stop();
+      }
+      
       // Close exchange connections
-      await Promise.all([
-        this.nadoExchange.close(),
-        this.lighterExchange.close()
-      ]);
+      await Promise.all(this.registry.all().map(exchange => exchange.close()));
       
       this.logger.info('Shutdown complete');
       process.exit(0);
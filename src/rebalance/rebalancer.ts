@@ -0,0 +1,336 @@
+/**
+ * Cross-venue collateral rebalancing.
+ * A spread held for long drains free collateral on the losing leg's venue while the other
+ * venue accumulates the PnL - the hedge is flat, but one leg drifts toward liquidation. The
+ * rebalancer reads free collateral (available margin) on both venues and, when one holds
+ * less than minFreeCollateralShare of the total, recommends moving USDC across. With
+ * `execute` on, the transfer runs through a TransferAdapter: withdraw, wait, deposit, wait.
+ * New entries and flips wait while a recommendation is outstanding or a transfer runs. A
+ * running transfer is kept in the state directory, so a restart picks it up where it was.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BotConfig, RebalanceConfig } from '../config/types';
+import { IExchange } from '../exchanges/interface';
+import { Logger } from '../utils/logger';
+import { DEFAULT_STATE_CONFIG } from '../core/state-store';
+import { TransferAdapter, TransferStage, createTransferAdapter } from './transfer-adapter';
+
+// Default rebalancing settings
+export const DEFAULT_REBALANCE_CONFIG: RebalanceConfig = {
+  enabled: false,
+  checkIntervalMs: 60000,
+  minFreeCollateralShare: 0.35,
+  minTransferUsd: 100,
+  maxTransferUsd: 5000,
+  reserveUsd: 0,
+  execute: false,
+  adapter: 'stub',
+  transferTimeoutMs: 3600000
+};
+
+const MAX_HISTORY = 50;
+
+export interface VenueCollateral {
+  venue: string;
+  freeUsd: number; // Available margin
+  equityUsd: number;
+}
+
+export interface RebalanceRecommendation {
+  from: string;
+  to: string;
+  amountUsd: number;
+  reason: string;
+}
+
+/** A transfer in flight: the withdrawal, then the deposit once it has landed */
+export interface RebalanceTransfer extends RebalanceRecommendation {
+  stage: 'withdrawing' | 'depositing';
+  withdrawal: TransferStage;
+  deposit?: TransferStage;
+  startedAt: number;
+}
+
+export interface RebalanceHistoryEntry extends RebalanceRecommendation {
+  outcome: 'completed' | 'failed';
+  detail?: string;
+  startedAt: number;
+  finishedAt: number;
+}
+
+export interface RebalanceState {
+  version: 1;
+  transfer: RebalanceTransfer | null;
+  history: RebalanceHistoryEntry[]; // Most recent last
+}
+
+export interface RebalanceStatus {
+  enabled: boolean;
+  execute: boolean;
+  collateral: VenueCollateral[];
+  recommendation: RebalanceRecommendation | null;
+  transfer: RebalanceTransfer | null;
+  executionPaused: boolean; // A transfer failed - no more automatic transfers until restart
+}
+
+/**
+ * The transfer that brings the venue lowest on free collateral toward half the total, or
+ * null when every venue holds at least minFreeCollateralShare of it.
+ */
+export function planRebalance(collateral: VenueCollateral[], config: RebalanceConfig): RebalanceRecommendation | null {
+  const totalFreeUsd = collateral.reduce((sum, venue) => sum + Math.max(0, venue.freeUsd), 0);
+  if (collateral.length < 2 || totalFreeUsd <= 0) {
+    return null;
+  }
+
+  const sorted = [...collateral].sort((a, b) => a.freeUsd - b.freeUsd);
+  const low = sorted[0];
+  const high = sorted[sorted.length - 1];
+  const share = Math.max(0, low.freeUsd) / totalFreeUsd;
+  if (share >= config.minFreeCollateralShare) {
+    return null;
+  }
+
+  const amountUsd = Math.floor(Math.min(
+    totalFreeUsd / 2 - Math.max(0, low.freeUsd),
+    high.freeUsd - config.reserveUsd,
+    config.maxTransferUsd
+  ) * 100) / 100;
+  if (amountUsd < config.minTransferUsd) {
+    return null;
+  }
+
+  return {
+    from: high.venue,
+    to: low.venue,
+    amountUsd,
+    reason: `${low.venue} holds ${(share * 100).toFixed(1)}% of the free collateral ` +
+      `(${low.freeUsd.toFixed(2)} of ${totalFreeUsd.toFixed(2)} USD)`
+  };
+}
+
+export class CollateralRebalancer {
+  private config: RebalanceConfig;
+  private exchanges: IExchange[];
+  private logger: Logger;
+  private adapter: TransferAdapter | null;
+  private filePath: string | null;
+  private state: RebalanceState;
+  private collateral: VenueCollateral[] = [];
+  private recommendation: RebalanceRecommendation | null = null;
+  private executionPaused: boolean = false;
+  private lastCheck: number = 0;
+  private checking: Promise<void> | null = null; // Markets share one check
+
+  constructor(config: BotConfig, exchanges: IExchange[], logger: Logger, adapter?: TransferAdapter) {
+    this.config = { ...DEFAULT_REBALANCE_CONFIG, ...config.rebalance };
+    this.exchanges = exchanges;
+    this.logger = logger;
+    this.adapter = adapter || (this.config.enabled && this.config.execute ? createTransferAdapter(this.config.adapter, logger) : null);
+
+    const stateConfig = config.state || DEFAULT_STATE_CONFIG;
+    this.filePath = this.config.enabled && stateConfig.enabled
+      ? path.join(stateConfig.directory, 'rebalance.json')
+      : null;
+    this.state = this.load();
+
+    if (this.config.enabled && this.state.transfer) {
+      const transfer = this.state.transfer;
+      this.logger.warn(
+        `💸 Resuming collateral transfer of ${transfer.amountUsd.toFixed(2)} USD ${transfer.from} → ${transfer.to} ` +
+        `(${transfer.stage}) - no new entries until it completes`
+      );
+    }
+  }
+
+  /**
+   * Read free collateral and advance a running transfer, at most once per check interval.
+   */
+  async check(): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+    if (this.checking) {
+      return this.checking;
+    }
+    if (Date.now() - this.lastCheck < this.config.checkIntervalMs) {
+      return;
+    }
+
+    this.lastCheck = Date.now();
+    this.checking = this.runCheck();
+    try {
+      await this.checking;
+    } finally {
+      this.checking = null;
+    }
+  }
+
+  /**
+   * True while a transfer runs or a recommended one hasn't been made yet.
+   */
+  isPending(): boolean {
+    return this.config.enabled && (this.state.transfer !== null || this.recommendation !== null);
+  }
+
+  /**
+   * Why entries are waiting, for logs.
+   */
+  describePending(): string {
+    const transfer = this.state.transfer;
+    if (transfer) {
+      return `transfer of ${transfer.amountUsd.toFixed(2)} USD ${transfer.from} → ${transfer.to} ${transfer.stage}`;
+    }
+    const recommendation = this.recommendation;
+    return recommendation
+      ? `move ${recommendation.amountUsd.toFixed(2)} USD ${recommendation.from} → ${recommendation.to}: ${recommendation.reason}`
+      : 'nothing pending';
+  }
+
+  getStatus(): RebalanceStatus {
+    return {
+      enabled: this.config.enabled,
+      execute: this.config.execute,
+      collateral: [...this.collateral],
+      recommendation: this.recommendation,
+      transfer: this.state.transfer,
+      executionPaused: this.executionPaused
+    };
+  }
+
+  private async runCheck(): Promise<void> {
+    try {
+      if (this.state.transfer) {
+        await this.advanceTransfer(this.state.transfer);
+        return;
+      }
+
+      this.collateral = await Promise.all(this.exchanges.map(async exchange => {
+        const account = await exchange.getAccountInfo();
+        return { venue: exchange.name, freeUsd: account.availableMargin, equityUsd: account.balance };
+      }));
+      this.recommendation = planRebalance(this.collateral, this.config);
+      if (!this.recommendation) {
+        return;
+      }
+
+      if (!this.config.execute || this.executionPaused || !this.adapter) {
+        this.logger.warn(`💸 Collateral rebalance recommended: ${this.describePending()} - no new entries until it's done`);
+        return;
+      }
+      await this.startTransfer(this.recommendation);
+    } catch (error) {
+      this.logger.warn(`⚠️  Collateral check failed: ${error}`);
+    }
+  }
+
+  private async startTransfer(recommendation: RebalanceRecommendation): Promise<void> {
+    this.logger.info(
+      `💸 Rebalancing collateral via ${this.adapter!.name}: ${recommendation.amountUsd.toFixed(2)} USD ` +
+      `${recommendation.from} → ${recommendation.to} (${recommendation.reason})`
+    );
+
+    const startedAt = Date.now();
+    let withdrawal: TransferStage;
+    try {
+      withdrawal = await this.adapter!.withdraw(recommendation.from, recommendation.amountUsd);
+    } catch (error) {
+      this.finish({ ...recommendation, startedAt }, 'failed', `withdrawal: ${error}`);
+      return;
+    }
+
+    this.state.transfer = { ...recommendation, stage: 'withdrawing', withdrawal, startedAt };
+    this.save();
+  }
+
+  /**
+   * Poll the current stage: a landed withdrawal starts the deposit, a landed deposit completes
+   * the transfer. A failed or timed-out stage fails it.
+   */
+  private async advanceTransfer(transfer: RebalanceTransfer): Promise<void> {
+    if (!this.adapter) {
+      this.logger.warn(`💸 Transfer ${transfer.from} → ${transfer.to} in progress but execution is off - finish it by hand and clear rebalance.json`);
+      return;
+    }
+
+    const stage = transfer.stage === 'withdrawing' ? transfer.withdrawal : transfer.deposit!;
+    const status = await this.adapter.getStatus(stage);
+
+    if (status === 'failed') {
+      this.finish(transfer, 'failed', `${stage.direction} ${stage.id} failed`);
+      return;
+    }
+    if (status === 'pending') {
+      if (Date.now() - stage.startedAt > this.config.transferTimeoutMs) {
+        this.finish(transfer, 'failed', `${stage.direction} ${stage.id} still pending after ${this.config.transferTimeoutMs / 1000}s`);
+      }
+      return;
+    }
+
+    if (transfer.stage === 'withdrawing') {
+      this.logger.info(`💸 Withdrawal from ${transfer.from} landed - depositing ${transfer.amountUsd.toFixed(2)} USD to ${transfer.to}`);
+      try {
+        transfer.deposit = await this.adapter.deposit(transfer.to, transfer.amountUsd);
+      } catch (error) {
+        this.finish(transfer, 'failed', `deposit: ${error}`);
+        return;
+      }
+      transfer.stage = 'depositing';
+      this.save();
+      return;
+    }
+
+    this.finish(transfer, 'completed');
+  }
+
+  private finish(transfer: RebalanceRecommendation & { startedAt: number }, outcome: 'completed' | 'failed', detail?: string): void {
+    const { from, to, amountUsd, reason, startedAt } = transfer;
+    if (outcome === 'completed') {
+      this.logger.info(`✅ Collateral transfer complete: ${amountUsd.toFixed(2)} USD ${from} → ${to}`);
+    } else {
+      // Funds may be in transit - stop moving more until someone has looked
+      this.executionPaused = true;
+      this.logger.error(
+        `🚨 Collateral transfer FAILED (${amountUsd.toFixed(2)} USD ${from} → ${to}): ${detail} - ` +
+        `automatic transfers paused until restart, check the venues and the bridge`
+      );
+    }
+
+    this.state.transfer = null;
+    this.state.history = [...this.state.history, { from, to, amountUsd, reason, outcome, detail, startedAt, finishedAt: Date.now() }]
+      .slice(-MAX_HISTORY);
+    this.recommendation = null; // Re-planned from fresh balances on the next check
+    this.lastCheck = 0;
+    this.save();
+  }
+
+  private load(): RebalanceState {
+    const empty: RebalanceState = { version: 1, transfer: null, history: [] };
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return empty;
+    }
+    try {
+      return { ...empty, ...JSON.parse(fs.readFileSync(this.filePath, 'utf8')) };
+    } catch (error) {
+      this.logger.warn(`Failed to read rebalance state (${error}) - starting without a transfer`);
+      return empty;
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this.state, null, 2), 'utf8');
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      this.logger.error(`Failed to persist rebalance state: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Trade reconciliation against exchange-reported fills.
+ * A completed trade is logged with the prices the bot saw its orders fill at and fees
+ * estimated from the configured rates. Each trade also keeps the IDs of the orders that
+ * filled its legs; the reconciler reads the venues' fill history, rebuilds each leg's price
+ * and fee from the fills of those orders and recomputes the trade's PnL the way the strategy
+ * does. The bot's own figures are kept on the trade, and a trade whose PnL or prices moved
+ * by more than the configured limits is flagged.
+ */
+
+import { BotConfig, Fill, OrderSide, ReconciliationConfig, VenueId } from '../config/types';
+import { IExchange } from '../exchanges/interface';
+import { Logger } from '../utils/logger';
+import { CompletedTrade } from '../core/trade-logger';
+
+// Default reconciliation settings
+export const DEFAULT_RECONCILIATION_CONFIG: ReconciliationConfig = {
+  maxPnlDriftUsd: 1,
+  maxPriceDriftBps: 5,
+  giveUpAfterMs: 86400000
+};
+
+// Fee assets taken at face value - anything else must be the traded asset
+const USD_FEE_ASSETS = new Set(['USD', 'USDC', 'USDT', 'USDT0']);
+
+// Fill history is read from a little before the oldest entry
+const HISTORY_SLACK_MS = 60000;
+
+/** One leg of a trade: which orders filled it, on which venue, in which direction */
+interface TradeLeg {
+  name: string; // e.g. "entry long on nado"
+  venue: VenueId;
+  side: OrderSide;
+  orderIds: string[];
+}
+
+/** A leg rebuilt from its fills */
+interface LegFills {
+  price: number; // Volume-weighted over the leg's orders
+  feeUsd: number; // The trade's share of what the orders paid
+}
+
+/** Fills by venue, for one symbol - unset where the history couldn't be read */
+export type VenueFills = Record<VenueId, Fill[] | undefined>;
+
+function describeLeg(stage: 'entry' | 'exit', direction: 'long' | 'short', venue: VenueId): string {
+  return `${stage} ${direction} on ${venue}`;
+}
+
+function tradeLegs(trade: CompletedTrade): TradeLeg[] {
+  const orderIds = trade.orderIds!;
+  const long = trade.cheapExchange;
+  const short = trade.expensiveExchange;
+  return [
+    { name: describeLeg('entry', 'long', long), venue: long, side: 'buy', orderIds: orderIds.entry[long] || [] },
+    { name: describeLeg('entry', 'short', short), venue: short, side: 'sell', orderIds: orderIds.entry[short] || [] },
+    { name: describeLeg('exit', 'long', long), venue: long, side: 'sell', orderIds: orderIds.exit[long] || [] },
+    { name: describeLeg('exit', 'short', short), venue: short, side: 'buy', orderIds: orderIds.exit[short] || [] }
+  ];
+}
+
+function feeUsd(fill: Fill): number {
+  if (USD_FEE_ASSETS.has(fill.feeAsset.toUpperCase())) {
+    return fill.fee;
+  }
+  if (fill.feeAsset.toUpperCase() === fill.symbol.split('-')[0].toUpperCase()) {
+    return fill.fee * fill.price;
+  }
+  throw new Error(`Unsupported fee asset ${fill.feeAsset} on order ${fill.orderId}`);
+}
+
+/**
+ * The leg's price and fee share, or null when its orders haven't filled the trade's size
+ * (yet). Orders shared with other trades - a flip, a reduce, several clips closed together -
+ * are split by size.
+ */
+function summarizeLeg(fills: Fill[], leg: TradeLeg, size: number): LegFills | null {
+  const orderIds = new Set(leg.orderIds);
+  const matched = fills.filter(fill => orderIds.has(fill.orderId) && fill.side === leg.side);
+  const filled = matched.reduce((sum, fill) => sum + fill.size, 0);
+  if (matched.length === 0 || filled < size * (1 - 1e-6)) {
+    return null;
+  }
+
+  const share = size / filled;
+  return {
+    price: matched.reduce((sum, fill) => sum + fill.price * fill.size, 0) / filled,
+    feeUsd: matched.reduce((sum, fill) => sum + feeUsd(fill), 0) * share
+  };
+}
+
+function driftBps(reported: number, estimated: number): number {
+  return estimated > 0 ? Math.abs(reported - estimated) / estimated * 10000 : 0;
+}
+
+/**
+ * The trade with reported prices and fees, marked unmatched when fills are still missing
+ * after giveUpAfterMs - or null while it should be tried again later.
+ */
+export function reconcileTrade(
+  trade: CompletedTrade,
+  fills: VenueFills,
+  config: ReconciliationConfig,
+  now: number = Date.now()
+): CompletedTrade | null {
+  const legs = tradeLegs(trade);
+  // A venue whose history couldn't be read says nothing about the fills - try again later
+  if (legs.some(leg => fills[leg.venue] === undefined)) {
+    return null;
+  }
+
+  const summaries = legs.map(leg => summarizeLeg(fills[leg.venue]!, leg, trade.positionSizeBtc));
+  const missing = legs.filter((_, index) => !summaries[index]).map(leg => leg.name);
+  if (missing.length > 0) {
+    if (now - trade.exitTimestamp < config.giveUpAfterMs) {
+      return null;
+    }
+    return { ...trade, reconciliation: { status: 'unmatched', reconciledAt: now, missing } };
+  }
+
+  const [entryLong, entryShort, exitLong, exitShort] = summaries as LegFills[];
+  const size = trade.positionSizeBtc;
+  const entryPrices = { cheap: entryLong.price, expensive: entryShort.price };
+  const exitPrices = { long: exitLong.price, short: exitShort.price };
+
+  // Same PnL as the strategy books: long leg cheap → exit, short leg expensive → exit
+  const realizedPnlUsd = (exitPrices.long - entryPrices.cheap) * size + (entryPrices.expensive - exitPrices.short) * size;
+  const realizedPnlBtc = realizedPnlUsd / ((entryPrices.cheap + entryPrices.expensive) / 2);
+  const entryFees = entryLong.feeUsd + entryShort.feeUsd;
+  const exitFees = exitLong.feeUsd + exitShort.feeUsd;
+  const fees = { entry: entryFees, exit: exitFees, total: entryFees + exitFees };
+
+  const pnlDriftUsd = (realizedPnlUsd - fees.total) - (trade.realizedPnlUsd - trade.fees.total);
+  const priceDriftBps = Math.max(
+    driftBps(entryPrices.cheap, trade.entryPrices.cheap),
+    driftBps(entryPrices.expensive, trade.entryPrices.expensive),
+    driftBps(exitPrices.long, trade.exitPrices.long),
+    driftBps(exitPrices.short, trade.exitPrices.short)
+  );
+
+  return {
+    ...trade,
+    entryPrices,
+    exitPrices,
+    fees,
+    realizedPnlUsd,
+    realizedPnlBtc,
+    reconciliation: {
+      status: 'reconciled',
+      reconciledAt: now,
+      estimated: {
+        entryPrices: trade.entryPrices,
+        exitPrices: trade.exitPrices,
+        fees: trade.fees,
+        realizedPnlUsd: trade.realizedPnlUsd
+      },
+      pnlDriftUsd,
+      priceDriftBps,
+      flagged: Math.abs(pnlDriftUsd) > config.maxPnlDriftUsd || priceDriftBps > config.maxPriceDriftBps
+    }
+  };
+}
+
+export class TradeReconciler {
+  private config: ReconciliationConfig;
+  private exchanges: Map<VenueId, IExchange>;
+  private logger: Logger;
+
+  constructor(config: BotConfig, exchanges: IExchange[], logger: Logger) {
+    this.config = { ...DEFAULT_RECONCILIATION_CONFIG, ...config.reconciliation };
+    this.exchanges = new Map(exchanges.map(exchange => [exchange.id, exchange]));
+    this.logger = logger;
+  }
+
+  /**
+   * Trades that can be reconciled: logged with their order IDs and not reconciled yet.
+   */
+  static needsReconciliation(trade: CompletedTrade): boolean {
+    return !!trade.orderIds && !!trade.symbol && !trade.reconciliation;
+  }
+
+  /**
+   * Reconcile the trades that need it. Returns the trades that changed - reconciled, or
+   * given up on as unmatched.
+   */
+  async reconcile(trades: CompletedTrade[]): Promise<CompletedTrade[]> {
+    const pending = trades.filter(TradeReconciler.needsReconciliation);
+    if (pending.length === 0) {
+      return [];
+    }
+
+    const updated: CompletedTrade[] = [];
+    for (const symbol of [...new Set(pending.map(trade => trade.symbol!))]) {
+      const symbolTrades = pending.filter(trade => trade.symbol === symbol);
+      const since = Math.min(...symbolTrades.map(trade => trade.entryTimestamp)) - HISTORY_SLACK_MS;
+      const fills = await this.readFills(symbolTrades, symbol, since);
+
+      for (const trade of symbolTrades) {
+        try {
+          const result = reconcileTrade(trade, fills, this.config);
+          if (result) {
+            updated.push(result);
+          }
+        } catch (error) {
+          this.logger.warn(`⚠️  Could not reconcile trade ${trade.id}: ${error}`);
+        }
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Fill history of every venue the trades were on, read once per venue.
+   */
+  private async readFills(trades: CompletedTrade[], symbol: string, since: number): Promise<VenueFills> {
+    const venues = [...new Set(trades.flatMap(trade => [trade.cheapExchange, trade.expensiveExchange]))];
+    const fills: VenueFills = {};
+    for (const venue of venues) {
+      const exchange = this.exchanges.get(venue);
+      if (!exchange) {
+        this.logger.warn(`⚠️  Venue ${venue} is not configured - its ${symbol} trades stay unreconciled`);
+        continue;
+      }
+      try {
+        fills[venue] = await exchange.getFills(symbol, since);
+      } catch (error) {
+        this.logger.warn(`⚠️  Failed to read ${symbol} fills from ${venue}: ${error}`);
+      }
+    }
+    return fills;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Trade reconciliation job.
+ * Replaces estimated prices and fees in the trade log (trades.json, and Supabase when
+ * enabled) with what the venues report for the trades' orders, and flags drift. Reads
+ * history only - safe to run next to the bot, e.g. from cron.
+ *
+ * Usage:
+ *   npm run reconcile -- [--config config.json] [--dry-run]
+ */
+
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+import { loadConfig } from '../config/config';
+import { createLogger } from '../utils/logger';
+import { createExchangeRegistry } from '../exchanges/registry';
+import { resolveVenues } from '../exchanges/venues';
+import { SupabaseTradeLogger } from '../core/supabase-trade-logger';
+import { DEFAULT_LOGGING_CONFIG } from '../core/strategy';
+import { TradeReconciler } from './reconciler';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const argValue = (flag: string): string | undefined => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const dryRun = args.includes('--dry-run');
+
+  const config = loadConfig(argValue('--config'));
+  const logger = createLogger(config.logLevel);
+  const loggingConfig = config.logging || DEFAULT_LOGGING_CONFIG;
+  const tradeLogger = new SupabaseTradeLogger(logger, loggingConfig.directory, loggingConfig.supabaseEnabled);
+
+  const pending = tradeLogger.loadTrades().filter(TradeReconciler.needsReconciliation);
+  if (pending.length === 0) {
+    logger.info('No trades to reconcile');
+    return;
+  }
+
+  // Only the venues the trades were on. Fill history needs the real clients, whatever dryRun says
+  const venueIds = new Set(pending.flatMap(trade => [trade.cheapExchange, trade.expensiveExchange]));
+  const registry = createExchangeRegistry();
+  const exchanges = resolveVenues(config)
+    .filter(venue => venueIds.has(venue.id))
+    .map(venue => registry.create(venue, { logger, dryRun: false }));
+  await Promise.all(exchanges.map(exchange => exchange.initialize()));
+
+  try {
+    const reconciler = new TradeReconciler(config, exchanges, logger);
+    const updated = await reconciler.reconcile(pending);
+
+    for (const trade of updated) {
+      const reconciliation = trade.reconciliation!;
+      if (reconciliation.status === 'unmatched') {
+        logger.warn(`⚠️  ${trade.id}: no fills for ${reconciliation.missing!.join(', ')} - marked unmatched`);
+      } else if (reconciliation.flagged) {
+        logger.warn(
+          `🚩 ${trade.id}: net PnL drift ${reconciliation.pnlDriftUsd!.toFixed(2)} USD, ` +
+          `price drift ${reconciliation.priceDriftBps!.toFixed(1)} bps`
+        );
+      } else {
+        logger.info(`✅ ${trade.id}: reconciled (net PnL drift ${reconciliation.pnlDriftUsd!.toFixed(2)} USD)`);
+      }
+
+      if (!dryRun) {
+        await tradeLogger.updateTrade(trade);
+      }
+    }
+
+    const reconciled = updated.filter(trade => trade.reconciliation!.status === 'reconciled');
+    const totalDriftUsd = reconciled.reduce((sum, trade) => sum + trade.reconciliation!.pnlDriftUsd!, 0);
+    logger.info(
+      `Reconciled ${reconciled.length} of ${pending.length} trades ` +
+      `(${reconciled.filter(trade => trade.reconciliation!.flagged).length} flagged, ` +
+      `${updated.length - reconciled.length} unmatched, ${pending.length - updated.length} still waiting for fills), ` +
+      `net PnL drift ${totalDriftUsd.toFixed(2)} USD` + (dryRun ? ' - dry run, trade log not updated' : '')
+    );
+  } finally {
+    await Promise.all(exchanges.map(exchange => exchange.close()));
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Reconciliation failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,138 @@
+/**
+ * Reader API for market data recordings.
+ * Streams records back from one or more recording files (or directories of them)
+ * without loading whole files into memory.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { StringDecoder } from 'string_decoder';
+import { Logger } from '../utils/logger';
+import { RecordedVenue, RecorderRecord, RecordType } from './schema';
+
+export interface ReadRecordingOptions {
+  types?: RecordType[];        // Only these record types (default: all except header)
+  exchanges?: RecordedVenue[]; // Only these venues
+  from?: number;               // Inclusive start time (ms)
+  to?: number;                 // Exclusive end time (ms)
+}
+
+const RECORDING_FILE_PATTERN = /\.ndjson(\.gz)?$/;
+
+/**
+ * Expand files and directories into a time-ordered list of recording files.
+ * File names start with a UTC timestamp, so name order is time order within a recorder.
+ */
+export function listRecordingFiles(paths: string[]): string[] {
+  const files: string[] = [];
+
+  for (const target of paths) {
+    if (!fs.existsSync(target)) {
+      throw new Error(`Recording not found: ${target}`);
+    }
+
+    if (fs.statSync(target).isDirectory()) {
+      const entries = fs.readdirSync(target)
+        .filter(name => RECORDING_FILE_PATTERN.test(name))
+        .sort()
+        .map(name => path.join(target, name));
+      files.push(...entries);
+    } else {
+      files.push(target);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Stream raw lines from a (possibly gzip-compressed) file.
+ * A truncated gzip tail - e.g. from a recorder that crashed - ends the file early with a warning.
+ */
+async function* readLines(file: string, logger?: Logger): AsyncGenerator<string> {
+  const input = fs.createReadStream(file);
+  const stream = file.endsWith('.gz') ? input.pipe(zlib.createGunzip()) : input;
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+
+  try {
+    for await (const chunk of stream) {
+      buffer += decoder.write(chunk as Buffer);
+
+      let newline = buffer.indexOf('\n');
+      while (newline >= 0) {
+        yield buffer.substring(0, newline);
+        buffer = buffer.substring(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
+    }
+    buffer += decoder.end();
+  } catch (error) {
+    logger?.warn(`Recording ${file} ends early (${error}) - using the data read so far`);
+    input.destroy();
+    // A partial last line is dropped below, since it cannot be trusted
+    return;
+  }
+
+  if (buffer.trim()) {
+    yield buffer;
+  }
+}
+
+function matches(record: RecorderRecord, options: ReadRecordingOptions): boolean {
+  if (options.types ? !options.types.includes(record.type) : record.type === 'header') {
+    return false;
+  }
+  if (options.exchanges && record.type !== 'header' && !options.exchanges.includes(record.exchange)) {
+    return false;
+  }
+  if (options.from !== undefined && record.ts < options.from) {
+    return false;
+  }
+  if (options.to !== undefined && record.ts >= options.to) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Stream records from recording files in order.
+ * Unparseable lines are skipped (and counted in a warning per file).
+ */
+export async function* readRecordings(
+  paths: string[],
+  options: ReadRecordingOptions = {},
+  logger?: Logger
+): AsyncGenerator<RecorderRecord> {
+  for (const file of listRecordingFiles(paths)) {
+    let skipped = 0;
+
+    for await (const line of readLines(file, logger)) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let record: RecorderRecord;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        skipped++;
+        continue;
+      }
+
+      if (!record || typeof record.ts !== 'number' || !record.type) {
+        skipped++;
+        continue;
+      }
+
+      if (matches(record, options)) {
+        yield record;
+      }
+    }
+
+    if (skipped > 0) {
+      logger?.warn(`Recording ${file}: skipped ${skipped} unreadable lines`);
+    }
+  }
+}
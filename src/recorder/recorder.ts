@@ -0,0 +1,189 @@
+/**
+ * Market data recorder.
+ * Captures top-N order books and funding rates from both venues, plus our own order
+ * events, into rotating gzip NDJSON files that the backtester and other tools can replay.
+ */
+
+import { IExchange } from '../exchanges/interface';
+import { RecorderConfig } from '../config/types';
+import { Logger } from '../utils/logger';
+import { sleep } from '../utils/retry';
+import { RotatingRecordWriter } from './writer';
+import {
+  RECORDING_SCHEMA_VERSION,
+  OrderRecord,
+  RecordedVenue,
+  RecorderRecord
+} from './schema';
+
+// Default recorder config (off unless enabled in config.json)
+export const DEFAULT_RECORDER_CONFIG: RecorderConfig = {
+  enabled: false,
+  directory: './recordings',
+  bookDepth: 10,
+  bookIntervalMs: 1000,
+  fundingIntervalMs: 60000,
+  rotateIntervalMinutes: 60,
+  flushIntervalMs: 5000
+};
+
+export type OrderEventFields = Omit<OrderRecord, 'v' | 'type' | 'ts' | 'exchange' | 'symbol'>;
+
+export class MarketRecorder {
+  private config: RecorderConfig;
+  private logger: Logger;
+  private writer: RotatingRecordWriter | null = null;
+  private symbol: string = 'BTC-PERP';
+  private venues: RecordedVenue[] = [];
+  private running: boolean = false;
+  private loops: Promise<void>[] = [];
+  private recordsWritten: number = 0;
+
+  constructor(config: RecorderConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * Start capturing books and funding for `symbol` on the given venues.
+   */
+  async start(symbol: string, exchanges: Record<RecordedVenue, IExchange>): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.symbol = symbol;
+    this.venues = Object.keys(exchanges);
+    this.writer = this.createWriter();
+    this.running = true;
+
+    for (const venue of this.venues) {
+      const exchange = exchanges[venue];
+      this.loops.push(this.pollBooks(venue, exchange));
+      this.loops.push(this.pollFunding(venue, exchange));
+    }
+
+    this.logger.info(
+      `📼 Recorder started: ${symbol} on ${this.venues.join(', ')} ` +
+      `(top ${this.config.bookDepth} levels every ${this.config.bookIntervalMs}ms, ` +
+      `funding every ${this.config.fundingIntervalMs}ms) → ${this.config.directory}`
+    );
+  }
+
+  /**
+   * Stop polling and close the current file.
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    await Promise.all(this.loops);
+    this.loops = [];
+
+    if (this.writer) {
+      await this.writer.close();
+      this.writer = null;
+    }
+
+    this.logger.info(`📼 Recorder stopped (${this.recordsWritten} records written)`);
+  }
+
+  /**
+   * Record one of our own order events (placement, status change, cancel).
+   * Written even if book polling has not started, so order activity is never lost.
+   */
+  recordOrderEvent(venue: RecordedVenue, symbol: string, fields: OrderEventFields): void {
+    this.write({
+      v: RECORDING_SCHEMA_VERSION,
+      type: 'order',
+      ts: Date.now(),
+      exchange: venue,
+      symbol,
+      ...fields
+    });
+  }
+
+  private write(record: RecorderRecord): void {
+    try {
+      if (!this.writer) {
+        this.writer = this.createWriter();
+      }
+      this.writer.write(record);
+      this.recordsWritten++;
+    } catch (error) {
+      // Recording must never break trading
+      this.logger.error(`Recorder: failed to write ${record.type} record: ${error}`);
+    }
+  }
+
+  private createWriter(): RotatingRecordWriter {
+    return new RotatingRecordWriter(
+      this.config.directory,
+      this.symbol.toLowerCase(),
+      this.config.rotateIntervalMinutes * 60 * 1000,
+      this.config.flushIntervalMs,
+      () => ({
+        v: RECORDING_SCHEMA_VERSION,
+        type: 'header',
+        ts: Date.now(),
+        symbol: this.symbol,
+        bookDepth: this.config.bookDepth,
+        venues: this.venues
+      }),
+      this.logger
+    );
+  }
+
+  private async pollBooks(venue: RecordedVenue, exchange: IExchange): Promise<void> {
+    while (this.running) {
+      try {
+        const book = await exchange.getOrderBook(this.symbol, this.config.bookDepth);
+        if (this.running) {
+          this.write({
+            v: RECORDING_SCHEMA_VERSION,
+            type: 'book',
+            ts: Date.now(),
+            exchange: venue,
+            symbol: this.symbol,
+            bids: book.bids.slice(0, this.config.bookDepth),
+            asks: book.asks.slice(0, this.config.bookDepth),
+            exchangeTs: book.timestamp
+          });
+        }
+      } catch (error) {
+        this.logger.warn(`Recorder: ${exchange.name} book snapshot failed: ${error}`);
+      }
+
+      await sleep(this.config.bookIntervalMs);
+    }
+  }
+
+  private async pollFunding(venue: RecordedVenue, exchange: IExchange): Promise<void> {
+    while (this.running) {
+      try {
+        const funding = await exchange.getFundingRate(this.symbol);
+        if (this.running) {
+          this.write({
+            v: RECORDING_SCHEMA_VERSION,
+            type: 'funding',
+            ts: Date.now(),
+            exchange: venue,
+            symbol: this.symbol,
+            rate: funding.rate,
+            nextRate: funding.nextRate
+          });
+        }
+      } catch (error) {
+        this.logger.warn(`Recorder: ${exchange.name} funding snapshot failed: ${error}`);
+      }
+
+      // Sleep in book-sized steps so stop() is not held up by the long funding interval
+      const wakeAt = Date.now() + this.config.fundingIntervalMs;
+      while (this.running && Date.now() < wakeAt) {
+        await sleep(Math.min(this.config.bookIntervalMs, wakeAt - Date.now()));
+      }
+    }
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * IExchange decorator that records our own order activity.
+ * Wraps a live exchange adapter; every call is passed straight through and
+ * placements, rejections, cancels and status changes are written to the recorder.
+ */
+
+import { IExchange, getTimeInForce } from '../exchanges/interface';
+import {
+  Fill,
+  FundingPayment,
+  FundingRate,
+  MarketData,
+  MarketInfo,
+  MarketSpec,
+  Order,
+  OrderBook,
+  OrderOptions,
+  OrderRequest,
+  Position,
+  VenueId
+} from '../config/types';
+import { MarketRecorder } from './recorder';
+import { OrderRecord } from './schema';
+
+export class RecordingExchange implements IExchange {
+  readonly name: string;
+  readonly id: VenueId;
+  private inner: IExchange;
+  private recorder: MarketRecorder;
+  private lastSeen: Map<string, string> = new Map(); // orderId -> "status:filledSize"
+
+  constructor(inner: IExchange, recorder: MarketRecorder) {
+    this.inner = inner;
+    this.recorder = recorder;
+    this.name = inner.name;
+    this.id = inner.id; // Execution logic and the recording key off the venue ID
+  }
+
+  initialize(): Promise<void> {
+    return this.inner.initialize();
+  }
+
+  loadMarkets(): Promise<MarketInfo[]> {
+    return this.inner.loadMarkets();
+  }
+
+  getMarketInfo(symbol: string): MarketInfo {
+    return this.inner.getMarketInfo(symbol);
+  }
+
+  getMarketSpec(symbol: string): MarketSpec {
+    return this.inner.getMarketSpec(symbol);
+  }
+
+  getMarkPrice(symbol: string): Promise<number> {
+    return this.inner.getMarkPrice(symbol);
+  }
+
+  getMarketData(symbol: string): Promise<MarketData> {
+    return this.inner.getMarketData(symbol);
+  }
+
+  getFundingRate(symbol: string): Promise<FundingRate> {
+    return this.inner.getFundingRate(symbol);
+  }
+
+  getFundingPayments(symbol: string, since: number): Promise<FundingPayment[]> {
+    return this.inner.getFundingPayments(symbol, since);
+  }
+
+  getFills(symbol: string, since: number): Promise<Fill[]> {
+    return this.inner.getFills(symbol, since);
+  }
+
+  getOrderBook(symbol: string, depth?: number): Promise<OrderBook> {
+    return this.inner.getOrderBook(symbol, depth);
+  }
+
+  async placeOrder(request: OrderRequest): Promise<Order> {
+    try {
+      const order = await this.inner.placeOrder(request);
+      this.recordOrder('placed', order, request);
+      return order;
+    } catch (error) {
+      this.recorder.recordOrderEvent(this.id, request.symbol, {
+        event: 'rejected',
+        side: request.side,
+        orderType: request.type,
+        size: request.size,
+        price: request.price,
+        ...this.describeRequest(request),
+        error: String(error)
+      });
+      throw error;
+    }
+  }
+
+  placeLimitOrder(
+    symbol: string,
+    side: 'buy' | 'sell',
+    size: number,
+    price: number,
+    options?: OrderOptions
+  ): Promise<Order> {
+    return this.placeOrder({ ...options, symbol, side, type: 'limit', size, price });
+  }
+
+  placeMarketOrder(
+    symbol: string,
+    side: 'buy' | 'sell',
+    size: number,
+    options?: Pick<OrderOptions, 'clientOrderId' | 'reduceOnly'>
+  ): Promise<Order> {
+    return this.placeOrder({ ...options, symbol, side, type: 'market', size });
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<void> {
+    try {
+      await this.inner.cancelOrder(symbol, orderId);
+      this.recorder.recordOrderEvent(this.id, symbol, { event: 'cancelled', orderId });
+    } catch (error) {
+      this.recorder.recordOrderEvent(this.id, symbol, { event: 'cancel_failed', orderId, error: String(error) });
+      throw error;
+    }
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<Order> {
+    const order = await this.inner.getOrder(symbol, orderId);
+
+    // Fill polling calls this constantly - only record actual changes
+    const key = `${order.status}:${order.filledSize}`;
+    if (this.lastSeen.get(orderId) !== key) {
+      this.recordOrder('status', order);
+    }
+
+    return order;
+  }
+
+  async getOrderByClientId(symbol: string, clientOrderId: string): Promise<Order | null> {
+    const order = await this.inner.getOrderByClientId(symbol, clientOrderId);
+    if (order && this.lastSeen.get(order.orderId) !== `${order.status}:${order.filledSize}`) {
+      this.recordOrder('status', order);
+    }
+    return order;
+  }
+
+  getOpenPositions(): Promise<Position[]> {
+    return this.inner.getOpenPositions();
+  }
+
+  getPosition(symbol: string): Promise<Position | null> {
+    return this.inner.getPosition(symbol);
+  }
+
+  getAccountInfo(): Promise<{ balance: number; availableMargin: number; usedMargin: number }> {
+    return this.inner.getAccountInfo();
+  }
+
+  subscribeToMarketData(symbol: string, callback: (data: MarketData) => void): Promise<void> {
+    return this.inner.subscribeToMarketData(symbol, callback);
+  }
+
+  unsubscribeFromMarketData(symbol: string): Promise<void> {
+    return this.inner.unsubscribeFromMarketData(symbol);
+  }
+
+  close(): Promise<void> {
+    return this.inner.close();
+  }
+
+  private recordOrder(event: 'placed' | 'status', order: Order, request?: OrderRequest): void {
+    this.lastSeen.set(order.orderId, `${order.status}:${order.filledSize}`);
+
+    this.recorder.recordOrderEvent(this.id, order.symbol, {
+      event,
+      orderId: order.orderId,
+      side: order.side,
+      orderType: order.type,
+      size: order.size,
+      price: order.price,
+      ...(request ? this.describeRequest(request) : {}),
+      status: order.status,
+      filledSize: order.filledSize
+    });
+  }
+
+  private describeRequest(request: OrderRequest): Pick<OrderRecord, 'timeInForce' | 'postOnly' | 'reduceOnly' | 'expiresAt' | 'clientOrderId'> {
+    const timeInForce = getTimeInForce(request);
+    return {
+      timeInForce,
+      postOnly: timeInForce === 'post_only',
+      reduceOnly: request.reduceOnly,
+      expiresAt: request.expiresAt,
+      clientOrderId: request.clientOrderId
+    };
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Standalone market data recorder.
+ * Records the traded pair's books and funding without trading - useful for collecting
+ * backtest data alongside (or instead of) the bot.
+ *
+ * Usage:
+ *   npm run record -- [--config config.json] [--out recordings] [--symbol BTC-PERP]
+ */
+
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+import { loadConfig } from '../config/config';
+import { createLogger } from '../utils/logger';
+import { createExchangeRegistry } from '../exchanges/registry';
+import { resolvePair, resolveVenues } from '../exchanges/venues';
+import { MarketRecorder, DEFAULT_RECORDER_CONFIG } from './recorder';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const argValue = (flag: string): string | undefined => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const config = loadConfig(argValue('--config'));
+  const logger = createLogger(config.logLevel);
+  const symbol = argValue('--symbol') || 'BTC-PERP';
+  const recorderConfig = {
+    ...DEFAULT_RECORDER_CONFIG,
+    ...config.recorder,
+    enabled: true
+  };
+  if (argValue('--out')) {
+    recorderConfig.directory = argValue('--out')!;
+  }
+
+  const pair = resolvePair(config);
+  const registry = createExchangeRegistry();
+  const exchanges = resolveVenues(config)
+    .filter(venue => pair.includes(venue.id))
+    .map(venue => registry.create(venue, { logger, dryRun: config.dryRun, marketData: config.marketData }));
+  await Promise.all(exchanges.map(exchange => exchange.initialize()));
+
+  const recorder = new MarketRecorder(recorderConfig, logger);
+  await recorder.start(symbol, Object.fromEntries(exchanges.map(exchange => [exchange.id, exchange])));
+
+  const shutdown = async (signal: string) => {
+    logger.info(`Received ${signal}, stopping recorder...`);
+    await recorder.stop();
+    await Promise.all(exchanges.map(exchange => exchange.close()));
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Recorder failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * On-disk schema for market data recordings.
+ * Each file is gzip-compressed newline-delimited JSON; every line is one record.
+ * The first line of every file is a header. See MARKET_DATA_RECORDING.md for the full description.
+ */
+
+import { TimeInForce, VenueId } from '../config/types';
+
+export const RECORDING_SCHEMA_VERSION = 1;
+
+export type RecordedVenue = VenueId; // 'nado', 'lighter', or another configured venue
+
+export type RecordType = 'header' | 'book' | 'funding' | 'order';
+
+interface RecordBase {
+  v: number;   // Schema version
+  type: RecordType;
+  ts: number;  // Local capture time (ms since epoch)
+}
+
+export interface HeaderRecord extends RecordBase {
+  type: 'header';
+  symbol: string;
+  bookDepth: number;
+  venues: RecordedVenue[];
+}
+
+export interface BookRecord extends RecordBase {
+  type: 'book';
+  exchange: RecordedVenue;
+  symbol: string;
+  bids: [number, number][]; // [price, size][] as returned by the adapter
+  asks: [number, number][];
+  exchangeTs: number;       // OrderBook.timestamp reported by the adapter
+}
+
+export interface FundingRecord extends RecordBase {
+  type: 'funding';
+  exchange: RecordedVenue;
+  symbol: string;
+  rate: number;      // Per hour
+  nextRate?: number; // Per hour, if the venue publishes it
+}
+
+export type OrderEventType = 'placed' | 'rejected' | 'status' | 'cancelled' | 'cancel_failed';
+
+export interface OrderRecord extends RecordBase {
+  type: 'order';
+  exchange: RecordedVenue;
+  symbol: string;
+  event: OrderEventType;
+  orderId?: string;
+  side?: 'buy' | 'sell';
+  orderType?: 'limit' | 'market';
+  size?: number;
+  price?: number;
+  timeInForce?: TimeInForce; // Unset in recordings made before time-in-force was recorded
+  postOnly?: boolean;
+  reduceOnly?: boolean;
+  expiresAt?: number;
+  clientOrderId?: string;
+  status?: string;
+  filledSize?: number;
+  error?: string;
+}
+
+export type RecorderRecord = HeaderRecord | BookRecord | FundingRecord | OrderRecord;
@@ -0,0 +1,115 @@
+/**
+ * Rotating gzip NDJSON writer for recordings.
+ * A new file is started every rotation interval; the gzip stream is sync-flushed
+ * periodically so a crash loses at most one flush interval of data.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { Logger } from '../utils/logger';
+import { RecorderRecord } from './schema';
+
+interface OpenFile {
+  filePath: string;
+  gzip: zlib.Gzip;
+  finished: Promise<void>;
+  rotateAt: number;
+}
+
+function fileTimestamp(time: number): string {
+  // 2026-01-05T13:00:00.000Z -> 20260105T130000Z
+  return new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+}
+
+export class RotatingRecordWriter {
+  private logger: Logger;
+  private directory: string;
+  private prefix: string;
+  private rotateIntervalMs: number;
+  private flushIntervalMs: number;
+  private header: () => RecorderRecord;
+  private current: OpenFile | null = null;
+  private lastFlush: number = 0;
+
+  constructor(
+    directory: string,
+    prefix: string,
+    rotateIntervalMs: number,
+    flushIntervalMs: number,
+    header: () => RecorderRecord,
+    logger: Logger
+  ) {
+    this.directory = directory;
+    this.prefix = prefix;
+    this.rotateIntervalMs = rotateIntervalMs;
+    this.flushIntervalMs = flushIntervalMs;
+    this.header = header;
+    this.logger = logger;
+
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+  }
+
+  write(record: RecorderRecord): void {
+    const now = Date.now();
+
+    if (!this.current || now >= this.current.rotateAt) {
+      this.rotate(now);
+    }
+
+    this.current!.gzip.write(JSON.stringify(record) + '\n');
+
+    if (now - this.lastFlush >= this.flushIntervalMs) {
+      this.current!.gzip.flush(zlib.constants.Z_SYNC_FLUSH);
+      this.lastFlush = now;
+    }
+  }
+
+  getCurrentFile(): string | null {
+    return this.current?.filePath || null;
+  }
+
+  /**
+   * Finish the current file. Resolves once everything is on disk.
+   */
+  async close(): Promise<void> {
+    const file = this.current;
+    this.current = null;
+
+    if (file) {
+      file.gzip.end();
+      await file.finished;
+    }
+  }
+
+  private rotate(now: number): void {
+    const previous = this.current;
+    if (previous) {
+      previous.gzip.end();
+      previous.finished.catch(() => undefined);
+    }
+
+    const filePath = path.join(this.directory, `${this.prefix}-${fileTimestamp(now)}.ndjson.gz`);
+    const gzip = zlib.createGzip();
+    const output = fs.createWriteStream(filePath, { flags: 'a' });
+
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('finish', () => resolve());
+      output.on('error', reject);
+      gzip.on('error', reject);
+    });
+    finished.catch(error => this.logger.error(`Recorder: write to ${filePath} failed: ${error}`));
+
+    gzip.pipe(output);
+
+    // Align rotation to the interval so files cover predictable windows (e.g. whole hours)
+    const rotateAt = (Math.floor(now / this.rotateIntervalMs) + 1) * this.rotateIntervalMs;
+    this.current = { filePath, gzip, finished, rotateAt };
+    this.lastFlush = now;
+
+    gzip.write(JSON.stringify(this.header()) + '\n');
+    this.logger.info(`📼 Recorder: writing ${filePath}`);
+  }
+}
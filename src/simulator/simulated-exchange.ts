@@ -0,0 +1,753 @@
+/**
+ * In-process exchange simulator implementing IExchange.
+ * Holds a scriptable order book and matches orders against it:
+ * - Crossing orders take liquidity level by level (taker fee); market and IOC orders
+ *   cancel whatever the book could not absorb, FOK orders the book can't fill are cancelled
+ * - Post-only orders that would cross are rejected, reduce-only orders are clamped to the position
+ * - Resting orders with an expiry are cancelled once the clock passes it
+ * - Resting orders fill when the book reaches them, or when a scenario calls fillOrder() (maker fee)
+ * Latency, injected failures, lost order responses and outages let scenarios drive the
+ * strategy and execution code through failure paths deterministically. Positions, realized
+ * PnL, fees and funding (settled on the open position at the top of every hour) are tracked
+ * so a scenario can check what actually happened, not what the bot believed.
+ */
+
+import { BaseExchange } from '../exchanges/interface';
+import {
+  ExchangeCapabilities,
+  Fill,
+  FundingPayment,
+  FundingRate,
+  MarketData,
+  MarketInfo,
+  Order,
+  OrderBook,
+  OrderRequest,
+  OrderSide,
+  Position,
+  TimeInForce,
+  VenueFees,
+  VenueId
+} from '../config/types';
+import { Logger } from '../utils/logger';
+import { sleep } from '../utils/retry';
+
+const SIZE_EPSILON = 1e-9;
+const FUNDING_INTERVAL_MS = 3600000; // Funding settles hourly
+
+export interface SimulatorFees {
+  makerFeeBps: number;
+  takerFeeBps: number;
+}
+
+export interface SimulatorConfig {
+  symbol: string; // The single market this exchange lists
+  tickSize: number; // Price increment reported by getMarketInfo()
+  lotSize: number; // Size increment reported by getMarketInfo()
+  fees: SimulatorFees;
+  maxLeverage: number;
+  initialBalanceUsd: number;
+  latencyMs: number; // Delay before order placements and cancels reach the book
+  makerFillModel: 'touch' | 'through'; // Resting orders fill when the book touches / trades through them
+}
+
+export const DEFAULT_SIMULATOR_CONFIG: SimulatorConfig = {
+  symbol: 'BTC-PERP',
+  tickSize: 0.1,
+  lotSize: 0.00001,
+  fees: { makerFeeBps: 0, takerFeeBps: 0 },
+  maxLeverage: 10,
+  initialBalanceUsd: 10000,
+  latencyMs: 0,
+  makerFillModel: 'through'
+};
+
+/** Groups of API calls that failures can be injected into */
+export type SimulatedOperation =
+  | 'placeOrder'
+  | 'cancelOrder'
+  | 'getOrder'
+  | 'getPosition'
+  | 'getMarketData'
+  | 'getAccountInfo'
+  | 'getFills';
+
+export interface SimulatedFill {
+  timestamp: number;
+  exchange: string;
+  orderId: string;
+  side: OrderSide;
+  size: number;
+  price: number;
+  liquidity: 'maker' | 'taker';
+  feeUsd: number;
+  realizedPnlUsd: number; // PnL realized by this fill (reducing fills only)
+}
+
+export class SimulatedExchange extends BaseExchange {
+  protected config: SimulatorConfig;
+  private book: OrderBook | null = null;
+  private fundingRate: number = 0;
+  private nextFundingRate: number | undefined;
+  private orders: Map<string, Order> = new Map();
+  private expiries: Map<string, number> = new Map(); // orderId -> expiresAt, for resting orders that have one
+  private fills: SimulatedFill[] = [];
+  private nextOrderId: number = 1;
+  private outage: boolean = false;
+  private injectedFailures: Map<SimulatedOperation, { remaining: number; message: string }> = new Map();
+  private lostResponses: number = 0;
+
+  // Signed position: positive = long, negative = short
+  private positionSize: number = 0;
+  private positionEntryPrice: number = 0;
+  private realizedPnlUsd: number = 0;
+  private feesPaidUsd: number = 0;
+  private fundingUsd: number = 0; // Positive = received
+  private fundingPayments: FundingPayment[] = [];
+  private lastFundingTime: number | null = null; // Last hour boundary funding was settled for
+  private marketDataCallback: ((data: MarketData) => void) | null = null;
+
+  constructor(name: string, logger: Logger, config?: Partial<SimulatorConfig>, id?: VenueId) {
+    super(name, logger, id);
+    this.config = { ...DEFAULT_SIMULATOR_CONFIG, ...config };
+    this.setMarkets([this.buildMarketInfo()]);
+  }
+
+  async initialize(): Promise<void> {
+    this.checkAvailable('getMarketData');
+    this.logger.debug(`${this.name}: Simulated exchange ready`);
+  }
+
+  async loadMarkets(): Promise<MarketInfo[]> {
+    return this.setMarkets([this.buildMarketInfo()]);
+  }
+
+  /**
+   * Every order type and flag is honored, and orders are visible as soon as they are placed.
+   */
+  protected getCapabilities(): ExchangeCapabilities {
+    return {
+      timeInForce: ['gtc', 'ioc', 'fok', 'post_only', 'gtt'],
+      reduceOnly: true,
+      reliableCancel: true,
+      reliableOrderLookup: true,
+      websocketMarketData: true // Book updates are pushed to the subscriber
+    };
+  }
+
+  protected getFees(): VenueFees {
+    return this.config.fees;
+  }
+
+  /**
+   * Replace the order book and match resting orders against it.
+   * Subscribers get a market data update when both sides have liquidity.
+   */
+  setOrderBook(bids: [number, number][], asks: [number, number][], timestamp: number = Date.now()): void {
+    this.settleFunding(timestamp);
+
+    this.book = this.normalizeOrderBook(
+      bids.map(([price, size]) => [price, size] as [number, number]),
+      asks.map(([price, size]) => [price, size] as [number, number]),
+      timestamp
+    );
+
+    this.matchRestingOrders();
+
+    if (this.marketDataCallback && this.hasBook()) {
+      this.marketDataCallback(this.buildMarketData(this.config.symbol));
+    }
+  }
+
+  setFundingRate(rate: number, nextRate?: number): void {
+    this.fundingRate = rate;
+    this.nextFundingRate = nextRate;
+  }
+
+  /**
+   * While down, every API call fails as if the venue were unreachable.
+   */
+  setOutage(down: boolean): void {
+    this.outage = down;
+    this.logger.debug(`${this.name}: Simulated outage ${down ? 'started' : 'ended'}`);
+  }
+
+  /**
+   * Make the next `count` calls of an operation fail with `message`.
+   */
+  injectFailure(operation: SimulatedOperation, message: string = 'Simulated failure', count: number = 1): void {
+    this.injectedFailures.set(operation, { remaining: count, message });
+  }
+
+  /**
+   * Let the next `count` orders reach the book but fail their placement with a timeout, as if
+   * the venue's answer was lost.
+   */
+  loseOrderResponses(count: number = 1): void {
+    this.lostResponses = count;
+  }
+
+  /**
+   * Fill a resting limit order as maker at its limit price, regardless of the book.
+   * Defaults to the full remaining size; pass less for a partial fill.
+   */
+  fillOrder(orderId: string, size?: number): SimulatedFill {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`${this.name}: Order ${orderId} not found`);
+    }
+    if (order.type !== 'limit' || (order.status !== 'open' && order.status !== 'partially_filled')) {
+      throw new Error(`${this.name}: Order ${orderId} is not resting (${order.status})`);
+    }
+
+    const remaining = order.size - order.filledSize;
+    const fillSize = Math.min(size ?? remaining, remaining);
+    if (!(fillSize > 0)) {
+      throw new Error(`${this.name}: Invalid fill size ${size}`);
+    }
+
+    return this.recordFill(order, fillSize, order.price!, 'maker');
+  }
+
+  hasBook(): boolean {
+    return this.book !== null && this.book.bids.length > 0 && this.book.asks.length > 0;
+  }
+
+  getOpenOrders(): Order[] {
+    this.expireOrders();
+    return Array.from(this.orders.values())
+      .filter(order => order.status === 'open' || order.status === 'partially_filled')
+      .map(order => ({ ...order }));
+  }
+
+  async getMarkPrice(symbol: string): Promise<number> {
+    this.checkAvailable('getMarketData');
+    return this.buildMarketData(symbol).midPrice;
+  }
+
+  async getMarketData(symbol: string): Promise<MarketData> {
+    this.checkAvailable('getMarketData');
+    return this.buildMarketData(symbol);
+  }
+
+  async getFundingRate(_symbol: string): Promise<FundingRate> {
+    this.checkAvailable('getMarketData');
+    return {
+      rate: this.fundingRate,
+      nextRate: this.nextFundingRate,
+      timestamp: Date.now()
+    };
+  }
+
+  async getFundingPayments(_symbol: string, since: number): Promise<FundingPayment[]> {
+    this.checkAvailable('getAccountInfo');
+    return this.fundingPayments.filter(payment => payment.timestamp >= since);
+  }
+
+  async getOrderBook(_symbol: string, depth: number = 20): Promise<OrderBook> {
+    this.checkAvailable('getMarketData');
+    const book = this.requireBook();
+
+    return {
+      bids: book.bids.slice(0, depth),
+      asks: book.asks.slice(0, depth),
+      timestamp: book.timestamp
+    };
+  }
+
+  async placeOrder(request: OrderRequest): Promise<Order> {
+    await sleep(this.config.latencyMs);
+    this.checkAvailable('placeOrder');
+
+    const timeInForce = this.checkOrderRequest(request);
+    const order = request.type === 'market'
+      ? this.placeMarket(request, timeInForce)
+      : this.placeLimit(request, timeInForce);
+
+    if (this.lostResponses > 0) {
+      this.lostResponses--;
+      throw Object.assign(new Error(`${this.name}: Request timed out (simulated lost response)`), { code: 'ETIMEDOUT' });
+    }
+    return order;
+  }
+
+  private placeLimit(request: OrderRequest, timeInForce: TimeInForce): Order {
+    const { symbol, side } = request;
+    const price = request.price!;
+    const orderSize = this.validateOrderSize(side, request.size, request.reduceOnly);
+    const book = this.requireBook();
+
+    const crosses = side === 'buy'
+      ? book.asks.length > 0 && book.asks[0][0] <= price
+      : book.bids.length > 0 && book.bids[0][0] >= price;
+
+    if (timeInForce === 'post_only' && crosses) {
+      throw new Error(`${this.name}: Post-only order would cross the book (${side} @ ${price})`);
+    }
+
+    const order: Order = {
+      orderId: `${this.name.toLowerCase()}-${this.nextOrderId++}`,
+      clientOrderId: request.clientOrderId,
+      symbol,
+      side,
+      type: 'limit',
+      size: orderSize,
+      price,
+      filledSize: 0,
+      status: 'open',
+      timestamp: Date.now()
+    };
+    this.orders.set(order.orderId, order);
+
+    // Marketable part takes liquidity immediately, the rest rests on the book (or is cancelled if
+    // IOC). A FOK order the book can't fill takes nothing
+    const killed = timeInForce === 'fok' && this.liquidityUpTo(side, price) < orderSize - SIZE_EPSILON;
+    if (crosses && !killed) {
+      this.takeLiquidity(order, price);
+    }
+    if ((timeInForce === 'ioc' || timeInForce === 'fok') && order.status !== 'filled') {
+      order.status = 'cancelled';
+    }
+    if (request.expiresAt !== undefined && order.status !== 'filled' && order.status !== 'cancelled') {
+      this.expiries.set(order.orderId, request.expiresAt);
+    }
+
+    this.logger.debug(
+      `${this.name}: Simulated limit ${side} ${orderSize} @ ${price} -> ${order.status} (${order.filledSize} filled)`
+    );
+
+    return { ...order };
+  }
+
+  private placeMarket(request: OrderRequest, timeInForce: TimeInForce): Order {
+    const { symbol, side } = request;
+    const orderSize = this.validateOrderSize(side, request.size, request.reduceOnly);
+    this.requireBook();
+
+    const order: Order = {
+      orderId: `${this.name.toLowerCase()}-${this.nextOrderId++}`,
+      clientOrderId: request.clientOrderId,
+      symbol,
+      side,
+      type: 'market',
+      size: orderSize,
+      filledSize: 0,
+      status: 'open',
+      timestamp: Date.now()
+    };
+    this.orders.set(order.orderId, order);
+
+    const limit = side === 'buy' ? Infinity : 0;
+    const killed = timeInForce === 'fok' && this.liquidityUpTo(side, limit) < orderSize - SIZE_EPSILON;
+    const averagePrice = killed ? 0 : this.takeLiquidity(order, limit);
+
+    // IOC - whatever the book could not absorb is cancelled
+    if (order.status !== 'filled') {
+      order.status = order.filledSize > 0 ? 'partially_filled' : 'cancelled';
+    }
+    if (order.filledSize > 0) {
+      order.price = averagePrice;
+    }
+
+    this.logger.debug(
+      `${this.name}: Simulated market ${side} ${orderSize} -> ${order.status} ` +
+      `(${order.filledSize} filled @ ${averagePrice.toFixed(2)})`
+    );
+
+    return { ...order };
+  }
+
+  async cancelOrder(_symbol: string, orderId: string): Promise<void> {
+    await sleep(this.config.latencyMs);
+    this.checkAvailable('cancelOrder');
+
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`${this.name}: Order ${orderId} not found`);
+    }
+
+    if (order.status === 'open' || order.status === 'partially_filled') {
+      order.status = 'cancelled';
+    }
+  }
+
+  async getOrder(_symbol: string, orderId: string): Promise<Order> {
+    this.checkAvailable('getOrder');
+    this.expireOrders();
+
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`${this.name}: Order ${orderId} not found`);
+    }
+
+    return { ...order };
+  }
+
+  async getOrderByClientId(_symbol: string, clientOrderId: string): Promise<Order | null> {
+    this.checkAvailable('getOrder');
+    this.expireOrders();
+
+    const order = Array.from(this.orders.values()).find(candidate => candidate.clientOrderId === clientOrderId);
+    return order ? { ...order } : null;
+  }
+
+  async getOpenPositions(): Promise<Position[]> {
+    const position = await this.getPosition(this.config.symbol);
+    return position ? [position] : [];
+  }
+
+  async getPosition(symbol: string): Promise<Position | null> {
+    this.checkAvailable('getPosition');
+
+    if (Math.abs(this.positionSize) < SIZE_EPSILON) {
+      return null;
+    }
+
+    const markPrice = this.getMarkPriceOrEntry();
+    const size = Math.abs(this.positionSize);
+
+    return {
+      symbol,
+      side: this.positionSize > 0 ? 'long' : 'short',
+      size,
+      entryPrice: this.positionEntryPrice,
+      markPrice,
+      unrealizedPnl: this.getUnrealizedPnlUsd(),
+      leverage: this.config.maxLeverage,
+      margin: (size * markPrice) / this.config.maxLeverage
+    };
+  }
+
+  async getAccountInfo(): Promise<{
+    balance: number;
+    availableMargin: number;
+    usedMargin: number;
+  }> {
+    this.checkAvailable('getAccountInfo');
+
+    const balance = this.getEquityUsd();
+    const usedMargin = (Math.abs(this.positionSize) * this.getMarkPriceOrEntry()) / this.config.maxLeverage;
+
+    return {
+      balance,
+      availableMargin: Math.max(0, balance - usedMargin),
+      usedMargin
+    };
+  }
+
+  async subscribeToMarketData(
+    _symbol: string,
+    callback: (data: MarketData) => void
+  ): Promise<void> {
+    this.marketDataCallback = callback;
+  }
+
+  async unsubscribeFromMarketData(_symbol: string): Promise<void> {
+    this.marketDataCallback = null;
+  }
+
+  async close(): Promise<void> {
+    this.marketDataCallback = null;
+  }
+
+  async getFills(symbol: string, since: number): Promise<Fill[]> {
+    this.checkAvailable('getFills');
+    return this.fills
+      .filter(fill => fill.timestamp >= since)
+      .map(fill => ({
+        orderId: fill.orderId,
+        symbol,
+        side: fill.side,
+        size: fill.size,
+        price: fill.price,
+        fee: fill.feeUsd,
+        feeAsset: 'USDC', // As the live venues report it
+        liquidity: fill.liquidity,
+        timestamp: fill.timestamp
+      }));
+  }
+
+  /**
+   * Every fill so far with its realized PnL, in the order they happened.
+   */
+  getFillLog(): SimulatedFill[] {
+    return [...this.fills];
+  }
+
+  getRealizedPnlUsd(): number {
+    return this.realizedPnlUsd;
+  }
+
+  getFeesPaidUsd(): number {
+    return this.feesPaidUsd;
+  }
+
+  getFundingUsd(): number {
+    return this.fundingUsd;
+  }
+
+  getUnrealizedPnlUsd(): number {
+    if (Math.abs(this.positionSize) < SIZE_EPSILON || !this.hasBook()) {
+      return 0;
+    }
+
+    const markPrice = this.buildMarketData(this.config.symbol).midPrice;
+    return (markPrice - this.positionEntryPrice) * this.positionSize;
+  }
+
+  getEquityUsd(): number {
+    return this.config.initialBalanceUsd + this.realizedPnlUsd - this.feesPaidUsd + this.fundingUsd + this.getUnrealizedPnlUsd();
+  }
+
+  getSignedPositionSize(): number {
+    return this.positionSize;
+  }
+
+  /**
+   * Throw if the venue is down or a failure was injected for this operation.
+   */
+  private checkAvailable(operation: SimulatedOperation): void {
+    if (this.outage) {
+      throw new Error(`${this.name}: Exchange unavailable (simulated outage)`);
+    }
+
+    const failure = this.injectedFailures.get(operation);
+    if (failure && failure.remaining > 0) {
+      failure.remaining--;
+      if (failure.remaining === 0) {
+        this.injectedFailures.delete(operation);
+      }
+      throw new Error(`${this.name}: ${failure.message}`);
+    }
+  }
+
+  /**
+   * Settle funding on the open position for each hour boundary passed since the last settlement.
+   * A positive rate means longs pay shorts.
+   */
+  private settleFunding(timestamp: number): void {
+    const boundary = Math.floor(timestamp / FUNDING_INTERVAL_MS) * FUNDING_INTERVAL_MS;
+
+    if (this.lastFundingTime === null || boundary <= this.lastFundingTime) {
+      this.lastFundingTime = this.lastFundingTime ?? boundary;
+      return;
+    }
+
+    const hours = (boundary - this.lastFundingTime) / FUNDING_INTERVAL_MS;
+    this.lastFundingTime = boundary;
+
+    if (Math.abs(this.positionSize) < SIZE_EPSILON || !this.hasBook()) {
+      return;
+    }
+
+    const markPrice = this.buildMarketData(this.config.symbol).midPrice;
+    const amountUsd = -this.positionSize * markPrice * this.fundingRate * hours;
+    this.fundingUsd += amountUsd;
+    this.fundingPayments.push({ timestamp: boundary, amountUsd, rate: this.fundingRate });
+    this.logger.debug(`${this.name}: Funding ${amountUsd >= 0 ? 'received' : 'paid'} $${Math.abs(amountUsd).toFixed(4)}`);
+  }
+
+  private buildMarketInfo(): MarketInfo {
+    return {
+      symbol: this.config.symbol,
+      marketId: 0,
+      tickSize: this.config.tickSize,
+      lotSize: this.config.lotSize,
+      minSize: this.config.lotSize
+    };
+  }
+
+  private buildMarketData(symbol: string): MarketData {
+    const book = this.requireBook();
+
+    if (book.bids.length === 0 || book.asks.length === 0) {
+      throw new Error(`${this.name}: Order book has an empty side`);
+    }
+
+    const bidPrice = book.bids[0][0];
+    const askPrice = book.asks[0][0];
+
+    return {
+      symbol,
+      bidPrice,
+      askPrice,
+      midPrice: (bidPrice + askPrice) / 2,
+      timestamp: book.timestamp
+    };
+  }
+
+  private getMarkPriceOrEntry(): number {
+    return this.hasBook() ? this.buildMarketData(this.config.symbol).midPrice : this.positionEntryPrice;
+  }
+
+  private requireBook(): OrderBook {
+    if (!this.book) {
+      throw new Error(`${this.name}: No order book set yet`);
+    }
+    return this.book;
+  }
+
+  /**
+   * Validate size and apply reduce-only clamping.
+   */
+  private validateOrderSize(side: OrderSide, size: number, reduceOnly?: boolean): number {
+    if (!(size > 0)) {
+      throw new Error(`${this.name}: Invalid order size ${size}`);
+    }
+
+    if (!reduceOnly) {
+      return size;
+    }
+
+    const reducible = side === 'sell' ? Math.max(0, this.positionSize) : Math.max(0, -this.positionSize);
+    if (reducible < SIZE_EPSILON) {
+      throw new Error(`${this.name}: Reduce-only ${side} rejected - no position to reduce`);
+    }
+
+    return Math.min(size, reducible);
+  }
+
+  /**
+   * Walk the opposite side of the book up to `limitPrice`, filling the order as taker.
+   * Consumed liquidity is removed until the book is replaced.
+   * Returns the average price of the liquidity taken.
+   */
+  private takeLiquidity(order: Order, limitPrice: number): number {
+    const book = this.requireBook();
+    const levels = order.side === 'buy' ? book.asks : book.bids;
+    let notional = 0;
+    let taken = 0;
+
+    while (levels.length > 0 && order.size - order.filledSize > SIZE_EPSILON) {
+      const [price, available] = levels[0];
+      const marketable = order.side === 'buy' ? price <= limitPrice : price >= limitPrice;
+      if (!marketable) {
+        break;
+      }
+
+      const fillSize = Math.min(available, order.size - order.filledSize);
+      this.recordFill(order, fillSize, price, 'taker');
+      notional += fillSize * price;
+      taken += fillSize;
+
+      if (available - fillSize > SIZE_EPSILON) {
+        levels[0] = [price, available - fillSize];
+      } else {
+        levels.shift();
+      }
+    }
+
+    return taken > 0 ? notional / taken : 0;
+  }
+
+  /**
+   * Size on the opposite side of the book at `limitPrice` or better.
+   */
+  private liquidityUpTo(side: OrderSide, limitPrice: number): number {
+    const levels = side === 'buy' ? this.requireBook().asks : this.requireBook().bids;
+    return levels
+      .filter(([price]) => side === 'buy' ? price <= limitPrice : price >= limitPrice)
+      .reduce((sum, [, size]) => sum + size, 0);
+  }
+
+  /**
+   * Cancel resting orders whose expiry has passed.
+   */
+  private expireOrders(): void {
+    const now = Date.now();
+    for (const [orderId, expiresAt] of this.expiries) {
+      const order = this.orders.get(orderId)!;
+      if (order.status !== 'open' && order.status !== 'partially_filled') {
+        this.expiries.delete(orderId);
+      } else if (now >= expiresAt) {
+        order.status = 'cancelled';
+        this.expiries.delete(orderId);
+        this.logger.debug(`${this.name}: Simulated order ${orderId} expired`);
+      }
+    }
+  }
+
+  /**
+   * Fill resting limit orders that the current book has reached.
+   */
+  private matchRestingOrders(): void {
+    this.expireOrders();
+    const book = this.requireBook();
+
+    for (const order of this.orders.values()) {
+      if (order.type !== 'limit' || (order.status !== 'open' && order.status !== 'partially_filled')) {
+        continue;
+      }
+
+      const price = order.price!;
+      const levels = order.side === 'buy' ? book.asks : book.bids;
+      let available = 0;
+
+      for (const [levelPrice, levelSize] of levels) {
+        const reached = order.side === 'buy'
+          ? (this.config.makerFillModel === 'touch' ? levelPrice <= price : levelPrice < price)
+          : (this.config.makerFillModel === 'touch' ? levelPrice >= price : levelPrice > price);
+        if (!reached) {
+          break;
+        }
+        available += levelSize;
+      }
+
+      if (available > SIZE_EPSILON) {
+        const fillSize = Math.min(available, order.size - order.filledSize);
+        this.recordFill(order, fillSize, price, 'maker');
+      }
+    }
+  }
+
+  /**
+   * Apply a fill to the order, position and PnL ledger.
+   */
+  private recordFill(order: Order, size: number, price: number, liquidity: 'maker' | 'taker'): SimulatedFill {
+    const feeBps = liquidity === 'maker' ? this.config.fees.makerFeeBps : this.config.fees.takerFeeBps;
+    const feeUsd = (size * price * feeBps) / 10000;
+    const signedSize = order.side === 'buy' ? size : -size;
+    let realized = 0;
+
+    if (this.positionSize === 0 || Math.sign(this.positionSize) === Math.sign(signedSize)) {
+      // Opening or adding - blend the entry price
+      const newSize = this.positionSize + signedSize;
+      this.positionEntryPrice =
+        (this.positionEntryPrice * Math.abs(this.positionSize) + price * size) / Math.abs(newSize);
+      this.positionSize = newSize;
+    } else {
+      // Reducing (and possibly flipping)
+      const closing = Math.min(size, Math.abs(this.positionSize));
+      realized = (price - this.positionEntryPrice) * closing * Math.sign(this.positionSize);
+      this.positionSize += signedSize;
+
+      if (Math.abs(this.positionSize) < SIZE_EPSILON) {
+        this.positionSize = 0;
+        this.positionEntryPrice = 0;
+      } else if (Math.sign(this.positionSize) === Math.sign(signedSize)) {
+        this.positionEntryPrice = price;
+      }
+    }
+
+    this.realizedPnlUsd += realized;
+    this.feesPaidUsd += feeUsd;
+
+    order.averageFillPrice = ((order.averageFillPrice || 0) * order.filledSize + price * size) / (order.filledSize + size);
+    order.filledSize += size;
+    order.status = order.size - order.filledSize > SIZE_EPSILON ? 'partially_filled' : 'filled';
+
+    const fill: SimulatedFill = {
+      timestamp: Date.now(),
+      exchange: this.name,
+      orderId: order.orderId,
+      side: order.side,
+      size,
+      price,
+      liquidity,
+      feeUsd,
+      realizedPnlUsd: realized
+    };
+    this.fills.push(fill);
+    return fill;
+  }
+}
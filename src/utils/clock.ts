@@ -0,0 +1,24 @@
+/**
+ * Time source used by sleep() and anything that needs to wait.
+ * Live trading uses the system clock; the backtester swaps in a simulated one.
+ */
+
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+let activeClock: Clock = systemClock;
+
+export function getClock(): Clock {
+  return activeClock;
+}
+
+export function setClock(clock: Clock): void {
+  activeClock = clock;
+}
@@ -1,28 +1,30 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { VenueId } from '../config/types';
+
+/** One leg of a logged trade */
+export interface TradeLogLeg {
+  venue: VenueId;
+  side?: 'buy' | 'sell';
+  orderId?: string;
+  size?: number;
+  price?: number;
+  filled?: boolean;
+  feeUsd?: number;
+}
 
 export interface TradeLogEntry {
   timestamp: string;
   tradeId: string;
-  action: 'ENTRY' | 'EXIT' | 'EMERGENCY_CLOSE' | 'UNHEDGED_CLOSE';
+  action: 'ENTRY' | 'EXIT' | 'FLIP' | 'EMERGENCY_CLOSE' | 'UNHEDGED_CLOSE';
+  symbol?: string; // Market, e.g. BTC-PERP (last column, so older files keep their layout)
+  fundingEdgeUsd?: number; // Funding (per unit) the entry/exit decision counted on top of the gap
   
   // Entry details
   entryGapUsd?: number;
-  lighterSide?: 'buy' | 'sell';
-  nadoSide?: 'buy' | 'sell';
   
-  // Execution details
-  lighterOrderId?: string;
-  lighterSize?: number;
-  lighterPrice?: number;
-  lighterFilled?: boolean;
-  lighterFeeUsd?: number;
-  
-  nadoOrderId?: string;
-  nadoSize?: number;
-  nadoPrice?: number;
-  nadoFilled?: boolean;
-  nadoFeeUsd?: number;
+  // Execution details, one per venue traded
+  legs?: TradeLogLeg[];
   
   // Exit details
   exitGapUsd?: number;
@@ -31,8 +33,9 @@ export interface TradeLogEntry {
   // P&L
   grossPnlUsd?: number;
   totalFeesUsd?: number;
-  netPnlUsd?: number;
+  netPnlUsd?: number; // Gross - fees + funding
   netPnlBtc?: number;
+  fundingUsd?: number; // Funding received (+) or paid (-) while the position was open
   
   // Status
   status: 'SUCCESS' | 'FAILED' | 'PARTIAL' | 'UNHEDGED';
@@ -65,7 +68,11 @@ export class CsvTradeLogger {
     'Total Fees USD',
     'Net P&L USD',
     'Net P&L BTC',
-    'Notes'
+    'Notes',
+    'Symbol',
+    'Funding Edge USD',
+    'Funding USD',
+    'Other Legs'
   ];
 
   constructor(logDirectory: string = './logs') {
@@ -102,6 +109,15 @@ export class CsvTradeLogger {
   }
 
   public logTrade(entry: TradeLogEntry): void {
+    // Lighter and Nado legs keep the columns they had before other venues; the rest share Other Legs
+    const legs = entry.legs || [];
+    const lighter = legs.find(leg => leg.venue === 'lighter');
+    const nado = legs.find(leg => leg.venue === 'nado');
+    const otherLegs = legs
+      .filter(leg => leg !== lighter && leg !== nado)
+      .map(leg => `${leg.venue} ${leg.side ?? ''} ${leg.size ?? ''} @ ${leg.price ?? ''} fee ${leg.feeUsd?.toFixed(2) ?? ''}`)
+      .join('; ');
+
     const row = [
       this.escapeCSV(entry.timestamp),
       this.escapeCSV(entry.tradeId),
@@ -110,29 +126,34 @@ export class CsvTradeLogger {
       this.escapeCSV(entry.entryGapUsd),
       this.escapeCSV(entry.exitGapUsd),
       this.escapeCSV(entry.holdDurationSeconds),
-      this.escapeCSV(entry.lighterSide),
-      this.escapeCSV(entry.lighterOrderId),
-      this.escapeCSV(entry.lighterSize),
-      this.escapeCSV(entry.lighterPrice),
-      this.escapeCSV(entry.lighterFilled),
-      this.escapeCSV(entry.lighterFeeUsd?.toFixed(2)),
-      this.escapeCSV(entry.nadoSide),
-      this.escapeCSV(entry.nadoOrderId),
-      this.escapeCSV(entry.nadoSize),
-      this.escapeCSV(entry.nadoPrice),
-      this.escapeCSV(entry.nadoFilled),
-      this.escapeCSV(entry.nadoFeeUsd?.toFixed(2)),
+      ...this.legColumns(lighter),
+      ...this.legColumns(nado),
       this.escapeCSV(entry.grossPnlUsd?.toFixed(2)),
       this.escapeCSV(entry.totalFeesUsd?.toFixed(2)),
       this.escapeCSV(entry.netPnlUsd?.toFixed(2)),
       this.escapeCSV(entry.netPnlBtc?.toFixed(8)),
-      this.escapeCSV(entry.notes)
+      this.escapeCSV(entry.notes),
+      this.escapeCSV(entry.symbol),
+      this.escapeCSV(entry.fundingEdgeUsd),
+      this.escapeCSV(entry.fundingUsd?.toFixed(2)),
+      this.escapeCSV(otherLegs)
     ];
 
     const line = row.join(',') + '\n';
     fs.appendFileSync(this.logFilePath, line, 'utf8');
   }
 
+  private legColumns(leg: TradeLogLeg | undefined): string[] {
+    return [
+      this.escapeCSV(leg?.side),
+      this.escapeCSV(leg?.orderId),
+      this.escapeCSV(leg?.size),
+      this.escapeCSV(leg?.price),
+      this.escapeCSV(leg?.filled),
+      this.escapeCSV(leg?.feeUsd?.toFixed(2))
+    ];
+  }
+
   public getLogFilePath(): string {
     return this.logFilePath;
   }
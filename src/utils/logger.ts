@@ -2,9 +2,10 @@
  * Logging utility using Winston.
  */
 
+import * as path from 'path';
 import winston from 'winston';
 
-export function createLogger(level: string = 'info'): winston.Logger {
+export function createLogger(level: string = 'info', logDir: string = '.'): winston.Logger {
   return winston.createLogger({
     level,
     format: winston.format.combine(
@@ -17,8 +18,8 @@ export function createLogger(level: string = 'info'): winston.Logger {
     ),
     transports: [
       new winston.transports.Console(),
-      new winston.transports.File({ filename: 'bot-error.log', level: 'error' }),
-      new winston.transports.File({ filename: 'bot-combined.log' })
+      new winston.transports.File({ filename: path.join(logDir, 'bot-error.log'), level: 'error' }),
+      new winston.transports.File({ filename: path.join(logDir, 'bot-combined.log') })
     ]
   });
 }
@@ -3,6 +3,7 @@
  */
 
 import { Logger } from './logger';
+import { getClock } from './clock';
 
 export interface RetryOptions {
   maxAttempts: number;
@@ -50,7 +51,26 @@ export async function retryWithBackoff<T>(
   throw lastError;
 }
 
+// Network errors after which a request may still have reached the server
+const AMBIGUOUS_ERROR_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'EPIPE', 'ESOCKETTIMEDOUT', 'ERR_NETWORK']);
+
+/**
+ * Whether a failed request may still have taken effect: it timed out, the connection dropped,
+ * or the server answered with a 5xx. Retrying such a request can repeat it - check first.
+ */
+export function isAmbiguousError(error: unknown): boolean {
+  const failure = error as { code?: string; response?: { status?: number }; isAxiosError?: boolean };
+  if (!failure || typeof failure !== 'object') {
+    return false;
+  }
+  if (failure.response) {
+    return (failure.response.status ?? 0) >= 500;
+  }
+  // An axios error without a response never got an answer - unless the connection was refused
+  return AMBIGUOUS_ERROR_CODES.has(failure.code ?? '') || (!!failure.isAxiosError && failure.code !== 'ECONNREFUSED');
+}
+
 export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+  return getClock().sleep(ms);
 }
 
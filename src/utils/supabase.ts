@@ -52,6 +52,7 @@ export interface DbTrade {
   fees_entry: number;
   fees_exit: number;
   fees_total: number;
+  funding_usd?: number; // Received (+) or paid (-) while the position was open
   created_at?: string;
 }
 
@@ -24,9 +24,13 @@ CREATE TABLE IF NOT EXISTS trades (
   fees_entry NUMERIC(20, 2) NOT NULL,
   fees_exit NUMERIC(20, 2) NOT NULL,
   fees_total NUMERIC(20, 2) NOT NULL,
+  funding_usd NUMERIC(20, 2) NOT NULL DEFAULT 0, -- Received (+) or paid (-) while the position was open
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Tables created before funding was tracked
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS funding_usd NUMERIC(20, 2) NOT NULL DEFAULT 0;
+
 -- Index for fast queries
 CREATE INDEX IF NOT EXISTS idx_trades_entry_timestamp ON trades(entry_timestamp DESC);
 CREATE INDEX IF NOT EXISTS idx_trades_trade_id ON trades(trade_id);
@@ -84,14 +88,15 @@ CREATE OR REPLACE VIEW daily_performance AS
 SELECT 
   DATE(entry_timestamp) as trade_date,
   COUNT(*) as total_trades,
-  SUM(CASE WHEN (realized_pnl_usd - fees_total) > 0 THEN 1 ELSE 0 END) as winning_trades,
-  SUM(CASE WHEN (realized_pnl_usd - fees_total) <= 0 THEN 1 ELSE 0 END) as losing_trades,
-  ROUND(AVG(CASE WHEN (realized_pnl_usd - fees_total) > 0 THEN 1.0 ELSE 0.0 END)::numeric, 4) as win_rate,
+  SUM(CASE WHEN (realized_pnl_usd - fees_total + funding_usd) > 0 THEN 1 ELSE 0 END) as winning_trades,
+  SUM(CASE WHEN (realized_pnl_usd - fees_total + funding_usd) <= 0 THEN 1 ELSE 0 END) as losing_trades,
+  ROUND(AVG(CASE WHEN (realized_pnl_usd - fees_total + funding_usd) > 0 THEN 1.0 ELSE 0.0 END)::numeric, 4) as win_rate,
   SUM(realized_pnl_btc) as total_pnl_btc,
   SUM(realized_pnl_usd) as total_pnl_usd,
   SUM(fees_total) as total_fees,
-  SUM(realized_pnl_usd - fees_total) as net_pnl_usd,
-  AVG(hold_duration_seconds)::integer as avg_hold_duration_seconds
+  SUM(realized_pnl_usd - fees_total + funding_usd) as net_pnl_usd,
+  AVG(hold_duration_seconds)::integer as avg_hold_duration_seconds,
+  SUM(funding_usd) as total_funding_usd
 FROM trades
 GROUP BY DATE(entry_timestamp)
 ORDER BY trade_date DESC;
@@ -123,12 +128,13 @@ SELECT
   position_size_btc,
   realized_pnl_usd,
   fees_total,
-  (realized_pnl_usd - fees_total) as net_pnl,
+  (realized_pnl_usd - fees_total + funding_usd) as net_pnl,
   hold_duration_seconds,
   CASE 
-    WHEN (realized_pnl_usd - fees_total) > 0 THEN 'WIN'
+    WHEN (realized_pnl_usd - fees_total + funding_usd) > 0 THEN 'WIN'
     ELSE 'LOSS'
-  END as result
+  END as result,
+  funding_usd
 FROM trades
 ORDER BY entry_timestamp DESC
 LIMIT 100;
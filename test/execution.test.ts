@@ -0,0 +1,146 @@
+import { SimulatedClock } from '../src/backtest/simulated-clock';
+import { ExchangeCapabilities, ExecutionConfig, Order } from '../src/config/types';
+import { ExecutionManager } from '../src/core/execution';
+import { HedgeRepairManager } from '../src/core/hedge-repair';
+import { OrderJournal } from '../src/core/order-journal';
+import { SimulatedExchange } from '../src/simulator/simulated-exchange';
+import { SYMBOL, createPair, drive, fillRestingOrders, setBook, silentLogger } from './helpers';
+
+const EXECUTION: ExecutionConfig = {
+  entryMode: 'sequential_maker',
+  exitMode: 'simultaneous',
+  nadoMakerOffsetTicks: 0,
+  nadoMakerTimeoutMs: 5000,
+  nadoFillPollIntervalMs: 100,
+  orderLookupTimeoutMs: 2000
+};
+
+/**
+ * A venue whose order lookups miss fresh orders, as Lighter's can.
+ */
+class LaggingLookupExchange extends SimulatedExchange {
+  protected getCapabilities(): ExchangeCapabilities {
+    return { ...super.getCapabilities(), reliableOrderLookup: false };
+  }
+
+  async getOrderByClientId(_symbol: string, _clientOrderId: string): Promise<Order | null> {
+    return null;
+  }
+}
+
+describe('ExecutionManager', () => {
+  const logger = silentLogger();
+  let clock: SimulatedClock;
+  let nado: SimulatedExchange;
+  let lighter: SimulatedExchange;
+
+  beforeEach(() => {
+    clock = new SimulatedClock(Date.now());
+    clock.install();
+    [nado, lighter] = createPair(logger);
+    setBook(nado, 100000);
+    setBook(lighter, 100100);
+  });
+
+  afterEach(() => {
+    clock.clear();
+    clock.uninstall();
+  });
+
+  describe('Lighter leg fails after the Nado maker fills', () => {
+    async function enterWithRejectedHedge(execution: ExecutionManager): Promise<void> {
+      lighter.injectFailure('placeOrder', 'Simulated rejection: insufficient margin');
+      const entry = execution.executeSpreadEntry(nado, lighter, SYMBOL, 0.1, 100000, 100100, 5000, true, 'trade-1');
+      await expect(drive(clock, entry, () => fillRestingOrders(nado))).rejects.toThrow(/Lighter order failed - Nado filled 0.1 unhedged/);
+    }
+
+    it('leaves the filled maker leg in place for hedge repair', async () => {
+      const execution = new ExecutionManager(logger, EXECUTION, undefined, 'nado');
+      await enterWithRejectedHedge(execution);
+
+      expect(nado.getSignedPositionSize()).toBeCloseTo(0.1);
+      expect(lighter.getSignedPositionSize()).toBe(0);
+    });
+
+    it('unwinds the unhedged leg under the unwind policy', async () => {
+      const execution = new ExecutionManager(logger, EXECUTION, undefined, 'nado');
+      await enterWithRejectedHedge(execution);
+
+      const repair = new HedgeRepairManager([nado, lighter], execution, logger, {
+        policy: 'unwind', maxPriceDeviationBps: 50, deadlineMs: 10000, retryIntervalMs: 500, toleranceBtc: 0.001
+      });
+      const result = await drive(clock, repair.repair(SYMBOL));
+
+      expect(result.status).toBe('repaired');
+      expect(result.actions.map(action => action.mode)).toEqual(['unwind']);
+      expect(nado.getSignedPositionSize()).toBeCloseTo(0);
+      expect(lighter.getSignedPositionSize()).toBe(0);
+    });
+
+    it('completes the hedge under the top_up policy', async () => {
+      const execution = new ExecutionManager(logger, EXECUTION, undefined, 'nado');
+      await enterWithRejectedHedge(execution);
+
+      const repair = new HedgeRepairManager([nado, lighter], execution, logger, {
+        policy: 'top_up', maxPriceDeviationBps: 50, deadlineMs: 10000, retryIntervalMs: 500, toleranceBtc: 0.001
+      });
+      const result = await drive(clock, repair.repair(SYMBOL));
+
+      expect(result.status).toBe('repaired');
+      expect(result.actions.map(action => action.mode)).toEqual(['top_up']);
+      expect(nado.getSignedPositionSize()).toBeCloseTo(0.1);
+      expect(lighter.getSignedPositionSize()).toBeCloseTo(-0.1);
+    });
+  });
+
+  describe('order submission', () => {
+    it('finds an order whose answer was lost instead of sending it again', async () => {
+      const journal = new OrderJournal(null, SYMBOL, logger);
+      const execution = new ExecutionManager(logger, EXECUTION, undefined, 'nado', journal);
+      nado.loseOrderResponses(1);
+
+      const order = await drive(clock, execution.executeLimitOrder(nado, SYMBOL, 'buy', 0.1, 100000.5));
+
+      expect(order.filledSize).toBeCloseTo(0.1);
+      expect(nado.getFillLog()).toHaveLength(1);
+      expect(nado.getSignedPositionSize()).toBeCloseTo(0.1);
+      expect(journal.getUnresolved()).toHaveLength(0);
+    });
+
+    it('does not resend on a venue whose lookups can miss the order', async () => {
+      const journal = new OrderJournal(null, SYMBOL, logger);
+      const execution = new ExecutionManager(logger, EXECUTION, undefined, 'nado', journal);
+      const lagging = new LaggingLookupExchange('Lighter', logger, {}, 'lighter');
+      setBook(lagging, 100100);
+      lagging.loseOrderResponses(1);
+
+      const order = execution.executeLimitOrder(lagging, SYMBOL, 'buy', 0.1, 100100.5);
+
+      await expect(drive(clock, order)).rejects.toThrow(/may have been placed.*not sending it again/);
+      expect(lagging.getFillLog()).toHaveLength(1);
+      expect(journal.getUnresolved().map(entry => entry.status)).toEqual(['unknown']);
+    });
+  });
+
+  describe('simultaneous exit', () => {
+    it('sends a rejected leg again at market, reduce-only, without touching the other', async () => {
+      const execution = new ExecutionManager(logger, EXECUTION, undefined, 'nado');
+      await drive(clock, nado.placeMarketOrder(SYMBOL, 'buy', 0.1));
+      await drive(clock, lighter.placeMarketOrder(SYMBOL, 'sell', 0.1));
+      nado.injectFailure('placeOrder', 'Simulated rejection: price band');
+      const nadoOrders = jest.spyOn(nado, 'placeOrder');
+      const lighterOrders = jest.spyOn(lighter, 'placeOrder');
+
+      const exit = execution.executeSpreadExit(nado, lighter, SYMBOL, 0.1, 100000, 100100, 5000, true, 'trade-1');
+      await drive(clock, exit);
+
+      expect(nado.getSignedPositionSize()).toBeCloseTo(0);
+      expect(lighter.getSignedPositionSize()).toBeCloseTo(0);
+      expect(nadoOrders.mock.calls.map(([request]) => [request.type, request.reduceOnly])).toEqual([
+        ['limit', true],
+        ['market', true]
+      ]);
+      expect(lighterOrders).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Shared setup for the scenario tests: a silent logger, a simulated Nado/Lighter pair and a
+ * driver that runs bot code to completion on the simulated clock, so fill polling, cooldowns
+ * and repair deadlines take no real time.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import winston from 'winston';
+import { SimulatedClock } from '../src/backtest/simulated-clock';
+import { SimulatedExchange } from '../src/simulator/simulated-exchange';
+import { Logger } from '../src/utils/logger';
+
+export const SYMBOL = 'BTC-PERP';
+
+export function silentLogger(): Logger {
+  return winston.createLogger({ silent: true });
+}
+
+/**
+ * The configured pair, in order: Nado posts the maker leg.
+ */
+export function createPair(logger: Logger): [SimulatedExchange, SimulatedExchange] {
+  return [
+    new SimulatedExchange('Nado', logger, {}, 'nado'),
+    new SimulatedExchange('Lighter', logger, {}, 'lighter')
+  ];
+}
+
+/**
+ * A one-level book a dollar wide around `mid`, `depth` BTC on each side.
+ */
+export function setBook(exchange: SimulatedExchange, mid: number, depth: number = 5): void {
+  exchange.setOrderBook([[mid - 0.5, depth]], [[mid + 0.5, depth]]);
+}
+
+/**
+ * Fill every order resting on the venue as maker - the counterparty the scenario stands in for.
+ */
+export function fillRestingOrders(exchange: SimulatedExchange): void {
+  for (const order of exchange.getOpenOrders()) {
+    exchange.fillOrder(order.orderId);
+  }
+}
+
+export function tempDir(prefix: string): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+}
+
+/**
+ * Run `work` on the simulated clock until it settles, waking its sleepers in order. `onWake`
+ * runs after every wake-up, for scenarios that act on the venues while the bot waits.
+ */
+export async function drive<T>(clock: SimulatedClock, work: Promise<T>, onWake?: () => void): Promise<T> {
+  let settled = false;
+  work.then(() => { settled = true; }, () => { settled = true; });
+
+  while (!settled) {
+    if (!(await clock.advanceToNextSleeper()) && !settled) {
+      throw new Error('Scenario stalled: the work is pending but nothing is waiting on the clock');
+    }
+    onWake?.();
+  }
+  return work;
+}
@@ -0,0 +1,29 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StateConfig } from '../src/config/types';
+import { StateStore } from '../src/core/state-store';
+import { SYMBOL, silentLogger, tempDir } from './helpers';
+
+describe('StateStore', () => {
+  const logger = silentLogger();
+  let config: StateConfig;
+  let journalPath: string;
+
+  beforeEach(() => {
+    config = { enabled: true, directory: tempDir('basis-state-'), snapshotEveryEvents: 50 };
+    journalPath = path.join(config.directory, 'BTC-PERP.journal.jsonl');
+  });
+
+  it('drops a line torn by a crash and appends after it on a line of its own', () => {
+    new StateStore(config, SYMBOL, logger).append({ type: 'POSITION_DISCARDED', reason: 'first' });
+    fs.appendFileSync(journalPath, '{"seq":2,"timest');
+
+    const store = new StateStore(config, SYMBOL, logger);
+    store.load();
+    store.append({ type: 'POSITION_DISCARDED', reason: 'second' });
+
+    const entries = fs.readFileSync(journalPath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(entries.map(entry => [entry.seq, entry.event.reason])).toEqual([[1, 'first'], [2, 'second']]);
+    expect(() => new StateStore(config, SYMBOL, logger).load()).not.toThrow();
+  });
+});
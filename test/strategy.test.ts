@@ -0,0 +1,111 @@
+import * as path from 'path';
+import { SimulatedClock } from '../src/backtest/simulated-clock';
+import { loadConfig } from '../src/config/config';
+import { BotConfig, HedgeRepairConfig } from '../src/config/types';
+import { BasisTradingStrategy } from '../src/core/strategy';
+import { SimulatedExchange } from '../src/simulator/simulated-exchange';
+import { createPair, drive, fillRestingOrders, setBook, silentLogger, tempDir } from './helpers';
+
+/**
+ * The example config with its output kept in a scratch directory: sequential_maker entries with
+ * Nado as maker, entry gap 90, 0.1 BTC.
+ */
+function scenarioConfig(stateDirectory: string, hedgeRepair?: Partial<HedgeRepairConfig>): BotConfig {
+  const config = loadConfig(path.join(__dirname, '..', 'config.example.json'));
+  return {
+    ...config,
+    state: { ...config.state!, directory: stateDirectory },
+    logging: { directory: tempDir('basis-logs-'), supabaseEnabled: false },
+    funding: { ...config.funding!, enabled: false },
+    hedgeRepair: { ...config.hedgeRepair!, deadlineMs: 10000, retryIntervalMs: 500, ...hedgeRepair }
+  };
+}
+
+describe('BasisTradingStrategy', () => {
+  const logger = silentLogger();
+  let clock: SimulatedClock;
+  let nado: SimulatedExchange;
+  let lighter: SimulatedExchange;
+
+  beforeEach(() => {
+    clock = new SimulatedClock(Date.now());
+    clock.install();
+    [nado, lighter] = createPair(logger);
+    // A 100 USD gap, Nado cheap: inside the entry band
+    setBook(nado, 100000);
+    setBook(lighter, 100100);
+  });
+
+  afterEach(() => {
+    clock.clear();
+    clock.uninstall();
+  });
+
+  async function startStrategy(config: BotConfig): Promise<BasisTradingStrategy> {
+    const strategy = new BasisTradingStrategy(config, nado, lighter, logger);
+    await drive(clock, strategy.initialize());
+    return strategy;
+  }
+
+  /**
+   * One evaluation, with the Nado maker order filled as soon as it rests.
+   */
+  function tick(strategy: BasisTradingStrategy): Promise<void> {
+    return drive(clock, strategy.onMarketUpdate(), () => fillRestingOrders(nado));
+  }
+
+  it('opens the spread long Nado, short Lighter', async () => {
+    const strategy = await startStrategy(scenarioConfig(tempDir('basis-state-')));
+
+    await tick(strategy);
+
+    const status = strategy.getStatus();
+    expect(status.state).toBe('OPEN');
+    expect(status.position.cheapExchange).toBe('nado');
+    expect(nado.getSignedPositionSize()).toBeCloseTo(0.1);
+    expect(lighter.getSignedPositionSize()).toBeCloseTo(-0.1);
+  });
+
+  describe('Lighter leg fails after the Nado maker fills', () => {
+    beforeEach(() => {
+      lighter.injectFailure('placeOrder', 'Simulated rejection: insufficient margin');
+    });
+
+    it('unwinds the Nado fill and stays flat under the unwind policy', async () => {
+      const strategy = await startStrategy(scenarioConfig(tempDir('basis-state-'), { policy: 'unwind' }));
+
+      await tick(strategy);
+
+      expect(strategy.getStatus().state).toBe('FLAT');
+      expect(nado.getSignedPositionSize()).toBeCloseTo(0);
+      expect(lighter.getSignedPositionSize()).toBe(0);
+    });
+
+    it('hedges the Nado fill and opens the position under the top_up policy', async () => {
+      const strategy = await startStrategy(scenarioConfig(tempDir('basis-state-'), { policy: 'top_up' }));
+
+      await tick(strategy);
+
+      expect(strategy.getStatus().state).toBe('OPEN');
+      expect(nado.getSignedPositionSize()).toBeCloseTo(0.1);
+      expect(lighter.getSignedPositionSize()).toBeCloseTo(-0.1);
+    });
+  });
+
+  it('recovers the open position from the state journal after a restart', async () => {
+    const stateDirectory = tempDir('basis-state-');
+    const first = await startStrategy(scenarioConfig(stateDirectory));
+    await tick(first);
+    const opened = first.getStatus().position;
+
+    // Rebuilt from the venues instead, the position would get today's gap and timestamp
+    await clock.advanceTo(clock.now() + 60000);
+    setBook(lighter, 100150);
+    const restarted = await startStrategy(scenarioConfig(stateDirectory));
+
+    const status = restarted.getStatus();
+    expect(status.state).toBe('OPEN');
+    expect(status.position.entryGapUsd).toBe(opened.entryGapUsd);
+    expect(status.position.entryTimestamp).toBe(opened.entryTimestamp);
+  });
+});
@@ -151,6 +151,42 @@ app.post('/api/close-all', async (req, res) => {
   }
 });
 
+// Circuit breaker trip state (shared with the bot through the state directory)
+function circuitBreakerPath() {
+  const { loadConfig } = require('./dist/config/config.js');
+  const { getCircuitBreakerPath } = require('./dist/core/circuit-breaker.js');
+  const filePath = getCircuitBreakerPath(loadConfig());
+  if (!filePath) {
+    throw new Error('State persistence is disabled - breaker trips only last until the bot restarts');
+  }
+  return filePath;
+}
+
+app.get('/api/breakers', (req, res) => {
+  try {
+    const { readCircuitBreakerState } = require('./dist/core/circuit-breaker.js');
+    res.json(readCircuitBreakerState(circuitBreakerPath()));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to read circuit breakers: ' + error.message });
+  }
+});
+
+// Operator reset - the bot resumes entries within a few seconds
+app.post('/api/breakers/reset', (req, res) => {
+  const operator = req.body?.operator;
+  if (!operator) {
+    return res.status(400).json({ error: 'operator is required' });
+  }
+  
+  try {
+    const { resetCircuitBreaker } = require('./dist/core/circuit-breaker.js');
+    const cleared = resetCircuitBreaker(circuitBreakerPath(), operator, req.body.note);
+    res.json({ success: true, cleared });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to reset circuit breakers: ' + error.message });
+  }
+});
+
 // Get logs (paginated)
 app.get('/api/logs', (req, res) => {
   const limit = parseInt(req.query.limit) || 100;